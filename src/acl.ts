@@ -0,0 +1,526 @@
+import crypto from "crypto";
+import fs from "fs";
+import config from "./config.json";
+import { Client } from "./client";
+import {
+  Category,
+  CATEGORIES,
+  commandTable,
+  commandsInCategory,
+  keyPositions,
+} from "./commands/command-table";
+import { toBinaryString } from "./utils/binary";
+import { globMatch } from "./utils/glob";
+
+/**
+ * A named ACL user. Passwords are kept as SHA-256 hex digests only.
+ * `commandRules` are the command rules applied so far, used to describe the
+ * user back in ACL LIST and GETUSER.
+ */
+export type User = {
+  name: string;
+  enabled: boolean;
+  nopass: boolean;
+  passwords: Set<string>;
+  commands: Set<string>;
+  commandRules: string[];
+  keys: string[];
+  channels: string[];
+};
+
+export type AclLogEntry = {
+  count: number;
+  reason: "auth" | "command" | "key" | "channel";
+  context: "toplevel" | "multi" | "lua";
+  object: string;
+  username: string;
+  clientInfo: string;
+  entryId: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/**
+ * Raised for a rule that cannot be applied. The message is the part after
+ * `Error in ACL SETUSER modifier '<rule>': `.
+ */
+class AclRuleError extends Error {
+  constructor(public rule: string, message: string) {
+    super(message);
+    this.name = "AclRuleError";
+  }
+}
+
+const users = new Map<string, User>();
+
+// Failures are grouped into one entry when they repeat within this window.
+const LOG_GROUPING_WINDOW = 60_000;
+
+let log: AclLogEntry[] = [];
+let nextEntryId = 0;
+
+const hashPassword = (password: string) =>
+  crypto.createHash("sha256").update(password, "latin1").digest("hex");
+
+const createUser = (name: string): User => ({
+  name,
+  enabled: false,
+  nopass: false,
+  passwords: new Set(),
+  commands: new Set(),
+  commandRules: ["-@all"],
+  keys: [],
+  channels: [],
+});
+
+const copyUser = (user: User): User => ({
+  ...user,
+  passwords: new Set(user.passwords),
+  commands: new Set(user.commands),
+  commandRules: [...user.commandRules],
+  keys: [...user.keys],
+  channels: [...user.channels],
+});
+
+/**
+ * Resolves the target of a `+`/`-` command rule to command names.
+ */
+const ruleCommands = (rule: string, target: string) => {
+  if (target.startsWith("@")) {
+    const category = target.slice(1).toLowerCase();
+    if (category !== "all" && !CATEGORIES.includes(category as Category)) {
+      throw new AclRuleError(rule, "Unknown command or category name in ACL");
+    }
+    return commandsInCategory(category);
+  }
+
+  const command = target.toUpperCase();
+  if (!(command in commandTable)) {
+    throw new AclRuleError(rule, "Unknown command or category name in ACL");
+  }
+  return [command];
+};
+
+const setCommandRule = (user: User, rule: string) => {
+  const allow = rule[0] === "+";
+  for (const command of ruleCommands(rule, rule.slice(1))) {
+    if (allow) {
+      user.commands.add(command);
+    } else {
+      user.commands.delete(command);
+    }
+  }
+
+  // `+@all` and `-@all` make every earlier rule irrelevant.
+  if (/^[+-]@all$/i.test(rule)) {
+    user.commandRules = [rule.toLowerCase()];
+  } else {
+    user.commandRules.push(rule.toLowerCase());
+  }
+};
+
+/**
+ * Applies one rule of ACL SETUSER or an ACL file line to `user`, with the
+ * same syntax as redis: `on`, `off`, `>password`, `<password`, `#hash`,
+ * `!hash`, `nopass`, `resetpass`, `~pattern`, `allkeys`, `resetkeys`,
+ * `&pattern`, `allchannels`, `resetchannels`, `+command`, `-command`,
+ * `+@category`, `-@category`, `allcommands`, `nocommands` and `reset`.
+ *
+ * @throws {AclRuleError} If the rule is invalid.
+ */
+const applyRule = (user: User, rule: string) => {
+  const lower = rule.toLowerCase();
+
+  switch (lower) {
+    case "on":
+      user.enabled = true;
+      return;
+    case "off":
+      user.enabled = false;
+      return;
+    case "nopass":
+      user.nopass = true;
+      user.passwords.clear();
+      return;
+    case "resetpass":
+      user.nopass = false;
+      user.passwords.clear();
+      return;
+    case "allkeys":
+      user.keys = ["*"];
+      return;
+    case "resetkeys":
+      user.keys = [];
+      return;
+    case "allchannels":
+      user.channels = ["*"];
+      return;
+    case "resetchannels":
+      user.channels = [];
+      return;
+    case "allcommands":
+      setCommandRule(user, "+@all");
+      return;
+    case "nocommands":
+      setCommandRule(user, "-@all");
+      return;
+    case "reset":
+      for (const reset of ["resetpass", "resetkeys", "resetchannels", "off"]) {
+        applyRule(user, reset);
+      }
+      setCommandRule(user, "-@all");
+      return;
+  }
+
+  const value = rule.slice(1);
+  switch (rule[0]) {
+    case ">":
+      user.passwords.add(hashPassword(value));
+      user.nopass = false;
+      return;
+    case "<":
+      if (!user.passwords.delete(hashPassword(value))) {
+        throw new AclRuleError(
+          rule,
+          "The password you are trying to remove from the user does not exist"
+        );
+      }
+      return;
+    case "#":
+      if (!/^[0-9a-f]{64}$/.test(value)) {
+        throw new AclRuleError(
+          rule,
+          "The password hash must be exactly 64 characters and contain only lowercase hexadecimal characters"
+        );
+      }
+      user.passwords.add(value);
+      user.nopass = false;
+      return;
+    case "!":
+      if (!user.passwords.delete(value)) {
+        throw new AclRuleError(
+          rule,
+          "The password you are trying to remove from the user does not exist"
+        );
+      }
+      return;
+    case "~":
+      if (!user.keys.includes(value)) {
+        user.keys.push(value);
+      }
+      return;
+    case "&":
+      if (!user.channels.includes(value)) {
+        user.channels.push(value);
+      }
+      return;
+    case "+":
+    case "-":
+      setCommandRule(user, rule);
+      return;
+  }
+
+  throw new AclRuleError(rule, "Syntax error");
+};
+
+/**
+ * Creates or updates a user. The rules are applied to a copy, so the user
+ * is left untouched when one of them is invalid.
+ *
+ * @throws {AclRuleError} On the first invalid rule.
+ */
+const setUser = (name: string, rules: string[]) => {
+  const user = copyUser(users.get(name) ?? createUser(name));
+  for (const rule of rules) {
+    applyRule(user, rule);
+  }
+  users.set(name, user);
+  return user;
+};
+
+/**
+ * @returns `true` if the user existed.
+ */
+const deleteUser = (name: string) => users.delete(name);
+
+const getUser = (name: string) => users.get(name);
+
+/**
+ * @returns Every user, sorted by name.
+ */
+const listUsers = () =>
+  [...users.values()].sort((a, b) => (a.name < b.name ? -1 : 1));
+
+/**
+ * Describes a user as the rules recreating it, the format of ACL LIST and
+ * of the ACL file.
+ */
+const describeUser = (user: User) =>
+  [
+    "user",
+    user.name,
+    user.enabled ? "on" : "off",
+    ...(user.nopass ? ["nopass"] : []),
+    ...[...user.passwords].map((hash) => `#${hash}`),
+    ...user.keys.map((pattern) => `~${pattern}`),
+    ...(user.channels.length > 0
+      ? user.channels.map((pattern) => `&${pattern}`)
+      : ["resetchannels"]),
+    ...user.commandRules,
+  ].join(" ");
+
+/**
+ * Resets the users to the single `default` user, which may run everything
+ * without a password unless `requirePass` is configured.
+ */
+const resetUsers = () => {
+  users.clear();
+  setUser("default", [
+    "on",
+    config.requirePass ? `>${config.requirePass}` : "nopass",
+    "allkeys",
+    "allchannels",
+    "allcommands",
+  ]);
+};
+
+/**
+ * Parses an ACL file: one `user <name> <rule> ...` line per user, blank
+ * lines and lines starting with `#` being ignored.
+ *
+ * @returns The users, or the error of the first invalid line as
+ *          `<path>:<line>: <message>` or why the file could not be read.
+ */
+const parseAclFile = (path: string): Map<string, User> | string => {
+  const parsed = new Map<string, User>();
+  let lines: string[];
+  try {
+    lines = fs.readFileSync(path, "utf8").split(/\r?\n/);
+  } catch (e: any) {
+    return `Error loading ACLs, opening file '${path}': ${e.message}`;
+  }
+
+  for (const [index, raw] of lines.entries()) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+
+    const [keyword, name, ...rules] = line.split(/\s+/);
+    const location = `${path}:${index + 1}`;
+    if (keyword !== "user" || !name) {
+      return `${location}: should start with user keyword and a username`;
+    }
+    if (parsed.has(name)) {
+      return `${location}: Duplicate user '${name}' found`;
+    }
+
+    const user = createUser(name);
+    try {
+      for (const rule of rules) {
+        applyRule(user, rule);
+      }
+    } catch (e) {
+      if (!(e instanceof AclRuleError)) {
+        throw e;
+      }
+      return `${location}: Error in applying operation '${e.rule}': ${e.message}`;
+    }
+    parsed.set(name, user);
+  }
+
+  return parsed;
+};
+
+/**
+ * Replaces the users with the ones in the ACL file. The `default` user is
+ * kept as configured when the file does not define it. Nothing changes when
+ * the file is invalid.
+ *
+ * @returns The error message, or `null` once loaded.
+ */
+const loadAclFile = (path: string) => {
+  const parsed = parseAclFile(path);
+  if (typeof parsed === "string") {
+    return parsed;
+  }
+
+  const fallback = users.get("default");
+  users.clear();
+  if (!parsed.has("default")) {
+    if (fallback) {
+      users.set("default", fallback);
+    } else {
+      resetUsers();
+    }
+  }
+  for (const [name, user] of parsed) {
+    users.set(name, user);
+  }
+  return null;
+};
+
+/**
+ * Writes every user to the ACL file, through a temporary file so a crash
+ * never leaves it half written.
+ */
+const saveAclFile = (path: string) => {
+  const data = [...users.values()].map(describeUser).join("\n") + "\n";
+  fs.writeFileSync(`${path}.tmp`, data);
+  fs.renameSync(`${path}.tmp`, path);
+};
+
+/**
+ * Checks a username and password.
+ *
+ * @returns `true` if the user exists, is enabled and the password matches.
+ */
+const checkPassword = (name: string, password: Buffer) => {
+  const user = users.get(name);
+  if (!user || !user.enabled) {
+    return false;
+  }
+  return (
+    user.nopass || user.passwords.has(hashPassword(toBinaryString(password)))
+  );
+};
+
+/**
+ * Checks whether `user` may run a command with the given arguments.
+ *
+ * @returns What was denied, with the offending key or channel, or `null`
+ *          when the command is allowed.
+ */
+const checkCommandPermission = (
+  user: User,
+  command: string,
+  args: Buffer[]
+): { reason: "command" | "key" | "channel"; object: string } | null => {
+  if (!user.commands.has(command)) {
+    return { reason: "command", object: command.toLowerCase() };
+  }
+
+  if (!user.keys.includes("*")) {
+    for (const position of keyPositions(command, args)) {
+      const key = toBinaryString(args[position]);
+      if (!user.keys.some((pattern) => globMatch(pattern, key))) {
+        return { reason: "key", object: key };
+      }
+    }
+  }
+
+  if (!user.channels.includes("*")) {
+    for (const { channel, literal } of channelArguments(command, args)) {
+      // A pattern subscription is only allowed when the user may use the
+      // very same pattern, since it could match any channel.
+      const allowed = user.channels.some((pattern) =>
+        literal ? pattern === channel : globMatch(pattern, channel)
+      );
+      if (!allowed) {
+        return { reason: "channel", object: channel };
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * @returns The channels or patterns a Pub/Sub command publishes or
+ *          subscribes to.
+ */
+const channelArguments = (command: string, args: Buffer[]) => {
+  switch (command) {
+    case "PUBLISH":
+      return args
+        .slice(0, 1)
+        .map((arg) => ({ channel: toBinaryString(arg), literal: false }));
+    case "SUBSCRIBE":
+      return args.map((arg) => ({
+        channel: toBinaryString(arg),
+        literal: false,
+      }));
+    case "PSUBSCRIBE":
+      return args.map((arg) => ({
+        channel: toBinaryString(arg),
+        literal: true,
+      }));
+    default:
+      return [];
+  }
+};
+
+/**
+ * Records a denied command or failed authentication in the ACL LOG, keeping
+ * the `aclLogMaxLen` most recent entries. A failure repeating one logged
+ * recently only bumps its count.
+ */
+const addLogEntry = (
+  client: Client,
+  reason: AclLogEntry["reason"],
+  object: string,
+  username: string,
+  context: AclLogEntry["context"] = "toplevel"
+) => {
+  const now = Date.now();
+  const clientInfo = `id=${client.id} name=${client.name ?? ""} user=${
+    client.user
+  } db=${client.db}`;
+
+  const existing = log.find(
+    (entry) =>
+      entry.reason === reason &&
+      entry.context === context &&
+      entry.object === object &&
+      entry.username === username &&
+      now - entry.updatedAt < LOG_GROUPING_WINDOW
+  );
+  if (existing) {
+    existing.count++;
+    existing.updatedAt = now;
+    existing.clientInfo = clientInfo;
+    return;
+  }
+
+  log.unshift({
+    count: 1,
+    reason,
+    context,
+    object,
+    username,
+    clientInfo,
+    entryId: nextEntryId++,
+    createdAt: now,
+    updatedAt: now,
+  });
+  log.length = Math.min(log.length, config.aclLogMaxLen);
+};
+
+/**
+ * @returns The ACL LOG entries, most recent first.
+ */
+const logEntries = () => log;
+
+const resetLog = () => {
+  log = [];
+};
+
+resetUsers();
+
+export {
+  AclRuleError,
+  hashPassword,
+  setUser,
+  deleteUser,
+  getUser,
+  listUsers,
+  describeUser,
+  resetUsers,
+  loadAclFile,
+  saveAclFile,
+  checkPassword,
+  checkCommandPermission,
+  addLogEntry,
+  logEntries,
+  resetLog,
+};
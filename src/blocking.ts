@@ -0,0 +1,110 @@
+import { BlockedRequest, Client } from "./client";
+import { databaseKey, selectedDatabase } from "./keyspace";
+
+type BlockedKey = { db: number; key: string };
+
+// Clients blocked on each key, by `databaseKey`, in the order they blocked
+// so the one that waited longest is served first.
+const waiters = new Map<string, BlockedKey & { clients: Client[] }>();
+
+// Keys that received data since blocked clients were last served.
+let readyKeys = new Map<string, BlockedKey>();
+
+/**
+ * Parks a client until one of the request's keys receives data. The caller
+ * arms the timeout, since replying on timeout is up to the dispatcher.
+ *
+ * @param client - The client running the blocking command.
+ * @param request - What the client waits for and how to serve it.
+ */
+const blockClient = (client: Client, request: BlockedRequest) => {
+  client.blocked = request;
+
+  for (const key of request.keys) {
+    const id = databaseKey(request.db, key);
+    const blocked = waiters.get(id) ?? { db: request.db, key, clients: [] };
+    if (!blocked.clients.includes(client)) {
+      blocked.clients.push(client);
+    }
+    waiters.set(id, blocked);
+  }
+};
+
+/**
+ * Removes a blocked client from every key it waits on and clears its timer.
+ * Does nothing if the client is not blocked.
+ *
+ * @param client - The client to unblock.
+ */
+const unblockClient = (client: Client) => {
+  const request = client.blocked;
+  if (!request) {
+    return;
+  }
+
+  if (request.timer) {
+    clearTimeout(request.timer);
+  }
+
+  for (const key of request.keys) {
+    const id = databaseKey(request.db, key);
+    const blocked = waiters.get(id);
+    if (!blocked) {
+      continue;
+    }
+    blocked.clients = blocked.clients.filter((other) => other !== client);
+    if (blocked.clients.length === 0) {
+      waiters.delete(id);
+    }
+  }
+
+  client.blocked = null;
+};
+
+/**
+ * Records that `key` of the selected database received data, so clients
+ * blocked on it get served once the running command completes. Called by
+ * every command that pushes to a list, like `signalKeyAsReady` in redis.
+ *
+ * @param key - The key that received data.
+ */
+const signalKeyAsReady = (key: string) => {
+  const id = databaseKey(selectedDatabase(), key);
+  if (waiters.has(id)) {
+    readyKeys.set(id, { db: selectedDatabase(), key });
+  }
+};
+
+/**
+ * Returns and clears the keys signalled by `signalKeyAsReady`.
+ */
+const takeReadyKeys = () => {
+  const keys = [...readyKeys.values()];
+  readyKeys = new Map();
+  return keys;
+};
+
+/**
+ * @returns The clients blocked on `key` of database `db`, longest waiting
+ *          first.
+ */
+const blockedClients = (db: number, key: string) => [
+  ...(waiters.get(databaseKey(db, key))?.clients ?? []),
+];
+
+/**
+ * @returns The keys of database `db` that clients are blocked on.
+ */
+const blockedKeys = (db: number) =>
+  [...waiters.values()]
+    .filter((blocked) => blocked.db === db)
+    .map(({ key }) => key);
+
+export {
+  blockClient,
+  unblockClient,
+  signalKeyAsReady,
+  takeReadyKeys,
+  blockedClients,
+  blockedKeys,
+};
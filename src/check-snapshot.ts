@@ -0,0 +1,87 @@
+import fs from "fs";
+import { snapshotPath } from "./persistence";
+import { resolveConfig } from "./settings";
+import {
+  SnapshotEntry,
+  SnapshotError,
+  encodeSnapshot,
+  readSnapshot,
+} from "./snapshot-format";
+
+/**
+ * Checks a snapshot file, repairing it when `fix` is set.
+ *
+ * @returns The exit code.
+ */
+const checkSnapshot = (file: string, fix: boolean) => {
+  if (!fs.existsSync(file)) {
+    console.error(`Cannot open ${file}: no such file`);
+    return 1;
+  }
+
+  const entries: SnapshotEntry[] = [];
+  try {
+    readSnapshot(fs.readFileSync(file), (entry) => entries.push(entry));
+    console.log(`${file}: OK, ${entries.length} keys`);
+    return 0;
+  } catch (error) {
+    if (!(error instanceof SnapshotError)) {
+      throw error;
+    }
+    console.error(
+      `${file}: ${error.message} at offset ${error.offset}, after ${error.entries} keys`
+    );
+  }
+
+  if (!fix) {
+    console.error("Run again with --fix to keep the keys read so far.");
+    return 1;
+  }
+
+  const backup = `${file}.bak`;
+  const tempPath = `${file}.tmp`;
+  fs.copyFileSync(file, backup);
+  fs.writeFileSync(tempPath, encodeSnapshot(entries));
+  fs.renameSync(tempPath, file);
+  console.log(
+    `${file}: repaired with ${entries.length} keys, original saved as ${backup}`
+  );
+  return 0;
+};
+
+/**
+ * Validates a snapshot file, like redis-check-rdb.
+ *
+ * Usage: `npm run check-snapshot -- [--fix] [--config <config file>] [file]`.
+ * Without a file it checks the snapshot the server writes, in `config.dir`
+ * as resolved from the config file, if given, and the `REDIS_<SETTING>`
+ * environment variables. With `--fix`, a damaged file is replaced by one
+ * holding every key that could be read before the damage, and the original
+ * is kept next to it with a `.bak` suffix.
+ *
+ * Exits with 0 when the file is valid or was repaired, 1 otherwise.
+ */
+const main = (args: string[]) => {
+  let fix = false;
+  let configFile: string | null = null;
+  let file: string | null = null;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--fix") {
+      fix = true;
+    } else if (args[i] === "--config" && i + 1 < args.length) {
+      configFile = args[++i];
+    } else {
+      file = args[i];
+    }
+  }
+
+  try {
+    resolveConfig(configFile ? [configFile] : [], process.env);
+  } catch (error: any) {
+    console.error(error.message);
+    return 1;
+  }
+  return checkSnapshot(file ?? snapshotPath(), fix);
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,238 @@
+import net from "net";
+import { Protocol, Reply, encodeReply } from "./resp";
+import { ParsedCommand } from "./parser";
+import { persistence } from "./persistence";
+
+/**
+ * Commands queued between MULTI and EXEC. `aborted` is set when a command
+ * fails validation while queuing, which makes EXEC discard the transaction.
+ */
+export type Transaction = { queue: ParsedCommand[]; aborted: boolean };
+
+/**
+ * A key passed to WATCH, with its version at that time.
+ */
+export type WatchedKey = { db: number; key: string; version: number };
+
+/**
+ * Set while a blocking command such as BLPOP waits for data on `keys` of
+ * database `db`.
+ * `serve` runs the command against a key that received data and returns its
+ * reply, or `null` if there is nothing to take yet. `timeoutReply` is sent
+ * when `timeout` milliseconds pass first, 0 meaning no timeout.
+ */
+export type BlockedRequest = {
+  db: number;
+  keys: string[];
+  timeout: number;
+  timer: NodeJS.Timeout | null;
+  serve: (key: string) => Reply | null;
+  timeoutReply: Reply;
+};
+
+/**
+ * Set on a client that is a replica of this server. It goes `online` once
+ * it was sent the dataset and receives the replication stream.
+ */
+export type ReplicaState = {
+  state: "handshake" | "online";
+  // The port it accepts connections on, announced with REPLCONF.
+  listeningPort: number;
+  // The replication offset it last acknowledged, and when.
+  ackOffset: number;
+  ackTime: number;
+};
+
+/**
+ * Per-connection state. Every socket gets its own client, and so does the
+ * AOF loader so replayed commands run through the same code path.
+ */
+export type Client = {
+  id: number;
+  // Negotiated through HELLO, RESP2 until the client asks otherwise.
+  protocol: Protocol;
+  name: string | null;
+  socket: net.Socket | null;
+  // The ACL user commands run as, and whether it authenticated. Clients are
+  // authenticated from the start when the default user needs no password.
+  user: string;
+  authenticated: boolean;
+  // The database commands run against, changed with SELECT.
+  db: number;
+  // Set between MULTI and EXEC/DISCARD.
+  transaction: Transaction | null;
+  // Keys passed to WATCH, by `databaseKey`.
+  watchedKeys: Map<string, WatchedKey>;
+  // Pub/Sub channels and patterns the client is subscribed to.
+  channels: Set<string>;
+  patterns: Set<string>;
+  // Encoded replies waiting to be written, see `sendReply`.
+  output: Buffer[];
+  // Settles once replies held back for the AOF were written to the socket.
+  outputBarrier: Promise<void> | null;
+  // Commands received but not run yet. They wait here while the client is
+  // blocked, so pipelined commands run after the blocking one replied.
+  pendingCommands: ParsedCommand[];
+  blocked: BlockedRequest | null;
+  // Set while running commands that must not block, e.g. inside EXEC.
+  denyBlocking: boolean;
+  replica: ReplicaState | null;
+  // When the connection was made and last ran a command, and which one.
+  createdAt: number;
+  lastInteraction: number;
+  lastCommand: string | null;
+  // Bytes received after the last complete command.
+  queryBufferLength: number;
+  // Set with CLIENT NO-EVICT. Only reported, no client is ever evicted.
+  noEvict: boolean;
+};
+
+let nextClientId = 1;
+
+// Clients connected over a socket, by id. Internal clients are left out.
+const clients = new Map<number, Client>();
+
+/**
+ * Creates the state for a new connection.
+ *
+ * @param socket - The client socket, or `null` for internal clients such as
+ *                 the AOF loader.
+ * @returns A client speaking RESP2 with a unique, increasing id.
+ */
+const createClient = (socket: net.Socket | null = null): Client => ({
+  id: nextClientId++,
+  protocol: 2,
+  name: null,
+  socket,
+  user: "default",
+  authenticated: false,
+  db: 0,
+  transaction: null,
+  watchedKeys: new Map(),
+  channels: new Set(),
+  patterns: new Set(),
+  output: [],
+  outputBarrier: null,
+  pendingCommands: [],
+  blocked: null,
+  denyBlocking: false,
+  replica: null,
+  createdAt: Date.now(),
+  lastInteraction: Date.now(),
+  lastCommand: null,
+  queryBufferLength: 0,
+  noEvict: false,
+});
+
+/**
+ * @param local - Whether to give the server's end of the connection rather
+ *                than the client's.
+ * @returns The `ip:port` of the client's connection, or an empty string for
+ *          internal clients.
+ */
+const clientAddress = (client: Client, local = false) => {
+  const { socket } = client;
+  if (!socket) {
+    return "";
+  }
+  const address = local ? socket.localAddress : socket.remoteAddress;
+  const port = local ? socket.localPort : socket.remotePort;
+  return `${address?.replace(/^::ffff:/, "") ?? "?"}:${port ?? 0}`;
+};
+
+/**
+ * Queues a reply for the client's socket. Everything queued during the same
+ * tick goes out in a single write, in the order it was queued, so replies
+ * to pipelined commands and messages pushed by other clients never overtake
+ * each other.
+ *
+ * While AOF writes are outstanding the replies are held back until they
+ * complete, so a client never sees a write acknowledged before it is as
+ * durable as `appendFsync` promises.
+ *
+ * @param client - The client to reply to. Internal clients have no socket
+ *                 and drop the reply.
+ * @param value - The reply, encoded for the client's protocol right away.
+ */
+const sendReply = (client: Client, value: Reply) =>
+  sendRaw(client, encodeReply(value, client.protocol));
+
+/**
+ * Queues bytes for the client's socket as they are, such as a snapshot or
+ * the replication stream sent to a replica. They are ordered with replies
+ * like `sendReply` describes.
+ *
+ * @param client - The client to write to. Internal clients drop the data.
+ * @param chunk - The bytes to write.
+ */
+const sendRaw = (client: Client, chunk: Buffer) => {
+  const { socket } = client;
+  if (!socket || socket.destroyed) {
+    return;
+  }
+
+  client.output.push(chunk);
+  if (client.output.length === 1) {
+    process.nextTick(() => {
+      const data = Buffer.concat(client.output);
+      client.output = [];
+      const write = () => {
+        if (!socket.destroyed) {
+          socket.write(data);
+        }
+      };
+
+      const written = persistence.pendingWrites();
+      if (!written && !client.outputBarrier) {
+        write();
+        return;
+      }
+
+      // Later replies queue behind held back ones, so they stay in order.
+      const barrier = Promise.all([client.outputBarrier, written]).then(write);
+      client.outputBarrier = barrier;
+      barrier.then(() => {
+        if (client.outputBarrier === barrier) {
+          client.outputBarrier = null;
+        }
+      });
+    });
+  }
+};
+
+/**
+ * Closes a client's connection once the replies queued for it were written,
+ * e.g. for CLIENT KILL. Nothing it sent or sends from now on is run, and it
+ * leaves the registry right away.
+ */
+const closeClient = (client: Client) => {
+  const { socket } = client;
+  if (!socket) {
+    return;
+  }
+
+  socket.pause();
+  client.pendingCommands.length = 0;
+  clients.delete(client.id);
+  // Runs after `sendRaw` flushed the output on the next tick.
+  setImmediate(() =>
+    Promise.resolve(client.outputBarrier).then(() => socket.destroySoon())
+  );
+};
+
+/**
+ * @returns The bytes of replies not written to the socket yet.
+ */
+const outputLength = (client: Client) =>
+  client.output.reduce((length, chunk) => length + chunk.length, 0) +
+  (client.socket?.writableLength ?? 0);
+
+export {
+  clients,
+  clientAddress,
+  createClient,
+  closeClient,
+  outputLength,
+  sendReply,
+  sendRaw,
+};
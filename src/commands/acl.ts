@@ -0,0 +1,208 @@
+import config from "../config.json";
+import {
+  AclRuleError,
+  deleteUser,
+  describeUser,
+  getUser,
+  loadAclFile,
+  logEntries,
+  resetLog,
+  saveAclFile,
+  listUsers,
+  setUser,
+} from "../acl";
+import { CATEGORIES, Category, commandsInCategory } from "./command-table";
+import { CommandError } from "../errors";
+import { Reply, reply } from "../resp";
+import { fromBinaryString } from "../utils/binary";
+import { parseInteger, wrongNumberOfArguments } from "./arguments";
+import { CommandHandlers } from "./command.types";
+
+type AclCommands = "ACL";
+
+const NO_ACL_FILE =
+  "ERR This Redis instance is not configured to use an ACL file. You may want to specify users via the ACL SETUSER command and then issue a CONFIG REWRITE (assuming you have a Redis configuration file set) in order to store users in the Redis configuration.";
+
+const ACL_HELP = [
+  "ACL <subcommand> [<arg> [value] [opt] ...]. Subcommands are:",
+  "CAT [<category>]",
+  "    List all commands that belong to <category>, or all command categories",
+  "    when no category is specified.",
+  "DELUSER <username> [<username> ...]",
+  "    Delete a list of users.",
+  "GETUSER <username>",
+  "    Get the user's details.",
+  "LIST",
+  "    Show users details in config file format.",
+  "LOAD",
+  "    Reload users from the ACL file.",
+  "LOG [<count> | RESET]",
+  "    Show the ACL log entries.",
+  "SAVE",
+  "    Save the current config to the ACL file.",
+  "SETUSER <username> <attr> [<attr> ...]",
+  "    Create or modify a user with the specified attributes.",
+  "USERS",
+  "    List all the registered usernames.",
+  "WHOAMI",
+  "    Return the current connection username.",
+  "HELP",
+  "    Print this help.",
+];
+
+const describeLogEntries = (count: number): Reply => {
+  const now = Date.now();
+  return reply.array(
+    logEntries()
+      .slice(0, count)
+      .map((entry) =>
+        reply.map([
+          [reply.bulk("count"), reply.integer(entry.count)],
+          [reply.bulk("reason"), reply.bulk(entry.reason)],
+          [reply.bulk("context"), reply.bulk(entry.context)],
+          [reply.bulk("object"), reply.bulk(fromBinaryString(entry.object))],
+          [reply.bulk("username"), reply.bulk(entry.username)],
+          [
+            reply.bulk("age-seconds"),
+            reply.double((now - entry.createdAt) / 1000),
+          ],
+          [reply.bulk("client-info"), reply.bulk(entry.clientInfo)],
+          [reply.bulk("entry-id"), reply.integer(entry.entryId)],
+          [reply.bulk("timestamp-created"), reply.integer(entry.createdAt)],
+          [
+            reply.bulk("timestamp-last-updated"),
+            reply.integer(entry.updatedAt),
+          ],
+        ])
+      )
+  );
+};
+
+const aclHandlers: CommandHandlers<AclCommands> = {
+  ACL: (args, client) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("acl");
+    }
+    const subcommand = args[0].toString().toUpperCase();
+    const options = args.slice(1).map((arg) => arg.toString());
+
+    switch (subcommand) {
+      case "SETUSER": {
+        if (options.length < 1) {
+          throw wrongNumberOfArguments("acl|setuser");
+        }
+        try {
+          setUser(options[0], options.slice(1));
+        } catch (e) {
+          if (!(e instanceof AclRuleError)) {
+            throw e;
+          }
+          throw new CommandError(
+            `ERR Error in ACL SETUSER modifier '${e.rule}': ${e.message}`
+          );
+        }
+        return reply.ok();
+      }
+      case "GETUSER": {
+        if (options.length !== 1) {
+          throw wrongNumberOfArguments("acl|getuser");
+        }
+        const user = getUser(options[0]);
+        if (!user) {
+          return reply.nil();
+        }
+        return reply.map([
+          [
+            reply.bulk("flags"),
+            reply.bulkArray([
+              user.enabled ? "on" : "off",
+              ...(user.nopass ? ["nopass"] : []),
+            ]),
+          ],
+          [reply.bulk("passwords"), reply.bulkArray([...user.passwords])],
+          [reply.bulk("commands"), reply.bulk(user.commandRules.join(" "))],
+          [
+            reply.bulk("keys"),
+            reply.bulk(user.keys.map((pattern) => `~${pattern}`).join(" ")),
+          ],
+          [
+            reply.bulk("channels"),
+            reply.bulk(user.channels.map((pattern) => `&${pattern}`).join(" ")),
+          ],
+          [reply.bulk("selectors"), reply.array([])],
+        ]);
+      }
+      case "DELUSER": {
+        if (options.length < 1) {
+          throw wrongNumberOfArguments("acl|deluser");
+        }
+        if (options.includes("default")) {
+          throw new CommandError("ERR The 'default' user cannot be removed");
+        }
+        return reply.integer(options.filter(deleteUser).length);
+      }
+      case "LIST":
+        return reply.bulkArray(listUsers().map(describeUser));
+      case "USERS":
+        return reply.bulkArray(listUsers().map(({ name }) => name));
+      case "WHOAMI":
+        return reply.bulk(client.user);
+      case "CAT": {
+        if (options.length === 0) {
+          return reply.bulkArray(CATEGORIES);
+        }
+        const category = options[0].toLowerCase();
+        if (!CATEGORIES.includes(category as Category)) {
+          throw new CommandError(`ERR Unknown category '${options[0]}'`);
+        }
+        return reply.bulkArray(
+          commandsInCategory(category).map((name) => name.toLowerCase())
+        );
+      }
+      case "LOG": {
+        if (options.length > 1) {
+          throw wrongNumberOfArguments("acl|log");
+        }
+        if (options[0]?.toUpperCase() === "RESET") {
+          resetLog();
+          return reply.ok();
+        }
+        const count = options.length === 1 ? parseInteger(options[0]) : 10;
+        if (count < 0) {
+          throw new CommandError("ERR value is out of range, must be positive");
+        }
+        return describeLogEntries(count);
+      }
+      case "LOAD": {
+        if (!config.aclFile) {
+          throw new CommandError(NO_ACL_FILE);
+        }
+        const error = loadAclFile(config.aclFile);
+        if (error) {
+          throw new CommandError(`ERR ${error}`);
+        }
+        return reply.ok();
+      }
+      case "SAVE":
+        if (!config.aclFile) {
+          throw new CommandError(NO_ACL_FILE);
+        }
+        try {
+          saveAclFile(config.aclFile);
+        } catch (e: any) {
+          throw new CommandError(
+            `ERR There was an error trying to save the ACLs. Please check the server logs for more information: ${e.message}`
+          );
+        }
+        return reply.ok();
+      case "HELP":
+        return reply.array(ACL_HELP.map(reply.simple));
+      default:
+        throw new CommandError(
+          `ERR unknown subcommand '${args[0]}'. Try ACL HELP.`
+        );
+    }
+  },
+};
+
+export { aclHandlers };
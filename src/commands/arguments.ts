@@ -0,0 +1,139 @@
+import {
+  CommandError,
+  NOT_AN_INTEGER,
+  NOT_A_FLOAT,
+  SYNTAX_ERROR,
+} from "../errors";
+import { isValidDatabase } from "../keyspace";
+import { toBinaryString } from "../utils/binary";
+
+export type ScanOptions = {
+  cursor: number;
+  match: string | null;
+  count: number;
+  type: string | null;
+};
+
+/**
+ * Parses an argument as a signed integer the way redis does: no spaces, no
+ * leading `+`, no decimals and within the range JS can represent exactly.
+ *
+ * @param arg - The raw argument.
+ * @param message - The error to report when the argument is not an integer.
+ * @returns The parsed integer.
+ * @throws {CommandError} If the argument is not a valid integer.
+ */
+const parseInteger = (arg: Buffer | string, message = NOT_AN_INTEGER) => {
+  const value = arg.toString();
+
+  if (!/^-?(0|[1-9]\d*)$/.test(value) || !Number.isSafeInteger(+value)) {
+    throw new CommandError(message);
+  }
+
+  return +value;
+};
+
+/**
+ * Parses a database index, as taken by SELECT, MOVE, SWAPDB and COPY.
+ *
+ * @param arg - The raw argument.
+ * @returns The index of a configured database.
+ * @throws {CommandError} If the argument is not an integer or no such
+ *                        database exists.
+ */
+const parseDatabaseIndex = (arg: Buffer) => {
+  const index = parseInteger(arg);
+  if (!isValidDatabase(index)) {
+    throw new CommandError("ERR DB index is out of range");
+  }
+  return index;
+};
+
+/**
+ * Parses an argument as a double. Accepts the same forms as redis, including
+ * `inf`, `+inf` and `-inf`, and rejects `nan`.
+ *
+ * @param arg - The raw argument.
+ * @param message - The error to report when the argument is not a float.
+ * @returns The parsed number.
+ * @throws {CommandError} If the argument is not a valid float.
+ */
+const parseDouble = (arg: Buffer | string, message = NOT_A_FLOAT) => {
+  const value = arg.toString().toLowerCase();
+
+  if (value === "inf" || value === "+inf" || value === "infinity") {
+    return Infinity;
+  }
+  if (value === "-inf" || value === "-infinity") {
+    return -Infinity;
+  }
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/.test(value)) {
+    throw new CommandError(message);
+  }
+
+  return +value;
+};
+
+/**
+ * Builds the standard arity error for a command.
+ *
+ * @param command - The command name, in any case.
+ * @returns The `CommandError` to throw or the message to reply with.
+ */
+const wrongNumberOfArguments = (command: string) =>
+  new CommandError(
+    `ERR wrong number of arguments for '${command.toLowerCase()}' command`
+  );
+
+/**
+ * Parses the arguments shared by SCAN, HSCAN, SSCAN and ZSCAN:
+ * `cursor [MATCH pattern] [COUNT count]`, plus `[TYPE type]` for SCAN.
+ *
+ * @param args - The arguments starting at the cursor.
+ * @param allowType - Whether the TYPE option is accepted.
+ * @returns The parsed options, COUNT defaulting to 10.
+ * @throws {CommandError} On an invalid cursor or unknown option.
+ */
+const parseScanArguments = (args: Buffer[], allowType = false): ScanOptions => {
+  const cursor = args[0].toString();
+  if (!/^\d+$/.test(cursor) || !Number.isSafeInteger(+cursor)) {
+    throw new CommandError("ERR invalid cursor");
+  }
+
+  const options: ScanOptions = {
+    cursor: +cursor,
+    match: null,
+    count: 10,
+    type: null,
+  };
+
+  for (let i = 1; i < args.length; i += 2) {
+    const option = args[i].toString().toUpperCase();
+    if (i + 1 >= args.length) {
+      throw new CommandError(SYNTAX_ERROR);
+    }
+
+    if (option === "MATCH") {
+      options.match = toBinaryString(args[i + 1]);
+    } else if (option === "COUNT") {
+      options.count = parseInteger(args[i + 1]);
+      if (options.count < 1) {
+        throw new CommandError(SYNTAX_ERROR);
+      }
+    } else if (option === "TYPE" && allowType) {
+      options.type = args[i + 1].toString().toLowerCase();
+    } else {
+      throw new CommandError(SYNTAX_ERROR);
+    }
+  }
+
+  return options;
+};
+
+export {
+  parseInteger,
+  parseDatabaseIndex,
+  parseDouble,
+  wrongNumberOfArguments,
+  parseScanArguments,
+};
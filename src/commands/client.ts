@@ -0,0 +1,344 @@
+import {
+  Client,
+  clientAddress,
+  clients,
+  closeClient,
+  outputLength,
+} from "../client";
+import { CommandError, SYNTAX_ERROR } from "../errors";
+import { isMonitor } from "../monitor";
+import { PauseMode, pauseClients, unpauseClients } from "../pause";
+import { subscriptionCount } from "../pubsub";
+import { reply } from "../resp";
+import { parseInteger, wrongNumberOfArguments } from "./arguments";
+import { CommandHandlers } from "./command.types";
+
+type ClientCommands = "CLIENT";
+
+type ClientType = "normal" | "master" | "replica" | "pubsub";
+
+const CLIENT_HELP = [
+  "CLIENT <subcommand> [<arg> [value] [opt] ...]. Subcommands are:",
+  "GETNAME",
+  "    Return the name of the current connection.",
+  "ID",
+  "    Return the ID of the current connection.",
+  "INFO",
+  "    Return information about the current client connection.",
+  "KILL <ip:port>",
+  "    Kill connection made from <ip:port>.",
+  "KILL <option> <value> [<option> <value> [...]]",
+  "    Kill connections. Options are:",
+  "    * ADDR <ip:port>",
+  "      Kill connections made from the specified address",
+  "    * LADDR <ip:port>",
+  "      Kill connections made to specified local address",
+  "    * TYPE (NORMAL|MASTER|REPLICA|PUBSUB)",
+  "      Kill connections by type.",
+  "    * USER <username>",
+  "      Kill connections authenticated by <username>.",
+  "    * SKIPME (YES|NO)",
+  "      Skip killing current connection (default: yes).",
+  "    * ID <client-id>",
+  "      Kill connections by client id.",
+  "    * MAXAGE <maxage>",
+  "      Kill connections older than the specified age.",
+  "LIST [options ...]",
+  "    Return information about client connections. Options:",
+  "    * TYPE (NORMAL|MASTER|REPLICA|PUBSUB)",
+  "      Return clients of specified type.",
+  "    * ID <client-id> [<client-id> ...]",
+  "      Return clients of specified IDs only.",
+  "PAUSE <timeout> [WRITE|ALL]",
+  "    Suspend all, or just write, clients for <timeout> milliseconds.",
+  "UNPAUSE",
+  "    Stop the current client pause, resuming traffic.",
+  "SETNAME <name>",
+  "    Assign the name <name> to the current connection.",
+  "NO-EVICT (ON|OFF)",
+  "    Protect current client connection from eviction.",
+  "HELP",
+  "    Print this help.",
+];
+
+const typeOf = (client: Client): ClientType => {
+  if (client.replica) {
+    return "replica";
+  }
+  return subscriptionCount(client) > 0 ? "pubsub" : "normal";
+};
+
+const parseClientType = (arg: Buffer): ClientType => {
+  const type = arg.toString().toLowerCase();
+  switch (type) {
+    case "normal":
+    case "master":
+    case "replica":
+    case "pubsub":
+      return type;
+    case "slave":
+      return "replica";
+    default:
+      throw new CommandError(`ERR Unknown client type '${arg}'`);
+  }
+};
+
+const parseClientId = (arg: Buffer, message: string) => {
+  const id = parseInteger(arg, message);
+  if (id <= 0) {
+    throw new CommandError(message);
+  }
+  return id;
+};
+
+/**
+ * The flags CLIENT LIST shows, `N` when none applies.
+ */
+const flagsOf = (client: Client) => {
+  const flags = [
+    client.replica && "S",
+    subscriptionCount(client) > 0 && "P",
+    client.transaction && "x",
+    client.blocked && "b",
+    isMonitor(client) && "O",
+    client.noEvict && "e",
+  ].filter(Boolean);
+  return flags.length ? flags.join("") : "N";
+};
+
+/**
+ * Describes a client the way CLIENT LIST and CLIENT INFO show it, as
+ * space-separated `field=value` pairs.
+ */
+const describeClient = (client: Client) => {
+  const now = Date.now();
+  const fields = {
+    id: client.id,
+    addr: clientAddress(client),
+    laddr: clientAddress(client, true),
+    name: client.name ?? "",
+    age: Math.floor((now - client.createdAt) / 1000),
+    idle: Math.floor((now - client.lastInteraction) / 1000),
+    flags: flagsOf(client),
+    db: client.db,
+    sub: client.channels.size,
+    psub: client.patterns.size,
+    multi: client.transaction ? client.transaction.queue.length : -1,
+    qbuf: client.queryBufferLength,
+    omem: outputLength(client),
+    cmd: client.lastCommand ?? "NULL",
+    user: client.user,
+    resp: client.protocol,
+  };
+  return Object.entries(fields)
+    .map(([field, value]) => `${field}=${value}`)
+    .join(" ");
+};
+
+const describeClients = (matching: Client[]) =>
+  reply.verbatim(
+    matching.map((client) => `${describeClient(client)}\n`).join("")
+  );
+
+/**
+ * Parses the `TYPE type` and `ID id [id ...]` filters of CLIENT LIST.
+ */
+const parseListFilter = (args: Buffer[]) => {
+  let type: ClientType | null = null;
+  let ids: number[] | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const option = args[i].toString().toUpperCase();
+    if (option === "TYPE" && i + 1 < args.length) {
+      type = parseClientType(args[++i]);
+    } else if (option === "ID" && i + 1 < args.length) {
+      ids = args
+        .slice(i + 1)
+        .map((id) => parseClientId(id, "ERR Invalid client ID"));
+      break;
+    } else {
+      throw new CommandError(SYNTAX_ERROR);
+    }
+  }
+
+  return (client: Client) =>
+    (type === null || typeOf(client) === type) &&
+    (ids === null || ids.includes(client.id));
+};
+
+/**
+ * Parses the `<option> <value>` filters of CLIENT KILL. A client must match
+ * all of them to be killed.
+ */
+const parseKillFilter = (args: Buffer[], self: Client) => {
+  if (args.length === 0 || args.length % 2 !== 0) {
+    throw new CommandError(SYNTAX_ERROR);
+  }
+
+  const filters: ((client: Client) => boolean)[] = [];
+  let skipMe = true;
+
+  for (let i = 0; i < args.length; i += 2) {
+    const option = args[i].toString().toUpperCase();
+    const value = args[i + 1];
+    switch (option) {
+      case "ID": {
+        const id = parseClientId(
+          value,
+          "ERR client-id should be greater than 0"
+        );
+        filters.push((client) => client.id === id);
+        break;
+      }
+      case "ADDR": {
+        const address = value.toString();
+        filters.push((client) => clientAddress(client) === address);
+        break;
+      }
+      case "LADDR": {
+        const address = value.toString();
+        filters.push((client) => clientAddress(client, true) === address);
+        break;
+      }
+      case "USER": {
+        const user = value.toString();
+        filters.push((client) => client.user === user);
+        break;
+      }
+      case "TYPE": {
+        const type = parseClientType(value);
+        filters.push((client) => typeOf(client) === type);
+        break;
+      }
+      case "MAXAGE": {
+        const maxAge = parseInteger(value);
+        filters.push(
+          (client) => (Date.now() - client.createdAt) / 1000 >= maxAge
+        );
+        break;
+      }
+      case "SKIPME": {
+        const skip = value.toString().toLowerCase();
+        if (skip !== "yes" && skip !== "no") {
+          throw new CommandError(SYNTAX_ERROR);
+        }
+        skipMe = skip === "yes";
+        break;
+      }
+      default:
+        throw new CommandError(SYNTAX_ERROR);
+    }
+  }
+
+  return (client: Client) =>
+    !(skipMe && client === self) && filters.every((filter) => filter(client));
+};
+
+const clientHandlers: CommandHandlers<ClientCommands> = {
+  CLIENT: (args, client) => {
+    if (args.length === 0) {
+      throw wrongNumberOfArguments("client");
+    }
+
+    const subcommand = args[0].toString().toUpperCase();
+    switch (subcommand) {
+      case "ID":
+        if (args.length !== 1) {
+          throw wrongNumberOfArguments("client|id");
+        }
+        return reply.integer(client.id);
+      case "SETNAME": {
+        if (args.length !== 2) {
+          throw wrongNumberOfArguments("client|setname");
+        }
+        const name = args[1].toString();
+        if (!/^[!-~]*$/.test(name)) {
+          throw new CommandError(
+            "ERR Client names cannot contain spaces, newlines or special characters."
+          );
+        }
+        client.name = name === "" ? null : name;
+        return reply.ok();
+      }
+      case "GETNAME":
+        if (args.length !== 1) {
+          throw wrongNumberOfArguments("client|getname");
+        }
+        return client.name === null ? reply.nil() : reply.bulk(client.name);
+      case "LIST": {
+        const matches = parseListFilter(args.slice(1));
+        return describeClients([...clients.values()].filter(matches));
+      }
+      case "INFO":
+        if (args.length !== 1) {
+          throw wrongNumberOfArguments("client|info");
+        }
+        return reply.verbatim(`${describeClient(client)}\n`);
+      case "KILL": {
+        if (args.length < 2) {
+          throw wrongNumberOfArguments("client|kill");
+        }
+        // The old form takes only an address and fails when nothing matches.
+        if (args.length === 2) {
+          const address = args[1].toString();
+          const target = [...clients.values()].find(
+            (other) => clientAddress(other) === address
+          );
+          if (!target) {
+            throw new CommandError("ERR No such client");
+          }
+          closeClient(target);
+          return reply.ok();
+        }
+
+        const matches = parseKillFilter(args.slice(1), client);
+        const killed = [...clients.values()].filter(matches);
+        killed.forEach(closeClient);
+        return reply.integer(killed.length);
+      }
+      case "PAUSE": {
+        if (args.length !== 2 && args.length !== 3) {
+          throw wrongNumberOfArguments("client|pause");
+        }
+        const timeout = parseInteger(
+          args[1],
+          "ERR timeout is not an integer or out of range"
+        );
+        if (timeout < 0) {
+          throw new CommandError("ERR timeout is negative");
+        }
+        const mode = (args[2]?.toString().toLowerCase() ?? "all") as PauseMode;
+        if (mode !== "write" && mode !== "all") {
+          throw new CommandError(SYNTAX_ERROR);
+        }
+        pauseClients(mode, timeout);
+        return reply.ok();
+      }
+      case "UNPAUSE":
+        if (args.length !== 1) {
+          throw wrongNumberOfArguments("client|unpause");
+        }
+        unpauseClients();
+        return reply.ok();
+      case "NO-EVICT": {
+        if (args.length !== 2) {
+          throw wrongNumberOfArguments("client|no-evict");
+        }
+        const state = args[1].toString().toLowerCase();
+        if (state !== "on" && state !== "off") {
+          throw new CommandError(SYNTAX_ERROR);
+        }
+        client.noEvict = state === "on";
+        return reply.ok();
+      }
+      case "HELP":
+        return reply.array(CLIENT_HELP.map(reply.simple));
+      default:
+        throw new CommandError(
+          `ERR unknown subcommand '${args[0]}'. Try CLIENT HELP.`
+        );
+    }
+  },
+};
+
+export { clientHandlers };
@@ -0,0 +1,219 @@
+import { Category } from "./command-table";
+
+/**
+ * One-line summaries of the commands, as COMMAND DOCS returns them. Every
+ * command of the command table has one.
+ */
+const COMMAND_SUMMARIES: Record<string, string> = {
+  // Strings
+  SET: "Sets the string value of a key, ignoring its type. The key is created if it doesn't exist.",
+  GET: "Returns the string value of a key.",
+  INCR: "Increments the integer value of a key by one. Uses 0 as initial value if the key doesn't exist.",
+  DECR: "Decrements the integer value of a key by one. Uses 0 as initial value if the key doesn't exist.",
+
+  // Lists
+  LPUSH:
+    "Prepends one or more elements to a list. Creates the key if it doesn't exist.",
+  RPUSH:
+    "Appends one or more elements to a list. Creates the key if it doesn't exist.",
+  LRANGE: "Returns a range of elements from a list.",
+  LPOP: "Returns the first elements in a list after removing it. Deletes the list if the last element was popped.",
+  RPOP: "Returns and removes the last elements of a list. Deletes the list if the last element was popped.",
+  LMOVE:
+    "Returns an element after popping it from one list and pushing it to another. Deletes the list if the last element was moved.",
+  RPOPLPUSH:
+    "Returns the last element of a list after removing and pushing it to another list. Deletes the list if the last element was popped.",
+  BLPOP:
+    "Removes and returns the first element in a list. Blocks until an element is available otherwise. Deletes the list if the last element was popped.",
+  BRPOP:
+    "Removes and returns the last element in a list. Blocks until an element is available otherwise. Deletes the list if the last element was popped.",
+  BLMOVE:
+    "Pops an element from a list, pushes it to another list and returns it. Blocks until an element is available otherwise. Deletes the list if the last element was moved.",
+  BRPOPLPUSH:
+    "Pops an element from a list, pushes it to another list and returns it. Blocks until an element is available otherwise. Deletes the list if the last element was popped.",
+
+  // Hashes
+  HSET: "Creates or modifies the value of a field in a hash.",
+  HMSET: "Sets the values of multiple fields.",
+  HSETNX:
+    "Sets the value of a field in a hash only when the field doesn't exist.",
+  HGET: "Returns the value of a field in a hash.",
+  HMGET: "Returns the values of one or more fields in a hash.",
+  HDEL: "Deletes one or more fields and their values from a hash. Deletes the hash if no fields remain.",
+  HEXISTS: "Determines whether a field exists in a hash.",
+  HLEN: "Returns the number of fields in a hash.",
+  HKEYS: "Returns all fields in a hash.",
+  HVALS: "Returns all values in a hash.",
+  HGETALL: "Returns all fields and values in a hash.",
+  HINCRBY:
+    "Increments the integer value of a field in a hash by a number. Uses 0 as initial value if the field doesn't exist.",
+  HINCRBYFLOAT:
+    "Increments the floating point value of a field by a number. Uses 0 as initial value if the field doesn't exist.",
+  HSTRLEN: "Returns the length of the value of a field.",
+  HSCAN: "Iterates over fields and values of a hash.",
+
+  // Sets
+  SADD: "Adds one or more members to a set. Creates the key if it doesn't exist.",
+  SREM: "Removes one or more members from a set. Deletes the set if the last member was removed.",
+  SISMEMBER: "Determines whether a member belongs to a set.",
+  SMISMEMBER: "Determines whether multiple members belong to a set.",
+  SCARD: "Returns the number of members in a set.",
+  SMEMBERS: "Returns all members of a set.",
+  SPOP: "Returns one or more random members from a set after removing them. Deletes the set if the last member was popped.",
+  SRANDMEMBER: "Returns one or more random members from a set.",
+  SMOVE: "Moves a member from one set to another.",
+  SSCAN: "Iterates over members of a set.",
+  SINTER: "Returns the intersect of multiple sets.",
+  SUNION: "Returns the union of multiple sets.",
+  SDIFF: "Returns the difference of multiple sets.",
+  SINTERSTORE: "Stores the intersect of multiple sets in a key.",
+  SUNIONSTORE: "Stores the union of multiple sets in a key.",
+  SDIFFSTORE: "Stores the difference of multiple sets in a key.",
+
+  // Sorted sets
+  ZADD: "Adds one or more members to a sorted set, or updates their scores. Creates the key if it doesn't exist.",
+  ZINCRBY: "Increments the score of a member in a sorted set.",
+  ZREM: "Removes one or more members from a sorted set. Deletes the sorted set if all members were removed.",
+  ZCARD: "Returns the number of members in a sorted set.",
+  ZSCORE: "Returns the score of a member in a sorted set.",
+  ZMSCORE: "Returns the score of one or more members in a sorted set.",
+  ZRANK:
+    "Returns the index of a member in a sorted set ordered by ascending scores.",
+  ZREVRANK:
+    "Returns the index of a member in a sorted set ordered by descending scores.",
+  ZRANGE: "Returns members in a sorted set within a range of indexes.",
+  ZREVRANGE:
+    "Returns members in a sorted set within a range of indexes in reverse order.",
+  ZRANGEBYSCORE: "Returns members in a sorted set within a range of scores.",
+  ZREVRANGEBYSCORE:
+    "Returns members in a sorted set within a range of scores in reverse order.",
+  ZRANGEBYLEX:
+    "Returns members in a sorted set within a lexicographical range.",
+  ZREVRANGEBYLEX:
+    "Returns members in a sorted set within a lexicographical range in reverse order.",
+  ZCOUNT:
+    "Returns the count of members in a sorted set that have scores within a range.",
+  ZLEXCOUNT:
+    "Returns the number of members in a sorted set within a lexicographical range.",
+  ZPOPMIN:
+    "Returns the lowest-scoring members from a sorted set after removing them. Deletes the sorted set if the last member was popped.",
+  ZPOPMAX:
+    "Returns the highest-scoring members from a sorted set after removing them. Deletes the sorted set if the last member was popped.",
+  ZREMRANGEBYSCORE:
+    "Removes members in a sorted set within a range of scores. Deletes the sorted set if all members were removed.",
+  ZREMRANGEBYRANK:
+    "Removes members in a sorted set within a range of indexes. Deletes the sorted set if all members were removed.",
+  ZUNIONSTORE: "Stores the union of multiple sorted sets in a key.",
+  ZINTERSTORE: "Stores the intersect of multiple sorted sets in a key.",
+  ZSCAN: "Iterates over members and scores of a sorted set.",
+
+  // Keyspace
+  DEL: "Deletes one or more keys.",
+  UNLINK: "Asynchronously deletes one or more keys.",
+  DELETE: "Deletes one or more keys, like DEL.",
+  EXISTS: "Determines whether one or more keys exist.",
+  TOUCH:
+    "Returns the number of existing keys out of those specified after updating the time they were last accessed.",
+  TYPE: "Determines the type of value stored at a key.",
+  KEYS: "Returns all key names that match a pattern.",
+  SCAN: "Iterates over the key names in the database.",
+  RANDOMKEY: "Returns a random key name from the database.",
+  DBSIZE: "Returns the number of keys in the database.",
+  RENAME: "Renames a key and overwrites the destination.",
+  RENAMENX: "Renames a key only when the target key name doesn't exist.",
+  COPY: "Copies the value of a key to a new key.",
+  MOVE: "Moves a key to another database.",
+  SWAPDB: "Swaps two Redis databases.",
+  FLUSHDB: "Removes all keys from the current database.",
+  FLUSHALL: "Removes all keys from all databases.",
+  EXPIRE: "Sets the expiration time of a key in seconds.",
+  PEXPIRE: "Sets the expiration time of a key in milliseconds.",
+  EXPIREAT: "Sets the expiration time of a key to a Unix timestamp.",
+  PEXPIREAT:
+    "Sets the expiration time of a key to a Unix milliseconds timestamp.",
+  TTL: "Returns the expiration time in seconds of a key.",
+  PTTL: "Returns the expiration time in milliseconds of a key.",
+  EXPIRETIME: "Returns the expiration time of a key as a Unix timestamp.",
+  PEXPIRETIME:
+    "Returns the expiration time of a key as a Unix milliseconds timestamp.",
+  PERSIST: "Removes the expiration time of a key.",
+  OBJECT: "A container for object introspection commands.",
+
+  // Connection
+  HELLO: "Handshakes with the Redis server.",
+  PING: "Returns the server's liveliness response.",
+  SELECT: "Changes the selected database.",
+  AUTH: "Authenticates the connection.",
+
+  // Server
+  COMMAND: "Returns detailed information about all commands.",
+  ACL: "A container for Access List Control commands.",
+  INFO: "Returns information and statistics about the server.",
+  MEMORY: "A container for memory diagnostics commands.",
+  BGREWRITEAOF: "Asynchronously rewrites the append-only file to disk.",
+  SAVE: "Synchronously saves the database(s) to disk.",
+  BGSAVE: "Asynchronously saves the database(s) to disk.",
+  LASTSAVE: "Returns the Unix timestamp of the last successful save to disk.",
+  SLOWLOG: "A container for slow log commands.",
+  MONITOR: "Listens for all requests received by the server in real-time.",
+  CLIENT: "A container for client connection commands.",
+  CONFIG: "A container for server configuration commands.",
+
+  // Replication
+  REPLICAOF:
+    "Configures a server as replica of another, or promotes it to a master.",
+  SLAVEOF:
+    "Sets a Redis server as a replica of another, or promotes it to being a master.",
+  ROLE: "Returns the replication role.",
+  REPLCONF: "An internal command for configuring the replication stream.",
+  PSYNC: "An internal command used in replication.",
+  SYNC: "An internal command used in replication.",
+
+  // Transactions
+  MULTI: "Starts a transaction.",
+  EXEC: "Executes all commands in a transaction.",
+  DISCARD: "Discards a transaction.",
+  WATCH:
+    "Monitors changes to keys to determine the execution of a transaction.",
+  UNWATCH: "Forgets about watched keys of a transaction.",
+
+  // Pub/Sub
+  SUBSCRIBE: "Listens for messages published to channels.",
+  UNSUBSCRIBE: "Stops listening to messages posted to channels.",
+  PSUBSCRIBE:
+    "Listens for messages published to channels that match one or more patterns.",
+  PUNSUBSCRIBE:
+    "Stops listening to messages published to channels that match one or more patterns.",
+  PUBLISH: "Posts a message to a channel.",
+  PUBSUB: "A container for Pub/Sub commands.",
+
+  // Scripting
+  EVAL: "Executes a server-side script.",
+  EVALSHA: "Executes a server-side script by SHA1 digest.",
+  SCRIPT: "A container for script commands.",
+};
+
+// The documentation group of the commands in each category, looked up in
+// this order. Commands in none of them belong to `server`.
+const CATEGORY_GROUPS: [Category, string][] = [
+  ["string", "string"],
+  ["list", "list"],
+  ["hash", "hash"],
+  ["set", "set"],
+  ["sortedset", "sorted-set"],
+  ["keyspace", "generic"],
+  ["pubsub", "pubsub"],
+  ["transaction", "transactions"],
+  ["scripting", "scripting"],
+  ["connection", "connection"],
+];
+
+/**
+ * @returns The documentation group COMMAND DOCS reports for a command with
+ *          these categories, e.g. `sorted-set` or `generic`.
+ */
+const commandGroup = (categories: Category[]) =>
+  CATEGORY_GROUPS.find(([category]) => categories.includes(category))?.[1] ??
+  "server";
+
+export { COMMAND_SUMMARIES, commandGroup };
@@ -0,0 +1,431 @@
+/**
+ * ACL categories, as used by `+@<category>` rules. Every command belongs to
+ * `all` implicitly.
+ */
+export type Category =
+  | "keyspace"
+  | "read"
+  | "write"
+  | "string"
+  | "list"
+  | "hash"
+  | "set"
+  | "sortedset"
+  | "pubsub"
+  | "admin"
+  | "fast"
+  | "slow"
+  | "blocking"
+  | "dangerous"
+  | "connection"
+  | "transaction"
+  | "scripting";
+
+/**
+ * Where a command's keys are among its arguments, not counting the command
+ * name: every `step`th argument from `first` to `last`. A negative `last`
+ * counts from the end, -1 being the last argument. Commands whose keys
+ * depend on other arguments, such as a `numkeys` count, compute the
+ * positions instead.
+ */
+export type KeySpec =
+  | { first: number; last: number; step: number }
+  | ((args: Buffer[]) => number[]);
+
+/**
+ * How the dispatcher treats a command, named like the flags COMMAND INFO
+ * reports in redis.
+ *
+ * - `write` commands may change the dataset, so they are propagated to the
+ *   AOF and replicas, and refused by read-only replicas. `may_replicate`
+ *   ones are propagated too: EVAL for the writes it makes, PUBLISH for the
+ *   subscribers of the replicas.
+ * - `denyoom` commands may use more memory, so they are refused while the
+ *   dataset is over `maxMemory`.
+ * - `noscript` commands cannot be called from scripts, and `no_multi` ones
+ *   cannot be queued inside MULTI.
+ * - `no_auth` commands run before the client authenticated.
+ * - `skip_monitor` and `skip_slowlog` commands, which carry passwords, are
+ *   left out of MONITOR and SLOWLOG.
+ * - `readonly`, `admin`, `pubsub`, `fast` and `blocking` follow from the
+ *   command's categories, and `movablekeys` from keys that depend on other
+ *   arguments. They are only reported.
+ */
+export type Flag =
+  | "write"
+  | "readonly"
+  | "denyoom"
+  | "admin"
+  | "pubsub"
+  | "noscript"
+  | "blocking"
+  | "fast"
+  | "no_auth"
+  | "no_multi"
+  | "may_replicate"
+  | "movablekeys"
+  | "skip_monitor"
+  | "skip_slowlog";
+
+/**
+ * A command's entry in the command table. `arity` counts the command name
+ * like redis does: a command with arity 2 takes exactly one argument, one
+ * with arity -2 at least one.
+ */
+export type CommandSpec = {
+  arity: number;
+  categories: Category[];
+  keys?: KeySpec;
+  flags: Flag[];
+};
+
+const CATEGORIES: Category[] = [
+  "keyspace",
+  "read",
+  "write",
+  "string",
+  "list",
+  "hash",
+  "set",
+  "sortedset",
+  "pubsub",
+  "admin",
+  "fast",
+  "slow",
+  "blocking",
+  "dangerous",
+  "connection",
+  "transaction",
+  "scripting",
+];
+
+const firstKey = { first: 0, last: 0, step: 1 };
+const firstTwoKeys = { first: 0, last: 1, step: 1 };
+const allKeys = { first: 0, last: -1, step: 1 };
+
+/**
+ * Keys of `destination numkeys key [key ...]`, as taken by ZUNIONSTORE and
+ * ZINTERSTORE.
+ */
+const destinationAndNumKeys = (args: Buffer[]) => {
+  const count = Number(args[1]?.toString());
+  if (!Number.isInteger(count) || count < 0) {
+    return [0];
+  }
+  return [0, ...Array.from({ length: count }, (_, i) => i + 2)].filter(
+    (index) => index < args.length
+  );
+};
+
+/**
+ * Keys of `script numkeys key [key ...] arg [arg ...]`, as taken by EVAL and
+ * EVALSHA.
+ */
+const scriptKeys = (args: Buffer[]) => {
+  const count = Number(args[1]?.toString());
+  if (!Number.isInteger(count) || count < 0) {
+    return [];
+  }
+  return Array.from({ length: count }, (_, i) => i + 2).filter(
+    (index) => index < args.length
+  );
+};
+
+// The flags that follow from a command's categories.
+const CATEGORY_FLAGS: Partial<Record<Category, Flag>> = {
+  write: "write",
+  read: "readonly",
+  admin: "admin",
+  pubsub: "pubsub",
+  fast: "fast",
+  blocking: "blocking",
+};
+
+const spec = (
+  arity: number,
+  categories: Category[],
+  keys?: KeySpec,
+  flags: Flag[] = []
+): CommandSpec => ({
+  arity,
+  categories,
+  keys,
+  flags: [
+    ...categories.flatMap((category) => CATEGORY_FLAGS[category] ?? []),
+    ...(typeof keys === "function" ? ["movablekeys" as const] : []),
+    ...flags,
+  ],
+});
+
+const commandTable: Record<string, CommandSpec> = {
+  // Strings
+  SET: spec(-3, ["write", "string", "slow"], firstKey, ["denyoom"]),
+  GET: spec(2, ["read", "string", "fast"], firstKey),
+  INCR: spec(2, ["write", "string", "fast"], firstKey, ["denyoom"]),
+  DECR: spec(2, ["write", "string", "fast"], firstKey, ["denyoom"]),
+
+  // Lists
+  LPUSH: spec(-3, ["write", "list", "fast"], firstKey, ["denyoom"]),
+  RPUSH: spec(-3, ["write", "list", "fast"], firstKey, ["denyoom"]),
+  LRANGE: spec(4, ["read", "list", "slow"], firstKey),
+  LPOP: spec(-2, ["write", "list", "fast"], firstKey),
+  RPOP: spec(-2, ["write", "list", "fast"], firstKey),
+  LMOVE: spec(5, ["write", "list", "slow"], firstTwoKeys, ["denyoom"]),
+  RPOPLPUSH: spec(3, ["write", "list", "slow"], firstTwoKeys, ["denyoom"]),
+  BLPOP: spec(-3, ["write", "list", "slow", "blocking"], {
+    first: 0,
+    last: -2,
+    step: 1,
+  }),
+  BRPOP: spec(-3, ["write", "list", "slow", "blocking"], {
+    first: 0,
+    last: -2,
+    step: 1,
+  }),
+  BLMOVE: spec(6, ["write", "list", "slow", "blocking"], firstTwoKeys, [
+    "denyoom",
+  ]),
+  BRPOPLPUSH: spec(4, ["write", "list", "slow", "blocking"], firstTwoKeys, [
+    "denyoom",
+  ]),
+
+  // Hashes
+  HSET: spec(-4, ["write", "hash", "fast"], firstKey, ["denyoom"]),
+  HMSET: spec(-4, ["write", "hash", "fast"], firstKey, ["denyoom"]),
+  HSETNX: spec(4, ["write", "hash", "fast"], firstKey, ["denyoom"]),
+  HGET: spec(3, ["read", "hash", "fast"], firstKey),
+  HMGET: spec(-3, ["read", "hash", "fast"], firstKey),
+  HDEL: spec(-3, ["write", "hash", "fast"], firstKey),
+  HEXISTS: spec(3, ["read", "hash", "fast"], firstKey),
+  HLEN: spec(2, ["read", "hash", "fast"], firstKey),
+  HKEYS: spec(2, ["read", "hash", "slow"], firstKey),
+  HVALS: spec(2, ["read", "hash", "slow"], firstKey),
+  HGETALL: spec(2, ["read", "hash", "slow"], firstKey),
+  HINCRBY: spec(4, ["write", "hash", "fast"], firstKey, ["denyoom"]),
+  HINCRBYFLOAT: spec(4, ["write", "hash", "fast"], firstKey, ["denyoom"]),
+  HSTRLEN: spec(3, ["read", "hash", "fast"], firstKey),
+  HSCAN: spec(-3, ["read", "hash", "slow"], firstKey),
+
+  // Sets
+  SADD: spec(-3, ["write", "set", "fast"], firstKey, ["denyoom"]),
+  SREM: spec(-3, ["write", "set", "fast"], firstKey),
+  SISMEMBER: spec(3, ["read", "set", "fast"], firstKey),
+  SMISMEMBER: spec(-3, ["read", "set", "fast"], firstKey),
+  SCARD: spec(2, ["read", "set", "fast"], firstKey),
+  SMEMBERS: spec(2, ["read", "set", "slow"], firstKey),
+  SPOP: spec(-2, ["write", "set", "fast"], firstKey),
+  SRANDMEMBER: spec(-2, ["read", "set", "slow"], firstKey),
+  SMOVE: spec(4, ["write", "set", "fast"], firstTwoKeys),
+  SSCAN: spec(-3, ["read", "set", "slow"], firstKey),
+  SINTER: spec(-2, ["read", "set", "slow"], allKeys),
+  SUNION: spec(-2, ["read", "set", "slow"], allKeys),
+  SDIFF: spec(-2, ["read", "set", "slow"], allKeys),
+  SINTERSTORE: spec(-3, ["write", "set", "slow"], allKeys, ["denyoom"]),
+  SUNIONSTORE: spec(-3, ["write", "set", "slow"], allKeys, ["denyoom"]),
+  SDIFFSTORE: spec(-3, ["write", "set", "slow"], allKeys, ["denyoom"]),
+
+  // Sorted sets
+  ZADD: spec(-4, ["write", "sortedset", "fast"], firstKey, ["denyoom"]),
+  ZINCRBY: spec(4, ["write", "sortedset", "fast"], firstKey, ["denyoom"]),
+  ZREM: spec(-3, ["write", "sortedset", "fast"], firstKey),
+  ZCARD: spec(2, ["read", "sortedset", "fast"], firstKey),
+  ZSCORE: spec(3, ["read", "sortedset", "fast"], firstKey),
+  ZMSCORE: spec(-3, ["read", "sortedset", "fast"], firstKey),
+  ZRANK: spec(-3, ["read", "sortedset", "fast"], firstKey),
+  ZREVRANK: spec(-3, ["read", "sortedset", "fast"], firstKey),
+  ZRANGE: spec(-4, ["read", "sortedset", "slow"], firstKey),
+  ZREVRANGE: spec(-4, ["read", "sortedset", "slow"], firstKey),
+  ZRANGEBYSCORE: spec(-4, ["read", "sortedset", "slow"], firstKey),
+  ZREVRANGEBYSCORE: spec(-4, ["read", "sortedset", "slow"], firstKey),
+  ZRANGEBYLEX: spec(-4, ["read", "sortedset", "slow"], firstKey),
+  ZREVRANGEBYLEX: spec(-4, ["read", "sortedset", "slow"], firstKey),
+  ZCOUNT: spec(4, ["read", "sortedset", "fast"], firstKey),
+  ZLEXCOUNT: spec(4, ["read", "sortedset", "fast"], firstKey),
+  ZPOPMIN: spec(-2, ["write", "sortedset", "fast"], firstKey),
+  ZPOPMAX: spec(-2, ["write", "sortedset", "fast"], firstKey),
+  ZREMRANGEBYSCORE: spec(4, ["write", "sortedset", "slow"], firstKey),
+  ZREMRANGEBYRANK: spec(4, ["write", "sortedset", "slow"], firstKey),
+  ZUNIONSTORE: spec(-4, ["write", "sortedset", "slow"], destinationAndNumKeys, [
+    "denyoom",
+  ]),
+  ZINTERSTORE: spec(-4, ["write", "sortedset", "slow"], destinationAndNumKeys, [
+    "denyoom",
+  ]),
+  ZSCAN: spec(-3, ["read", "sortedset", "slow"], firstKey),
+
+  // Keyspace
+  DEL: spec(-2, ["keyspace", "write", "slow"], allKeys),
+  UNLINK: spec(-2, ["keyspace", "write", "fast"], allKeys),
+  DELETE: spec(-2, ["keyspace", "write", "slow"], allKeys),
+  EXISTS: spec(-2, ["keyspace", "read", "fast"], allKeys),
+  TOUCH: spec(-2, ["keyspace", "read", "fast"], allKeys),
+  TYPE: spec(2, ["keyspace", "read", "fast"], firstKey),
+  KEYS: spec(2, ["keyspace", "read", "slow", "dangerous"]),
+  SCAN: spec(-2, ["keyspace", "read", "slow"]),
+  RANDOMKEY: spec(1, ["keyspace", "read", "slow"]),
+  DBSIZE: spec(1, ["keyspace", "read", "fast"]),
+  RENAME: spec(3, ["keyspace", "write", "slow"], firstTwoKeys),
+  RENAMENX: spec(3, ["keyspace", "write", "fast"], firstTwoKeys),
+  COPY: spec(-3, ["keyspace", "write", "slow"], firstTwoKeys, ["denyoom"]),
+  MOVE: spec(3, ["keyspace", "write", "fast"], firstKey),
+  SWAPDB: spec(3, ["keyspace", "write", "fast", "dangerous"]),
+  FLUSHDB: spec(-1, ["keyspace", "write", "slow", "dangerous"]),
+  FLUSHALL: spec(-1, ["keyspace", "write", "slow", "dangerous"]),
+  EXPIRE: spec(-3, ["keyspace", "write", "fast"], firstKey),
+  PEXPIRE: spec(-3, ["keyspace", "write", "fast"], firstKey),
+  EXPIREAT: spec(-3, ["keyspace", "write", "fast"], firstKey),
+  PEXPIREAT: spec(-3, ["keyspace", "write", "fast"], firstKey),
+  TTL: spec(2, ["keyspace", "read", "fast"], firstKey),
+  PTTL: spec(2, ["keyspace", "read", "fast"], firstKey),
+  EXPIRETIME: spec(2, ["keyspace", "read", "fast"], firstKey),
+  PEXPIRETIME: spec(2, ["keyspace", "read", "fast"], firstKey),
+  PERSIST: spec(2, ["keyspace", "write", "fast"], firstKey),
+  OBJECT: spec(-2, ["keyspace", "read", "slow"], {
+    first: 1,
+    last: 1,
+    step: 1,
+  }),
+
+  // Connection
+  HELLO: spec(-1, ["fast", "connection"], undefined, [
+    "noscript",
+    "skip_monitor",
+    "skip_slowlog",
+    "no_auth",
+  ]),
+  PING: spec(-1, ["fast", "connection"]),
+  SELECT: spec(2, ["fast", "connection"]),
+  AUTH: spec(-2, ["fast", "connection"], undefined, [
+    "noscript",
+    "skip_monitor",
+    "skip_slowlog",
+    "no_auth",
+  ]),
+
+  // Server
+  COMMAND: spec(-1, ["slow", "connection"]),
+  ACL: spec(-2, ["admin", "slow", "dangerous"], undefined, ["noscript"]),
+  INFO: spec(-1, ["slow", "dangerous"]),
+  MEMORY: spec(-2, ["read", "slow"], { first: 1, last: 1, step: 1 }),
+  BGREWRITEAOF: spec(1, ["admin", "slow", "dangerous"], undefined, [
+    "noscript",
+  ]),
+  SAVE: spec(1, ["admin", "slow", "dangerous"], undefined, ["noscript"]),
+  BGSAVE: spec(1, ["admin", "slow", "dangerous"], undefined, ["noscript"]),
+  LASTSAVE: spec(1, ["admin", "fast", "dangerous"]),
+  SLOWLOG: spec(-2, ["admin", "slow", "dangerous"]),
+  MONITOR: spec(1, ["admin", "slow", "dangerous"], undefined, ["noscript"]),
+  CLIENT: spec(-2, ["admin", "slow", "dangerous", "connection"], undefined, [
+    "noscript",
+  ]),
+  CONFIG: spec(-2, ["admin", "slow", "dangerous"], undefined, ["noscript"]),
+
+  // Replication
+  REPLICAOF: spec(3, ["admin", "slow", "dangerous"], undefined, ["noscript"]),
+  SLAVEOF: spec(3, ["admin", "slow", "dangerous"], undefined, ["noscript"]),
+  ROLE: spec(1, ["admin", "fast", "dangerous"]),
+  REPLCONF: spec(-1, ["admin", "slow", "dangerous"], undefined, ["noscript"]),
+  PSYNC: spec(-3, ["admin", "slow", "dangerous"], undefined, ["noscript"]),
+  SYNC: spec(1, ["admin", "slow", "dangerous"], undefined, ["noscript"]),
+
+  // Transactions
+  MULTI: spec(1, ["fast", "transaction"], undefined, ["noscript"]),
+  EXEC: spec(1, ["slow", "transaction"], undefined, [
+    "noscript",
+    "may_replicate",
+  ]),
+  DISCARD: spec(1, ["fast", "transaction"], undefined, ["noscript"]),
+  WATCH: spec(-2, ["fast", "transaction"], allKeys, ["noscript"]),
+  UNWATCH: spec(1, ["fast", "transaction"], undefined, ["noscript"]),
+
+  // Pub/Sub
+  SUBSCRIBE: spec(-2, ["pubsub", "slow"], undefined, ["noscript", "no_multi"]),
+  UNSUBSCRIBE: spec(-1, ["pubsub", "slow"], undefined, [
+    "noscript",
+    "no_multi",
+  ]),
+  PSUBSCRIBE: spec(-2, ["pubsub", "slow"], undefined, ["noscript", "no_multi"]),
+  PUNSUBSCRIBE: spec(-1, ["pubsub", "slow"], undefined, [
+    "noscript",
+    "no_multi",
+  ]),
+  PUBLISH: spec(3, ["pubsub", "fast"], undefined, ["may_replicate"]),
+  PUBSUB: spec(-2, ["pubsub", "slow"]),
+
+  // Scripting
+  EVAL: spec(-3, ["slow", "scripting"], scriptKeys, [
+    "noscript",
+    "may_replicate",
+  ]),
+  EVALSHA: spec(-3, ["slow", "scripting"], scriptKeys, [
+    "noscript",
+    "may_replicate",
+  ]),
+  SCRIPT: spec(-2, ["slow", "scripting"], undefined, ["noscript"]),
+};
+
+/**
+ * Returns the positions of the keys among a command's arguments.
+ *
+ * @param command - The command name, upper case.
+ * @param args - The arguments, without the command name.
+ * @returns The indexes into `args`, empty for commands without keys.
+ */
+const keyPositions = (command: string, args: Buffer[]): number[] => {
+  const keys = commandTable[command]?.keys;
+  if (!keys) {
+    return [];
+  }
+  if (typeof keys === "function") {
+    return keys(args);
+  }
+
+  const last = keys.last < 0 ? args.length + keys.last : keys.last;
+  const positions: number[] = [];
+  for (let i = keys.first; i <= last && i < args.length; i += keys.step) {
+    positions.push(i);
+  }
+  return positions;
+};
+
+/**
+ * Tells whether a command got as many arguments as its arity allows.
+ * Unknown commands have no arity to check.
+ *
+ * @param command - The command name, upper case.
+ * @param args - The arguments, without the command name.
+ */
+const hasValidArity = (command: string, args: Buffer[]) => {
+  const arity = commandTable[command]?.arity;
+  if (arity === undefined) {
+    return true;
+  }
+  const count = args.length + 1;
+  return arity < 0 ? count >= -arity : count === arity;
+};
+
+/**
+ * @returns `true` if `command` has `flag` in the command table.
+ */
+const hasFlag = (command: string, flag: Flag) =>
+  !!commandTable[command]?.flags.includes(flag);
+
+/**
+ * @returns The names of the commands in `category`, or of every command for
+ *          `all`.
+ */
+const commandsInCategory = (category: string) =>
+  Object.keys(commandTable).filter(
+    (command) =>
+      category === "all" ||
+      commandTable[command].categories.includes(category as Category)
+  );
+
+export {
+  CATEGORIES,
+  commandTable,
+  keyPositions,
+  hasValidArity,
+  hasFlag,
+  commandsInCategory,
+};
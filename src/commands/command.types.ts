@@ -0,0 +1,5 @@
+import { Client } from "../client";
+import { Reply } from "../resp";
+
+export type CommandHandler = (args: Buffer[], client: Client) => Reply;
+export type CommandHandlers<T extends string> = Record<T, CommandHandler>;
@@ -0,0 +1,191 @@
+import config from "../config.json";
+import { setUser } from "../acl";
+import { CommandError } from "../errors";
+import { isEvictionPolicy } from "../evict";
+import { APPEND_FSYNC_POLICIES, persistence } from "../persistence";
+import { reply } from "../resp";
+import {
+  Setting,
+  findSetting,
+  formatSettingValue,
+  matchSettings,
+  parseSettingValue,
+  rewriteConfigFile,
+  settingNames,
+} from "../settings";
+import { resizeBacklog } from "../replication";
+import { parseSaveRules } from "../snapshot";
+import { logger } from "../utils/logger";
+import { wrongNumberOfArguments } from "./arguments";
+import { CommandHandlers } from "./command.types";
+
+const log = logger("config");
+
+type ConfigCommands = "CONFIG";
+
+const CONFIG_HELP = [
+  "CONFIG <subcommand> [<arg> [value] [opt] ...]. Subcommands are:",
+  "GET <pattern>",
+  "    Return parameters matching the glob-like <pattern> and their values.",
+  "SET <directive> <value>",
+  "    Set the configuration <directive> to <value>.",
+  "REWRITE",
+  "    Rewrite the configuration file.",
+  "HELP",
+  "    Print this help.",
+];
+
+// Only read at startup. The primary is changed with REPLICAOF instead.
+const IMMUTABLE_SETTINGS: Setting[] = [
+  "port",
+  "bind",
+  "dir",
+  "databases",
+  "aclFile",
+  "metricsPort",
+  "replicaOf",
+];
+
+/**
+ * Checks of values beyond their type, returning why a value is refused.
+ */
+const CHECKS: Partial<Record<Setting, (value: string) => string | null>> = {
+  appendFsync: (value) =>
+    APPEND_FSYNC_POLICIES.includes(value)
+      ? null
+      : "argument(s) must be one of the following: always, everysec, no",
+  maxMemoryPolicy: (value) =>
+    isEvictionPolicy(value) ? null : "argument must be a valid eviction policy",
+  save: (value) => {
+    try {
+      parseSaveRules(value);
+      return null;
+    } catch {
+      return "Invalid save parameters";
+    }
+  },
+};
+
+/**
+ * What a setting changed at runtime takes besides its new value. The other
+ * settings are read wherever they are used.
+ */
+const EFFECTS: Partial<Record<Setting, () => void>> = {
+  appendOnly: () => {
+    if (config.appendOnly) {
+      // The AOF may be missing or behind, so it starts from the dataset.
+      persistence.rewriteAof();
+    } else {
+      persistence.stopAof();
+    }
+  },
+  replBacklogSize: resizeBacklog,
+  requirePass: () =>
+    setUser("default", [
+      "resetpass",
+      config.requirePass ? `>${config.requirePass}` : "nopass",
+    ]),
+};
+
+const setFailed = (name: Buffer, reason: string) =>
+  new CommandError(
+    `ERR CONFIG SET failed (possibly related to argument '${name}') - ${reason}`
+  );
+
+/**
+ * CONFIG SET with one or more `<setting> <value>` pairs. Every value is
+ * checked before any is set, so either all of them change or none does.
+ */
+const configSet = (args: Buffer[]) => {
+  if (args.length === 0 || args.length % 2 !== 0) {
+    throw wrongNumberOfArguments("config|set");
+  }
+
+  const changes = new Map<Setting, string | number | boolean>();
+  for (let i = 0; i < args.length; i += 2) {
+    const setting = findSetting(args[i].toString());
+    if (!setting) {
+      throw new CommandError(
+        `ERR Unknown option or number of arguments for CONFIG SET - '${args[i]}'`
+      );
+    }
+    if (IMMUTABLE_SETTINGS.includes(setting)) {
+      throw setFailed(args[i], "can't set immutable config");
+    }
+    if (changes.has(setting)) {
+      throw setFailed(args[i], "duplicate parameter");
+    }
+
+    const value = args[i + 1].toString();
+    let parsed: string | number | boolean;
+    try {
+      parsed = parseSettingValue(setting, value);
+    } catch (e: any) {
+      throw setFailed(args[i], e.message);
+    }
+    const refused = CHECKS[setting]?.(value);
+    if (refused) {
+      throw setFailed(args[i], refused);
+    }
+    changes.set(setting, parsed);
+  }
+
+  for (const [setting, value] of changes) {
+    const changed = config[setting] !== value;
+    Object.assign(config, { [setting]: value });
+    if (changed) {
+      log.info(`${setting} set to ${formatSettingValue(setting)}`);
+      EFFECTS[setting]?.();
+    }
+  }
+  return reply.ok();
+};
+
+const configHandlers: CommandHandlers<ConfigCommands> = {
+  CONFIG: (args) => {
+    if (args.length === 0) {
+      throw wrongNumberOfArguments("config");
+    }
+
+    const subcommand = args[0].toString().toUpperCase();
+    switch (subcommand) {
+      case "GET": {
+        if (args.length < 2) {
+          throw wrongNumberOfArguments("config|get");
+        }
+        const matching = new Set(
+          args.slice(1).flatMap((pattern) => matchSettings(pattern.toString()))
+        );
+        return reply.map(
+          settingNames()
+            .filter((setting) => matching.has(setting))
+            .map((setting) => [
+              reply.bulk(setting),
+              reply.bulk(formatSettingValue(setting)),
+            ])
+        );
+      }
+      case "SET":
+        return configSet(args.slice(1));
+      case "REWRITE":
+        if (args.length !== 1) {
+          throw wrongNumberOfArguments("config|rewrite");
+        }
+        try {
+          rewriteConfigFile();
+        } catch (e: any) {
+          throw new CommandError(`ERR ${e.message}`);
+        }
+        log.info("CONFIG REWRITE executed with success.");
+        return reply.ok();
+      case "HELP":
+        return reply.array(CONFIG_HELP.map(reply.simple));
+      default:
+        throw new CommandError(
+          `ERR unknown subcommand '${args[0]}'. Try CONFIG HELP.`
+        );
+    }
+  },
+};
+
+export { configHandlers };
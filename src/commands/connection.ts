@@ -0,0 +1,146 @@
+import { logger } from "../utils/logger";
+import { addLogEntry, checkPassword, getUser } from "../acl";
+import { Client } from "../client";
+import { CommandError } from "../errors";
+import { reply } from "../resp";
+import { subscriptionCount } from "../pubsub";
+import { selectDatabase } from "../keyspace";
+import { parseDatabaseIndex, wrongNumberOfArguments } from "./arguments";
+import { CommandHandlers } from "./command.types";
+
+const log = logger("connection");
+
+// Version reported to clients. Libraries use it to decide which commands
+// and reply formats they can rely on.
+const REDIS_VERSION = "7.2.0";
+
+type ConnectionCommands = "HELLO" | "PING" | "SELECT" | "AUTH";
+
+const WRONGPASS =
+  "WRONGPASS invalid username-password pair or user is disabled.";
+
+/**
+ * Logs the client in as `username` when the password matches. Failures are
+ * recorded in the ACL LOG.
+ *
+ * @returns `true` once authenticated.
+ */
+const authenticate = (client: Client, username: string, password: Buffer) => {
+  if (!checkPassword(username, password)) {
+    addLogEntry(client, "auth", "AUTH", username);
+    return false;
+  }
+
+  client.user = username;
+  client.authenticated = true;
+  log.info(`Client ${client.id} authenticated as ${username}`);
+  return true;
+};
+
+const connectionHandlers: CommandHandlers<ConnectionCommands> = {
+  HELLO: (args, client) => {
+    let protocol = client.protocol;
+
+    if (args.length > 0) {
+      const version = args[0].toString();
+      if (!/^\d+$/.test(version)) {
+        return reply.error(
+          "ERR Protocol version is not an integer or out of range"
+        );
+      }
+      if (version !== "2" && version !== "3") {
+        return reply.error("NOPROTO unsupported protocol version");
+      }
+      protocol = version === "3" ? 3 : 2;
+    }
+
+    let name = client.name;
+    let credentials: [string, Buffer] | null = null;
+
+    for (let i = 1; i < args.length; i++) {
+      const option = args[i].toString().toUpperCase();
+      const remaining = args.length - i - 1;
+
+      if (option === "AUTH" && remaining >= 2) {
+        credentials = [args[i + 1].toString(), args[i + 2]];
+        i += 2;
+      } else if (option === "SETNAME" && remaining >= 1) {
+        name = args[i + 1].toString();
+        if (/[\s]/.test(name)) {
+          return reply.error(
+            "ERR Client names cannot contain spaces, newlines or special characters."
+          );
+        }
+        i += 1;
+      } else {
+        return reply.error(`ERR Syntax error in HELLO option '${args[i]}'`);
+      }
+    }
+
+    if (credentials && !authenticate(client, ...credentials)) {
+      return reply.error(WRONGPASS);
+    }
+    if (!client.authenticated) {
+      return reply.error(
+        "NOAUTH HELLO must be called with the client already authenticated, otherwise the HELLO <proto> AUTH <user> <pass> option can be used to authenticate the client and select the RESP protocol version at the same time"
+      );
+    }
+
+    client.protocol = protocol;
+    client.name = name;
+    log.info(`Client ${client.id} switched to RESP${protocol}`);
+
+    return reply.map([
+      [reply.bulk("server"), reply.bulk("redis")],
+      [reply.bulk("version"), reply.bulk(REDIS_VERSION)],
+      [reply.bulk("proto"), reply.integer(protocol)],
+      [reply.bulk("id"), reply.integer(client.id)],
+      [reply.bulk("mode"), reply.bulk("standalone")],
+      [reply.bulk("role"), reply.bulk("master")],
+      [reply.bulk("modules"), reply.array([])],
+    ]);
+  },
+  PING: (args, client) => {
+    if (args.length > 1) {
+      throw wrongNumberOfArguments("ping");
+    }
+
+    // RESP2 subscribers can only receive arrays, so PING answers with one.
+    if (client.protocol === 2 && subscriptionCount(client) > 0) {
+      return reply.array([
+        reply.bulk("pong"),
+        reply.bulk(args.length === 1 ? args[0] : ""),
+      ]);
+    }
+    return args.length === 1 ? reply.bulk(args[0]) : reply.simple("PONG");
+  },
+  AUTH: (args, client) => {
+    if (args.length < 1 || args.length > 2) {
+      throw wrongNumberOfArguments("auth");
+    }
+
+    // With a single argument the password is for the default user.
+    if (args.length === 1 && getUser("default")?.nopass) {
+      throw new CommandError(
+        "ERR AUTH <password> called without any password configured for the default user. Are you sure your configuration is correct?"
+      );
+    }
+    const username = args.length === 2 ? args[0].toString() : "default";
+
+    if (!authenticate(client, username, args[args.length - 1])) {
+      throw new CommandError(WRONGPASS);
+    }
+    return reply.ok();
+  },
+  SELECT: (args, client) => {
+    if (args.length !== 1) {
+      throw wrongNumberOfArguments("select");
+    }
+    client.db = parseDatabaseIndex(args[0]);
+    // Later commands of the same EXEC run in the new database too.
+    selectDatabase(client.db);
+    return reply.ok();
+  },
+};
+
+export { connectionHandlers, REDIS_VERSION };
@@ -0,0 +1,268 @@
+import {
+  deleteKey,
+  lookupKeyOfType,
+  setKey,
+  signalModifiedKey,
+} from "../keyspace";
+import { Dict } from "../dict";
+import { CommandError } from "../errors";
+import { propagateAs } from "../propagation";
+import { reply, formatDouble } from "../resp";
+import { fromBinaryString, toBinaryString } from "../utils/binary";
+import { globMatch } from "../utils/glob";
+import {
+  parseDouble,
+  parseInteger,
+  parseScanArguments,
+  wrongNumberOfArguments,
+} from "./arguments";
+import { CommandHandlers } from "./command.types";
+
+type HashCommands =
+  | "HSET"
+  | "HMSET"
+  | "HSETNX"
+  | "HGET"
+  | "HMGET"
+  | "HDEL"
+  | "HEXISTS"
+  | "HLEN"
+  | "HKEYS"
+  | "HVALS"
+  | "HGETALL"
+  | "HINCRBY"
+  | "HINCRBYFLOAT"
+  | "HSTRLEN"
+  | "HSCAN";
+
+/**
+ * Returns the hash at `key`, creating an empty one when it does not exist.
+ */
+const getOrCreateHash = (key: string) => {
+  const entry = lookupKeyOfType(key, "hash");
+  if (entry) {
+    return entry.value;
+  }
+
+  const hash = new Dict<Buffer>();
+  setKey(key, { type: "hash", value: hash });
+  return hash;
+};
+
+/**
+ * Sets every field/value pair in `args` (starting at index 1) and returns
+ * how many fields were added.
+ */
+const setFields = (command: string, args: Buffer[]) => {
+  if (args.length < 3 || args.length % 2 === 0) {
+    throw wrongNumberOfArguments(command);
+  }
+
+  const key = toBinaryString(args[0]);
+  const hash = getOrCreateHash(key);
+  let added = 0;
+
+  for (let i = 1; i < args.length; i += 2) {
+    const field = toBinaryString(args[i]);
+    if (!hash.has(field)) {
+      added++;
+    }
+    hash.set(field, args[i + 1]);
+  }
+  signalModifiedKey(key);
+
+  return added;
+};
+
+const hashHandlers: CommandHandlers<HashCommands> = {
+  HSET: (args) => reply.integer(setFields("hset", args)),
+  HMSET: (args) => {
+    setFields("hmset", args);
+    return reply.ok();
+  },
+  HSETNX: (args) => {
+    if (args.length !== 3) {
+      throw wrongNumberOfArguments("hsetnx");
+    }
+    const key = toBinaryString(args[0]);
+    const hash = getOrCreateHash(key);
+    const field = toBinaryString(args[1]);
+
+    if (hash.has(field)) {
+      return reply.integer(0);
+    }
+    hash.set(field, args[2]);
+    signalModifiedKey(key);
+    return reply.integer(1);
+  },
+  HGET: (args) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments("hget");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "hash");
+    const value = entry?.value.get(toBinaryString(args[1]));
+
+    return value ? reply.bulk(value) : reply.nil();
+  },
+  HMGET: (args) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments("hmget");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "hash");
+
+    return reply.array(
+      args.slice(1).map((field) => {
+        const value = entry?.value.get(toBinaryString(field));
+        return value ? reply.bulk(value) : reply.nil();
+      })
+    );
+  },
+  HDEL: (args) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments("hdel");
+    }
+    const key = toBinaryString(args[0]);
+    const entry = lookupKeyOfType(key, "hash");
+    if (!entry) {
+      return reply.integer(0);
+    }
+
+    let deleted = 0;
+    for (const field of args.slice(1)) {
+      if (entry.value.delete(toBinaryString(field))) {
+        deleted++;
+      }
+    }
+
+    if (entry.value.size === 0) {
+      deleteKey(key);
+    }
+    if (deleted > 0) {
+      signalModifiedKey(key);
+    }
+
+    return reply.integer(deleted);
+  },
+  HEXISTS: (args) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments("hexists");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "hash");
+    return reply.integer(entry?.value.has(toBinaryString(args[1])) ? 1 : 0);
+  },
+  HLEN: (args) => {
+    if (args.length !== 1) {
+      throw wrongNumberOfArguments("hlen");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "hash");
+    return reply.integer(entry?.value.size ?? 0);
+  },
+  HKEYS: (args) => {
+    if (args.length !== 1) {
+      throw wrongNumberOfArguments("hkeys");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "hash");
+    const fields = [...(entry?.value.keys() ?? [])];
+    return reply.bulkArray(fields.map(fromBinaryString));
+  },
+  HVALS: (args) => {
+    if (args.length !== 1) {
+      throw wrongNumberOfArguments("hvals");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "hash");
+    return reply.bulkArray([...(entry?.value.values() ?? [])]);
+  },
+  HGETALL: (args) => {
+    if (args.length !== 1) {
+      throw wrongNumberOfArguments("hgetall");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "hash");
+    const fields = [...(entry?.value.entries() ?? [])];
+
+    return reply.map(
+      fields.map(([field, value]) => [
+        reply.bulk(fromBinaryString(field)),
+        reply.bulk(value),
+      ])
+    );
+  },
+  HINCRBY: (args) => {
+    if (args.length !== 3) {
+      throw wrongNumberOfArguments("hincrby");
+    }
+    const increment = parseInteger(args[2]);
+    const key = toBinaryString(args[0]);
+    const hash = getOrCreateHash(key);
+    const field = toBinaryString(args[1]);
+
+    const current = hash.get(field);
+    const value = current
+      ? parseInteger(current, "ERR hash value is not an integer")
+      : 0;
+
+    const result = value + increment;
+    if (!Number.isSafeInteger(result)) {
+      throw new CommandError("ERR increment or decrement would overflow");
+    }
+
+    hash.set(field, Buffer.from(`${result}`));
+    signalModifiedKey(key);
+    return reply.integer(result);
+  },
+  HINCRBYFLOAT: (args) => {
+    if (args.length !== 3) {
+      throw wrongNumberOfArguments("hincrbyfloat");
+    }
+    const increment = parseDouble(args[2]);
+    const key = toBinaryString(args[0]);
+    const field = toBinaryString(args[1]);
+
+    const current = lookupKeyOfType(key, "hash")?.value.get(field);
+    const value = current
+      ? parseDouble(current, "ERR hash value is not a float")
+      : 0;
+
+    const result = value + increment;
+    if (!Number.isFinite(result)) {
+      throw new CommandError("ERR increment would produce NaN or Infinity");
+    }
+
+    const encoded = Buffer.from(formatDouble(result));
+    getOrCreateHash(key).set(field, encoded);
+    signalModifiedKey(key);
+
+    propagateAs({ command: "HSET", args: [args[0], args[1], encoded] });
+
+    return reply.bulk(encoded);
+  },
+  HSTRLEN: (args) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments("hstrlen");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "hash");
+    return reply.integer(
+      entry?.value.get(toBinaryString(args[1]))?.length ?? 0
+    );
+  },
+  HSCAN: (args) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments("hscan");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "hash");
+    const { cursor, match, count } = parseScanArguments(args.slice(1));
+    const hash = entry?.value ?? new Dict<Buffer>();
+
+    const page = hash.scan(cursor, count);
+    const items: Buffer[] = [];
+
+    for (const field of page.items) {
+      if (match === null || globMatch(match, field)) {
+        items.push(fromBinaryString(field), hash.get(field) as Buffer);
+      }
+    }
+
+    return reply.array([reply.bulk(`${page.cursor}`), reply.bulkArray(items)]);
+  },
+};
+
+export { hashHandlers };
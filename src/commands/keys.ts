@@ -0,0 +1,528 @@
+import config from "../config.json";
+import { logger } from "../utils/logger";
+import {
+  databaseKeys,
+  databaseSize,
+  deleteKey,
+  duplicateValue,
+  getExpire,
+  keyMetadata,
+  lookupKey,
+  randomDatabaseKey,
+  removeExpire,
+  scanDatabaseKeys,
+  setExpire,
+  setKey,
+  signalModifiedKey,
+  swapDatabases,
+  withDatabase,
+} from "../keyspace";
+import { blockedKeys, signalKeyAsReady } from "../blocking";
+import { Client } from "../client";
+import { persistence } from "../persistence";
+import { CommandError, SYNTAX_ERROR } from "../errors";
+import { propagateAs } from "../propagation";
+import { reply } from "../resp";
+import { StoreValue } from "../store.types";
+import { fromBinaryString, toBinaryString } from "../utils/binary";
+import { globMatch } from "../utils/glob";
+import {
+  parseDatabaseIndex,
+  parseInteger,
+  parseScanArguments,
+  wrongNumberOfArguments,
+} from "./arguments";
+import { CommandHandlers } from "./command.types";
+
+const log = logger("keys");
+
+const TYPE_NAMES = ["string", "list", "hash", "set", "zset"];
+
+type KeyCommands =
+  | "DEL"
+  | "UNLINK"
+  | "DELETE"
+  | "EXISTS"
+  | "TOUCH"
+  | "TYPE"
+  | "KEYS"
+  | "SCAN"
+  | "RANDOMKEY"
+  | "DBSIZE"
+  | "RENAME"
+  | "RENAMENX"
+  | "COPY"
+  | "MOVE"
+  | "SWAPDB"
+  | "FLUSHDB"
+  | "FLUSHALL"
+  | "EXPIRE"
+  | "PEXPIRE"
+  | "EXPIREAT"
+  | "PEXPIREAT"
+  | "TTL"
+  | "PTTL"
+  | "EXPIRETIME"
+  | "PEXPIRETIME"
+  | "PERSIST"
+  | "OBJECT";
+
+/**
+ * Parses the optional `NX | XX | GT | LT` conditions of the EXPIRE family.
+ * XX may be combined with GT or LT, every other combination is rejected.
+ */
+const parseExpireConditions = (args: Buffer[]) => {
+  const conditions = new Set(args.map((arg) => arg.toString().toUpperCase()));
+
+  for (const condition of conditions) {
+    if (!["NX", "XX", "GT", "LT"].includes(condition)) {
+      throw new CommandError(`ERR Unsupported option ${condition}`);
+    }
+  }
+  if (conditions.has("NX") && conditions.size > 1) {
+    throw new CommandError(
+      "ERR NX and XX, GT or LT options at the same time are not compatible"
+    );
+  }
+  if (conditions.has("GT") && conditions.has("LT")) {
+    throw new CommandError(
+      "ERR GT and LT options at the same time are not compatible"
+    );
+  }
+
+  return conditions;
+};
+
+/**
+ * Shared implementation of EXPIRE, PEXPIRE, EXPIREAT and PEXPIREAT.
+ *
+ * @param unit - Milliseconds per unit of the time argument.
+ * @param relative - Whether the time argument is relative to now.
+ */
+const expireHandler =
+  (command: string, unit: number, relative: boolean) => (args: Buffer[]) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments(command);
+    }
+    const key = toBinaryString(args[0]);
+    const time = parseInteger(args[1]);
+    const conditions = parseExpireConditions(args.slice(2));
+
+    const when = time * unit + (relative ? Date.now() : 0);
+    if (!Number.isSafeInteger(when)) {
+      throw new CommandError(`ERR invalid expire time in '${command}' command`);
+    }
+
+    if (!lookupKey(key)) {
+      propagateAs();
+      return reply.integer(0);
+    }
+
+    // A key without a TTL counts as never expiring for GT and LT.
+    const current = getExpire(key) ?? Infinity;
+    const skip =
+      (conditions.has("NX") && current !== Infinity) ||
+      (conditions.has("XX") && current === Infinity) ||
+      (conditions.has("GT") && when <= current) ||
+      (conditions.has("LT") && when >= current);
+
+    if (skip) {
+      propagateAs();
+      return reply.integer(0);
+    }
+
+    // A time in the past deletes the key right away.
+    if (when <= Date.now()) {
+      deleteKey(key);
+      propagateAs({ command: "DEL", args: [args[0]] });
+      return reply.integer(1);
+    }
+
+    log.info(`Setting expiration for ${key} to ${when}`);
+    setExpire(key, when);
+
+    // Logged as an absolute time so replaying the AOF later does not extend
+    // the TTL.
+    propagateAs({
+      command: "PEXPIREAT",
+      args: [args[0], Buffer.from(`${when}`)],
+    });
+
+    return reply.integer(1);
+  };
+
+/**
+ * Shared implementation of TTL, PTTL, EXPIRETIME and PEXPIRETIME. Replies
+ * -2 when the key does not exist and -1 when it has no TTL.
+ *
+ * @param unit - Milliseconds per unit of the reply.
+ * @param relative - Whether to reply with the time left instead of the
+ *                   absolute expiration time.
+ */
+const ttlHandler =
+  (command: string, unit: number, relative: boolean) => (args: Buffer[]) => {
+    if (args.length !== 1) {
+      throw wrongNumberOfArguments(command);
+    }
+    const key = toBinaryString(args[0]);
+
+    if (!lookupKey(key)) {
+      return reply.integer(-2);
+    }
+
+    const when = getExpire(key);
+    if (when === undefined) {
+      return reply.integer(-1);
+    }
+    if (!relative) {
+      return reply.integer(Math.floor(when / unit));
+    }
+    const ttl = when - Date.now();
+    return reply.integer(Math.max(Math.floor(ttl / unit), 0));
+  };
+
+/**
+ * Shared implementation of DEL, UNLINK and the older DELETE spelling. All of
+ * them are logged as DEL.
+ */
+const deleteHandler = (command: string) => (args: Buffer[]) => {
+  if (args.length < 1) {
+    throw wrongNumberOfArguments(command);
+  }
+
+  let deleted = 0;
+  for (const arg of args) {
+    const key = toBinaryString(arg);
+    if (lookupKey(key)) {
+      log.info(`Deleting ${key}`);
+      deleteKey(key);
+      deleted++;
+    }
+  }
+
+  if (deleted === 0) {
+    propagateAs();
+  } else {
+    propagateAs({ command: "DEL", args });
+  }
+  return reply.integer(deleted);
+};
+
+/**
+ * Shared implementation of EXISTS and TOUCH. A key given several times is
+ * counted every time, like redis.
+ */
+const countExisting = (command: string) => (args: Buffer[]) => {
+  if (args.length < 1) {
+    throw wrongNumberOfArguments(command);
+  }
+  return reply.integer(
+    args.filter((arg) => lookupKey(toBinaryString(arg))).length
+  );
+};
+
+/**
+ * Stores `entry` at `key`, replacing whatever was there, with the given
+ * absolute expiration time. Clients blocked on the key are woken when it now
+ * holds a list.
+ */
+const storeKey = (key: string, entry: StoreValue, when?: number) => {
+  deleteKey(key);
+  setKey(key, entry);
+  if (when !== undefined) {
+    setExpire(key, when);
+  }
+  signalModifiedKey(key);
+  if (entry.type === "list") {
+    signalKeyAsReady(key);
+  }
+};
+
+/**
+ * Shared implementation of RENAME and RENAMENX. The key keeps its TTL and
+ * replaces the destination, including the destination's TTL.
+ *
+ * @param nx - Only rename when the destination does not exist.
+ */
+const renameHandler = (command: string, nx: boolean) => (args: Buffer[]) => {
+  if (args.length !== 2) {
+    throw wrongNumberOfArguments(command);
+  }
+  const source = toBinaryString(args[0]);
+  const destination = toBinaryString(args[1]);
+
+  const entry = lookupKey(source);
+  if (!entry) {
+    throw new CommandError("ERR no such key");
+  }
+
+  if (source === destination || (nx && lookupKey(destination))) {
+    propagateAs();
+    return nx ? reply.integer(0) : reply.ok();
+  }
+
+  const when = getExpire(source);
+  deleteKey(source);
+  storeKey(destination, entry, when);
+
+  return nx ? reply.integer(1) : reply.ok();
+};
+
+/**
+ * Shared implementation of FLUSHDB and FLUSHALL. The optional `ASYNC | SYNC`
+ * argument is accepted, but both flush right away since freeing memory
+ * never blocks here.
+ *
+ * @param all - Flush every database instead of the selected one.
+ */
+const flushHandler = (all: boolean) => (args: Buffer[], client: Client) => {
+  if (
+    args.length > 1 ||
+    (args.length === 1 &&
+      !["ASYNC", "SYNC"].includes(args[0].toString().toUpperCase()))
+  ) {
+    throw new CommandError(SYNTAX_ERROR);
+  }
+
+  const indexes = all ? persistence.databases.keys() : [client.db];
+  for (const db of indexes) {
+    withDatabase(db, () => {
+      for (const key of databaseKeys()) {
+        deleteKey(key);
+      }
+    });
+  }
+  return reply.ok();
+};
+
+const OBJECT_HELP = [
+  "OBJECT <subcommand> [<arg> [value] [opt] ...]. Subcommands are:",
+  "FREQ <key>",
+  "    Return the access frequency index of the key <key>.",
+  "IDLETIME <key>",
+  "    Return the idle time of the key <key>.",
+  "HELP",
+  "    Print this help.",
+];
+
+const POLICY_SWITCH_NOTE =
+  "Please note that when switching between policies at runtime LRU and LFU data will take some time to adjust.";
+
+const keyHandlers: CommandHandlers<KeyCommands> = {
+  DEL: deleteHandler("del"),
+  UNLINK: deleteHandler("unlink"),
+  DELETE: deleteHandler("delete"),
+  EXISTS: countExisting("exists"),
+  TOUCH: countExisting("touch"),
+  TYPE: (args) => {
+    if (args.length !== 1) {
+      throw wrongNumberOfArguments("type");
+    }
+    return reply.simple(lookupKey(toBinaryString(args[0]))?.type ?? "none");
+  },
+  KEYS: (args) => {
+    if (args.length !== 1) {
+      throw wrongNumberOfArguments("keys");
+    }
+    const pattern = toBinaryString(args[0]);
+
+    return reply.bulkArray(
+      databaseKeys()
+        .filter((key) => globMatch(pattern, key) && lookupKey(key))
+        .map(fromBinaryString)
+    );
+  },
+  SCAN: (args) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("scan");
+    }
+    const { cursor, match, count, type } = parseScanArguments(args, true);
+    if (type !== null && !TYPE_NAMES.includes(type)) {
+      throw new CommandError(`ERR unknown type name '${type}'`);
+    }
+
+    const page = scanDatabaseKeys(cursor, count);
+    const keys = page.items.filter((key) => {
+      if (match !== null && !globMatch(match, key)) {
+        return false;
+      }
+      const entry = lookupKey(key);
+      return entry && (type === null || entry.type === type);
+    });
+
+    return reply.array([
+      reply.bulk(`${page.cursor}`),
+      reply.bulkArray(keys.map(fromBinaryString)),
+    ]);
+  },
+  RANDOMKEY: (args) => {
+    if (args.length !== 0) {
+      throw wrongNumberOfArguments("randomkey");
+    }
+    // Expired keys are removed as they are drawn, so this ends once a live
+    // key is found or none is left.
+    for (
+      let key = randomDatabaseKey();
+      key !== undefined;
+      key = randomDatabaseKey()
+    ) {
+      if (lookupKey(key)) {
+        return reply.bulk(fromBinaryString(key));
+      }
+    }
+    return reply.nil();
+  },
+  DBSIZE: (args) => {
+    if (args.length !== 0) {
+      throw wrongNumberOfArguments("dbsize");
+    }
+    return reply.integer(databaseSize());
+  },
+  RENAME: renameHandler("rename", false),
+  RENAMENX: renameHandler("renamenx", true),
+  COPY: (args, client) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments("copy");
+    }
+    const source = toBinaryString(args[0]);
+    const destination = toBinaryString(args[1]);
+    let db = client.db;
+    let replace = false;
+
+    for (let i = 2; i < args.length; i++) {
+      const option = args[i].toString().toUpperCase();
+      if (option === "REPLACE") {
+        replace = true;
+      } else if (option === "DB" && i + 1 < args.length) {
+        db = parseDatabaseIndex(args[++i]);
+      } else {
+        throw new CommandError(SYNTAX_ERROR);
+      }
+    }
+
+    if (source === destination && db === client.db) {
+      throw new CommandError("ERR source and destination objects are the same");
+    }
+
+    const entry = lookupKey(source);
+    const when = getExpire(source);
+    const copied = withDatabase(db, () => {
+      if (!entry || (!replace && lookupKey(destination))) {
+        return false;
+      }
+      storeKey(destination, duplicateValue(entry), when);
+      return true;
+    });
+
+    if (!copied) {
+      propagateAs();
+    }
+    return reply.integer(copied ? 1 : 0);
+  },
+  MOVE: (args, client) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments("move");
+    }
+    const key = toBinaryString(args[0]);
+    const db = parseDatabaseIndex(args[1]);
+    if (db === client.db) {
+      throw new CommandError("ERR source and destination objects are the same");
+    }
+
+    const entry = lookupKey(key);
+    if (!entry || withDatabase(db, () => lookupKey(key))) {
+      propagateAs();
+      return reply.integer(0);
+    }
+
+    const when = getExpire(key);
+    deleteKey(key);
+    withDatabase(db, () => storeKey(key, entry, when));
+    return reply.integer(1);
+  },
+  SWAPDB: (args) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments("swapdb");
+    }
+    const first = parseDatabaseIndex(args[0]);
+    const second = parseDatabaseIndex(args[1]);
+
+    swapDatabases(first, second);
+
+    // Clients blocked in either database may now find a list to pop from.
+    for (const db of [first, second]) {
+      withDatabase(db, () => {
+        for (const key of blockedKeys(db)) {
+          if (lookupKey(key)?.type === "list") {
+            signalKeyAsReady(key);
+          }
+        }
+      });
+    }
+    return reply.ok();
+  },
+  FLUSHDB: flushHandler(false),
+  FLUSHALL: flushHandler(true),
+  EXPIRE: expireHandler("expire", 1000, true),
+  PEXPIRE: expireHandler("pexpire", 1, true),
+  EXPIREAT: expireHandler("expireat", 1000, false),
+  PEXPIREAT: expireHandler("pexpireat", 1, false),
+  TTL: ttlHandler("ttl", 1000, true),
+  PTTL: ttlHandler("pttl", 1, true),
+  EXPIRETIME: ttlHandler("expiretime", 1000, false),
+  PEXPIRETIME: ttlHandler("pexpiretime", 1, false),
+  PERSIST: (args) => {
+    if (args.length !== 1) {
+      throw wrongNumberOfArguments("persist");
+    }
+    const key = toBinaryString(args[0]);
+
+    if (!lookupKey(key) || !removeExpire(key)) {
+      propagateAs();
+      return reply.integer(0);
+    }
+    return reply.integer(1);
+  },
+  OBJECT: (args) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("object");
+    }
+    const subcommand = args[0].toString().toUpperCase();
+    if (subcommand === "HELP") {
+      return reply.array(OBJECT_HELP.map(reply.simple));
+    }
+    if (subcommand !== "FREQ" && subcommand !== "IDLETIME") {
+      throw new CommandError(
+        `ERR unknown subcommand '${args[0]}'. Try OBJECT HELP.`
+      );
+    }
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments(`object|${subcommand.toLowerCase()}`);
+    }
+
+    // Inspecting a key does not count as accessing it.
+    const key = toBinaryString(args[1]);
+    const metadata = lookupKey(key, false) && keyMetadata(key);
+    if (!metadata) {
+      return reply.nil();
+    }
+
+    const lfu = config.maxMemoryPolicy.endsWith("-lfu");
+    if (subcommand === "FREQ") {
+      if (!lfu) {
+        throw new CommandError(
+          `ERR An LFU maxmemory policy is not selected, access frequency not tracked. ${POLICY_SWITCH_NOTE}`
+        );
+      }
+      return reply.integer(metadata.frequency);
+    }
+    if (lfu) {
+      throw new CommandError(
+        `ERR An LFU maxmemory policy is selected, idle time not tracked. ${POLICY_SWITCH_NOTE}`
+      );
+    }
+    return reply.integer(Math.floor((Date.now() - metadata.accessedAt) / 1000));
+  },
+};
+
+export { keyHandlers };
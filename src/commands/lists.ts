@@ -0,0 +1,324 @@
+import {
+  deleteKey,
+  lookupKeyOfType,
+  setKey,
+  signalModifiedKey,
+} from "../keyspace";
+import { blockClient, signalKeyAsReady } from "../blocking";
+import { Client } from "../client";
+import { CommandError, SYNTAX_ERROR } from "../errors";
+import { propagateAs } from "../propagation";
+import { Reply, reply } from "../resp";
+import { fromBinaryString, toBinaryString } from "../utils/binary";
+import { parseDouble, wrongNumberOfArguments } from "./arguments";
+import { CommandHandlers } from "./command.types";
+
+type ListCommands =
+  | "LPUSH"
+  | "RPUSH"
+  | "LRANGE"
+  | "LPOP"
+  | "RPOP"
+  | "LMOVE"
+  | "RPOPLPUSH"
+  | "BLPOP"
+  | "BRPOP"
+  | "BLMOVE"
+  | "BRPOPLPUSH";
+
+type ListEnd = "head" | "tail";
+
+/**
+ * Pushes `values` to the head or the tail of the list at `key`, creating the
+ * list when it does not exist, and wakes up clients blocked on it.
+ *
+ * @returns The length of the list after the push.
+ */
+const push = (key: string, values: Buffer[], where: ListEnd) => {
+  let entry = lookupKeyOfType(key, "list");
+  if (!entry) {
+    entry = { type: "list", value: [] };
+    setKey(key, entry);
+  }
+
+  const listLength =
+    where === "head"
+      ? entry.value.unshift(...values)
+      : entry.value.push(...values);
+  signalModifiedKey(key);
+  signalKeyAsReady(key);
+
+  return listLength;
+};
+
+/**
+ * Removes and returns the first or last element of the list at `key`. The
+ * key is deleted once the list is empty.
+ *
+ * @returns The element, or `undefined` if the list does not exist.
+ */
+const pop = (key: string, where: ListEnd) => {
+  const entry = lookupKeyOfType(key, "list");
+  if (!entry) {
+    return undefined;
+  }
+
+  const list = entry.value;
+  const poppedValue = where === "head" ? list.shift() : list.pop();
+  if (poppedValue === undefined) {
+    return undefined;
+  }
+  if (list.length === 0) {
+    deleteKey(key);
+  }
+  signalModifiedKey(key);
+  return poppedValue;
+};
+
+/**
+ * Pops an element from `source` and pushes it to `destination`, both of
+ * which must hold lists. The same key may be used for both to rotate it.
+ *
+ * @returns The element moved, or `undefined` if `source` does not exist.
+ */
+const move = (
+  source: string,
+  destination: string,
+  from: ListEnd,
+  to: ListEnd
+) => {
+  // Checked up front so a WRONGTYPE destination leaves the source intact.
+  lookupKeyOfType(destination, "list");
+
+  const value = pop(source, from);
+  if (value !== undefined) {
+    push(destination, [value], to);
+  }
+  return value;
+};
+
+const parseListEnd = (arg: Buffer): ListEnd => {
+  const where = arg.toString().toUpperCase();
+  if (where !== "LEFT" && where !== "RIGHT") {
+    throw new CommandError(SYNTAX_ERROR);
+  }
+  return where === "LEFT" ? "head" : "tail";
+};
+
+const listEndName = (where: ListEnd) =>
+  Buffer.from(where === "head" ? "LEFT" : "RIGHT");
+
+/**
+ * Parses the timeout of a blocking command, in seconds with decimals.
+ *
+ * @returns The timeout in milliseconds, 0 meaning no timeout.
+ */
+const parseTimeout = (arg: Buffer) => {
+  const seconds = parseDouble(
+    arg,
+    "ERR timeout is not a float or out of range"
+  );
+  if (!Number.isFinite(seconds)) {
+    throw new CommandError("ERR timeout is not a float or out of range");
+  }
+  if (seconds < 0) {
+    throw new CommandError("ERR timeout is negative");
+  }
+  return Math.ceil(seconds * 1000);
+};
+
+/**
+ * Serves a blocking command right away from the first of `keys` that has
+ * data. Otherwise blocks the client until a push to one of them, and no
+ * reply is sent for now.
+ *
+ * Clients that must not block, e.g. inside EXEC, get `timeoutReply` at once
+ * as if the timeout had expired.
+ */
+const serveOrBlock = (
+  client: Client,
+  keys: string[],
+  timeout: number,
+  serve: (key: string) => Reply | null,
+  timeoutReply: Reply
+) => {
+  for (const key of keys) {
+    const result = serve(key);
+    if (result) {
+      return result;
+    }
+  }
+
+  // Nothing happened yet, the command is logged once it is served.
+  propagateAs();
+
+  if (client.denyBlocking) {
+    return timeoutReply;
+  }
+
+  blockClient(client, {
+    db: client.db,
+    keys,
+    timeout,
+    timer: null,
+    serve,
+    timeoutReply,
+  });
+  return reply.none();
+};
+
+/**
+ * Shared implementation of BLPOP and BRPOP. Logged as the LPOP or RPOP that
+ * served it, so replaying the AOF never blocks.
+ */
+const blockingPop =
+  (command: string, where: ListEnd) => (args: Buffer[], client: Client) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments(command);
+    }
+    const keys = args.slice(0, -1).map(toBinaryString);
+    const timeout = parseTimeout(args[args.length - 1]);
+
+    const serve = (key: string) => {
+      const value = pop(key, where);
+      if (value === undefined) {
+        return null;
+      }
+
+      const name = fromBinaryString(key);
+      propagateAs({
+        command: where === "head" ? "LPOP" : "RPOP",
+        args: [name],
+      });
+      return reply.array([reply.bulk(name), reply.bulk(value)]);
+    };
+
+    return serveOrBlock(client, keys, timeout, serve, reply.nilArray());
+  };
+
+/**
+ * Shared implementation of BLMOVE and BRPOPLPUSH, logged as an LMOVE.
+ */
+const blockingMove = (
+  args: Buffer[],
+  client: Client,
+  from: ListEnd,
+  to: ListEnd,
+  timeout: number
+) => {
+  const source = toBinaryString(args[0]);
+  const destination = toBinaryString(args[1]);
+
+  const serve = (key: string) => {
+    const value = move(key, destination, from, to);
+    if (value === undefined) {
+      return null;
+    }
+
+    propagateAs({
+      command: "LMOVE",
+      args: [args[0], args[1], listEndName(from), listEndName(to)],
+    });
+    return reply.bulk(value);
+  };
+
+  return serveOrBlock(client, [source], timeout, serve, reply.nil());
+};
+
+const listHandlers: CommandHandlers<ListCommands> = {
+  LPUSH: (args) => {
+    if (args.length < 2) {
+      return reply.error("ERR wrong number of arguments for 'lpush' command");
+    }
+    return reply.integer(push(toBinaryString(args[0]), args.slice(1), "head"));
+  },
+  RPUSH: (args) => {
+    if (args.length < 2) {
+      return reply.error("ERR wrong number of arguments for 'rpush' command");
+    }
+    return reply.integer(push(toBinaryString(args[0]), args.slice(1), "tail"));
+  },
+  LRANGE: (args) => {
+    if (args.length < 3) {
+      return reply.error("ERR wrong number of arguments for 'lrange' command");
+    }
+    const key = toBinaryString(args[0]);
+    const [start, end] = args.slice(1).map((arg) => arg.toString());
+
+    if (!/^-?\d+$/.test(start) || !/^-?\d+$/.test(end)) {
+      return reply.error("ERR value is not an integer or out of range");
+    }
+
+    const entry = lookupKeyOfType(key, "list");
+    if (!entry) {
+      return reply.array([]);
+    }
+
+    const list = entry.value;
+
+    // Negative indexes count from the end of the list, -1 being the last element.
+    let startIndex = parseInt(start, 10);
+    let endIndex = parseInt(end, 10);
+    if (startIndex < 0) startIndex = Math.max(list.length + startIndex, 0);
+    if (endIndex < 0) endIndex = list.length + endIndex;
+
+    return reply.bulkArray(list.slice(startIndex, endIndex + 1));
+  },
+  LPOP: (args) => {
+    if (args.length < 1) {
+      return reply.error("ERR wrong number of arguments for 'lpop' command");
+    }
+    const value = pop(toBinaryString(args[0]), "head");
+    return value === undefined ? reply.nil() : reply.bulk(value);
+  },
+  RPOP: (args) => {
+    if (args.length < 1) {
+      return reply.error("ERR wrong number of arguments for 'rpop' command");
+    }
+    const value = pop(toBinaryString(args[0]), "tail");
+    return value === undefined ? reply.nil() : reply.bulk(value);
+  },
+  LMOVE: (args) => {
+    if (args.length !== 4) {
+      throw wrongNumberOfArguments("lmove");
+    }
+    const from = parseListEnd(args[2]);
+    const to = parseListEnd(args[3]);
+
+    const value = move(
+      toBinaryString(args[0]),
+      toBinaryString(args[1]),
+      from,
+      to
+    );
+    return value === undefined ? reply.nil() : reply.bulk(value);
+  },
+  RPOPLPUSH: (args) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments("rpoplpush");
+    }
+    const source = toBinaryString(args[0]);
+    const destination = toBinaryString(args[1]);
+
+    const value = move(source, destination, "tail", "head");
+    return value === undefined ? reply.nil() : reply.bulk(value);
+  },
+  BLPOP: blockingPop("blpop", "head"),
+  BRPOP: blockingPop("brpop", "tail"),
+  BLMOVE: (args, client) => {
+    if (args.length !== 5) {
+      throw wrongNumberOfArguments("blmove");
+    }
+    const from = parseListEnd(args[2]);
+    const to = parseListEnd(args[3]);
+    return blockingMove(args, client, from, to, parseTimeout(args[4]));
+  },
+  BRPOPLPUSH: (args, client) => {
+    if (args.length !== 3) {
+      throw wrongNumberOfArguments("brpoplpush");
+    }
+    return blockingMove(args, client, "tail", "head", parseTimeout(args[2]));
+  },
+};
+
+export { listHandlers };
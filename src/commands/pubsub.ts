@@ -0,0 +1,149 @@
+import { Client, sendReply } from "../client";
+import { CommandError } from "../errors";
+import { propagateAs } from "../propagation";
+import { reply } from "../resp";
+import {
+  activeChannels,
+  activePatternCount,
+  channelSubscribers,
+  psubscribe,
+  publish,
+  punsubscribe,
+  subscribe,
+  subscriptionCount,
+  unsubscribe,
+} from "../pubsub";
+import { fromBinaryString, toBinaryString } from "../utils/binary";
+import { wrongNumberOfArguments } from "./arguments";
+import { CommandHandlers } from "./command.types";
+
+type PubSubCommands =
+  | "SUBSCRIBE"
+  | "UNSUBSCRIBE"
+  | "PSUBSCRIBE"
+  | "PUNSUBSCRIBE"
+  | "PUBLISH"
+  | "PUBSUB";
+
+/**
+ * Confirms a (un)subscription with a push carrying the number of channels
+ * and patterns the client is now subscribed to.
+ */
+const confirm = (client: Client, kind: string, name: string | null) =>
+  sendReply(
+    client,
+    reply.push([
+      reply.bulk(kind),
+      name === null ? reply.nil() : reply.bulk(fromBinaryString(name)),
+      reply.integer(subscriptionCount(client)),
+    ])
+  );
+
+/**
+ * Shared implementation of UNSUBSCRIBE and PUNSUBSCRIBE. Without arguments
+ * the client leaves everything it is subscribed to of that kind.
+ */
+const unsubscribeHandler =
+  (
+    kind: "unsubscribe" | "punsubscribe",
+    leave: (client: Client, name: string) => boolean,
+    own: "channels" | "patterns"
+  ) =>
+  (args: Buffer[], client: Client) => {
+    const names = args.length > 0 ? args.map(toBinaryString) : [...client[own]];
+
+    if (names.length === 0) {
+      confirm(client, kind, null);
+    }
+    for (const name of names) {
+      leave(client, name);
+      confirm(client, kind, name);
+    }
+
+    return reply.none();
+  };
+
+const PUBSUB_HELP = [
+  "PUBSUB <subcommand> [<arg> [value] [opt] ...]. Subcommands are:",
+  "CHANNELS [<pattern>]",
+  "    Return the currently active channels matching a <pattern> (default: '*').",
+  "NUMPAT",
+  "    Return number of subscriptions to patterns.",
+  "NUMSUB [<channel> ...]",
+  "    Return the number of subscribers for the specified channels, excluding",
+  "    pattern subscriptions(default: no channels).",
+  "HELP",
+  "    Print this help.",
+];
+
+const pubSubHandlers: CommandHandlers<PubSubCommands> = {
+  SUBSCRIBE: (args, client) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("subscribe");
+    }
+    for (const channel of args.map(toBinaryString)) {
+      subscribe(client, channel);
+      confirm(client, "subscribe", channel);
+    }
+    return reply.none();
+  },
+  UNSUBSCRIBE: unsubscribeHandler("unsubscribe", unsubscribe, "channels"),
+  PSUBSCRIBE: (args, client) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("psubscribe");
+    }
+    for (const pattern of args.map(toBinaryString)) {
+      psubscribe(client, pattern);
+      confirm(client, "psubscribe", pattern);
+    }
+    return reply.none();
+  },
+  PUNSUBSCRIBE: unsubscribeHandler("punsubscribe", punsubscribe, "patterns"),
+  PUBLISH: (args) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments("publish");
+    }
+    // Subscribers of the replicas get the message too.
+    propagateAs({ command: "PUBLISH", args, replicaOnly: true });
+    return reply.integer(publish(toBinaryString(args[0]), args[1]));
+  },
+  PUBSUB: (args) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("pubsub");
+    }
+    const subcommand = args[0].toString().toUpperCase();
+    const options = args.slice(1);
+
+    switch (subcommand) {
+      case "CHANNELS":
+        if (options.length > 1) {
+          throw wrongNumberOfArguments("pubsub|channels");
+        }
+        return reply.bulkArray(
+          activeChannels(
+            options.length === 1 ? toBinaryString(options[0]) : null
+          ).map(fromBinaryString)
+        );
+      case "NUMSUB":
+        return reply.array(
+          options.flatMap((channel) => [
+            reply.bulk(channel),
+            reply.integer(channelSubscribers(toBinaryString(channel))),
+          ])
+        );
+      case "NUMPAT":
+        if (options.length > 0) {
+          throw wrongNumberOfArguments("pubsub|numpat");
+        }
+        return reply.integer(activePatternCount());
+      case "HELP":
+        return reply.array(PUBSUB_HELP.map(reply.simple));
+      default:
+        throw new CommandError(
+          `ERR unknown subcommand '${args[0]}'. Try PUBSUB HELP.`
+        );
+    }
+  },
+};
+
+export { pubSubHandlers };
@@ -0,0 +1,149 @@
+import { CommandError, SYNTAX_ERROR } from "../errors";
+import {
+  acknowledge,
+  isMasterLinkDown,
+  replicationInfo,
+  setMaster,
+  syncReplica,
+  unsetMaster,
+} from "../replication";
+import { Reply, reply } from "../resp";
+import { parseInteger, wrongNumberOfArguments } from "./arguments";
+import { CommandHandler, CommandHandlers } from "./command.types";
+
+type ReplicationCommands =
+  | "REPLICAOF"
+  | "SLAVEOF"
+  | "ROLE"
+  | "REPLCONF"
+  | "PSYNC"
+  | "SYNC";
+
+/**
+ * Shared implementation of REPLICAOF and its older name SLAVEOF. After
+ * `NO ONE`, the other replicas of the former primary continue partially
+ * once pointed at this server, see `unsetMaster`.
+ */
+const replicaOfHandler =
+  (name: string): CommandHandler =>
+  (args) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments(name);
+    }
+
+    const [host, port] = args.map((arg) => arg.toString());
+    if (host.toUpperCase() === "NO" && port.toUpperCase() === "ONE") {
+      unsetMaster();
+      return reply.ok();
+    }
+
+    const number = parseInteger(port);
+    if (number < 1 || number > 65535) {
+      throw new CommandError("ERR Invalid master port");
+    }
+    if (!setMaster(host, number)) {
+      return reply.simple("OK Already connected to specified master");
+    }
+    return reply.ok();
+  };
+
+/**
+ * Refuses to sync a replica while this server is itself a replica that
+ * has no dataset to offer yet.
+ */
+const checkMasterLink = () => {
+  if (isMasterLinkDown()) {
+    throw new CommandError(
+      "NOMASTERLINK Can't SYNC while not connected with my master"
+    );
+  }
+};
+
+const replicationHandlers: CommandHandlers<ReplicationCommands> = {
+  REPLICAOF: replicaOfHandler("replicaof"),
+  SLAVEOF: replicaOfHandler("slaveof"),
+  ROLE: (args) => {
+    if (args.length !== 0) {
+      throw wrongNumberOfArguments("role");
+    }
+
+    const info = replicationInfo();
+    if (info.master) {
+      const { host, port, state } = info.master;
+      return reply.array([
+        reply.bulk("slave"),
+        reply.bulk(host),
+        reply.integer(port),
+        reply.bulk(state),
+        reply.integer(state === "connected" ? info.offset : -1),
+      ]);
+    }
+
+    const replicas: Reply[] = info.replicas.map(({ ip, port, offset }) =>
+      reply.bulkArray([ip, `${port}`, `${offset}`])
+    );
+    return reply.array([
+      reply.bulk("master"),
+      reply.integer(info.offset),
+      reply.array(replicas),
+    ]);
+  },
+  REPLCONF: (args, client) => {
+    if (args.length % 2 !== 0) {
+      throw new CommandError(SYNTAX_ERROR);
+    }
+
+    for (let i = 0; i < args.length; i += 2) {
+      const option = args[i].toString().toLowerCase();
+      const value = args[i + 1];
+
+      switch (option) {
+        case "listening-port":
+          client.replica = {
+            state: "handshake",
+            listeningPort: parseInteger(value),
+            ackOffset: 0,
+            ackTime: Date.now(),
+          };
+          break;
+        case "ack":
+          // Acknowledgements get no reply, they arrive on the stream.
+          acknowledge(client, parseInteger(value));
+          return reply.none();
+        case "getack":
+          // Only a primary asks its replica.
+          return reply.none();
+        case "capa":
+        case "ip-address":
+          break;
+        default:
+          throw new CommandError(
+            `ERR Unrecognized REPLCONF option: ${args[i]}`
+          );
+      }
+    }
+    return reply.ok();
+  },
+  PSYNC: (args, client) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments("psync");
+    }
+    checkMasterLink();
+    if (client.replica?.state !== "online") {
+      syncReplica(client, args[0].toString(), parseInteger(args[1]));
+    }
+    return reply.none();
+  },
+  SYNC: (args, client) => {
+    if (args.length !== 0) {
+      throw wrongNumberOfArguments("sync");
+    }
+    checkMasterLink();
+    if (client.replica?.state !== "online") {
+      syncReplica(client, null, -1);
+    }
+    return reply.none();
+  },
+};
+
+export { replicationHandlers };
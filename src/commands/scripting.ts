@@ -0,0 +1,109 @@
+import { CommandError } from "../errors";
+import {
+  flushScripts,
+  loadScript,
+  runScript,
+  scriptExists,
+} from "../scripting";
+import { reply } from "../resp";
+import { parseInteger, wrongNumberOfArguments } from "./arguments";
+import { CommandHandler, CommandHandlers } from "./command.types";
+
+type ScriptingCommands = "EVAL" | "EVALSHA" | "SCRIPT";
+
+const SCRIPT_HELP = [
+  "SCRIPT <subcommand> [<arg> [value] [opt] ...]. Subcommands are:",
+  "EXISTS <sha1> [<sha1> ...]",
+  "    Return information about the existence of the scripts in the script cache.",
+  "FLUSH [ASYNC|SYNC]",
+  "    Flush the scripts cache.",
+  "LOAD <script>",
+  "    Load a script into the scripts cache without executing it.",
+  "HELP",
+  "    Print this help.",
+];
+
+/**
+ * Shared implementation of EVAL and EVALSHA, which take
+ * `<script> numkeys [key ...] [arg ...]` and differ in how they find the
+ * script.
+ */
+const evalHandler =
+  (name: string, findScript: (script: Buffer) => string): CommandHandler =>
+  (args, client) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments(name);
+    }
+
+    const numKeys = parseInteger(args[1]);
+    if (numKeys < 0) {
+      throw new CommandError("ERR Number of keys can't be negative");
+    }
+    if (numKeys > args.length - 2) {
+      throw new CommandError(
+        "ERR Number of keys can't be greater than number of args"
+      );
+    }
+
+    const result = runScript(
+      findScript(args[0]),
+      args.slice(2, 2 + numKeys),
+      args.slice(2 + numKeys),
+      client
+    );
+    if (!result) {
+      throw new CommandError("NOSCRIPT No matching script. Please use EVAL.");
+    }
+    return result;
+  };
+
+const scriptingHandlers: CommandHandlers<ScriptingCommands> = {
+  EVAL: evalHandler("eval", loadScript),
+  EVALSHA: evalHandler("evalsha", (sha) => sha.toString().toLowerCase()),
+  SCRIPT: (args) => {
+    if (args.length === 0) {
+      throw wrongNumberOfArguments("script");
+    }
+
+    const subcommand = args[0].toString().toUpperCase();
+    switch (subcommand) {
+      case "LOAD":
+        if (args.length !== 2) {
+          throw wrongNumberOfArguments("script|load");
+        }
+        return reply.bulk(loadScript(args[1]));
+      case "EXISTS":
+        if (args.length < 2) {
+          throw wrongNumberOfArguments("script|exists");
+        }
+        return reply.array(
+          args
+            .slice(1)
+            .map((sha) =>
+              reply.integer(scriptExists(sha.toString().toLowerCase()) ? 1 : 0)
+            )
+        );
+      case "FLUSH": {
+        if (args.length > 2) {
+          throw wrongNumberOfArguments("script|flush");
+        }
+        const mode = args[1]?.toString().toUpperCase();
+        if (mode !== undefined && mode !== "ASYNC" && mode !== "SYNC") {
+          throw new CommandError(
+            "ERR SCRIPT FLUSH only support SYNC|ASYNC option"
+          );
+        }
+        flushScripts();
+        return reply.ok();
+      }
+      case "HELP":
+        return reply.array(SCRIPT_HELP.map(reply.simple));
+      default:
+        throw new CommandError(
+          `ERR unknown subcommand '${args[0]}'. Try SCRIPT HELP.`
+        );
+    }
+  },
+};
+
+export { scriptingHandlers };
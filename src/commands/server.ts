@@ -0,0 +1,500 @@
+import crypto from "crypto";
+import os from "os";
+import config from "../config.json";
+import { clients } from "../client";
+import { CommandError, SYNTAX_ERROR } from "../errors";
+import { evictionStats } from "../evict";
+import { addMonitor } from "../monitor";
+import { getExpire, keyspaceInfo, lookupKey, usedMemory } from "../keyspace";
+import { estimateKeySize } from "../memory";
+import { persistence } from "../persistence";
+import { replicationInfo } from "../replication";
+import { bgsave, save, snapshotInfo } from "../snapshot";
+import { configFilePath } from "../settings";
+import { resetSlowlog, slowlogEntries, slowlogLength } from "../slowlog";
+import { commandStats, serverStats } from "../stats";
+import { Reply, reply } from "../resp";
+import { toBinaryString } from "../utils/binary";
+import { logger } from "../utils/logger";
+import { parseInteger, wrongNumberOfArguments } from "./arguments";
+import { REDIS_VERSION } from "./connection";
+import { COMMAND_SUMMARIES, commandGroup } from "./command-docs";
+import { commandTable, hasValidArity, keyPositions } from "./command-table";
+import { CommandHandlers } from "./command.types";
+
+type ServerCommands =
+  | "COMMAND"
+  | "INFO"
+  | "MEMORY"
+  | "BGREWRITEAOF"
+  | "SAVE"
+  | "BGSAVE"
+  | "LASTSAVE"
+  | "SLOWLOG"
+  | "MONITOR";
+
+const log = logger("server");
+
+const BGSAVE_IN_PROGRESS = "ERR Background save already in progress";
+
+const COMMAND_HELP = [
+  "COMMAND <subcommand> [<arg> [value] [opt] ...]. Subcommands are:",
+  "(no subcommand)",
+  "    Return details about all Redis commands.",
+  "COUNT",
+  "    Return the total number of commands in this Redis server.",
+  "INFO [<command-name> ...]",
+  "    Return details about multiple Redis commands.",
+  "    If no command names are given, documentation details for all",
+  "    commands are returned.",
+  "DOCS [<command-name> ...]",
+  "    Return documentation details about multiple Redis commands.",
+  "    If no command names are given, documentation details for all",
+  "    commands are returned.",
+  "GETKEYS <full-command>",
+  "    Return the keys from a full Redis command.",
+  "HELP",
+  "    Print this help.",
+];
+
+const MEMORY_HELP = [
+  "MEMORY <subcommand> [<arg> [value] [opt] ...]. Subcommands are:",
+  "USAGE <key> [SAMPLES <count>]",
+  "    Return memory in bytes used by <key> and its value. Nested values are",
+  "    estimated from a sample of their elements.",
+  "HELP",
+  "    Print this help.",
+];
+
+const SLOWLOG_HELP = [
+  "SLOWLOG <subcommand> [<arg> [value] [opt] ...]. Subcommands are:",
+  "GET [<count>]",
+  "    Return top <count> entries from the slowlog (default: 10, -1 mean all).",
+  "    Entries are made of:",
+  "    id, timestamp, time in microseconds, arguments array, client IP and port,",
+  "    client name",
+  "LEN",
+  "    Return the length of the slowlog.",
+  "RESET",
+  "    Reset the slowlog.",
+  "HELP",
+  "    Print this help.",
+];
+
+/**
+ * Formats a byte count the way INFO does, e.g. `1.50M`.
+ */
+const bytesToHuman = (bytes: number) => {
+  const units = ["B", "K", "M", "G", "T"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${bytes}B` : `${value.toFixed(2)}${units[unit]}`;
+};
+
+// Identifies this run of the server in INFO.
+const RUN_ID = crypto.randomBytes(20).toString("hex");
+
+// Sections INFO only prints when asked for by name, or with `all`.
+const NON_DEFAULT_SECTIONS = ["commandstats"];
+
+// INFO sections in the order they are printed, each as `field:value` lines.
+const infoSections: Record<string, () => [string, string | number][]> = {
+  server: () => {
+    const uptime = Math.floor((Date.now() - serverStats().startTime) / 1000);
+    return [
+      ["redis_version", REDIS_VERSION],
+      ["redis_mode", "standalone"],
+      ["os", `${os.type()} ${os.release()} ${os.arch()}`],
+      ["process_id", process.pid],
+      ["run_id", RUN_ID],
+      ["tcp_port", config.port],
+      ["server_time_usec", Date.now() * 1000],
+      ["uptime_in_seconds", uptime],
+      ["uptime_in_days", Math.floor(uptime / 86400)],
+      ["config_file", configFilePath() ?? ""],
+    ];
+  },
+  clients: () => {
+    const connected = [...clients.values()];
+    return [
+      ["connected_clients", connected.length],
+      ["blocked_clients", connected.filter(({ blocked }) => blocked).length],
+      [
+        "pubsub_clients",
+        connected.filter(
+          ({ channels, patterns }) => channels.size + patterns.size > 0
+        ).length,
+      ],
+    ];
+  },
+  memory: () => [
+    ["used_memory", usedMemory()],
+    ["used_memory_human", bytesToHuman(usedMemory())],
+    ["maxmemory", config.maxMemory],
+    ["maxmemory_human", bytesToHuman(config.maxMemory)],
+    ["maxmemory_policy", config.maxMemoryPolicy],
+  ],
+  persistence: () => {
+    const snapshot = snapshotInfo();
+    const aof = persistence.aofInfo();
+    return [
+      ["rdb_changes_since_last_save", snapshot.changes],
+      ["rdb_bgsave_in_progress", snapshot.bgsaveInProgress ? 1 : 0],
+      ["rdb_last_save_time", Math.floor(snapshot.lastSave / 1000)],
+      ["rdb_last_bgsave_status", snapshot.lastBgsaveStatus],
+      ["aof_enabled", config.appendOnly ? 1 : 0],
+      ["aof_rewrite_in_progress", aof.rewriting ? 1 : 0],
+      ["aof_last_bgrewrite_status", persistence.lastRewriteStatus],
+      ["aof_last_write_status", persistence.lastWriteStatus],
+      ["aof_current_size", aof.size],
+      ["aof_base_size", aof.baseSize],
+    ];
+  },
+  stats: () => {
+    const stats = serverStats();
+    return [
+      ["total_connections_received", stats.connectionsReceived],
+      ["total_commands_processed", stats.commandsProcessed],
+      ["total_error_replies", stats.errorReplies],
+      ["expired_keys", stats.expiredKeys],
+      ["evicted_keys", evictionStats().evictedKeys],
+      ["keyspace_hits", stats.keyspaceHits],
+      ["keyspace_misses", stats.keyspaceMisses],
+    ];
+  },
+  replication: () => {
+    const info = replicationInfo();
+    const now = Date.now();
+    const seconds = (since: number) => Math.floor((now - since) / 1000);
+    const fields: [string, string | number][] = [
+      ["role", info.master ? "slave" : "master"],
+    ];
+
+    if (info.master) {
+      const { host, port, state, lastInteraction, downSince } = info.master;
+      const up = state === "connected";
+      fields.push(
+        ["master_host", host],
+        ["master_port", port],
+        ["master_link_status", up ? "up" : "down"],
+        ["master_last_io_seconds_ago", up ? seconds(lastInteraction) : -1],
+        ["master_sync_in_progress", state === "sync" ? 1 : 0],
+        ["slave_read_repl_offset", info.offset],
+        ["slave_repl_offset", info.offset]
+      );
+      if (!up) {
+        fields.push(["master_link_down_since_seconds", seconds(downSince)]);
+      }
+      fields.push(["slave_read_only", config.replicaReadOnly ? 1 : 0]);
+    }
+
+    fields.push(["connected_slaves", info.replicas.length]);
+    info.replicas.forEach(({ ip, port, state, offset, ackTime }, index) =>
+      fields.push([
+        `slave${index}`,
+        `ip=${ip},port=${port},state=${state},offset=${offset},lag=${seconds(
+          ackTime
+        )}`,
+      ])
+    );
+
+    fields.push(
+      ["master_replid", info.replid],
+      ["master_replid2", info.replid2],
+      ["master_repl_offset", info.offset],
+      ["second_repl_offset", info.secondReplOffset],
+      ["repl_backlog_active", info.backlog ? 1 : 0],
+      ["repl_backlog_size", info.backlog?.size ?? config.replBacklogSize],
+      ["repl_backlog_first_byte_offset", info.backlog?.firstByteOffset ?? 0],
+      ["repl_backlog_histlen", info.backlog?.length ?? 0]
+    );
+    return fields;
+  },
+  commandstats: () =>
+    commandStats().map(([command, stats]) => [
+      `cmdstat_${command.toLowerCase()}`,
+      `calls=${stats.calls},usec=${stats.usec},usec_per_call=${(stats.calls
+        ? stats.usec / stats.calls
+        : 0
+      ).toFixed(2)},rejected_calls=${stats.rejectedCalls},failed_calls=${
+        stats.failedCalls
+      }`,
+    ]),
+  keyspace: () =>
+    keyspaceInfo().map(({ db, keys, expires, avgTtl }) => [
+      `db${db}`,
+      `keys=${keys},expires=${expires},avg_ttl=${avgTtl}`,
+    ]),
+};
+
+/**
+ * Describes a command the way COMMAND INFO does: its name, arity, flags,
+ * the first and last key and the step between keys, and its ACL
+ * categories. Tips, key specs and subcommands follow, always empty here.
+ */
+const describeCommand = (command: string) => {
+  const { arity, categories, keys, flags } = commandTable[command];
+  // Positions count the command name. Keys found from other arguments are
+  // reported as 0, with the `movablekeys` flag.
+  const [first, last, step] =
+    !keys || typeof keys === "function"
+      ? [0, 0, 0]
+      : [keys.first + 1, keys.last < 0 ? keys.last : keys.last + 1, keys.step];
+
+  return reply.array([
+    reply.bulk(command.toLowerCase()),
+    reply.integer(arity),
+    reply.set(flags.map(reply.simple)),
+    reply.integer(first),
+    reply.integer(last),
+    reply.integer(step),
+    reply.set(categories.map((category) => reply.simple(`@${category}`))),
+    reply.array([]),
+    reply.array([]),
+    reply.array([]),
+  ]);
+};
+
+/**
+ * The documentation COMMAND DOCS returns for a command, by its name.
+ */
+const documentCommand = (command: string): [Reply, Reply] => [
+  reply.bulk(command.toLowerCase()),
+  reply.map([
+    [reply.bulk("summary"), reply.bulk(COMMAND_SUMMARIES[command])],
+    [
+      reply.bulk("group"),
+      reply.bulk(commandGroup(commandTable[command].categories)),
+    ],
+  ]),
+];
+
+const serverHandlers: CommandHandlers<ServerCommands> = {
+  COMMAND: (args) => {
+    if (args.length === 0) {
+      return reply.array(Object.keys(commandTable).map(describeCommand));
+    }
+
+    const subcommand = args[0].toString().toUpperCase();
+    const names = args.slice(1).map((name) => name.toString().toUpperCase());
+    switch (subcommand) {
+      case "COUNT":
+        if (args.length !== 1) {
+          throw wrongNumberOfArguments("command|count");
+        }
+        return reply.integer(Object.keys(commandTable).length);
+      case "INFO":
+        if (names.length === 0) {
+          return reply.array(Object.keys(commandTable).map(describeCommand));
+        }
+        return reply.array(
+          names.map((name) =>
+            name in commandTable ? describeCommand(name) : reply.nil()
+          )
+        );
+      case "DOCS":
+        return reply.map(
+          (names.length > 0 ? names : Object.keys(commandTable))
+            .filter((name) => name in commandTable)
+            .map(documentCommand)
+        );
+      case "GETKEYS": {
+        if (names.length === 0) {
+          throw wrongNumberOfArguments("command|getkeys");
+        }
+        const [command] = names;
+        const commandArgs = args.slice(2);
+        if (!(command in commandTable)) {
+          throw new CommandError("ERR Invalid command specified");
+        }
+        if (!hasValidArity(command, commandArgs)) {
+          throw new CommandError(
+            "ERR Invalid number of arguments specified for command"
+          );
+        }
+        const positions = keyPositions(command, commandArgs);
+        if (positions.length === 0) {
+          throw new CommandError("ERR The command has no key arguments");
+        }
+        return reply.array(
+          positions.map((position) => reply.bulk(commandArgs[position]))
+        );
+      }
+      case "HELP":
+        return reply.array(COMMAND_HELP.map(reply.simple));
+      default:
+        throw new CommandError(
+          `ERR unknown subcommand '${args[0]}'. Try COMMAND HELP.`
+        );
+    }
+  },
+  INFO: (args) => {
+    const requested = args.map((arg) => arg.toString().toLowerCase());
+    const everything = requested.some((name) =>
+      ["all", "everything"].includes(name)
+    );
+    const defaults = requested.length === 0 || requested.includes("default");
+
+    const text = Object.entries(infoSections)
+      .filter(
+        ([name]) =>
+          everything ||
+          requested.includes(name) ||
+          (defaults && !NON_DEFAULT_SECTIONS.includes(name))
+      )
+      .map(
+        ([name, fields]) =>
+          `# ${name[0].toUpperCase()}${name.slice(1)}\r\n` +
+          fields()
+            .map(([field, value]) => `${field}:${value}\r\n`)
+            .join("")
+      )
+      .join("\r\n");
+
+    return reply.verbatim(text);
+  },
+  MEMORY: (args) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("memory");
+    }
+    const subcommand = args[0].toString().toUpperCase();
+
+    switch (subcommand) {
+      case "USAGE": {
+        if (args.length !== 2 && args.length !== 4) {
+          throw wrongNumberOfArguments("memory|usage");
+        }
+        // Collections are always sampled the same way, so the count is only
+        // validated.
+        if (args.length === 4) {
+          if (args[2].toString().toUpperCase() !== "SAMPLES") {
+            throw new CommandError(SYNTAX_ERROR);
+          }
+          parseInteger(args[3]);
+        }
+        const key = toBinaryString(args[1]);
+        const entry = lookupKey(key, false);
+        if (!entry) {
+          return reply.nil();
+        }
+        return reply.integer(
+          estimateKeySize(key, entry, getExpire(key) !== undefined)
+        );
+      }
+      case "HELP":
+        return reply.array(MEMORY_HELP.map(reply.simple));
+      default:
+        throw new CommandError(
+          `ERR unknown subcommand '${args[0]}'. Try MEMORY HELP.`
+        );
+    }
+  },
+  BGREWRITEAOF: (args) => {
+    if (args.length !== 0) {
+      throw wrongNumberOfArguments("bgrewriteaof");
+    }
+    if (!persistence.rewriteAof()) {
+      throw new CommandError(
+        "ERR Background append only file rewriting already in progress"
+      );
+    }
+    return reply.simple("Background append only file rewriting started");
+  },
+  SAVE: (args) => {
+    if (args.length !== 0) {
+      throw wrongNumberOfArguments("save");
+    }
+    if (snapshotInfo().bgsaveInProgress) {
+      throw new CommandError(BGSAVE_IN_PROGRESS);
+    }
+    try {
+      save();
+    } catch (e: any) {
+      log.error("Error saving snapshot:", e?.message);
+      throw new CommandError("ERR");
+    }
+    return reply.ok();
+  },
+  BGSAVE: (args) => {
+    if (args.length !== 0) {
+      throw wrongNumberOfArguments("bgsave");
+    }
+    if (!bgsave()) {
+      throw new CommandError(BGSAVE_IN_PROGRESS);
+    }
+    return reply.simple("Background saving started");
+  },
+  LASTSAVE: (args) => {
+    if (args.length !== 0) {
+      throw wrongNumberOfArguments("lastsave");
+    }
+    return reply.integer(Math.floor(snapshotInfo().lastSave / 1000));
+  },
+  SLOWLOG: (args) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("slowlog");
+    }
+    const subcommand = args[0].toString().toUpperCase();
+
+    switch (subcommand) {
+      case "GET": {
+        if (args.length > 2) {
+          throw wrongNumberOfArguments("slowlog|get");
+        }
+        const count = args.length === 2 ? parseInteger(args[1]) : 10;
+        if (count < -1) {
+          throw new CommandError(
+            "ERR count should be greater than or equal to -1"
+          );
+        }
+        return reply.array(
+          slowlogEntries(count).map((entry) =>
+            reply.array([
+              reply.integer(entry.id),
+              reply.integer(entry.timestamp),
+              reply.integer(entry.duration),
+              reply.bulkArray(entry.args),
+              reply.bulk(entry.address),
+              reply.bulk(entry.name),
+            ])
+          )
+        );
+      }
+      case "LEN":
+        if (args.length !== 1) {
+          throw wrongNumberOfArguments("slowlog|len");
+        }
+        return reply.integer(slowlogLength());
+      case "RESET":
+        if (args.length !== 1) {
+          throw wrongNumberOfArguments("slowlog|reset");
+        }
+        resetSlowlog();
+        return reply.ok();
+      case "HELP":
+        return reply.array(SLOWLOG_HELP.map(reply.simple));
+      default:
+        throw new CommandError(
+          `ERR unknown subcommand '${args[0]}'. Try SLOWLOG HELP.`
+        );
+    }
+  },
+  MONITOR: (args, client) => {
+    if (args.length !== 0) {
+      throw wrongNumberOfArguments("monitor");
+    }
+    if (client.denyBlocking) {
+      throw new CommandError(
+        "ERR MONITOR isn't allowed for DENY BLOCKING client"
+      );
+    }
+    addMonitor(client);
+    return reply.ok();
+  },
+};
+
+export { serverHandlers };
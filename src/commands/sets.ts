@@ -0,0 +1,345 @@
+import {
+  deleteKey,
+  lookupKeyOfType,
+  setKey,
+  signalModifiedKey,
+} from "../keyspace";
+import { DictSet } from "../dict";
+import { CommandError } from "../errors";
+import { propagateAs } from "../propagation";
+import { reply } from "../resp";
+import { fromBinaryString, toBinaryString } from "../utils/binary";
+import { globMatch } from "../utils/glob";
+import {
+  parseInteger,
+  parseScanArguments,
+  wrongNumberOfArguments,
+} from "./arguments";
+import { CommandHandlers } from "./command.types";
+
+type SetCommands =
+  | "SADD"
+  | "SREM"
+  | "SISMEMBER"
+  | "SMISMEMBER"
+  | "SCARD"
+  | "SMEMBERS"
+  | "SPOP"
+  | "SRANDMEMBER"
+  | "SMOVE"
+  | "SSCAN"
+  | "SINTER"
+  | "SUNION"
+  | "SDIFF"
+  | "SINTERSTORE"
+  | "SUNIONSTORE"
+  | "SDIFFSTORE";
+
+type SetOperation = "inter" | "union" | "diff";
+
+const OUT_OF_RANGE = "ERR value is out of range, must be positive";
+
+/**
+ * Returns the set at `key`, creating an empty one when it does not exist.
+ */
+const getOrCreateSet = (key: string) => {
+  const entry = lookupKeyOfType(key, "set");
+  if (entry) {
+    return entry.value;
+  }
+
+  const set = new DictSet();
+  setKey(key, { type: "set", value: set });
+  return set;
+};
+
+const membersReply = (members: Iterable<string>) =>
+  reply.set([...members].map((member) => reply.bulk(fromBinaryString(member))));
+
+/**
+ * Computes the intersection, union or difference of the sets at `keys`.
+ * Missing keys count as empty sets. Every key is type checked before any
+ * work is done, like redis does.
+ */
+const combineSets = (operation: SetOperation, keys: Buffer[]) => {
+  const sets = keys.map(
+    (key) => lookupKeyOfType(toBinaryString(key), "set")?.value
+  );
+
+  const [first, ...others] = sets.map((set) => set ?? new Set<string>());
+
+  if (operation === "union") {
+    return new Set(sets.flatMap((set) => [...(set ?? [])]));
+  }
+
+  if (operation === "inter") {
+    // Start from the smallest set to keep the work proportional to it.
+    const ordered = [first, ...others].sort((a, b) => a.size - b.size);
+    const [smallest, ...rest] = ordered;
+    return new Set(
+      [...smallest].filter((member) => rest.every((set) => set.has(member)))
+    );
+  }
+
+  return new Set(
+    [...first].filter((member) => others.every((set) => !set.has(member)))
+  );
+};
+
+/**
+ * Stores the result of a set operation at `args[0]`, replacing whatever was
+ * there, and returns its cardinality.
+ */
+const storeCombination = (
+  command: string,
+  operation: SetOperation,
+  args: Buffer[]
+) => {
+  if (args.length < 2) {
+    throw wrongNumberOfArguments(command);
+  }
+
+  const result = combineSets(operation, args.slice(1));
+  const destination = toBinaryString(args[0]);
+
+  deleteKey(destination);
+  if (result.size > 0) {
+    setKey(destination, { type: "set", value: new DictSet(result) });
+  }
+  signalModifiedKey(destination);
+
+  return reply.integer(result.size);
+};
+
+/**
+ * Picks `count` distinct random members, or all of them when the set is
+ * smaller.
+ */
+const pickRandomMembers = (set: Set<string>, count: number) => {
+  const members = [...set];
+
+  // Partial Fisher-Yates shuffle: only the first `count` slots are needed.
+  for (let i = 0; i < Math.min(count, members.length); i++) {
+    const j = i + Math.floor(Math.random() * (members.length - i));
+    [members[i], members[j]] = [members[j], members[i]];
+  }
+
+  return members.slice(0, count);
+};
+
+const setHandlers: CommandHandlers<SetCommands> = {
+  SADD: (args) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments("sadd");
+    }
+    const key = toBinaryString(args[0]);
+    const set = getOrCreateSet(key);
+    const sizeBefore = set.size;
+
+    for (const member of args.slice(1)) {
+      set.add(toBinaryString(member));
+    }
+    if (set.size > sizeBefore) {
+      signalModifiedKey(key);
+    }
+
+    return reply.integer(set.size - sizeBefore);
+  },
+  SREM: (args) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments("srem");
+    }
+    const key = toBinaryString(args[0]);
+    const entry = lookupKeyOfType(key, "set");
+    if (!entry) {
+      return reply.integer(0);
+    }
+
+    let removed = 0;
+    for (const member of args.slice(1)) {
+      if (entry.value.delete(toBinaryString(member))) {
+        removed++;
+      }
+    }
+
+    if (entry.value.size === 0) {
+      deleteKey(key);
+    }
+    if (removed > 0) {
+      signalModifiedKey(key);
+    }
+
+    return reply.integer(removed);
+  },
+  SISMEMBER: (args) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments("sismember");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "set");
+    return reply.integer(entry?.value.has(toBinaryString(args[1])) ? 1 : 0);
+  },
+  SMISMEMBER: (args) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments("smismember");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "set");
+    return reply.array(
+      args
+        .slice(1)
+        .map((member) =>
+          reply.integer(entry?.value.has(toBinaryString(member)) ? 1 : 0)
+        )
+    );
+  },
+  SCARD: (args) => {
+    if (args.length !== 1) {
+      throw wrongNumberOfArguments("scard");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "set");
+    return reply.integer(entry?.value.size ?? 0);
+  },
+  SMEMBERS: (args) => {
+    if (args.length !== 1) {
+      throw wrongNumberOfArguments("smembers");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "set");
+    return membersReply(entry?.value ?? []);
+  },
+  SPOP: (args) => {
+    if (args.length < 1 || args.length > 2) {
+      throw wrongNumberOfArguments("spop");
+    }
+    const key = toBinaryString(args[0]);
+    const count = args.length === 2 ? parseInteger(args[1], OUT_OF_RANGE) : 1;
+    if (count < 0) {
+      throw new CommandError(OUT_OF_RANGE);
+    }
+
+    const entry = lookupKeyOfType(key, "set");
+    const popped = entry ? pickRandomMembers(entry.value, count) : [];
+
+    for (const member of popped) {
+      entry?.value.delete(member);
+    }
+    if (entry && entry.value.size === 0) {
+      deleteKey(key);
+    }
+
+    // Replaying SPOP would pick other members, so log what was removed.
+    if (popped.length > 0) {
+      signalModifiedKey(key);
+      propagateAs({
+        command: "SREM",
+        args: [args[0], ...popped.map(fromBinaryString)],
+      });
+    } else {
+      propagateAs();
+    }
+
+    if (args.length === 2) {
+      return membersReply(popped);
+    }
+    return popped.length > 0
+      ? reply.bulk(fromBinaryString(popped[0]))
+      : reply.nil();
+  },
+  SRANDMEMBER: (args) => {
+    if (args.length < 1 || args.length > 2) {
+      throw wrongNumberOfArguments("srandmember");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "set");
+    const set = entry?.value ?? new Set<string>();
+
+    if (args.length === 1) {
+      const [member] = pickRandomMembers(set, 1);
+      return member === undefined
+        ? reply.nil()
+        : reply.bulk(fromBinaryString(member));
+    }
+
+    const count = parseInteger(args[1]);
+
+    // A negative count allows the same member to be returned several times.
+    if (count < 0) {
+      const members = [...set];
+      const picked =
+        members.length === 0
+          ? []
+          : Array.from(
+              { length: -count },
+              () => members[Math.floor(Math.random() * members.length)]
+            );
+      return reply.bulkArray(picked.map(fromBinaryString));
+    }
+
+    return reply.bulkArray(pickRandomMembers(set, count).map(fromBinaryString));
+  },
+  SMOVE: (args) => {
+    if (args.length !== 3) {
+      throw wrongNumberOfArguments("smove");
+    }
+    const source = toBinaryString(args[0]);
+    const destination = toBinaryString(args[1]);
+    const member = toBinaryString(args[2]);
+
+    const sourceEntry = lookupKeyOfType(source, "set");
+    // Checked up front so a WRONGTYPE destination leaves the source intact.
+    lookupKeyOfType(destination, "set");
+
+    if (!sourceEntry || !sourceEntry.value.has(member)) {
+      return reply.integer(0);
+    }
+
+    if (source !== destination) {
+      sourceEntry.value.delete(member);
+      if (sourceEntry.value.size === 0) {
+        deleteKey(source);
+      }
+      getOrCreateSet(destination).add(member);
+      signalModifiedKey(source);
+      signalModifiedKey(destination);
+    }
+
+    return reply.integer(1);
+  },
+  SSCAN: (args) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments("sscan");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "set");
+    const { cursor, match, count } = parseScanArguments(args.slice(1));
+
+    const page = (entry?.value ?? new DictSet()).scan(cursor, count);
+    const members = page.items.filter(
+      (member) => match === null || globMatch(match, member)
+    );
+
+    return reply.array([
+      reply.bulk(`${page.cursor}`),
+      reply.bulkArray(members.map(fromBinaryString)),
+    ]);
+  },
+  SINTER: (args) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("sinter");
+    }
+    return membersReply(combineSets("inter", args));
+  },
+  SUNION: (args) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("sunion");
+    }
+    return membersReply(combineSets("union", args));
+  },
+  SDIFF: (args) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("sdiff");
+    }
+    return membersReply(combineSets("diff", args));
+  },
+  SINTERSTORE: (args) => storeCombination("sinterstore", "inter", args),
+  SUNIONSTORE: (args) => storeCombination("sunionstore", "union", args),
+  SDIFFSTORE: (args) => storeCombination("sdiffstore", "diff", args),
+};
+
+export { setHandlers };
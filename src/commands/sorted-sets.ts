@@ -0,0 +1,714 @@
+import {
+  deleteKey,
+  lookupKey,
+  lookupKeyOfType,
+  setKey,
+  signalModifiedKey,
+} from "../keyspace";
+import { Client } from "../client";
+import { CommandError, SYNTAX_ERROR, WRONGTYPE } from "../errors";
+import { Reply, reply } from "../resp";
+import { LexRange, ScoreRange, SortedSet, SortedSetEntry } from "../sorted-set";
+import { fromBinaryString, toBinaryString } from "../utils/binary";
+import { globMatch } from "../utils/glob";
+import {
+  parseDouble,
+  parseInteger,
+  parseScanArguments,
+  wrongNumberOfArguments,
+} from "./arguments";
+import { CommandHandlers } from "./command.types";
+
+type SortedSetCommands =
+  | "ZADD"
+  | "ZINCRBY"
+  | "ZREM"
+  | "ZCARD"
+  | "ZSCORE"
+  | "ZMSCORE"
+  | "ZRANK"
+  | "ZREVRANK"
+  | "ZRANGE"
+  | "ZREVRANGE"
+  | "ZRANGEBYSCORE"
+  | "ZREVRANGEBYSCORE"
+  | "ZRANGEBYLEX"
+  | "ZREVRANGEBYLEX"
+  | "ZCOUNT"
+  | "ZLEXCOUNT"
+  | "ZPOPMIN"
+  | "ZPOPMAX"
+  | "ZREMRANGEBYSCORE"
+  | "ZREMRANGEBYRANK"
+  | "ZUNIONSTORE"
+  | "ZINTERSTORE"
+  | "ZSCAN";
+
+type RangeBy = "rank" | "score" | "lex";
+
+type RangeQuery = {
+  by: RangeBy;
+  start: Buffer;
+  stop: Buffer;
+  reverse: boolean;
+  offset: number;
+  count: number;
+  withScores: boolean;
+};
+
+const NOT_A_FLOAT_RANGE = "ERR min or max is not a float";
+const NOT_A_LEX_RANGE = "ERR min or max not valid string range item";
+
+/**
+ * Returns the sorted set at `key`, creating an empty one when it does not exist.
+ */
+const getOrCreateSortedSet = (key: string) => {
+  const entry = lookupKeyOfType(key, "zset");
+  if (entry) {
+    return entry.value;
+  }
+
+  const zset = new SortedSet();
+  setKey(key, { type: "zset", value: zset });
+  return zset;
+};
+
+/**
+ * Parses a score bound such as `1.5`, `(1.5`, `-inf` or `+inf`.
+ */
+const parseScoreBound = (arg: Buffer) => {
+  const value = arg.toString();
+  const exclusive = value.startsWith("(");
+  const score = parseDouble(
+    exclusive ? value.slice(1) : value,
+    NOT_A_FLOAT_RANGE
+  );
+  return { score, exclusive };
+};
+
+const parseScoreRange = (min: Buffer, max: Buffer): ScoreRange => {
+  const lower = parseScoreBound(min);
+  const upper = parseScoreBound(max);
+  return {
+    min: lower.score,
+    max: upper.score,
+    minExclusive: lower.exclusive,
+    maxExclusive: upper.exclusive,
+  };
+};
+
+/**
+ * Parses a lexicographical bound: `-`, `+`, `[member` or `(member`.
+ */
+const parseLexBound = (arg: Buffer) => {
+  const value = toBinaryString(arg);
+
+  if (value === "-") return { value: -Infinity, exclusive: false };
+  if (value === "+") return { value: Infinity, exclusive: false };
+  if (value.startsWith("[") || value.startsWith("(")) {
+    return { value: value.slice(1), exclusive: value.startsWith("(") };
+  }
+
+  throw new CommandError(NOT_A_LEX_RANGE);
+};
+
+const parseLexRange = (min: Buffer, max: Buffer): LexRange => ({
+  min: parseLexBound(min),
+  max: parseLexBound(max),
+});
+
+/**
+ * Builds the reply for a list of elements. With scores, RESP2 clients get a
+ * flat array of member/score pairs while RESP3 clients get an array of
+ * two-element arrays with a double for the score, like redis.
+ */
+const entriesReply = (
+  entries: SortedSetEntry[],
+  withScores: boolean,
+  client: Client
+): Reply => {
+  if (!withScores) {
+    return reply.bulkArray(entries.map(([member]) => fromBinaryString(member)));
+  }
+
+  if (client.protocol === 3) {
+    return reply.array(
+      entries.map(([member, score]) =>
+        reply.array([reply.bulk(fromBinaryString(member)), reply.double(score)])
+      )
+    );
+  }
+
+  return reply.array(
+    entries.flatMap(([member, score]) => [
+      reply.bulk(fromBinaryString(member)),
+      reply.double(score),
+    ])
+  );
+};
+
+/**
+ * Runs a ZRANGE style query against the sorted set at `key`.
+ */
+const queryRange = (key: string, query: RangeQuery): SortedSetEntry[] => {
+  const zset = lookupKeyOfType(key, "zset")?.value;
+
+  // Validate the bounds even when the key is missing, like redis does.
+  const range =
+    query.by === "score"
+      ? parseScoreRange(
+          query.reverse ? query.stop : query.start,
+          query.reverse ? query.start : query.stop
+        )
+      : query.by === "lex"
+      ? parseLexRange(
+          query.reverse ? query.stop : query.start,
+          query.reverse ? query.start : query.stop
+        )
+      : null;
+
+  if (!zset || query.offset < 0) {
+    return [];
+  }
+
+  const options = {
+    reverse: query.reverse,
+    offset: query.offset,
+    count: query.count,
+  };
+
+  if (query.by === "score") {
+    return zset.rangeByScore(range as ScoreRange, options);
+  }
+  if (query.by === "lex") {
+    return zset.rangeByLex(range as LexRange, options);
+  }
+
+  let start = parseInteger(query.start);
+  let stop = parseInteger(query.stop);
+  if (start < 0) start = Math.max(zset.size + start, 0);
+  if (stop < 0) stop = zset.size + stop;
+
+  return zset.rangeByRank(start, stop, query.reverse);
+};
+
+/**
+ * Parses the options following `key start stop` for ZRANGE and its older
+ * variants, which fix `by` and `reverse` up front.
+ */
+const parseRangeOptions = (
+  args: Buffer[],
+  defaults: Pick<RangeQuery, "by" | "reverse">,
+  allowByAndRev: boolean
+): RangeQuery => {
+  const query: RangeQuery = {
+    ...defaults,
+    start: args[1],
+    stop: args[2],
+    offset: 0,
+    count: -1,
+    withScores: false,
+  };
+  let hasLimit = false;
+
+  for (let i = 3; i < args.length; i++) {
+    const option = args[i].toString().toUpperCase();
+
+    if (option === "WITHSCORES") {
+      query.withScores = true;
+    } else if (option === "LIMIT" && i + 2 < args.length) {
+      query.offset = parseInteger(args[i + 1]);
+      query.count = parseInteger(args[i + 2]);
+      hasLimit = true;
+      i += 2;
+    } else if (allowByAndRev && option === "BYSCORE") {
+      query.by = "score";
+    } else if (allowByAndRev && option === "BYLEX") {
+      query.by = "lex";
+    } else if (allowByAndRev && option === "REV") {
+      query.reverse = true;
+    } else {
+      throw new CommandError(SYNTAX_ERROR);
+    }
+  }
+
+  if (hasLimit && query.by === "rank") {
+    throw new CommandError(
+      "ERR syntax error, LIMIT is only supported in combination with either BYSCORE or BYLEX"
+    );
+  }
+  if (query.withScores && query.by === "lex") {
+    throw new CommandError(
+      "ERR syntax error, WITHSCORES not supported in combination with BYLEX"
+    );
+  }
+
+  return query;
+};
+
+const rangeHandler =
+  (
+    command: string,
+    defaults: Pick<RangeQuery, "by" | "reverse">,
+    allowByAndRev = false
+  ) =>
+  (args: Buffer[], client: Client) => {
+    if (args.length < 3) {
+      throw wrongNumberOfArguments(command);
+    }
+    const query = parseRangeOptions(args, defaults, allowByAndRev);
+    const entries = queryRange(toBinaryString(args[0]), query);
+    return entriesReply(entries, query.withScores, client);
+  };
+
+/**
+ * Removes the popped elements for ZPOPMIN/ZPOPMAX and builds the reply:
+ * a flat member/score pair without COUNT, otherwise a list of elements.
+ */
+const popHandler =
+  (command: string, fromMax: boolean) => (args: Buffer[], client: Client) => {
+    if (args.length < 1 || args.length > 2) {
+      throw wrongNumberOfArguments(command);
+    }
+    const key = toBinaryString(args[0]);
+    const count = args.length === 2 ? parseInteger(args[1]) : 1;
+    if (count < 0) {
+      throw new CommandError("ERR value is out of range, must be positive");
+    }
+
+    const entry = lookupKeyOfType(key, "zset");
+    const popped = entry ? entry.value.pop(count, fromMax) : [];
+    if (entry && entry.value.size === 0) {
+      deleteKey(key);
+    }
+    if (popped.length > 0) {
+      signalModifiedKey(key);
+    }
+
+    if (args.length === 1) {
+      return reply.array(
+        popped.flatMap(([member, score]) => [
+          reply.bulk(fromBinaryString(member)),
+          reply.double(score),
+        ])
+      );
+    }
+    return entriesReply(popped, true, client);
+  };
+
+/**
+ * Returns the members of a sorted set or a plain set at `key` with their
+ * scores, members of plain sets scoring 1. Used by ZUNIONSTORE/ZINTERSTORE.
+ */
+const readWeightedSource = (key: string): Map<string, number> | null => {
+  const entry = lookupKey(key);
+  if (!entry) {
+    return null;
+  }
+  if (entry.type === "zset") {
+    return new Map(entry.value.entries());
+  }
+  if (entry.type === "set") {
+    return new Map([...entry.value].map((member) => [member, 1]));
+  }
+  throw new CommandError(WRONGTYPE);
+};
+
+const aggregators = {
+  SUM: (a: number, b: number) => {
+    const sum = a + b;
+    // inf + -inf is NaN in IEEE 754, redis treats it as 0.
+    return Number.isNaN(sum) ? 0 : sum;
+  },
+  MIN: Math.min,
+  MAX: Math.max,
+};
+
+const storeHandler =
+  (command: string, operation: "union" | "inter") => (args: Buffer[]) => {
+    if (args.length < 3) {
+      throw wrongNumberOfArguments(command);
+    }
+    const destination = toBinaryString(args[0]);
+    const numKeys = parseInteger(args[1]);
+    if (numKeys < 1) {
+      throw new CommandError(
+        `ERR at least 1 input key is needed for '${command}' command`
+      );
+    }
+    if (args.length < numKeys + 2) {
+      throw new CommandError(SYNTAX_ERROR);
+    }
+
+    const keys = args.slice(2, numKeys + 2).map(toBinaryString);
+    let weights = keys.map(() => 1);
+    let aggregate = aggregators.SUM;
+
+    for (let i = numKeys + 2; i < args.length; i++) {
+      const option = args[i].toString().toUpperCase();
+      if (option === "WEIGHTS" && i + numKeys < args.length) {
+        weights = args
+          .slice(i + 1, i + 1 + numKeys)
+          .map((weight) =>
+            parseDouble(weight, "ERR weight value is not a float")
+          );
+        i += numKeys;
+      } else if (option === "AGGREGATE" && i + 1 < args.length) {
+        const name = args[i + 1].toString().toUpperCase();
+        if (!(name in aggregators)) {
+          throw new CommandError(SYNTAX_ERROR);
+        }
+        aggregate = aggregators[name as keyof typeof aggregators];
+        i += 1;
+      } else {
+        throw new CommandError(SYNTAX_ERROR);
+      }
+    }
+
+    const sources = keys.map(readWeightedSource);
+    const scores = new Map<string, number>();
+
+    const weighted = (score: number, weight: number) => {
+      const value = score * weight;
+      return Number.isNaN(value) ? 0 : value;
+    };
+
+    if (operation === "union") {
+      sources.forEach((source, index) => {
+        for (const [member, score] of source ?? []) {
+          const value = weighted(score, weights[index]);
+          const current = scores.get(member);
+          scores.set(
+            member,
+            current === undefined ? value : aggregate(current, value)
+          );
+        }
+      });
+    } else if (sources.every((source) => source !== null)) {
+      const [first, ...others] = sources as Map<string, number>[];
+      for (const [member, score] of first) {
+        if (!others.every((source) => source.has(member))) {
+          continue;
+        }
+        let value = weighted(score, weights[0]);
+        others.forEach((source, index) => {
+          value = aggregate(
+            value,
+            weighted(source.get(member) as number, weights[index + 1])
+          );
+        });
+        scores.set(member, value);
+      }
+    }
+
+    deleteKey(destination);
+    if (scores.size > 0) {
+      const zset = new SortedSet();
+      for (const [member, score] of scores) {
+        zset.add(member, score);
+      }
+      setKey(destination, { type: "zset", value: zset });
+    }
+    signalModifiedKey(destination);
+
+    return reply.integer(scores.size);
+  };
+
+const sortedSetHandlers: CommandHandlers<SortedSetCommands> = {
+  ZADD: (args) => {
+    if (args.length < 3) {
+      throw wrongNumberOfArguments("zadd");
+    }
+    const key = toBinaryString(args[0]);
+    const flags = new Set<string>();
+
+    let i = 1;
+    for (; i < args.length; i++) {
+      const flag = args[i].toString().toUpperCase();
+      if (!["NX", "XX", "GT", "LT", "CH", "INCR"].includes(flag)) {
+        break;
+      }
+      flags.add(flag);
+    }
+
+    const pairs = args.slice(i);
+    if (pairs.length === 0 || pairs.length % 2 !== 0) {
+      throw new CommandError(SYNTAX_ERROR);
+    }
+    if (flags.has("NX") && flags.has("XX")) {
+      throw new CommandError(
+        "ERR XX and NX options at the same time are not compatible"
+      );
+    }
+    if (
+      (flags.has("GT") && flags.has("LT")) ||
+      (flags.has("NX") && (flags.has("GT") || flags.has("LT")))
+    ) {
+      throw new CommandError(
+        "ERR GT, LT, and/or NX options at the same time are not compatible"
+      );
+    }
+    if (flags.has("INCR") && pairs.length > 2) {
+      throw new CommandError(
+        "ERR INCR option supports a single increment-element pair"
+      );
+    }
+
+    // Parse every score before touching the set so errors change nothing.
+    const elements: SortedSetEntry[] = [];
+    for (let j = 0; j < pairs.length; j += 2) {
+      elements.push([toBinaryString(pairs[j + 1]), parseDouble(pairs[j])]);
+    }
+
+    const existing = lookupKeyOfType(key, "zset");
+    if (!existing && flags.has("XX")) {
+      return flags.has("INCR") ? reply.nil() : reply.integer(0);
+    }
+
+    const zset = existing?.value ?? getOrCreateSortedSet(key);
+    let added = 0;
+    let changed = 0;
+    let incremented: number | null = null;
+
+    for (const [member, value] of elements) {
+      const current = zset.score(member);
+
+      if (current === undefined ? flags.has("XX") : flags.has("NX")) {
+        continue;
+      }
+
+      let score = value;
+      if (flags.has("INCR") && current !== undefined) {
+        score = current + value;
+        if (Number.isNaN(score)) {
+          throw new CommandError("ERR resulting score is not a number (NaN)");
+        }
+      }
+
+      if (current !== undefined) {
+        if (
+          (flags.has("GT") && score <= current) ||
+          (flags.has("LT") && score >= current)
+        ) {
+          continue;
+        }
+        if (score !== current) {
+          changed++;
+        }
+      } else {
+        added++;
+      }
+
+      zset.add(member, score);
+      incremented = score;
+    }
+
+    if (zset.size === 0) {
+      deleteKey(key);
+    }
+    if (added + changed > 0) {
+      signalModifiedKey(key);
+    }
+
+    if (flags.has("INCR")) {
+      return incremented === null ? reply.nil() : reply.double(incremented);
+    }
+    return reply.integer(flags.has("CH") ? added + changed : added);
+  },
+  ZINCRBY: (args) => {
+    if (args.length !== 3) {
+      throw wrongNumberOfArguments("zincrby");
+    }
+    const increment = parseDouble(args[1]);
+    const key = toBinaryString(args[0]);
+    const zset = getOrCreateSortedSet(key);
+    const member = toBinaryString(args[2]);
+
+    const score = (zset.score(member) ?? 0) + increment;
+    if (Number.isNaN(score)) {
+      throw new CommandError("ERR resulting score is not a number (NaN)");
+    }
+
+    zset.add(member, score);
+    signalModifiedKey(key);
+    return reply.double(score);
+  },
+  ZREM: (args) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments("zrem");
+    }
+    const key = toBinaryString(args[0]);
+    const entry = lookupKeyOfType(key, "zset");
+    if (!entry) {
+      return reply.integer(0);
+    }
+
+    let removed = 0;
+    for (const member of args.slice(1)) {
+      if (entry.value.remove(toBinaryString(member))) {
+        removed++;
+      }
+    }
+
+    if (entry.value.size === 0) {
+      deleteKey(key);
+    }
+    if (removed > 0) {
+      signalModifiedKey(key);
+    }
+
+    return reply.integer(removed);
+  },
+  ZCARD: (args) => {
+    if (args.length !== 1) {
+      throw wrongNumberOfArguments("zcard");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "zset");
+    return reply.integer(entry?.value.size ?? 0);
+  },
+  ZSCORE: (args) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments("zscore");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "zset");
+    const score = entry?.value.score(toBinaryString(args[1]));
+    return score === undefined ? reply.nil() : reply.double(score);
+  },
+  ZMSCORE: (args) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments("zmscore");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "zset");
+    return reply.array(
+      args.slice(1).map((member) => {
+        const score = entry?.value.score(toBinaryString(member));
+        return score === undefined ? reply.nil() : reply.double(score);
+      })
+    );
+  },
+  ZRANK: (args) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments("zrank");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "zset");
+    const rank = entry?.value.rank(toBinaryString(args[1])) ?? null;
+    return rank === null ? reply.nil() : reply.integer(rank);
+  },
+  ZREVRANK: (args) => {
+    if (args.length !== 2) {
+      throw wrongNumberOfArguments("zrevrank");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "zset");
+    const rank = entry?.value.rank(toBinaryString(args[1]), true) ?? null;
+    return rank === null ? reply.nil() : reply.integer(rank);
+  },
+  ZRANGE: rangeHandler("zrange", { by: "rank", reverse: false }, true),
+  ZREVRANGE: rangeHandler("zrevrange", { by: "rank", reverse: true }),
+  ZRANGEBYSCORE: rangeHandler("zrangebyscore", {
+    by: "score",
+    reverse: false,
+  }),
+  ZREVRANGEBYSCORE: rangeHandler("zrevrangebyscore", {
+    by: "score",
+    reverse: true,
+  }),
+  ZRANGEBYLEX: rangeHandler("zrangebylex", { by: "lex", reverse: false }),
+  ZREVRANGEBYLEX: rangeHandler("zrevrangebylex", { by: "lex", reverse: true }),
+  ZCOUNT: (args) => {
+    if (args.length !== 3) {
+      throw wrongNumberOfArguments("zcount");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "zset");
+    const range = parseScoreRange(args[1], args[2]);
+    return reply.integer(entry?.value.countByScore(range) ?? 0);
+  },
+  ZLEXCOUNT: (args) => {
+    if (args.length !== 3) {
+      throw wrongNumberOfArguments("zlexcount");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "zset");
+    const range = parseLexRange(args[1], args[2]);
+    return reply.integer(entry?.value.countByLex(range) ?? 0);
+  },
+  ZPOPMIN: popHandler("zpopmin", false),
+  ZPOPMAX: popHandler("zpopmax", true),
+  ZREMRANGEBYSCORE: (args) => {
+    if (args.length !== 3) {
+      throw wrongNumberOfArguments("zremrangebyscore");
+    }
+    const key = toBinaryString(args[0]);
+    const range = parseScoreRange(args[1], args[2]);
+    const entry = lookupKeyOfType(key, "zset");
+    if (!entry) {
+      return reply.integer(0);
+    }
+
+    const removed = entry.value.rangeByScore(range);
+    for (const [member] of removed) {
+      entry.value.remove(member);
+    }
+    if (entry.value.size === 0) {
+      deleteKey(key);
+    }
+    if (removed.length > 0) {
+      signalModifiedKey(key);
+    }
+
+    return reply.integer(removed.length);
+  },
+  ZREMRANGEBYRANK: (args) => {
+    if (args.length !== 3) {
+      throw wrongNumberOfArguments("zremrangebyrank");
+    }
+    const key = toBinaryString(args[0]);
+    const query: RangeQuery = {
+      by: "rank",
+      start: args[1],
+      stop: args[2],
+      reverse: false,
+      offset: 0,
+      count: -1,
+      withScores: false,
+    };
+    const entry = lookupKeyOfType(key, "zset");
+    const removed = queryRange(key, query);
+
+    for (const [member] of removed) {
+      entry?.value.remove(member);
+    }
+    if (entry && entry.value.size === 0) {
+      deleteKey(key);
+    }
+    if (removed.length > 0) {
+      signalModifiedKey(key);
+    }
+
+    return reply.integer(removed.length);
+  },
+  ZUNIONSTORE: storeHandler("zunionstore", "union"),
+  ZINTERSTORE: storeHandler("zinterstore", "inter"),
+  ZSCAN: (args) => {
+    if (args.length < 2) {
+      throw wrongNumberOfArguments("zscan");
+    }
+    const entry = lookupKeyOfType(toBinaryString(args[0]), "zset");
+    const { cursor, match, count } = parseScanArguments(args.slice(1));
+    const zset = entry?.value ?? new SortedSet();
+
+    const page = zset.scan(cursor, count);
+    const items: Reply[] = [];
+
+    for (const member of page.items) {
+      if (match === null || globMatch(match, member)) {
+        items.push(
+          reply.bulk(fromBinaryString(member)),
+          reply.double(zset.score(member) as number)
+        );
+      }
+    }
+
+    return reply.array([reply.bulk(`${page.cursor}`), reply.array(items)]);
+  },
+};
+
+export { sortedSetHandlers };
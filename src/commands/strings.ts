@@ -0,0 +1,162 @@
+import { logger } from "../utils/logger";
+import {
+  lookupKey,
+  lookupKeyOfType,
+  removeExpire,
+  setExpire,
+  setKey,
+  signalModifiedKey,
+} from "../keyspace";
+import { CommandError, SYNTAX_ERROR } from "../errors";
+import { propagateAs } from "../propagation";
+import { reply } from "../resp";
+import { toBinaryString } from "../utils/binary";
+import { parseInteger, wrongNumberOfArguments } from "./arguments";
+import { CommandHandlers } from "./command.types";
+
+const log = logger("strings");
+
+type StringCommands = "SET" | "GET" | "INCR" | "DECR";
+
+type SetOptions = {
+  condition: "NX" | "XX" | null;
+  expireAt: number | null;
+  keepTtl: boolean;
+  get: boolean;
+};
+
+// Multiplier turning each expire option's argument into milliseconds, and
+// whether that argument is relative to now.
+const EXPIRE_UNITS = {
+  EX: { ms: 1000, relative: true },
+  PX: { ms: 1, relative: true },
+  EXAT: { ms: 1000, relative: false },
+  PXAT: { ms: 1, relative: false },
+};
+
+/**
+ * Parses `[NX | XX] [GET] [EX s | PX ms | EXAT s | PXAT ms | KEEPTTL]`.
+ * Relative expire times are resolved to an absolute unix time in ms.
+ */
+const parseSetOptions = (args: Buffer[]): SetOptions => {
+  const options: SetOptions = {
+    condition: null,
+    expireAt: null,
+    keepTtl: false,
+    get: false,
+  };
+  let hasExpire = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const option = args[i].toString().toUpperCase();
+
+    if ((option === "NX" || option === "XX") && !options.condition) {
+      options.condition = option;
+    } else if (option === "GET" && !options.get) {
+      options.get = true;
+    } else if (option === "KEEPTTL" && !hasExpire) {
+      options.keepTtl = true;
+      hasExpire = true;
+    } else if (option in EXPIRE_UNITS && !hasExpire && i + 1 < args.length) {
+      const unit = EXPIRE_UNITS[option as keyof typeof EXPIRE_UNITS];
+      const time = parseInteger(args[++i]);
+      const expireAt = time * unit.ms + (unit.relative ? Date.now() : 0);
+
+      if (time <= 0 || !Number.isSafeInteger(expireAt)) {
+        throw new CommandError("ERR invalid expire time in 'set' command");
+      }
+      options.expireAt = expireAt;
+      hasExpire = true;
+    } else {
+      throw new CommandError(SYNTAX_ERROR);
+    }
+  }
+
+  return options;
+};
+
+/**
+ * Adds `by` to the integer stored at `key`, creating it from 0 when missing.
+ */
+const incrementBy = (key: string, by: number) => {
+  const entry = lookupKeyOfType(key, "string");
+  const valueAsInt = entry ? parseInteger(entry.value) : 0;
+
+  const value = valueAsInt + by;
+  setKey(key, { type: "string", value: Buffer.from(`${value}`) });
+  signalModifiedKey(key);
+
+  return reply.integer(value);
+};
+
+const stringHandlers: CommandHandlers<StringCommands> = {
+  SET: (args) => {
+    if (args.length < 2) {
+      return reply.error("ERR wrong number of arguments for 'set' command");
+    }
+    const key = toBinaryString(args[0]);
+    const value = args[1];
+    const options = parseSetOptions(args.slice(2));
+
+    // SET overwrites any type, but GET fails with WRONGTYPE before writing.
+    const exists = !!lookupKey(key);
+    const current = options.get ? lookupKeyOfType(key, "string") : undefined;
+    const previous = current ? reply.bulk(current.value) : reply.nil();
+
+    if (
+      (options.condition === "NX" && exists) ||
+      (options.condition === "XX" && !exists)
+    ) {
+      propagateAs();
+      return options.get ? previous : reply.nil();
+    }
+
+    log.info(`Setting ${key} to ${value.length} bytes`);
+    setKey(key, { type: "string", value });
+    signalModifiedKey(key);
+
+    // Log the absolute expire time so replaying the AOF later does not
+    // extend the TTL. NX, XX and GET were already resolved here.
+    const propagatedArgs = [args[0], value];
+    if (options.expireAt !== null) {
+      setExpire(key, options.expireAt);
+      propagatedArgs.push(
+        Buffer.from("PXAT"),
+        Buffer.from(`${options.expireAt}`)
+      );
+    } else if (options.keepTtl) {
+      propagatedArgs.push(Buffer.from("KEEPTTL"));
+    } else {
+      removeExpire(key);
+    }
+    propagateAs({ command: "SET", args: propagatedArgs });
+
+    return options.get ? previous : reply.ok();
+  },
+  GET: (args) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("get");
+    }
+    const key = toBinaryString(args[0]);
+
+    log.info(`Getting value for ${key}`);
+
+    const entry = lookupKeyOfType(key, "string");
+
+    return entry ? reply.bulk(entry.value) : reply.nil();
+  },
+  INCR: (args) => {
+    if (args.length < 1) {
+      return reply.error("ERR wrong number of arguments for 'incr' command");
+    }
+    return incrementBy(toBinaryString(args[0]), 1);
+  },
+  DECR: (args) => {
+    if (args.length < 1) {
+      return reply.error("ERR wrong number of arguments for 'decr' command");
+    }
+    return incrementBy(toBinaryString(args[0]), -1);
+  },
+};
+
+export { stringHandlers };
@@ -0,0 +1,103 @@
+import {
+  checkExpiry,
+  databaseKey,
+  keyVersion,
+  unwatchKey,
+  watchKey,
+  withDatabase,
+} from "../keyspace";
+import { Client } from "../client";
+import { CommandError } from "../errors";
+import { reply } from "../resp";
+import { toBinaryString } from "../utils/binary";
+import { wrongNumberOfArguments } from "./arguments";
+import { CommandHandlers } from "./command.types";
+
+// EXEC runs the queued commands, so it lives in core next to the dispatcher.
+type TransactionCommands = "MULTI" | "DISCARD" | "WATCH" | "UNWATCH";
+
+/**
+ * Releases every key the client is watching.
+ *
+ * @param client - The client to unwatch keys for.
+ */
+const unwatchAllKeys = (client: Client) => {
+  for (const { db, key } of client.watchedKeys.values()) {
+    unwatchKey(db, key);
+  }
+  client.watchedKeys.clear();
+};
+
+/**
+ * @param client - The client about to run EXEC.
+ * @returns `true` if a key the client watches was modified since WATCH.
+ */
+const isWatchedKeyModified = (client: Client) => {
+  for (const { db, key, version } of client.watchedKeys.values()) {
+    // A watched key that expired meanwhile counts as modified too.
+    withDatabase(db, () => checkExpiry(key));
+    if (keyVersion(db, key) !== version) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const transactionHandlers: CommandHandlers<TransactionCommands> = {
+  MULTI: (args, client) => {
+    if (args.length !== 0) {
+      throw wrongNumberOfArguments("multi");
+    }
+    if (client.transaction) {
+      throw new CommandError("ERR MULTI calls can not be nested");
+    }
+    client.transaction = { queue: [], aborted: false };
+    return reply.ok();
+  },
+  DISCARD: (args, client) => {
+    if (args.length !== 0) {
+      throw wrongNumberOfArguments("discard");
+    }
+    if (!client.transaction) {
+      throw new CommandError("ERR DISCARD without MULTI");
+    }
+    client.transaction = null;
+    unwatchAllKeys(client);
+    return reply.ok();
+  },
+  WATCH: (args, client) => {
+    if (args.length < 1) {
+      throw wrongNumberOfArguments("watch");
+    }
+    if (client.transaction) {
+      throw new CommandError("ERR WATCH inside MULTI is not allowed");
+    }
+
+    for (const arg of args) {
+      const key = toBinaryString(arg);
+      const id = databaseKey(client.db, key);
+      if (client.watchedKeys.has(id)) {
+        continue;
+      }
+      // Expire first, so a key that was already stale is not reported as
+      // modified when EXEC finds it gone.
+      checkExpiry(key);
+      client.watchedKeys.set(id, {
+        db: client.db,
+        key,
+        version: watchKey(client.db, key),
+      });
+    }
+
+    return reply.ok();
+  },
+  UNWATCH: (args, client) => {
+    if (args.length !== 0) {
+      throw wrongNumberOfArguments("unwatch");
+    }
+    unwatchAllKeys(client);
+    return reply.ok();
+  },
+};
+
+export { transactionHandlers, unwatchAllKeys, isWatchedKeyModified };
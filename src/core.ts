@@ -1,440 +1,818 @@
+import net from "net";
+import { performance } from "perf_hooks";
 import { logger } from "./utils/logger";
 
 const log = logger("core");
 
 import config from "./config.json";
 
-import { persistence } from "./persistence";
-
-const { store, expirationTimes } = persistence;
-
-export type ExecuteCommand = (
-  command: string,
-  args: string[],
-  appendOnly?: boolean
-) => string;
-
-type Commands =
-  | "SET"
-  | "GET"
-  | "DELETE"
-  | "EXPIRE"
-  | "TTL"
-  | "INCR"
-  | "DECR"
-  | "LPUSH"
-  | "RPUSH"
-  | "LPOP"
-  | "RPOP"
-  | "LRANGE"
-  | "COMMAND";
-type CommandHandlers = Record<Commands, (args: string[]) => string>;
-
-const isExpired = (key: string): boolean =>
-  !!expirationTimes[key] && expirationTimes[key] < Date.now();
+import { APPEND_FSYNC_POLICIES, persistence } from "./persistence";
+import {
+  Client,
+  clientAddress,
+  clients,
+  createClient,
+  sendReply,
+} from "./client";
+import { ParsedCommand } from "./parser";
+import { Reply, reply } from "./resp";
+import { stringHandlers } from "./commands/strings";
+import { listHandlers } from "./commands/lists";
+import { keyHandlers } from "./commands/keys";
+import { connectionHandlers } from "./commands/connection";
+import { serverHandlers } from "./commands/server";
+import { hashHandlers } from "./commands/hashes";
+import { setHandlers } from "./commands/sets";
+import { sortedSetHandlers } from "./commands/sorted-sets";
+import { pubSubHandlers } from "./commands/pubsub";
+import { aclHandlers } from "./commands/acl";
+import { replicationHandlers } from "./commands/replication";
+import { scriptingHandlers } from "./commands/scripting";
+import { clientHandlers } from "./commands/client";
+import { configHandlers } from "./commands/config";
+import {
+  transactionHandlers,
+  isWatchedKeyModified,
+  unwatchAllKeys,
+} from "./commands/transactions";
+import { wrongNumberOfArguments } from "./commands/arguments";
+import { hasFlag, hasValidArity } from "./commands/command-table";
+import { CommandHandler } from "./commands/command.types";
+import { CommandError } from "./errors";
+import { PropagatedCommand, propagateAs, takePropagated } from "./propagation";
+import { startActiveExpireCycle } from "./expiry";
+import { isEvictionPolicy, performEvictions } from "./evict";
+import { subscriptionCount, unsubscribeAll } from "./pubsub";
+import { blockedClients, takeReadyKeys, unblockClient } from "./blocking";
+import {
+  databaseKeys,
+  markChangesSaved,
+  selectDatabase,
+  unsavedChanges,
+  updateKeySize,
+  usedMemory,
+  withDatabase,
+} from "./keyspace";
+import { parseSaveRules, startSaveCron } from "./snapshot";
+import { initScripting } from "./scripting";
+import { recordCall, recordConnection, recordRejectedCall } from "./stats";
+import { logSlowCommand } from "./slowlog";
+import { feedMonitors, removeMonitor } from "./monitor";
+import { initClientPause, pauseMode } from "./pause";
+import {
+  initReplication,
+  isReadOnlyReplica,
+  masterClient,
+  parseReplicaOf,
+  propagateToReplicas,
+  removeReplica,
+} from "./replication";
+import {
+  AclLogEntry,
+  addLogEntry,
+  checkCommandPermission,
+  getUser,
+  loadAclFile,
+  resetUsers,
+} from "./acl";
 
 /**
- * Checks if a given key has expired in the store.
- * If the key is expired, it removes the key from both the store and the expiration times,
- * and returns `true`. Otherwise, it returns `false`.
- *
- * @param key - The key to check for expiration.
- * @returns `true` if the key was expired and removed, otherwise `false`.
+ * Runs the commands queued since MULTI. Lives here rather than with the other
+ * transaction commands because it dispatches through `call`.
  */
-const checkExpiry = (key: string) => {
-  if (isExpired(key)) {
-    delete store[key];
-    delete expirationTimes[key];
-    return true;
+const exec: CommandHandler = (args, client) => {
+  if (args.length !== 0) {
+    throw wrongNumberOfArguments("exec");
+  }
+  const { transaction } = client;
+  if (!transaction) {
+    throw new CommandError("ERR EXEC without MULTI");
   }
 
-  return false;
-};
+  client.transaction = null;
+  const modified = isWatchedKeyModified(client);
+  unwatchAllKeys(client);
 
-const commandHandlers: CommandHandlers = {
-  SET: (args: string[]) => {
-    if (args.length < 2) {
-      return "-ERR wrong number of arguments for 'set' command\r\n";
-    }
-    const [key, value] = args;
+  if (transaction.aborted) {
+    throw new CommandError(
+      "EXECABORT Transaction discarded because of previous errors."
+    );
+  }
+  if (modified) {
+    propagateAs();
+    return reply.nilArray();
+  }
 
-    if (typeof value !== "string") {
-      return "-ERR value must be a string\r\n";
-    }
+  const results: Reply[] = [];
+  const propagated: PropagatedCommand[] = [];
+
+  // Blocking commands reply right away instead, as if they timed out.
+  client.denyBlocking = true;
+  try {
+    for (const { command, args } of transaction.queue) {
+      // Permissions may have changed since the command was queued.
+      const denied = checkPermission(client, command, args, "multi");
+      if (denied) {
+        recordRejectedCall(command);
+        results.push(denied);
+        continue;
+      }
+
+      const executed = call(command, args, client);
+      results.push(executed.result);
+      // A script wraps its writes in MULTI/EXEC too, which cannot nest.
+      propagated.push(
+        ...executed.propagated.filter(
+          ({ command }) => command !== "MULTI" && command !== "EXEC"
+        )
+      );
+    }
+  } finally {
+    client.denyBlocking = false;
+  }
 
-    log.info(`Setting ${key} to ${value}`);
-    store[key] = { type: "string", value };
+  // Logged between MULTI and EXEC, so replaying an AOF that was cut short
+  // inside the block cannot apply half of the transaction.
+  if (propagated.length > 0) {
+    propagateAs({ command: "MULTI", args: [] }, ...propagated, {
+      command: "EXEC",
+      args: [],
+    });
+  } else {
+    propagateAs();
+  }
 
-    return "+OK\r\n";
-  },
-  GET: (args: string[]) => {
-    if (args.length < 1) {
-      return "-ERR missing argument for 'get' command\r\n";
-    }
-    const [key] = args;
+  return reply.array(results);
+};
 
-    log.info(`Getting value for ${key}`);
+const commandHandlers = {
+  ...stringHandlers,
+  ...listHandlers,
+  ...hashHandlers,
+  ...setHandlers,
+  ...sortedSetHandlers,
+  ...keyHandlers,
+  ...connectionHandlers,
+  ...serverHandlers,
+  ...transactionHandlers,
+  ...pubSubHandlers,
+  ...aclHandlers,
+  ...replicationHandlers,
+  ...scriptingHandlers,
+  ...clientHandlers,
+  ...configHandlers,
+  EXEC: exec,
+};
 
-    if (checkExpiry(key) || !store[key] || store[key].type !== "string") {
-      return "$-1\r\n";
-    }
+type Commands = keyof typeof commandHandlers;
 
-    const value = store[key].value as string;
+// Commands replayed from the AOF run on behalf of this internal client.
+const aofClient = createClient();
 
-    return `$${value.length}\r\n${value}\r\n`;
-  },
-  DELETE: (args: string[]) => {
-    if (args.length < 1) {
-      return "-ERR wrong number of arguments for 'delete' command\r\n";
-    }
+const READONLY_ERROR = "READONLY You can't write against a read only replica.";
+const OOM_ERROR = "OOM command not allowed when used memory > 'maxmemory'.";
+const MISCONF_ERROR =
+  "MISCONF Errors writing to the AOF file, see the server log for details.";
 
-    const [key] = args;
+// Commands that run right away instead of being queued inside MULTI.
+const TRANSACTION_COMMANDS = ["MULTI", "EXEC", "DISCARD", "WATCH"];
 
-    if (store[key]) {
-      log.info(`Deleting ${key}`);
-      delete store[key];
-      delete expirationTimes[key];
-      return `:1\r\n`;
-    }
-    return `:0\r\n`;
-  },
-  EXPIRE: (args: string[]) => {
-    if (args.length < 2) {
-      return "-ERR wrong number of arguments for 'expire' command\r\n";
-    }
-    const [key, seconds] = args;
-    const expirationTime = parseInt(seconds, 10) * 1000 + Date.now();
-    log.info(`Setting expiration for ${key} to ${expirationTime}`);
-    expirationTimes[key] = expirationTime;
-    return "+OK\r\n";
-  },
-  TTL: (args: string[]) => {
-    if (args.length < 1) {
-      return "-ERR wrong number of arguments for 'ttl' command\r\n";
-    }
-    const [key] = args;
-    if (checkExpiry(key)) {
-      return "-1\r\n";
-    }
-    if (!store[key]) {
-      return "-2\r\n";
-    }
-    const ttl = expirationTimes[key] - Date.now();
-    if (ttl < 0) {
-      return "-1\r\n";
-    }
-    return `:${Math.floor(ttl / 1000)}\r\n`;
-  },
-  INCR: (args: string[]) => {
-    if (args.length < 1) {
-      return "-ERR wrong number of arguments for 'incr' command\r\n";
-    }
-    const [key] = args;
+// The only commands a RESP2 client may send once it subscribed to something,
+// since every reply it reads from then on is expected to be a message.
+const SUBSCRIBED_MODE_COMMANDS = [
+  "SUBSCRIBE",
+  "UNSUBSCRIBE",
+  "PSUBSCRIBE",
+  "PUNSUBSCRIBE",
+  "PING",
+];
 
-    if (checkExpiry(key)) {
-      return "-1\r\n";
-    }
+/**
+ * Checks that the client authenticated and that its ACL user may run the
+ * command on these keys and channels. Denied commands are recorded in the
+ * ACL LOG.
+ *
+ * @returns The error to reply with, or `null` when the command may run.
+ */
+const checkPermission = (
+  client: Client,
+  command: string,
+  args: Buffer[],
+  context: AclLogEntry["context"]
+): Reply | null => {
+  // Commands replayed from the AOF were checked when they first ran.
+  if (client === aofClient || hasFlag(command, "no_auth")) {
+    return null;
+  }
 
-    if (!store[key]) {
-      store[key] = { type: "string", value: "1" };
-      return ":1\r\n";
-    }
+  // A deleted user cannot run anything anymore, like a client that never
+  // authenticated.
+  const user = getUser(client.user);
+  if (!client.authenticated || !user) {
+    client.authenticated = false;
+    return reply.error("NOAUTH Authentication required.");
+  }
 
-    const valueAsInt = parseInt(store[key].value as string, 10);
+  const denied = checkCommandPermission(user, command, args);
+  if (!denied) {
+    return null;
+  }
 
-    if (isNaN(valueAsInt)) {
-      return "-ERR value is not an integer or out of range\r\n";
-    }
+  addLogEntry(client, denied.reason, denied.object, user.name, context);
+  switch (denied.reason) {
+    case "command":
+      return reply.error(
+        `NOPERM User ${user.name} has no permissions to run the '${denied.object}' command`
+      );
+    case "key":
+      return reply.error("NOPERM No permissions to access a key");
+    case "channel":
+      return reply.error("NOPERM No permissions to access a channel");
+  }
+};
 
-    store[key].value = (valueAsInt + 1).toString();
+/**
+ * Evicts keys when the dataset grew over `maxMemory`, and tells whether the
+ * command must be refused because memory could not be freed. Only commands
+ * that may use more memory are refused, so clients can still read and
+ * delete keys. EXEC is refused when any of its queued commands would be.
+ *
+ * @returns `true` if the command must be refused with `-OOM`.
+ */
+const isOutOfMemory = (command: string, client: Client) => {
+  const { fits, evicted } = performEvictions();
+  if (evicted.length > 0) {
+    handlePostExecuteCommand(evicted);
+  }
+  if (fits) {
+    return false;
+  }
+  if (command === "EXEC" && client.transaction) {
+    return client.transaction.queue.some(({ command }) =>
+      hasFlag(command, "denyoom")
+    );
+  }
+  return hasFlag(command, "denyoom");
+};
 
-    return `:${store[key].value}\r\n`;
-  },
-  DECR: (args: string[]) => {
-    if (args.length < 1) {
-      return "-ERR wrong number of arguments for 'decr' command\r\n";
-    }
-    const [key] = args;
+/**
+ * Tells whether a write must be refused because the AOF cannot be written,
+ * so no write is acknowledged that a restart would lose. EXEC is refused
+ * when any of its queued commands would be.
+ */
+const isAofFailing = (command: string, client: Client) => {
+  const writes =
+    command === "EXEC" && client.transaction
+      ? client.transaction.queue.some(({ command }) => isWriteCommand(command))
+      : isWriteCommand(command);
+  return writes && !persistence.isAofWritable();
+};
 
-    if (checkExpiry(key)) {
-      return "-1\r\n";
-    }
+/**
+ * Replies with an error to a command refused before it ran. Like any command
+ * rejected while queuing, it makes EXEC fail. A refused EXEC discards the
+ * transaction right away.
+ */
+const rejectCommand = (client: Client, command: string, error: Reply) => {
+  recordRejectedCall(command);
+  if (command === "EXEC") {
+    client.transaction = null;
+    unwatchAllKeys(client);
+  } else if (client.transaction) {
+    client.transaction.aborted = true;
+  }
+  return error;
+};
 
-    if (!store[key]) {
-      store[key] = { type: "string", value: "-1" };
-      return ":-1\r\n";
-    }
+/**
+ * Runs a command's handler, recording its call in the command stats.
+ *
+ * @returns The reply, and the commands to propagate for it.
+ */
+const call = (
+  command: string,
+  args: Buffer[],
+  client: Client
+): { result: Reply; propagated: PropagatedCommand[] } => {
+  const handler = commandHandlers[command as Commands];
+  if (!handler) {
+    return {
+      result: reply.error(`ERR unknown command ${command}`),
+      propagated: [],
+    };
+  }
 
-    const valueAsInt = parseInt(store[key].value as string, 10);
+  let result: Reply;
+  // SELECT changes the client's database, the command still ran in this one.
+  const { db } = client;
+  selectDatabase(db);
+  takePropagated();
+  const start = performance.now();
 
-    if (isNaN(valueAsInt)) {
-      return "-ERR value is not an integer or out of range\r\n";
+  try {
+    result = handler(args, client);
+  } catch (e) {
+    if (!(e instanceof CommandError)) {
+      throw e;
     }
+    result = reply.error(e.message);
+  }
 
-    store[key].value = (valueAsInt - 1).toString();
-
-    return `:${store[key].value}\r\n`;
-  },
-  LPUSH: (args: string[]) => {
-    if (args.length < 2) {
-      return "-ERR wrong number of arguments for 'lpush' command\r\n";
-    }
-    const [key, ...value] = args; // ["key", "value1", "value2", ...]
-    if (checkExpiry(key)) {
-      return "-1\r\n";
-    }
-    if (!store[key]) {
-      store[key] = { type: "list", value: [] };
-    }
+  recordCall(command, performance.now() - start, result.type === "error");
+  const rewritten = takePropagated();
 
-    if (store[key].type !== "list") {
-      return "-ERR wrong type of key\r\n";
-    }
-    const listLength = (store[key].value as string[]).unshift(...value);
+  // Failed commands did not change anything, so there is nothing to log,
+  // unless they tell what they changed, like a script that failed halfway.
+  if ((result.type === "error" && !rewritten) || !shouldPropagate(command)) {
+    return { result, propagated: [] };
+  }
+  return {
+    result,
+    propagated: (rewritten ?? [{ command, args }]).map((propagated) => ({
+      db,
+      ...propagated,
+    })),
+  };
+};
 
-    return `:${listLength}\r\n`;
-  },
-  RPUSH: (args: string[]) => {
-    if (args.length < 2) {
-      return "-ERR wrong number of arguments for 'rpush' command\r\n";
-    }
-    const [key, ...value] = args; // ["key", "value1", "value2", ...]
-    if (checkExpiry(key)) {
-      return "-1\r\n";
-    }
-    if (!store[key]) {
-      store[key] = { type: "list", value: [] };
-    }
-    if (store[key].type !== "list") {
-      return "-ERR wrong type of key\r\n";
-    }
-    const listLength = (store[key].value as string[]).push(...value);
-    return `:${listLength}\r\n`;
-  },
-  LRANGE: (args: string[]) => {
-    if (args.length < 3) {
-      return "-ERR wrong number of arguments for 'lrange' command\r\n";
-    }
-    const [key, start, end] = args;
+/**
+ * Runs a command a script called with `redis.call` or `redis.pcall`, with
+ * the permissions of the client running the script. Memory is not freed
+ * while the script runs, as evicting keys it wrote would log their deletion
+ * before the writes. Commands that may use more memory are refused instead
+ * once the dataset is over `maxMemory`.
+ *
+ * @returns The reply, and the commands to propagate for it.
+ */
+const callFromScript = (
+  command: string,
+  args: Buffer[],
+  client: Client
+): { result: Reply; propagated: PropagatedCommand[] } => {
+  if (!(command in commandHandlers)) {
+    return {
+      result: reply.error("ERR Unknown Redis command called from script"),
+      propagated: [],
+    };
+  }
+  const refuse = (error: Reply) => {
+    recordRejectedCall(command);
+    return { result: error, propagated: [] };
+  };
 
-    if (checkExpiry(key)) {
-      return "-1\r\n";
-    }
+  if (!hasValidArity(command, args)) {
+    return refuse(
+      reply.error("ERR Wrong number of args calling Redis command from script")
+    );
+  }
+  if (hasFlag(command, "noscript")) {
+    return refuse(
+      reply.error("ERR This Redis command is not allowed from script")
+    );
+  }
+  if (!hasFlag(command, "skip_monitor")) {
+    feedMonitors("lua", client.db, command, args);
+  }
 
-    if (!store[key] || store[key].type !== "list") {
-      return "$-1\r\n";
-    }
+  const denied = checkPermission(client, command, args, "lua");
+  if (denied) {
+    return refuse(denied);
+  }
+  if (isReadOnlyReplica() && isWriteCommand(command)) {
+    return refuse(reply.error(READONLY_ERROR));
+  }
+  if (isWriteCommand(command) && !persistence.isAofWritable()) {
+    return refuse(reply.error(MISCONF_ERROR));
+  }
+  if (
+    hasFlag(command, "denyoom") &&
+    config.maxMemory > 0 &&
+    usedMemory() > config.maxMemory
+  ) {
+    return refuse(reply.error(OOM_ERROR));
+  }
 
-    const list = store[key].value as string[];
+  return call(command, args, client);
+};
 
-    const startIndex = parseInt(start, 10);
-    const endIndex = parseInt(end, 10);
+/**
+ * Queues a command sent between MULTI and EXEC. Unknown commands are
+ * rejected right away and make EXEC abort the whole transaction.
+ */
+const queueCommand = (command: string, args: Buffer[], client: Client) => {
+  const transaction = client.transaction as NonNullable<Client["transaction"]>;
 
-    const range = list.slice(startIndex, endIndex + 1);
+  if (!(command in commandHandlers)) {
+    transaction.aborted = true;
+    return reply.error(`ERR unknown command ${command}`);
+  }
+  // Subscriptions reply with pushes rather than a single reply, which would
+  // not fit in the EXEC reply.
+  if (hasFlag(command, "no_multi")) {
+    transaction.aborted = true;
+    return reply.error("ERR Command not allowed inside a transaction");
+  }
 
-    return `*${range.length}\r\n${range
-      .map((item) => `$${item.length}\r\n${item}`)
-      .join("\r\n")}\r\n`;
-  },
-  LPOP: (args: string[]) => {
-    if (args.length < 1) {
-      return "-ERR wrong number of arguments for 'lpop' command\r\n";
-    }
-    const [key] = args;
-    if (checkExpiry(key)) {
-      return "-1\r\n";
-    }
-    if (!store[key] || store[key].type !== "list") {
-      return "$-1\r\n";
-    }
-    const list = store[key].value as string[];
-    const poppedValue = list.shift();
-    if (poppedValue === undefined) {
-      return "$-1\r\n";
-    }
-    if (list.length === 0) {
-      delete store[key];
-      delete expirationTimes[key];
-    } else {
-      store[key].value = list;
-    }
-    return `$${poppedValue.length}\r\n${poppedValue}\r\n`;
-  },
-  RPOP: (args: string[]) => {
-    if (args.length < 1) {
-      return "-ERR wrong number of arguments for 'rpop' command\r\n";
-    }
-    const [key] = args;
-    if (checkExpiry(key)) {
-      return "-1\r\n";
-    }
-    if (!store[key] || store[key].type !== "list") {
-      return "$-1\r\n";
-    }
-    const list = store[key].value as string[];
-    const poppedValue = list.pop();
-    if (poppedValue === undefined) {
-      return "$-1\r\n";
-    }
-    if (list.length === 0) {
-      delete store[key];
-      delete expirationTimes[key];
-    } else {
-      store[key].value = list;
-    }
-    return `$${poppedValue.length}\r\n${poppedValue}\r\n`;
-  },
-  COMMAND: (args: string[]) => "+OK\r\n",
+  transaction.queue.push({ command, args });
+  return reply.simple("QUEUED");
 };
 
 /**
  * Executes a given command by looking up the appropriate handler and passing the arguments to it.
+ * Known commands are streamed to MONITOR clients first, and commands that
+ * ran for too long are added to the SLOWLOG.
  *
  * @param command - The name of the command to execute.
  * @param args - An array of arguments to pass to the command handler.
- * @returns The result of the command execution as a string. If the command is unknown,
- *          returns an error message in the format `-ERR unknown command <command>\r\n`.
+ * @param client - The connection the command was sent on.
+ * @param replayFromAOF - `true` when the command comes from the AOF, so it is not logged again.
+ * @returns The reply to send back. If the command is unknown,
+ *          returns the error `ERR unknown command <command>`. Inside MULTI,
+ *          commands are queued and answered with `+QUEUED`.
  */
 const executeCommand = (
   command: string,
-  args: string[],
+  args: Buffer[],
+  client: Client,
   replayFromAOF = false
-): string => {
+): Reply => {
   log.info(
-    `Received command: ${command} with args: ${args} replayFromAOF ${replayFromAOF}`
+    `Received command: ${command} with ${args.length} args replayFromAOF ${replayFromAOF}`
   );
+  client.lastInteraction = Date.now();
+  client.lastCommand = command.toLowerCase();
+
+  if (
+    !replayFromAOF &&
+    command in commandHandlers &&
+    !hasFlag(command, "skip_monitor")
+  ) {
+    feedMonitors(
+      client === masterClient ? "master" : clientAddress(client),
+      client.db,
+      command,
+      args
+    );
+  }
 
-  const handler = commandHandlers[command as Commands];
-  if (!handler) {
-    return `-ERR unknown command ${command}\r\n`;
+  if (
+    client.protocol === 2 &&
+    subscriptionCount(client) > 0 &&
+    !SUBSCRIBED_MODE_COMMANDS.includes(command)
+  ) {
+    return reply.error(
+      `ERR Can't execute '${command.toLowerCase()}': only ${SUBSCRIBED_MODE_COMMANDS.join(
+        " / "
+      )} are allowed in this context`
+    );
   }
 
-  const result = handler(args);
+  // Commands from the primary were checked when they first ran.
+  if (!replayFromAOF && client !== masterClient && command in commandHandlers) {
+    if (!hasValidArity(command, args)) {
+      return rejectCommand(
+        client,
+        command,
+        reply.error(wrongNumberOfArguments(command).message)
+      );
+    }
+
+    const denied = checkPermission(
+      client,
+      command,
+      args,
+      client.transaction ? "multi" : "toplevel"
+    );
+    if (denied) {
+      return rejectCommand(client, command, denied);
+    }
+
+    if (isReadOnlyReplica() && isWriteCommand(command)) {
+      return rejectCommand(client, command, reply.error(READONLY_ERROR));
+    }
+
+    if (isAofFailing(command, client)) {
+      return rejectCommand(client, command, reply.error(MISCONF_ERROR));
+    }
+
+    if (isOutOfMemory(command, client)) {
+      return rejectCommand(client, command, reply.error(OOM_ERROR));
+    }
+  }
+
+  if (client.transaction && !TRANSACTION_COMMANDS.includes(command)) {
+    return queueCommand(command, args, client);
+  }
+
+  const start = performance.now();
+  const { result, propagated } = call(command, args, client);
+  if (!replayFromAOF && !hasFlag(command, "skip_slowlog")) {
+    logSlowCommand(client, command, args, performance.now() - start);
+  }
 
-  if (!replayFromAOF) {
-    handlePostExecuteCommand(command, args);
+  if (!replayFromAOF && propagated.length > 0) {
+    handlePostExecuteCommand(propagated);
   }
 
+  if (client.blocked) {
+    blockUntilTimeout(client);
+  }
+  handleClientsBlockedOnKeys();
+
   return result;
 };
 
 /**
- * Handles the execution of a command after it has been processed.
- * If the command should be appended to the Append-Only File (AOF),
- * it performs the append operation asynchronously and logs the result.
- * Otherwise, it logs that the command is being skipped.
- *
- * @param command - The name of the command to be executed.
- * @param args - An array of arguments associated with the command.
+ * Tells whether CLIENT PAUSE holds back a command. A write pause holds back
+ * what may change the dataset or be propagated, including an EXEC whose
+ * queue does, but not the commands queued inside MULTI. Replicas are never
+ * paused, so they keep acknowledging their offset.
+ */
+const isPaused = (command: string, client: Client) => {
+  const mode = pauseMode();
+  if (!mode || client.replica) {
+    return false;
+  }
+  if (mode === "all") {
+    return true;
+  }
+
+  if (client.transaction) {
+    return (
+      command === "EXEC" &&
+      client.transaction.queue.some(({ command }) => shouldPropagate(command))
+    );
+  }
+  return shouldPropagate(command);
+};
+
+/**
+ * Runs the commands a client sent, in the order they arrived, and queues
+ * their replies. Stops while the client is blocked: the commands pipelined
+ * after a blocking one run once it was served or timed out. Likewise it
+ * stops at a command CLIENT PAUSE holds back, see `resumeClients`.
  *
+ * @param client - The client whose `pendingCommands` to run.
+ */
+const processInput = (client: Client) => {
+  const commands = client.pendingCommands;
+  let processed = 0;
+
+  while (!client.blocked && processed < commands.length) {
+    const { command, args } = commands[processed] as ParsedCommand;
+    if (isPaused(command, client)) {
+      break;
+    }
+    processed++;
+
+    try {
+      const response = executeCommand(command, args, client);
+      log.info(`Replied to ${command} with ${response.type}`);
+      sendReply(client, response);
+    } catch (e: any) {
+      log.error(e.message);
+      sendReply(client, reply.error("ERR"));
+    }
+  }
+
+  commands.splice(0, processed);
+};
+
+/**
+ * Runs the commands held back while clients were paused, once the pause
+ * ended. Deferred since CLIENT UNPAUSE ends it while its own client is in
+ * the middle of `processInput`.
+ */
+const resumeClients = () =>
+  setImmediate(() => {
+    for (const client of clients.values()) {
+      processInput(client);
+    }
+  });
+
+/**
+ * Arms the timeout of a client that just blocked. When it fires first, the
+ * client gets the command's timeout reply and resumes its pending commands.
  */
-const handlePostExecuteCommand = (command: string, args: string[]) => {
-  if (shouldAppendToAOF(command)) {
-    persistence
-      .appendAOF(command, args)
-      .then(() => {
-        log.info(`AOF log appended: ${command} ${args}`);
-      })
-      .catch((e: Error | any) => {
-        log.error("Error appending to AOF file:", e?.message);
-      });
+const blockUntilTimeout = (client: Client) => {
+  const request = client.blocked;
+  if (!request || request.timeout === 0 || request.timer) {
     return;
   }
-  log.info(`Skipping AOF append for command: ${command}`);
+
+  request.timer = setTimeout(() => {
+    unblockClient(client);
+    sendReply(client, request.timeoutReply);
+    processInput(client);
+  }, request.timeout);
 };
 
 /**
- * Determines whether a given command should be appended to the Append-Only File (AOF).
- *
- * This function checks if the append-only mode is enabled in the configuration
- * and if the specified command is included in the list of commands that should
- * be appended to the AOF.
- *
- * @param command - The name of the command to check.
- * @returns `true` if the command should be appended to the AOF, otherwise `false`.
+ * Serves clients blocked on keys that received data while the last command
+ * ran. Each key serves its clients in the order they blocked, for as long as
+ * it has data left. Serving a BLMOVE pushes to another key, so this repeats
+ * until no key is ready anymore.
  */
-const shouldAppendToAOF = (command: string) =>
-  config.appendOnly && config.appendOnlyCmds.includes(command);
+const handleClientsBlockedOnKeys = () => {
+  for (let keys = takeReadyKeys(); keys.length > 0; keys = takeReadyKeys()) {
+    for (const { db, key } of keys) {
+      for (const waiter of blockedClients(db, key)) {
+        const request = waiter.blocked as NonNullable<Client["blocked"]>;
+        let result: Reply | null;
+        takePropagated();
+
+        try {
+          result = withDatabase(db, () => request.serve(key));
+        } catch (e) {
+          if (!(e instanceof CommandError)) {
+            throw e;
+          }
+          result = reply.error(e.message);
+        }
+
+        const propagated = takePropagated();
+        if (result === null) {
+          break;
+        }
+        if (propagated) {
+          handlePostExecuteCommand(
+            propagated.map((command) => ({ db, ...command }))
+          );
+        }
+
+        unblockClient(waiter);
+        sendReply(waiter, result);
+        // Resumed on the next tick so the command that woke it finishes first.
+        process.nextTick(() => processInput(waiter));
+      }
+    }
+  }
+};
 
 /**
- * Parses a Redis command string into its command and arguments.
+ * Handles the execution of a command after it has been processed by
+ * appending it to the Append-Only File (AOF), when enabled, and streaming it
+ * to the replicas. `replicaOnly` commands are only streamed. Replies sent
+ * from now on wait for the AOF write as `appendFsync` requires, see
+ * `sendReply`.
  *
- * @param data - The raw string data received, typically from a Redis client.
- *               The string is expected to follow the RESP (REdis Serialization Protocol) format.
+ * @param commands - The commands to append, written together in one block.
  *
- * @returns An object containing:
- *          - `command`: The parsed command in uppercase.
- *          - `args`: An array of arguments associated with the command.
+ */
+const handlePostExecuteCommand = (commands: PropagatedCommand[]) => {
+  const logged = commands.filter(({ replicaOnly }) => !replicaOnly);
+  // A transaction that only published leaves nothing to replay.
+  const changed = logged.some(
+    ({ command }) => command !== "MULTI" && command !== "EXEC"
+  );
+  if (config.appendOnly && changed) {
+    persistence.appendAOF(logged);
+    log.info(`AOF log appended: ${logged.map((c) => c.command)}`);
+  }
+  propagateToReplicas(commands);
+};
+
+/**
+ * Determines whether a given command should be propagated, to the
+ * Append-Only File (AOF) and to the replicas: commands flagged `write` or
+ * `may_replicate` in the command table.
  *
- * @example
- * ```typescript
- * const input = "*3\r\n$3\r\nSET\r\n$5\r\nmykey\r\n$7\r\nmyvalue\r\n";
- * const result = parseCommand(input);
- * console.log(result);
- * // Output:
- * // {
- * //   command: "SET",
- * //   args: ["mykey", "myvalue"]
- * // }
- * ```
+ * @param command - The name of the command to check.
+ * @returns `true` if the command should be propagated, otherwise `false`.
  */
-const parseCommand = (data: string) => {
-  const lines = data
-    .toString()
-    .split("\r\n")
-    .filter((line) => !!line);
+const shouldPropagate = (command: string) =>
+  hasFlag(command, "write") || hasFlag(command, "may_replicate");
 
-  const command = lines[2].toUpperCase();
+/**
+ * @returns `true` if the command may change the dataset, so a read-only
+ *          replica refuses it.
+ */
+const isWriteCommand = (command: string) => hasFlag(command, "write");
 
-  const args = lines.slice(4).filter((_, index) => index % 2 === 0);
+/**
+ * Loads the dataset from disk, following the boot order described on
+ * `init`.
+ */
+const loadDataFromDisk = () => {
+  if (config.appendOnly && persistence.hasAof()) {
+    log.info("Loading the dataset from the append only file");
+    persistence.replayAofSync((command, args) =>
+      executeCommand(command, args, aofClient, true)
+    );
+  } else if (config.snapshot || config.appendOnly) {
+    persistence.loadSnapshotSync();
+    const loaded = persistence.databases.some(({ store }) => store.size > 0);
+    if (config.appendOnly && loaded) {
+      // The AOF is all that is loaded on the next start, so it has to hold
+      // what the snapshot brought.
+      log.info("Creating the append only file from the loaded snapshot");
+      persistence.rewriteAof();
+    }
+  } else {
+    log.info("Persistence mode: in-memory");
+  }
 
-  log.debug(command, ...lines);
+  // Keys loaded from a snapshot bypass the commands that account for their
+  // size.
+  persistence.databases.forEach((_, db) =>
+    withDatabase(db, () => databaseKeys().forEach(updateKeySize))
+  );
+  // What was just loaded is already on disk.
+  markChangesSaved(unsavedChanges());
 
-  return {
-    command,
-    args,
-  };
+  startSaveCron();
+  if (config.snapshot) {
+    log.info(`Save rules: ${config.save || "none"}`);
+  }
 };
 
 /**
- * Handles the snapshot functionality for the application.
+ * Initializes the server based on the provided configuration.
+ *
+ * ACL users are loaded from `config.aclFile` first, if set. An invalid file
+ * aborts the startup rather than leaving the server open, and so does an
+ * unknown `maxMemoryPolicy` or `appendFsync`, invalid `save` rules or
+ * `replicaOf`, or a snapshot or AOF that cannot be read.
  *
- * This function enables snapshot mode, loads the existing snapshot synchronously,
- * and sets up a recurring interval to save snapshots asynchronously.
+ * `config.snapshot` and `config.appendOnly` can be enabled together. The
+ * dataset is then loaded from the first of these that applies:
  *
- * @throws {Error} If there is an issue with loading or saving snapshots.
+ * - **AOF**: with `config.appendOnly` and an existing AOF, from the AOF
+ *   alone, which is at least as recent as the snapshot. With
+ *   `aofUseSnapshotPreamble` it starts with a snapshot written by its last
+ *   rewrite, followed by the commands logged since.
+ * - **Snapshot**: with either option, from the snapshot file, if any. In
+ *   append-only mode the AOF is then rewritten from the loaded data.
+ * - **In-Memory**: otherwise the server starts empty.
+ *
+ * Save rules apply whenever `config.snapshot` is enabled. Once the data is
+ * loaded it starts replication, connecting to `config.replicaOf` if set,
+ * and the active expiry cycle.
  */
-const handleSnapshot = () => {
-  log.info("Snapshot mode is enabled");
-  persistence.loadSnapshotSync();
+const init = () => {
+  if (!APPEND_FSYNC_POLICIES.includes(config.appendFsync)) {
+    throw new Error(
+      `Aborting startup because of an invalid appendFsync: ${config.appendFsync}`
+    );
+  }
+  parseSaveRules(config.save);
+  if (config.replicaOf) {
+    parseReplicaOf(config.replicaOf);
+  }
+  if (!isEvictionPolicy(config.maxMemoryPolicy)) {
+    throw new Error(
+      `Aborting startup because of an invalid maxMemoryPolicy: ${config.maxMemoryPolicy}`
+    );
+  }
 
-  setInterval(() => {
-    persistence.saveSnapshotAsync();
-  }, config.snapshotInterval);
+  // Set up when the ACL module loaded, before `requirePass` was resolved.
+  resetUsers();
+  if (config.aclFile) {
+    const error = loadAclFile(config.aclFile);
+    if (error) {
+      throw new Error(`Aborting startup because of ACL errors: ${error}`);
+    }
+    log.info(`ACL users loaded from ${config.aclFile}`);
+  }
 
-  log.info("Snapshot interval set to", config.snapshotInterval, "ms");
+  loadDataFromDisk();
+  initScripting(callFromScript);
+  initClientPause(resumeClients);
+  initReplication((command, args, client) => {
+    executeCommand(command, args, client);
+  });
+  startActiveExpireCycle();
 };
 
 /**
- * Initializes the server based on the provided configuration.
- *
- * This function determines the persistence mode of the server and performs
- * the necessary setup. It supports three modes:
+ * Creates the client for a new connection. It starts out authenticated as
+ * the default user when that user needs no password.
  *
- * - **Snapshot Mode**: If `config.snapshot` is enabled, it triggers the snapshot handling process.
- * - **Append-Only Mode**: If `config.appendOnly` is enabled, it logs that the append-only mode is active.
- * - **In-Memory Mode**: If neither snapshot nor append-only mode is enabled, it defaults to in-memory persistence.
+ * @param socket - The connection's socket.
+ */
+const connectClient = (socket: net.Socket) => {
+  const client = createClient(socket);
+  const user = getUser("default");
+  client.authenticated = !!user && user.enabled && user.nopass;
+  clients.set(client.id, client);
+  recordConnection();
+  return client;
+};
+
+/**
+ * Releases what a client holds once its connection is closed.
  *
+ * @param client - The client that disconnected.
  */
-const init = () => {
-  if (config.snapshot) {
-    handleSnapshot();
-  } else if (config.appendOnly) {
-    log.info("Append only mode is enabled");
-    persistence.replayAofSync(executeCommand);
-  } else {
-    log.info("Persistence mode: in-memory");
-  }
+const disconnectClient = (client: Client) => {
+  client.transaction = null;
+  client.pendingCommands = [];
+  unwatchAllKeys(client);
+  unsubscribeAll(client);
+  unblockClient(client);
+  removeReplica(client);
+  removeMonitor(client);
+  clients.delete(client.id);
 };
 
-export { parseCommand, executeCommand, init };
+export { executeCommand, processInput, connectClient, disconnectClient, init };
@@ -0,0 +1,212 @@
+import { hashString, nextCursor } from "./utils/scan";
+
+// Buckets of an empty table, the smallest size, as in redis.
+const INITIAL_BUCKETS = 4;
+
+// The table halves once it is less than this full.
+const MIN_FILL = 1 / 8;
+
+type Bucket = string[] | undefined;
+
+/**
+ * One page of a SCAN iteration: the cursor to continue from, `0` once the
+ * iteration is complete, and the keys found.
+ */
+export type ScanPage = { cursor: number; items: string[] };
+
+/**
+ * Keys arranged in hash buckets, like the table of a redis dict, so a
+ * random key is drawn in O(1) and SCAN resumes from a bucket instead of
+ * listing every key first.
+ *
+ * The table doubles once it holds more keys than buckets and halves once it
+ * is less than an eighth full, so a random bucket holds a key often enough.
+ * Every key is rehashed at once when it resizes, which is amortized over the
+ * insertions and deletions that led to it.
+ */
+class HashBuckets {
+  #buckets: Bucket[] = new Array(INITIAL_BUCKETS);
+  #size = 0;
+
+  add(key: string) {
+    (this.#buckets[this.#bucketOf(key)] ??= []).push(key);
+    if (++this.#size > this.#buckets.length) {
+      this.#resize(this.#buckets.length * 2);
+    }
+  }
+
+  delete(key: string) {
+    const index = this.#bucketOf(key);
+    const bucket = this.#buckets[index] as string[];
+    bucket[bucket.indexOf(key)] = bucket[bucket.length - 1];
+    bucket.pop();
+    if (bucket.length === 0) {
+      this.#buckets[index] = undefined;
+    }
+
+    if (
+      --this.#size < this.#buckets.length * MIN_FILL &&
+      this.#buckets.length > INITIAL_BUCKETS
+    ) {
+      this.#resize(this.#buckets.length / 2);
+    }
+  }
+
+  clear() {
+    this.#buckets = new Array(INITIAL_BUCKETS);
+    this.#size = 0;
+  }
+
+  random() {
+    if (this.#size === 0) {
+      return undefined;
+    }
+    for (;;) {
+      const index = Math.floor(Math.random() * this.#buckets.length);
+      const bucket = this.#buckets[index];
+      if (bucket) {
+        return bucket[Math.floor(Math.random() * bucket.length)];
+      }
+    }
+  }
+
+  scan(cursor: number, count: number): ScanPage {
+    const items: string[] = [];
+    if (this.#size === 0) {
+      return { cursor: 0, items };
+    }
+
+    const mask = this.#buckets.length - 1;
+    do {
+      items.push(...(this.#buckets[cursor & mask] ?? []));
+      cursor = nextCursor(cursor, mask);
+    } while (cursor !== 0 && items.length < count);
+
+    return { cursor, items };
+  }
+
+  #bucketOf(key: string) {
+    return hashString(key) & (this.#buckets.length - 1);
+  }
+
+  #resize(length: number) {
+    const buckets: Bucket[] = new Array(length);
+    for (const bucket of this.#buckets) {
+      for (const key of bucket ?? []) {
+        (buckets[hashString(key) & (length - 1)] ??= []).push(key);
+      }
+    }
+    this.#buckets = buckets;
+  }
+}
+
+/**
+ * A `Map` from binary strings that also keeps its keys in `HashBuckets`.
+ * Used for the keys of a database and the fields of a hash.
+ */
+class Dict<V> extends Map<string, V> {
+  #buckets = new HashBuckets();
+
+  constructor(entries?: Iterable<readonly [string, V]>) {
+    // `Map` would add the entries before the buckets exist.
+    super();
+    for (const [key, value] of entries ?? []) {
+      this.set(key, value);
+    }
+  }
+
+  set(key: string, value: V) {
+    if (!this.has(key)) {
+      this.#buckets.add(key);
+    }
+    return super.set(key, value);
+  }
+
+  delete(key: string) {
+    if (!super.delete(key)) {
+      return false;
+    }
+    this.#buckets.delete(key);
+    return true;
+  }
+
+  clear() {
+    super.clear();
+    this.#buckets.clear();
+  }
+
+  /**
+   * Draws a key at random. Keys sharing a bucket with others are a little
+   * less likely to be drawn, which sampling for expiry and eviction
+   * tolerates, as in redis.
+   *
+   * @returns A key, or `undefined` when the dict is empty.
+   */
+  randomKey(): string | undefined {
+    return this.#buckets.random();
+  }
+
+  /**
+   * Returns one page of a SCAN iteration over the keys, visiting buckets
+   * until `count` keys are found. See `nextCursor` for the guarantees.
+   *
+   * @param cursor - `0` to start, then the cursor returned by the previous
+   *                 call.
+   * @param count - How many keys to return, more when a bucket holds several.
+   */
+  scan(cursor: number, count: number): ScanPage {
+    return this.#buckets.scan(cursor, count);
+  }
+}
+
+/**
+ * A `Set` of binary strings that also keeps them in `HashBuckets`, for the
+ * members of a set.
+ */
+class DictSet extends Set<string> {
+  #buckets = new HashBuckets();
+
+  constructor(members?: Iterable<string>) {
+    // `Set` would add the members before the buckets exist.
+    super();
+    for (const member of members ?? []) {
+      this.add(member);
+    }
+  }
+
+  add(member: string) {
+    if (!this.has(member)) {
+      this.#buckets.add(member);
+    }
+    return super.add(member);
+  }
+
+  delete(member: string) {
+    if (!super.delete(member)) {
+      return false;
+    }
+    this.#buckets.delete(member);
+    return true;
+  }
+
+  clear() {
+    super.clear();
+    this.#buckets.clear();
+  }
+
+  /**
+   * @see Dict.randomKey
+   */
+  randomMember(): string | undefined {
+    return this.#buckets.random();
+  }
+
+  /**
+   * @see Dict.scan
+   */
+  scan(cursor: number, count: number): ScanPage {
+    return this.#buckets.scan(cursor, count);
+  }
+}
+
+export { Dict, DictSet };
@@ -0,0 +1,19 @@
+/**
+ * Raised by command handlers and their helpers to abort a command with an
+ * error reply. `executeCommand` turns it into `-<message>` for the client,
+ * so the message must start with the error code, e.g. `ERR` or `WRONGTYPE`.
+ */
+class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+const WRONGTYPE =
+  "WRONGTYPE Operation against a key holding the wrong kind of value";
+const NOT_AN_INTEGER = "ERR value is not an integer or out of range";
+const NOT_A_FLOAT = "ERR value is not a valid float";
+const SYNTAX_ERROR = "ERR syntax error";
+
+export { CommandError, WRONGTYPE, NOT_AN_INTEGER, NOT_A_FLOAT, SYNTAX_ERROR };
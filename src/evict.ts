@@ -0,0 +1,152 @@
+import config from "./config.json";
+import { logger } from "./utils/logger";
+import { persistence } from "./persistence";
+import { pauseMode } from "./pause";
+import { PropagatedCommand } from "./propagation";
+import { fromBinaryString } from "./utils/binary";
+import {
+  deleteKey,
+  getExpire,
+  keyMetadata,
+  usedMemory,
+  withDatabase,
+} from "./keyspace";
+
+const log = logger("evict");
+
+const { databases } = persistence;
+
+const EVICTION_POLICIES = [
+  "noeviction",
+  "allkeys-lru",
+  "volatile-lru",
+  "allkeys-lfu",
+  "volatile-lfu",
+  "allkeys-random",
+  "volatile-random",
+  "volatile-ttl",
+] as const;
+
+export type EvictionPolicy = (typeof EVICTION_POLICIES)[number];
+
+type Candidate = { db: number; key: string; score: number };
+
+let evictedKeys = 0;
+
+// Random policies take their victim from the databases in turn.
+let nextRandomDatabase = 0;
+
+/**
+ * @returns `true` if `policy` names an eviction policy.
+ */
+const isEvictionPolicy = (policy: string): policy is EvictionPolicy =>
+  EVICTION_POLICIES.includes(policy as EvictionPolicy);
+
+/**
+ * Rates a key for eviction under `policy`: the key with the highest score
+ * is evicted first.
+ */
+const evictionScore = (policy: EvictionPolicy, key: string) => {
+  if (policy === "volatile-ttl") {
+    return -(getExpire(key) ?? Infinity);
+  }
+
+  const metadata = keyMetadata(key);
+  if (!metadata) {
+    return Infinity;
+  }
+  return policy.endsWith("-lfu")
+    ? -metadata.frequency
+    : Date.now() - metadata.accessedAt;
+};
+
+/**
+ * Picks the key to evict next, by sampling `maxMemorySamples` keys of every
+ * database and keeping the best one, like redis does with its eviction pool.
+ *
+ * @param policy - The policy in effect, anything but `noeviction`.
+ * @returns The key to evict, or `undefined` if no key may be evicted.
+ */
+const selectVictim = (policy: EvictionPolicy): Candidate | undefined => {
+  const volatile = policy.startsWith("volatile-");
+  const keysOf = (db: number) =>
+    volatile ? databases[db].expirationTimes : databases[db].store;
+
+  if (policy.endsWith("-random")) {
+    for (let i = 0; i < databases.length; i++) {
+      const db = nextRandomDatabase;
+      nextRandomDatabase = (nextRandomDatabase + 1) % databases.length;
+      const key = keysOf(db).randomKey();
+      if (key !== undefined) {
+        return { db, key, score: 0 };
+      }
+    }
+    return undefined;
+  }
+
+  let best: Candidate | undefined;
+  for (let db = 0; db < databases.length; db++) {
+    const keys = keysOf(db);
+    for (let i = 0; i < config.maxMemorySamples && keys.size > 0; i++) {
+      const key = keys.randomKey() as string;
+      const score = withDatabase(db, () => evictionScore(policy, key));
+      if (!best || score > best.score) {
+        best = { db, key, score };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Evicts keys until the dataset fits in `maxMemory` again, following
+ * `maxMemoryPolicy`. The dispatcher calls this before running a command,
+ * and refuses commands that may use more memory when it fails. Nothing is
+ * evicted while clients are paused, which must leave the dataset as it is.
+ *
+ * @returns Whether memory is within the limit, and the DEL commands to log
+ *          for the evicted keys.
+ */
+const performEvictions = (): {
+  fits: boolean;
+  evicted: PropagatedCommand[];
+} => {
+  const evicted: PropagatedCommand[] = [];
+  if (!config.maxMemory) {
+    return { fits: true, evicted };
+  }
+  if (pauseMode()) {
+    return { fits: usedMemory() <= config.maxMemory, evicted };
+  }
+
+  const policy = config.maxMemoryPolicy as EvictionPolicy;
+
+  while (usedMemory() > config.maxMemory) {
+    if (policy === "noeviction") {
+      return { fits: false, evicted };
+    }
+
+    const victim = selectVictim(policy);
+    if (!victim) {
+      log.warn(`No key left to evict under ${policy}`);
+      return { fits: false, evicted };
+    }
+
+    withDatabase(victim.db, () => deleteKey(victim.key));
+    evictedKeys++;
+    evicted.push({
+      command: "DEL",
+      args: [fromBinaryString(victim.key)],
+      db: victim.db,
+    });
+  }
+
+  return { fits: true, evicted };
+};
+
+/**
+ * @returns How many keys were evicted since the server started.
+ */
+const evictionStats = () => ({ evictedKeys });
+
+export { EVICTION_POLICIES, isEvictionPolicy, performEvictions, evictionStats };
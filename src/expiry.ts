@@ -0,0 +1,103 @@
+import { logger } from "./utils/logger";
+import { persistence } from "./persistence";
+import { checkExpiry, selectedDatabase, withDatabase } from "./keyspace";
+import { pauseMode } from "./pause";
+
+const log = logger("expiry");
+
+const { databases } = persistence;
+
+// Redis runs its active expiry cycle from a 10 Hz timer.
+const ACTIVE_EXPIRE_INTERVAL = 100;
+// Keys with a TTL sampled per round.
+const KEYS_PER_LOOP = 20;
+// Another round is run while more than this share of a sample had expired.
+const ACCEPTABLE_STALE_RATIO = 0.1;
+// Upper bound on the time spent in one cycle, so clients are not starved.
+const TIME_LIMIT = 25;
+
+/**
+ * Samples the keys with a TTL of the selected database. Keys are drawn at
+ * random, unless there are no more of them than a sample, then each is
+ * checked.
+ *
+ * @param start - When the cycle started, for the time limit.
+ * @returns The number of keys that were deleted.
+ */
+const expireDatabase = (start: number) => {
+  const { expirationTimes } = databases[selectedDatabase()];
+  let deleted = 0;
+
+  while (expirationTimes.size > 0) {
+    const sample =
+      expirationTimes.size <= KEYS_PER_LOOP
+        ? [...expirationTimes.keys()]
+        : Array.from(
+            { length: KEYS_PER_LOOP },
+            () => expirationTimes.randomKey() as string
+          );
+    let expired = 0;
+
+    for (const key of sample) {
+      if (checkExpiry(key)) {
+        expired++;
+      }
+    }
+
+    deleted += expired;
+
+    if (
+      expired / sample.length <= ACCEPTABLE_STALE_RATIO ||
+      Date.now() - start > TIME_LIMIT
+    ) {
+      break;
+    }
+  }
+
+  return deleted;
+};
+
+/**
+ * Deletes expired keys that are never accessed again, which lazy expiry in
+ * `lookupKey` would keep in memory forever.
+ *
+ * Like redis, this samples random keys with a TTL and repeats while a large
+ * share of the sample had expired, so memory held by expired keys stays
+ * bounded without scanning the whole keyspace on every tick. Every database
+ * is visited until the time limit is reached.
+ *
+ * @returns The number of keys that were deleted.
+ */
+const activeExpireCycle = () => {
+  const start = Date.now();
+  let deleted = 0;
+
+  for (let db = 0; db < databases.length; db++) {
+    if (Date.now() - start > TIME_LIMIT) {
+      break;
+    }
+    deleted += withDatabase(db, () => expireDatabase(start));
+  }
+
+  if (deleted > 0) {
+    log.debug(`Active expiry deleted ${deleted} keys`);
+  }
+
+  return deleted;
+};
+
+/**
+ * Starts running `activeExpireCycle` in the background. It skips its turn
+ * while clients are paused, so the dataset stays as it is, e.g. while a
+ * replica catches up for a failover.
+ *
+ * @returns The timer, so the caller can stop the cycle.
+ */
+const startActiveExpireCycle = () =>
+  setInterval(() => {
+    if (!pauseMode()) {
+      activeExpireCycle();
+    }
+  }, ACTIVE_EXPIRE_INTERVAL);
+
+export { activeExpireCycle, startActiveExpireCycle };
@@ -0,0 +1,496 @@
+import config from "./config.json";
+import { Dict, DictSet } from "./dict";
+import { persistence } from "./persistence";
+import { CommandError, WRONGTYPE } from "./errors";
+import {
+  LFU_INIT_VALUE,
+  estimateKeySize,
+  lfuDecay,
+  lfuIncrement,
+} from "./memory";
+import { SortedSet } from "./sorted-set";
+import { recordExpiredKey, recordKeyspaceLookup } from "./stats";
+import { Database, KeyMetadata, StoreValue } from "./store.types";
+
+const { databases } = persistence;
+
+type ValueOfType<T extends StoreValue["type"]> = Extract<
+  StoreValue,
+  { type: T }
+>;
+
+// The database commands operate on. The dispatcher selects the client's
+// database before running a command, and commands run one at a time, so a
+// single slot is enough.
+let selected = 0;
+
+/**
+ * Makes `index` the database the keyspace functions operate on.
+ *
+ * @param index - A valid database index.
+ */
+const selectDatabase = (index: number) => {
+  selected = index;
+};
+
+/**
+ * @returns The index of the selected database.
+ */
+const selectedDatabase = () => selected;
+
+/**
+ * Runs `fn` with another database selected, then selects the previous one
+ * again. Used by commands that touch several databases, like MOVE.
+ */
+const withDatabase = <T>(index: number, fn: () => T): T => {
+  const previous = selected;
+  selected = index;
+  try {
+    return fn();
+  } finally {
+    selected = previous;
+  }
+};
+
+/**
+ * Exchanges the contents of two databases, so clients connected to one see
+ * the data of the other. Transactions watching keys in either abort.
+ */
+const swapDatabases = (first: number, second: number) => {
+  [databases[first], databases[second]] = [databases[second], databases[first]];
+  signalDatabasesModified(first, second);
+};
+
+/**
+ * @returns `true` if `index` names a configured database.
+ */
+const isValidDatabase = (index: number) =>
+  Number.isInteger(index) && index >= 0 && index < databases.length;
+
+const currentDatabase = (): Database => databases[selected];
+
+/**
+ * Identifies a key across databases, for registries that are not kept per
+ * database such as watched keys and blocked clients.
+ */
+const databaseKey = (db: number, key: string) => `${db}:${key}`;
+
+// Sum of the estimated sizes of every key in every database.
+let datasetSize = 0;
+
+/**
+ * Re-estimates the size of `key` in the selected database, and drops its
+ * metadata once the key is gone. Called for every modified key, and for
+ * keys loaded from a snapshot.
+ *
+ * @param key - The key to measure.
+ */
+const updateKeySize = (key: string) => {
+  const { store, expirationTimes, metadata } = currentDatabase();
+  const entry = store.get(key);
+  const previous = metadata[key]?.size ?? 0;
+
+  if (!entry) {
+    delete metadata[key];
+    datasetSize -= previous;
+    return;
+  }
+
+  const size = estimateKeySize(key, entry, expirationTimes.has(key));
+  metadata[key] ??= {
+    size: 0,
+    accessedAt: Date.now(),
+    frequency: LFU_INIT_VALUE,
+  };
+  metadata[key].size = size;
+  datasetSize += size - previous;
+};
+
+/**
+ * @returns The estimated bytes taken by every key, as compared against
+ *          `maxMemory`.
+ */
+const usedMemory = () => datasetSize;
+
+/**
+ * Records an access to `key`, for the LRU and LFU eviction policies.
+ */
+const touchKey = (key: string) => {
+  const { metadata } = currentDatabase();
+  const now = Date.now();
+  const known = metadata[key];
+  if (!known) {
+    metadata[key] = { size: 0, accessedAt: now, frequency: LFU_INIT_VALUE };
+    return;
+  }
+  known.frequency = lfuIncrement(
+    lfuDecay(known.frequency, now - known.accessedAt, config.lfuDecayTime),
+    config.lfuLogFactor
+  );
+  known.accessedAt = now;
+};
+
+/**
+ * Returns what is tracked about `key` in the selected database, without
+ * counting as an access.
+ *
+ * @param key - An existing key.
+ * @returns The metadata, with the access counter decayed to the current time.
+ */
+const keyMetadata = (key: string): KeyMetadata | undefined => {
+  const known = currentDatabase().metadata[key];
+  if (!known) {
+    return undefined;
+  }
+  return {
+    ...known,
+    frequency: lfuDecay(
+      known.frequency,
+      Date.now() - known.accessedAt,
+      config.lfuDecayTime
+    ),
+  };
+};
+
+// Changes since the dataset was last saved, for the snapshot save rules.
+let changes = 0;
+
+/**
+ * @returns How many changes were made since the last snapshot.
+ */
+const unsavedChanges = () => changes;
+
+/**
+ * Records that a snapshot saved the first `count` changes. Changes made
+ * while a background save ran stay unsaved.
+ *
+ * @param count - `unsavedChanges()` when the save started.
+ */
+const markChangesSaved = (count: number) => {
+  changes = Math.max(changes - count, 0);
+};
+
+// Versions are only tracked for keys some client is watching, so this map
+// stays as small as the set of watched keys.
+const watchedKeys = new Map<
+  string,
+  { db: number; key: string; version: number; watchers: number }
+>();
+
+/**
+ * Records that `key` in the selected database was modified, so transactions
+ * watching it abort and its size is measured again. Every command that
+ * changes a key calls this, like `signalModifiedKey` in redis.
+ *
+ * @param key - The key that was created, changed or deleted.
+ */
+const signalModifiedKey = (key: string) => {
+  changes++;
+  updateKeySize(key);
+  const watched = watchedKeys.get(databaseKey(selected, key));
+  if (watched) {
+    watched.version++;
+  }
+};
+
+/**
+ * Marks every watched key of the given databases as modified when it exists
+ * in any of them, e.g. after SWAPDB replaced their contents.
+ *
+ * @param indexes - The databases whose contents changed.
+ */
+const signalDatabasesModified = (...indexes: number[]) => {
+  changes++;
+  for (const watched of watchedKeys.values()) {
+    if (
+      indexes.includes(watched.db) &&
+      indexes.some((index) => databases[index].store.has(watched.key))
+    ) {
+      watched.version++;
+    }
+  }
+};
+
+/**
+ * Starts tracking the version of a key for one more watcher.
+ *
+ * @param db - The database holding the key.
+ * @param key - The key to watch.
+ * @returns The current version of the key.
+ */
+const watchKey = (db: number, key: string) => {
+  const id = databaseKey(db, key);
+  const watched = watchedKeys.get(id) ?? { db, key, version: 0, watchers: 0 };
+  watched.watchers++;
+  watchedKeys.set(id, watched);
+  return watched.version;
+};
+
+/**
+ * Releases a watcher registered by `watchKey`. The version is dropped once
+ * nobody watches the key anymore.
+ *
+ * @param db - The database holding the key.
+ * @param key - The key to stop watching.
+ */
+const unwatchKey = (db: number, key: string) => {
+  const id = databaseKey(db, key);
+  const watched = watchedKeys.get(id);
+  if (watched && --watched.watchers === 0) {
+    watchedKeys.delete(id);
+  }
+};
+
+/**
+ * @param db - The database holding the key.
+ * @param key - A key registered through `watchKey`.
+ * @returns The current version of the key.
+ */
+const keyVersion = (db: number, key: string) =>
+  watchedKeys.get(databaseKey(db, key))?.version ?? 0;
+
+/**
+ * @returns Every key of the selected database, including expired keys that
+ *          were not removed yet.
+ */
+const databaseKeys = () => [...currentDatabase().store.keys()];
+
+/**
+ * @returns How many keys the selected database holds, counting expired keys
+ *          that were not removed yet, as DBSIZE does in redis.
+ */
+const databaseSize = () => currentDatabase().store.size;
+
+/**
+ * @returns A random key of the selected database, which may have expired,
+ *          or `undefined` when it is empty.
+ */
+const randomDatabaseKey = () => currentDatabase().store.randomKey();
+
+/**
+ * Returns one page of a SCAN iteration over the keys of the selected
+ * database, including expired keys that were not removed yet.
+ *
+ * @see Dict.scan
+ */
+const scanDatabaseKeys = (cursor: number, count: number) =>
+  currentDatabase().store.scan(cursor, count);
+
+const isExpired = (key: string): boolean => {
+  const expiresAt = currentDatabase().expirationTimes.get(key);
+  return expiresAt !== undefined && expiresAt < Date.now();
+};
+
+/**
+ * Checks if a given key has expired in the store.
+ * If the key is expired, it removes the key from both the store and the expiration times,
+ * and returns `true`. Otherwise, it returns `false`.
+ *
+ * @param key - The key to check for expiration.
+ * @returns `true` if the key was expired and removed, otherwise `false`.
+ */
+const checkExpiry = (key: string) => {
+  if (isExpired(key)) {
+    const { store, expirationTimes } = currentDatabase();
+    store.delete(key);
+    expirationTimes.delete(key);
+    signalModifiedKey(key);
+    recordExpiredKey();
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Returns the entry stored at `key`, evicting it first if it has expired.
+ *
+ * @param key - The key to look up.
+ * @param touch - Whether this counts as an access, for eviction and the
+ *                keyspace hits and misses of INFO. Commands that inspect
+ *                keys, like OBJECT, pass `false`.
+ * @returns The entry, or `undefined` if the key does not exist.
+ */
+const lookupKey = (key: string, touch = true): StoreValue | undefined => {
+  checkExpiry(key);
+  const entry = currentDatabase().store.get(key);
+  if (touch) {
+    recordKeyspaceLookup(!!entry);
+    if (entry) {
+      touchKey(key);
+    }
+  }
+  return entry;
+};
+
+/**
+ * Returns the entry stored at `key` when it holds a value of `type`.
+ *
+ * @param key - The key to look up.
+ * @param type - The data type the command operates on.
+ * @returns The entry, or `undefined` if the key does not exist.
+ * @throws {CommandError} `WRONGTYPE` if the key holds another data type.
+ */
+const lookupKeyOfType = <T extends StoreValue["type"]>(
+  key: string,
+  type: T
+): ValueOfType<T> | undefined => {
+  const entry = lookupKey(key);
+
+  if (entry && entry.type !== type) {
+    throw new CommandError(WRONGTYPE);
+  }
+
+  return entry as ValueOfType<T> | undefined;
+};
+
+/**
+ * Counts the keys of every database that has any, for INFO keyspace.
+ * `avgTtl` is the average time to live in milliseconds of the keys that
+ * expire.
+ *
+ * @returns One entry per non-empty database, by index.
+ */
+const keyspaceInfo = () => {
+  const now = Date.now();
+  return databases.flatMap(({ store, expirationTimes }, db) => {
+    const keys = store.size;
+    if (keys === 0) {
+      return [];
+    }
+    const times = [...expirationTimes.values()];
+    const ttl = times.reduce((sum, when) => sum + Math.max(0, when - now), 0);
+    return [
+      {
+        db,
+        keys,
+        expires: times.length,
+        avgTtl: times.length ? Math.round(ttl / times.length) : 0,
+      },
+    ];
+  });
+};
+
+/**
+ * Removes a key together with its expiration time.
+ *
+ * @param key - The key to remove.
+ * @returns `true` if the key existed.
+ */
+const deleteKey = (key: string) => {
+  const { store, expirationTimes } = currentDatabase();
+  const existed = store.delete(key);
+  expirationTimes.delete(key);
+  if (existed) {
+    signalModifiedKey(key);
+  }
+  return existed;
+};
+
+/**
+ * Stores an entry at `key`, replacing the value but not the expiration time
+ * of an existing key. Callers signal the modification themselves.
+ *
+ * @param key - The key to write.
+ * @param entry - The new value.
+ */
+const setKey = (key: string, entry: StoreValue) => {
+  currentDatabase().store.set(key, entry);
+  touchKey(key);
+};
+
+/**
+ * Returns the absolute expiration time of `key` in milliseconds.
+ *
+ * @param key - The key to look up.
+ * @returns The unix time in milliseconds, or `undefined` if the key has no TTL.
+ */
+const getExpire = (key: string): number | undefined =>
+  currentDatabase().expirationTimes.get(key);
+
+/**
+ * Sets the absolute expiration time of an existing key.
+ *
+ * @param key - The key to expire.
+ * @param when - The unix time in milliseconds at which the key expires.
+ */
+const setExpire = (key: string, when: number) => {
+  currentDatabase().expirationTimes.set(key, when);
+  signalModifiedKey(key);
+};
+
+/**
+ * Removes the expiration time of `key`, making it persistent.
+ *
+ * @param key - The key to persist.
+ * @returns `true` if the key had an expiration time.
+ */
+const removeExpire = (key: string) => {
+  const { expirationTimes } = currentDatabase();
+  const existed = expirationTimes.delete(key);
+  if (existed) {
+    signalModifiedKey(key);
+  }
+  return existed;
+};
+
+/**
+ * Returns a deep copy of a store entry, so the copy can be changed without
+ * affecting the original. Buffers are never mutated in place, so they are
+ * shared.
+ *
+ * @param entry - The entry to copy.
+ */
+const duplicateValue = (entry: StoreValue): StoreValue => {
+  switch (entry.type) {
+    case "string":
+      return { type: entry.type, value: entry.value };
+    case "list":
+      return { type: entry.type, value: [...entry.value] };
+    case "hash":
+      return { type: entry.type, value: new Dict(entry.value) };
+    case "set":
+      return { type: entry.type, value: new DictSet(entry.value) };
+    case "zset": {
+      const zset = new SortedSet();
+      for (const [member, score] of entry.value.entries()) {
+        zset.add(member, score);
+      }
+      return { type: entry.type, value: zset };
+    }
+  }
+};
+
+export {
+  selectDatabase,
+  selectedDatabase,
+  withDatabase,
+  swapDatabases,
+  isValidDatabase,
+  databaseKey,
+  databaseKeys,
+  databaseSize,
+  randomDatabaseKey,
+  scanDatabaseKeys,
+  setKey,
+  updateKeySize,
+  usedMemory,
+  keyspaceInfo,
+  keyMetadata,
+  unsavedChanges,
+  markChangesSaved,
+  isExpired,
+  checkExpiry,
+  lookupKey,
+  lookupKeyOfType,
+  deleteKey,
+  getExpire,
+  setExpire,
+  removeExpire,
+  duplicateValue,
+  signalModifiedKey,
+  signalDatabasesModified,
+  watchKey,
+  unwatchKey,
+  keyVersion,
+};
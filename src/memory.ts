@@ -0,0 +1,142 @@
+import { StoreValue } from "./store.types";
+
+// Rough per-allocation costs of the V8 structures holding a key, in bytes.
+// They only need to be consistent, so that `maxMemory` bounds the dataset
+// predictably, not exact.
+const KEY_OVERHEAD = 64;
+const EXPIRE_OVERHEAD = 16;
+const BUFFER_OVERHEAD = 16;
+const LIST_ITEM_OVERHEAD = 8;
+const MAP_ENTRY_OVERHEAD = 32;
+const SKIPLIST_NODE_OVERHEAD = 64;
+
+// Collections larger than this are measured from a sample of their first
+// elements, so updating the size of a large value stays cheap.
+const SIZE_SAMPLES = 16;
+
+// Logarithmic access counter, as in redis: the more a key was accessed, the
+// less likely another access increments it, so 8 bits cover millions of hits.
+const LFU_INIT_VALUE = 5;
+const LFU_MAX_VALUE = 255;
+
+/**
+ * Estimates the size of a collection from at most `SIZE_SAMPLES` elements.
+ *
+ * @param elements - The elements, only iterated as far as needed.
+ * @param count - How many elements the collection holds.
+ * @param sizeOf - The size of one element.
+ */
+const sampledSize = <T>(
+  elements: Iterable<T>,
+  count: number,
+  sizeOf: (element: T) => number
+) => {
+  let sampled = 0;
+  let total = 0;
+  for (const element of elements) {
+    if (sampled === SIZE_SAMPLES) {
+      break;
+    }
+    total += sizeOf(element);
+    sampled++;
+  }
+  return sampled === 0 ? 0 : Math.round((total / sampled) * count);
+};
+
+/**
+ * Approximates the memory a key takes, including its name, value and
+ * expiration time. Strings are measured exactly, collections from a sample
+ * like MEMORY USAGE does in redis.
+ *
+ * @param key - The key.
+ * @param entry - The value stored at `key`.
+ * @param hasExpire - Whether the key has an expiration time.
+ * @returns The estimated size in bytes.
+ */
+const estimateKeySize = (
+  key: string,
+  entry: StoreValue,
+  hasExpire: boolean
+) => {
+  const size = KEY_OVERHEAD + key.length + (hasExpire ? EXPIRE_OVERHEAD : 0);
+
+  switch (entry.type) {
+    case "string":
+      return size + BUFFER_OVERHEAD + entry.value.length;
+    case "list":
+      return (
+        size +
+        sampledSize(
+          entry.value,
+          entry.value.length,
+          (item) => LIST_ITEM_OVERHEAD + BUFFER_OVERHEAD + item.length
+        )
+      );
+    case "hash":
+      return (
+        size +
+        sampledSize(
+          entry.value,
+          entry.value.size,
+          ([field, value]) =>
+            MAP_ENTRY_OVERHEAD + field.length + BUFFER_OVERHEAD + value.length
+        )
+      );
+    case "set":
+      return (
+        size +
+        sampledSize(
+          entry.value,
+          entry.value.size,
+          (member) => MAP_ENTRY_OVERHEAD + member.length
+        )
+      );
+    case "zset":
+      return (
+        size +
+        sampledSize(
+          entry.value.members(),
+          entry.value.size,
+          (member) =>
+            MAP_ENTRY_OVERHEAD + SKIPLIST_NODE_OVERHEAD + member.length
+        )
+      );
+  }
+};
+
+/**
+ * Increments a logarithmic access counter with a probability that shrinks
+ * as the counter grows.
+ *
+ * @param counter - The current counter.
+ * @param logFactor - How slowly the counter grows, `lfuLogFactor`.
+ * @returns The new counter.
+ */
+const lfuIncrement = (counter: number, logFactor: number) => {
+  if (counter === LFU_MAX_VALUE) {
+    return counter;
+  }
+  const base = Math.max(counter - LFU_INIT_VALUE, 0);
+  const probability = 1 / (base * logFactor + 1);
+  return Math.random() < probability ? counter + 1 : counter;
+};
+
+/**
+ * Decrements an access counter by one for every `decayTime` minutes elapsed
+ * since the key was last accessed, so keys that stopped being accessed
+ * become candidates for eviction again.
+ *
+ * @param counter - The current counter.
+ * @param elapsed - Milliseconds since the key was last accessed.
+ * @param decayTime - Minutes per decrement, `lfuDecayTime`. 0 never decays.
+ * @returns The decayed counter.
+ */
+const lfuDecay = (counter: number, elapsed: number, decayTime: number) => {
+  if (decayTime <= 0) {
+    return counter;
+  }
+  const periods = Math.floor(elapsed / (decayTime * 60_000));
+  return Math.max(counter - periods, 0);
+};
+
+export { LFU_INIT_VALUE, estimateKeySize, lfuIncrement, lfuDecay };
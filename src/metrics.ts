@@ -0,0 +1,303 @@
+import http from "http";
+import config from "./config.json";
+import { clients } from "./client";
+import { evictionStats } from "./evict";
+import { keyspaceInfo, usedMemory } from "./keyspace";
+import { persistence } from "./persistence";
+import { replicationInfo } from "./replication";
+import { snapshotInfo } from "./snapshot";
+import { CommandStats, commandStats, serverStats } from "./stats";
+import { logger } from "./utils/logger";
+
+const log = logger("metrics");
+
+type Labels = Record<string, string>;
+
+/**
+ * A metric family in the Prometheus text format: one `# HELP` and
+ * `# TYPE` line followed by a sample per set of labels.
+ */
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "gauge";
+  samples: [Labels, number][];
+};
+
+const metric = (
+  name: string,
+  type: Metric["type"],
+  help: string,
+  value: number | [Labels, number][]
+): Metric => ({
+  name: `redis_${name}`,
+  help,
+  type,
+  samples: typeof value === "number" ? [[{}, value]] : value,
+});
+
+/**
+ * Collects the figures INFO reports, under the names the usual redis
+ * exporters give them so existing dashboards apply.
+ */
+const collectMetrics = (): Metric[] => {
+  const stats = serverStats();
+  const snapshot = snapshotInfo();
+  const aof = persistence.aofInfo();
+  const commands = commandStats();
+  const keyspace = keyspaceInfo();
+  const connected = [...clients.values()];
+  const perCommand = (value: (stats: CommandStats) => number) =>
+    commands.map(([command, stats]): [Labels, number] => [
+      { cmd: command.toLowerCase() },
+      value(stats),
+    ]);
+  const perDatabase = (value: (info: (typeof keyspace)[number]) => number) =>
+    keyspace.map((info): [Labels, number] => [
+      { db: `db${info.db}` },
+      value(info),
+    ]);
+
+  return [
+    metric(
+      "uptime_in_seconds",
+      "gauge",
+      "Seconds since the server started.",
+      Math.floor((Date.now() - stats.startTime) / 1000)
+    ),
+    metric(
+      "connected_clients",
+      "gauge",
+      "Clients connected.",
+      connected.length
+    ),
+    metric(
+      "blocked_clients",
+      "gauge",
+      "Clients waiting on a blocking command.",
+      connected.filter(({ blocked }) => blocked).length
+    ),
+    metric(
+      "connections_received_total",
+      "counter",
+      "Connections accepted.",
+      stats.connectionsReceived
+    ),
+    metric(
+      "commands_processed_total",
+      "counter",
+      "Commands run.",
+      stats.commandsProcessed
+    ),
+    metric(
+      "errors_total",
+      "counter",
+      "Error replies, including refused commands.",
+      stats.errorReplies
+    ),
+    metric(
+      "commands_total",
+      "counter",
+      "Calls per command.",
+      perCommand(({ calls }) => calls)
+    ),
+    metric(
+      "commands_duration_seconds_total",
+      "counter",
+      "Time spent running each command.",
+      perCommand(({ usec }) => usec / 1e6)
+    ),
+    metric(
+      "commands_rejected_calls_total",
+      "counter",
+      "Calls per command refused before they ran.",
+      perCommand(({ rejectedCalls }) => rejectedCalls)
+    ),
+    metric(
+      "commands_failed_calls_total",
+      "counter",
+      "Calls per command that replied with an error.",
+      perCommand(({ failedCalls }) => failedCalls)
+    ),
+    metric(
+      "keyspace_hits_total",
+      "counter",
+      "Key lookups that found the key.",
+      stats.keyspaceHits
+    ),
+    metric(
+      "keyspace_misses_total",
+      "counter",
+      "Key lookups that did not find the key.",
+      stats.keyspaceMisses
+    ),
+    metric(
+      "expired_keys_total",
+      "counter",
+      "Keys deleted because they expired.",
+      stats.expiredKeys
+    ),
+    metric(
+      "evicted_keys_total",
+      "counter",
+      "Keys evicted to stay within maxmemory.",
+      evictionStats().evictedKeys
+    ),
+    metric(
+      "memory_used_bytes",
+      "gauge",
+      "Estimated size of the dataset.",
+      usedMemory()
+    ),
+    metric(
+      "memory_max_bytes",
+      "gauge",
+      "The maxmemory limit, 0 when unlimited.",
+      config.maxMemory
+    ),
+    metric(
+      "db_keys",
+      "gauge",
+      "Keys per database.",
+      perDatabase(({ keys }) => keys)
+    ),
+    metric(
+      "db_keys_expiring",
+      "gauge",
+      "Keys with a time to live per database.",
+      perDatabase(({ expires }) => expires)
+    ),
+    metric(
+      "rdb_changes_since_last_save",
+      "gauge",
+      "Changes not saved to the snapshot yet.",
+      snapshot.changes
+    ),
+    metric(
+      "rdb_last_save_timestamp_seconds",
+      "gauge",
+      "Unix time of the last successful snapshot.",
+      Math.floor(snapshot.lastSave / 1000)
+    ),
+    metric(
+      "rdb_last_bgsave_status",
+      "gauge",
+      "1 if the last background save succeeded.",
+      snapshot.lastBgsaveStatus === "ok" ? 1 : 0
+    ),
+    metric(
+      "rdb_bgsave_in_progress",
+      "gauge",
+      "1 while a background save runs.",
+      snapshot.bgsaveInProgress ? 1 : 0
+    ),
+    metric(
+      "aof_enabled",
+      "gauge",
+      "1 when the AOF is enabled.",
+      config.appendOnly ? 1 : 0
+    ),
+    metric(
+      "aof_rewrite_in_progress",
+      "gauge",
+      "1 while the AOF is rewritten.",
+      aof.rewriting ? 1 : 0
+    ),
+    metric(
+      "aof_last_bgrewrite_status",
+      "gauge",
+      "1 if the last AOF rewrite succeeded.",
+      persistence.lastRewriteStatus === "ok" ? 1 : 0
+    ),
+    metric(
+      "aof_last_write_status",
+      "gauge",
+      "1 if the last write to the AOF succeeded.",
+      persistence.lastWriteStatus === "ok" ? 1 : 0
+    ),
+    metric("aof_current_size_bytes", "gauge", "Size of the AOF.", aof.size),
+    metric(
+      "connected_slaves",
+      "gauge",
+      "Replicas connected.",
+      replicationInfo().replicas.length
+    ),
+  ];
+};
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+/**
+ * Renders metrics in the Prometheus text exposition format.
+ *
+ * @example
+ * ```typescript
+ * formatMetrics([
+ *   {
+ *     name: "redis_commands_total",
+ *     help: "Calls per command.",
+ *     type: "counter",
+ *     samples: [[{ cmd: "get" }, 2]],
+ *   },
+ * ]);
+ * // # HELP redis_commands_total Calls per command.
+ * // # TYPE redis_commands_total counter
+ * // redis_commands_total{cmd="get"} 2
+ * ```
+ */
+const formatMetrics = (metrics: Metric[]) =>
+  metrics
+    .map(({ name, help, type, samples }) =>
+      [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} ${type}`,
+        ...samples.map(([labels, value]) => {
+          const pairs = Object.entries(labels).map(
+            ([label, text]) => `${label}="${escapeLabel(text)}"`
+          );
+          return `${name}${
+            pairs.length ? `{${pairs.join(",")}}` : ""
+          } ${value}`;
+        }),
+      ].join("\n")
+    )
+    .join("\n") + "\n";
+
+/**
+ * Serves the metrics at `/metrics` over HTTP for Prometheus to scrape. Only
+ * GET and HEAD of that path are answered, anything else gets a 404 or 405.
+ *
+ * @param hostname - The address to listen on.
+ * @param port - The port to listen on.
+ * @returns The HTTP server.
+ */
+const startMetricsServer = (hostname: string, port: number) => {
+  const server = http.createServer((request, response) => {
+    if (request.url?.split("?")[0] !== "/metrics") {
+      response.writeHead(404).end();
+      return;
+    }
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      response.writeHead(405, { Allow: "GET, HEAD" }).end();
+      return;
+    }
+
+    const body = formatMetrics(collectMetrics());
+    response.writeHead(200, {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Content-Length": Buffer.byteLength(body),
+    });
+    response.end(request.method === "HEAD" ? undefined : body);
+  });
+
+  server.on("error", (error) => {
+    log.error(`Metrics server error: ${error.message}`);
+  });
+  server.listen(port, hostname, () => {
+    log.info(`Metrics available at http://${hostname}:${port}/metrics`);
+  });
+  return server;
+};
+
+export { collectMetrics, formatMetrics, startMetricsServer };
@@ -0,0 +1,75 @@
+import { performance } from "perf_hooks";
+import { Client, sendReply } from "./client";
+import { reply } from "./resp";
+
+// Clients that ran MONITOR.
+const monitors = new Set<Client>();
+
+const ESCAPES: Record<number, string> = {
+  0x5c: "\\\\",
+  0x22: '\\"',
+  0x0a: "\\n",
+  0x0d: "\\r",
+  0x09: "\\t",
+  0x07: "\\a",
+  0x08: "\\b",
+};
+
+/**
+ * Quotes an argument the way MONITOR prints it, escaping quotes, control
+ * characters and bytes outside of printable ASCII, e.g. `"a\"b\x00"`.
+ */
+const quoteArgument = (arg: Buffer) => {
+  let quoted = '"';
+  for (const byte of arg) {
+    if (ESCAPES[byte]) {
+      quoted += ESCAPES[byte];
+    } else if (byte < 0x20 || byte > 0x7e) {
+      quoted += `\\x${byte.toString(16).padStart(2, "0")}`;
+    } else {
+      quoted += String.fromCharCode(byte);
+    }
+  }
+  return `${quoted}"`;
+};
+
+const addMonitor = (client: Client) => {
+  monitors.add(client);
+};
+
+const removeMonitor = (client: Client) => {
+  monitors.delete(client);
+};
+
+const isMonitor = (client: Client) => monitors.has(client);
+
+/**
+ * Sends a command to every client that ran MONITOR, as a status line like
+ * `+1700000000.123456 [0 127.0.0.1:50000] "set" "key" "value"`.
+ *
+ * @param source - Where the command came from: a client address, or `lua`
+ *                 for commands called by scripts.
+ * @param db - The database the command runs in.
+ */
+const feedMonitors = (
+  source: string,
+  db: number,
+  command: string,
+  args: Buffer[]
+) => {
+  if (monitors.size === 0) {
+    return;
+  }
+
+  const time = (performance.timeOrigin + performance.now()) / 1000;
+  const line = [
+    `${time.toFixed(6)} [${db} ${source}]`,
+    ...[Buffer.from(command.toLowerCase()), ...args].map(quoteArgument),
+  ].join(" ");
+
+  for (const monitor of monitors) {
+    sendReply(monitor, reply.simple(line));
+  }
+};
+
+export { addMonitor, removeMonitor, isMonitor, feedMonitors, quoteArgument };
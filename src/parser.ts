@@ -0,0 +1,300 @@
+import { logger } from "./utils/logger";
+
+const log = logger("parser");
+
+const CR = 13;
+const LF = 10;
+
+// Same limits redis uses for a single request.
+const MAX_INLINE_SIZE = 64 * 1024;
+const MAX_BULK_LENGTH = 512 * 1024 * 1024;
+const MAX_MULTIBULK_LENGTH = 1024 * 1024;
+
+export type ParsedCommand = {
+  command: string;
+  args: Buffer[];
+};
+
+/**
+ * Raised when the client sends something that is not valid RESP. The
+ * connection cannot be recovered after this, so the server replies with
+ * the error and closes the socket, just like redis does.
+ */
+class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProtocolError";
+  }
+}
+
+/**
+ * Splits an inline command (plain text typed in `nc`/telnet) into its
+ * arguments. Arguments are separated by whitespace and may be wrapped in
+ * double quotes (supporting `\n`, `\r`, `\t`, `\"`, `\\` and `\xHH` escapes)
+ * or single quotes (supporting only `\'`).
+ *
+ * @param line - The inline command without its trailing newline.
+ * @returns The list of arguments.
+ * @throws {ProtocolError} If a quoted argument is not terminated.
+ */
+const splitInlineArgs = (line: string): string[] => {
+  const args: string[] = [];
+  let i = 0;
+
+  while (i < line.length) {
+    while (i < line.length && /\s/.test(line[i])) i++;
+    if (i >= line.length) break;
+
+    let current = "";
+    const quote = line[i] === '"' || line[i] === "'" ? line[i] : null;
+
+    if (!quote) {
+      while (i < line.length && !/\s/.test(line[i])) current += line[i++];
+      args.push(current);
+      continue;
+    }
+
+    i++;
+    let closed = false;
+    while (i < line.length) {
+      const char = line[i];
+      if (char === "\\" && i + 1 < line.length) {
+        const next = line[i + 1];
+        if (quote === "'") {
+          current += next === "'" ? "'" : `\\${next}`;
+          i += 2;
+          continue;
+        }
+        if (next === "x" && /^[0-9a-fA-F]{2}$/.test(line.slice(i + 2, i + 4))) {
+          current += String.fromCharCode(
+            parseInt(line.slice(i + 2, i + 4), 16)
+          );
+          i += 4;
+          continue;
+        }
+        const escapes: Record<string, string> = {
+          n: "\n",
+          r: "\r",
+          t: "\t",
+          b: "\b",
+          a: "\x07",
+        };
+        current += escapes[next] ?? next;
+        i += 2;
+        continue;
+      }
+      if (char === quote) {
+        closed = true;
+        i++;
+        break;
+      }
+      current += char;
+      i++;
+    }
+
+    // A closing quote must be followed by a space or nothing at all.
+    if (!closed || (i < line.length && !/\s/.test(line[i]))) {
+      throw new ProtocolError("unbalanced quotes in request");
+    }
+    args.push(current);
+  }
+
+  return args;
+};
+
+/**
+ * Incremental RESP request parser. One instance is kept per connection and
+ * fed every chunk the socket emits. It keeps whatever is left of a partial
+ * command in its buffer until the rest arrives, so commands split across
+ * TCP packets and many pipelined commands in one packet are both handled.
+ *
+ * Both request forms redis accepts are supported:
+ * - multibulk: `*<argc>\r\n` followed by `$<len>\r\n<bytes>\r\n` per argument.
+ * - inline: a plain text line such as `SET foo bar\r\n`.
+ *
+ * @example
+ * ```typescript
+ * const parser = new CommandParser();
+ * parser.feed(Buffer.from("*2\r\n$3\r\nGET\r\n$3\r\nf")); // []
+ * parser.feed(Buffer.from("oo\r\nPING\r\n"));
+ * // [{ command: "GET", args: [<Buffer 66 6f 6f>] }, { command: "PING", args: [] }]
+ * ```
+ */
+class CommandParser {
+  #buffer: Buffer = Buffer.alloc(0);
+  #offset = 0;
+  // Bytes fed before the start of `#buffer`, already parsed and dropped.
+  #consumed = 0;
+  // Bytes fed up to the end of the last complete request.
+  #parsedLength = 0;
+  // Arguments still expected for the multibulk request being read.
+  #multibulkLength = 0;
+  // Length of the bulk string being read, -1 while waiting for its header.
+  #bulkLength = -1;
+  #args: Buffer[] = [];
+
+  /**
+   * Appends a chunk received from the socket and returns every command that
+   * is now complete, in the order they were sent.
+   *
+   * @param chunk - Raw bytes received from the client.
+   * @param onCommand - Called with each complete command and the offset
+   *                    right after it, counting every byte fed so far.
+   * @returns The complete commands found so far. May be empty.
+   * @throws {ProtocolError} If the input is not valid RESP.
+   */
+  feed(
+    chunk: Buffer,
+    onCommand?: (command: ParsedCommand, end: number) => void
+  ): ParsedCommand[] {
+    this.#consumed += this.#offset;
+    this.#buffer =
+      this.#offset < this.#buffer.length
+        ? Buffer.concat([this.#buffer.subarray(this.#offset), chunk])
+        : chunk;
+    this.#offset = 0;
+
+    const commands: ParsedCommand[] = [];
+
+    while (this.#offset < this.#buffer.length) {
+      const args =
+        this.#multibulkLength === 0 && this.#buffer[this.#offset] !== 0x2a // '*'
+          ? this.#readInline()
+          : this.#readMultibulk();
+
+      if (args === null) {
+        break;
+      }
+      this.#parsedLength = this.#consumed + this.#offset;
+
+      if (args.length > 0) {
+        const command = {
+          command: args[0].toString().toUpperCase(),
+          args: args.slice(1),
+        };
+        commands.push(command);
+        onCommand?.(command, this.#parsedLength);
+      }
+    }
+
+    log.debug(`Parsed ${commands.length} command(s)`);
+
+    return commands;
+  }
+
+  /**
+   * The number of bytes fed up to the end of the last complete request.
+   * Anything after it belongs to a request that is not complete yet.
+   */
+  get parsedLength() {
+    return this.#parsedLength;
+  }
+
+  /**
+   * The bytes fed after the end of the last complete request, i.e. the part
+   * of a request still arriving.
+   */
+  get bufferedLength() {
+    return this.#consumed + this.#buffer.length - this.#parsedLength;
+  }
+
+  #readInline(): Buffer[] | null {
+    const newline = this.#buffer.indexOf(LF, this.#offset);
+
+    if (newline === -1) {
+      if (this.#buffer.length - this.#offset > MAX_INLINE_SIZE) {
+        throw new ProtocolError("too big inline request");
+      }
+      return null;
+    }
+
+    let end = newline;
+    if (end > this.#offset && this.#buffer[end - 1] === CR) {
+      end--;
+    }
+
+    const line = this.#buffer.subarray(this.#offset, end).toString("latin1");
+    this.#offset = newline + 1;
+
+    return splitInlineArgs(line).map((arg) => Buffer.from(arg, "latin1"));
+  }
+
+  #readLength(prefix: string, max: number): number | null {
+    const lineEnd = this.#buffer.indexOf("\r\n", this.#offset);
+
+    if (lineEnd === -1) {
+      if (this.#buffer.length - this.#offset > MAX_INLINE_SIZE) {
+        throw new ProtocolError(
+          `too big ${prefix === "*" ? "mbulk" : "bulk"} count string`
+        );
+      }
+      return null;
+    }
+
+    const first = String.fromCharCode(this.#buffer[this.#offset]);
+    if (first !== prefix) {
+      throw new ProtocolError(`expected '${prefix}', got '${first}'`);
+    }
+
+    const raw = this.#buffer.subarray(this.#offset + 1, lineEnd).toString();
+    const length = Number(raw);
+
+    if (!/^-?\d+$/.test(raw) || length > max) {
+      throw new ProtocolError(
+        `invalid ${prefix === "*" ? "multibulk" : "bulk"} length`
+      );
+    }
+
+    this.#offset = lineEnd + 2;
+    return length;
+  }
+
+  #readMultibulk(): Buffer[] | null {
+    if (this.#multibulkLength === 0) {
+      const count = this.#readLength("*", MAX_MULTIBULK_LENGTH);
+      if (count === null) {
+        return null;
+      }
+      if (count <= 0) {
+        // `*0\r\n` and `*-1\r\n` are valid but carry no command.
+        return [];
+      }
+      this.#multibulkLength = count;
+      this.#args = [];
+    }
+
+    while (this.#multibulkLength > 0) {
+      if (this.#bulkLength === -1) {
+        const length = this.#readLength("$", MAX_BULK_LENGTH);
+        if (length === null) {
+          return null;
+        }
+        if (length < 0) {
+          throw new ProtocolError("invalid bulk length");
+        }
+        this.#bulkLength = length;
+      }
+
+      // Wait until the payload and its trailing CRLF are both buffered.
+      if (this.#buffer.length - this.#offset < this.#bulkLength + 2) {
+        return null;
+      }
+
+      const end = this.#offset + this.#bulkLength;
+      if (this.#buffer[end] !== CR || this.#buffer[end + 1] !== LF) {
+        throw new ProtocolError("bulk string is not terminated by CRLF");
+      }
+
+      this.#args.push(Buffer.from(this.#buffer.subarray(this.#offset, end)));
+      this.#offset = end + 2;
+      this.#bulkLength = -1;
+      this.#multibulkLength--;
+    }
+
+    const args = this.#args;
+    this.#args = [];
+    return args;
+  }
+}
+
+export { CommandParser, ProtocolError, splitInlineArgs };
@@ -0,0 +1,56 @@
+/**
+ * What CLIENT PAUSE holds back: every command of the clients, or only those
+ * that may change the dataset.
+ */
+export type PauseMode = "write" | "all";
+
+let pause: { mode: PauseMode; end: number; timer: NodeJS.Timeout } | null =
+  null;
+let resume = () => {};
+
+/**
+ * Sets what runs the commands held back once the pause ends. The core runs
+ * them, and needs this module for the dispatcher in turn.
+ */
+const initClientPause = (onResume: () => void) => {
+  resume = onResume;
+};
+
+/**
+ * Ends the pause right away, like CLIENT UNPAUSE, and runs the commands it
+ * held back.
+ */
+const unpauseClients = () => {
+  if (!pause) {
+    return;
+  }
+  clearTimeout(pause.timer);
+  pause = null;
+  resume();
+};
+
+/**
+ * Holds back clients' commands for `timeout` milliseconds, like CLIENT
+ * PAUSE. Pausing again while paused keeps the later end and the stricter
+ * mode of both.
+ */
+const pauseClients = (mode: PauseMode, timeout: number) => {
+  const end = Math.max(Date.now() + timeout, pause?.end ?? 0);
+  const strictest = pause?.mode === "all" ? "all" : mode;
+  if (pause) {
+    clearTimeout(pause.timer);
+  }
+
+  pause = {
+    mode: strictest,
+    end,
+    timer: setTimeout(unpauseClients, end - Date.now()),
+  };
+};
+
+/**
+ * @returns What is paused, or `null` when nothing is.
+ */
+const pauseMode = () => pause?.mode ?? null;
+
+export { initClientPause, pauseClients, unpauseClients, pauseMode };
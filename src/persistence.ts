@@ -2,100 +2,749 @@ import fs from "fs";
 import { logger } from "./utils/logger";
 import path from "path";
 
-type StoreType = Record<string, { type: string; value: unknown }>;
-type StoreExpirationTimes = Record<string, number>;
-
 import config from "./config.json";
-import { ExecuteCommand } from "./core";
+import { Dict, DictSet } from "./dict";
+import { CommandParser, ParsedCommand, ProtocolError } from "./parser";
+import { encodeCommand, formatDouble } from "./resp";
+import {
+  SnapshotError,
+  databaseEntries,
+  encodeSnapshot,
+  hasSnapshotSignature,
+  readSnapshot,
+} from "./snapshot-format";
+import { SortedSet } from "./sorted-set";
+import { PropagatedCommand } from "./propagation";
+import { fromBinaryString } from "./utils/binary";
+import { Database, StoreValue } from "./store.types";
+
+// How often `everysec` syncs the AOF to disk.
+const AOF_FSYNC_INTERVAL = 1000;
+
+const APPEND_FSYNC_POLICIES = ["always", "everysec", "no"];
+
+// Elements per command when a rewrite recreates a collection, so replaying
+// a large collection does not need one huge command.
+const AOF_REWRITE_ITEMS_PER_CMD = 64;
+
+// The AOF open for appending, and the timer syncing it with `everysec`.
+type AofFile = {
+  fd: number;
+  stream: fs.WriteStream;
+  fsyncTimer: NodeJS.Timeout;
+};
+
+type ReplayCommand = (command: string, args: Buffer[]) => void;
+
+type SerializedDatabase = {
+  store: Record<string, SerializedValue>;
+  expirationTimes: Record<string, number>;
+};
+
+type SerializedValue =
+  | { type: "string"; value: string }
+  | { type: "list"; value: string[] }
+  | { type: "hash"; value: [string, string][] }
+  | { type: "set"; value: string[] }
+  | { type: "zset"; value: [string, string][] };
+
+const parseScore = (score: string) =>
+  score === "inf" ? Infinity : score === "-inf" ? -Infinity : Number(score);
+
+/**
+ * Restores a store entry from a JSON snapshot, as written before snapshots
+ * became binary. Buffers were base64 encoded, or plain UTF-8 in snapshots
+ * written before versioning when `encoding` is `utf8`.
+ */
+const deserializeValue = (
+  entry: SerializedValue,
+  encoding: BufferEncoding
+): StoreValue => {
+  switch (entry.type) {
+    case "list":
+      return {
+        type: "list",
+        value: entry.value.map((item) => Buffer.from(item, encoding)),
+      };
+    case "hash":
+      return {
+        type: "hash",
+        value: new Dict(
+          entry.value.map(([field, value]): [string, Buffer] => [
+            field,
+            Buffer.from(value, encoding),
+          ])
+        ),
+      };
+    case "set":
+      return { type: "set", value: new DictSet(entry.value) };
+    case "zset": {
+      const zset = new SortedSet();
+      for (const [member, score] of entry.value) {
+        zset.add(member, parseScore(score));
+      }
+      return { type: "zset", value: zset };
+    }
+    default:
+      return { type: "string", value: Buffer.from(entry.value, encoding) };
+  }
+};
 
 const log = logger("persistence");
 
+/**
+ * Creates an empty database. Its metadata has no prototype, so keys such as
+ * `__proto__` or `constructor` are plain keys.
+ */
+const createDatabase = (): Database => ({
+  store: new Dict(),
+  expirationTimes: new Dict(),
+  metadata: Object.create(null),
+});
+
+/**
+ * The directory holding the snapshot and the AOF: `config.dir`, or the
+ * source directory when it is empty.
+ */
+const dataDirectory = () => config.dir || __dirname;
+
+/**
+ * @returns The path of the snapshot file, in the data directory.
+ */
+const snapshotPath = () => path.join(dataDirectory(), "snapshot.ss");
+
 class Persistence {
-  #filePath = path.join(__dirname, "snapshot.ss");
-  #aofPath = path.join(__dirname, "appendonly.aof");
-  store: StoreType;
-  expirationTimes: StoreExpirationTimes;
+  // The database the last command written to the AOF ran in, so a SELECT is
+  // only logged when it changes. Unknown until the first write.
+  #aofDatabase: number | null = null;
+  #aof: AofFile | null = null;
+  // Size of the AOF now and right after it was last rewritten or loaded, for
+  // the automatic rewrite triggers.
+  #aofSize = 0;
+  #aofBaseSize = 0;
+  // Set while BGREWRITEAOF runs, holding the writes made since it started.
+  #rewriteBuffer: Buffer[] | null = null;
+  lastRewriteStatus: "ok" | "err" = "ok";
+  // Whether the last AOF write, or fsync with `always`, succeeded.
+  lastWriteStatus: "ok" | "err" = "ok";
+  // Writes not acknowledged by the OS (or synced, with `always`) yet, and a
+  // promise settling once they all are.
+  #aofPending = 0;
+  #aofWritten: Promise<void> = Promise.resolve();
+  // Set when data was written since the last fsync.
+  #aofDirty = false;
+  // Entries not handed to the AOF stream yet, kept while it cannot be opened.
+  #aofUnwritten: Buffer[] = [];
+  databases: Database[];
 
   constructor() {
-    this.store = {};
-    this.expirationTimes = {};
+    this.databases = Array.from({ length: config.databases }, createDatabase);
+  }
+
+  // Read on every use, so `config.dir` may still change before startup.
+  get #filePath() {
+    return snapshotPath();
   }
 
+  get #aofPath() {
+    return path.join(dataDirectory(), "appendonly.aof");
+  }
+
+  /**
+   * Loads the snapshot into the databases, if there is one. Expired keys are
+   * skipped. JSON snapshots written by older versions are still read.
+   *
+   * @throws {Error} If the snapshot cannot be read, rather than starting
+   *         with an empty dataset that the next save would write over it.
+   */
   loadSnapshotSync() {
     if (!fs.existsSync(this.#filePath)) {
       return;
     }
 
+    const data = fs.readFileSync(this.#filePath);
+    if (!data.length) {
+      log.warn("Snapshot file is empty.");
+      return;
+    }
+
+    if (data[0] === "{".charCodeAt(0)) {
+      this.#loadJsonSnapshot(data.toString("utf8"));
+      log.info("Snapshot loaded successfully.");
+      return;
+    }
+
+    const { entries } = this.#readSnapshotInto(data, this.#filePath);
+    log.info(`Snapshot loaded successfully: ${entries} keys.`);
+  }
+
+  /**
+   * Loads the keys of a snapshot, or of the preamble starting `data`, into
+   * the databases. Expired keys are skipped.
+   *
+   * @throws {Error} If the snapshot cannot be read.
+   */
+  #readSnapshotInto(data: Buffer, file: string, preamble = false) {
+    const now = Date.now();
     try {
-      const data = fs.readFileSync(this.#filePath, "utf8").toString();
+      return readSnapshot(
+        data,
+        ({ db, key, entry, expiresAt }) => {
+          const database = this.databases[db];
+          if (!database || (expiresAt !== undefined && expiresAt < now)) {
+            return;
+          }
+          database.store.set(key, entry);
+          if (expiresAt !== undefined) {
+            database.expirationTimes.set(key, expiresAt);
+          }
+        },
+        preamble
+      );
+    } catch (error) {
+      if (!(error instanceof SnapshotError)) {
+        throw error;
+      }
+      throw new Error(
+        `Bad snapshot ${file} at offset ${error.offset}: ${error.message}.${
+          preamble
+            ? ""
+            : " Run npm run check-snapshot -- --fix to recover what is readable."
+        }`
+      );
+    }
+  }
 
-      if (!data) {
-        log.warn("Snapshot file is empty.");
+  #loadJsonSnapshot(data: string) {
+    const snapshot = JSON.parse(data);
+    const { version } = snapshot;
+    const encoding: BufferEncoding = version ? "base64" : "utf8";
+
+    // Snapshots written before numbered databases hold only database 0.
+    const databases: SerializedDatabase[] =
+      version >= 3
+        ? snapshot.databases
+        : [
+            {
+              store: snapshot.store ?? {},
+              expirationTimes: snapshot.expirationTimes ?? {},
+            },
+          ];
+
+    databases.forEach(({ store, expirationTimes }, index) => {
+      const database = this.databases[index];
+      if (!database) {
+        log.warn(
+          `Skipping database ${index}, only ${config.databases} are configured.`
+        );
         return;
       }
 
-      const { store = {}, expirationTimes = {} } = JSON.parse(data);
-
-      // Merge the loaded data with the current store and expiration times
-      // This ensures that any new keys in the snapshot are added to the current store
-      // and any existing keys are updated with the new values.
-      Object.assign(this.store, store);
-      Object.assign(this.expirationTimes, expirationTimes);
+      for (const [key, entry] of Object.entries(store)) {
+        database.store.set(key, deserializeValue(entry, encoding));
+      }
+      for (const [key, when] of Object.entries(expirationTimes)) {
+        database.expirationTimes.set(key, when);
+      }
+    });
+  }
 
-      log.info("Snapshot loaded successfully.");
+  /**
+   * Writes the databases to the snapshot, like SAVE. The file is written
+   * under a temporary name and renamed over the previous snapshot once it
+   * is on disk, so a crash never leaves a half written snapshot behind.
+   *
+   * @throws {Error} If the snapshot could not be written.
+   */
+  saveSnapshotSync() {
+    const tempPath = this.#snapshotTempPath();
+    try {
+      const fd = fs.openSync(tempPath, "w");
+      try {
+        fs.writeSync(fd, encodeSnapshot(databaseEntries(this.databases)));
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tempPath, this.#filePath);
     } catch (error) {
-      log.error("Error loading snapshot:", error);
+      fs.rmSync(tempPath, { force: true });
+      throw error;
     }
   }
 
+  /**
+   * Writes the databases to the snapshot in the background, like BGSAVE.
+   * The dataset is encoded right away, so the snapshot holds the data as of
+   * the call, and written out like `saveSnapshotSync` does.
+   *
+   * @throws {Error} If the snapshot could not be written.
+   */
   async saveSnapshotAsync() {
-    const data = JSON.stringify({
-      store: this.store,
-      expirationTimes: this.expirationTimes,
-    });
+    const data = encodeSnapshot(databaseEntries(this.databases));
+    const tempPath = this.#snapshotTempPath();
 
     try {
-      await fs.promises.writeFile(this.#filePath, data);
+      const file = await fs.promises.open(tempPath, "w");
+      try {
+        await file.writeFile(data);
+        await file.sync();
+      } finally {
+        await file.close();
+      }
+      await fs.promises.rename(tempPath, this.#filePath);
     } catch (error) {
-      log.error("Error saving snapshot:", error);
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  #snapshotTempPath() {
+    return path.join(path.dirname(this.#filePath), `temp-${process.pid}.ss`);
+  }
+
+  /**
+   * Appends commands to the AOF, each preceded by a SELECT when it ran in
+   * another database than the command logged before it.
+   *
+   * Everything goes through a single append stream, so entries land in the
+   * order the commands ran. When the write is durable depends on
+   * `appendFsync`, see `pendingWrites`.
+   */
+  appendAOF(commands: PropagatedCommand[]) {
+    const encoded: Buffer[] = [];
+    for (const { command, args, db = 0 } of commands) {
+      if (db !== this.#aofDatabase) {
+        encoded.push(encodeCommand("SELECT", [Buffer.from(`${db}`)]));
+        this.#aofDatabase = db;
+      }
+      encoded.push(encodeCommand(command, args));
+    }
+
+    const data = Buffer.concat(encoded);
+    this.#rewriteBuffer?.push(data);
+    this.#aofSize += data.length;
+    this.#aofUnwritten.push(data);
+    this.#flushAof();
+
+    if (this.#shouldRewriteAof()) {
+      log.info(
+        `Starting automatic rewriting of AOF on ${config.autoAofRewritePercentage}% growth`
+      );
+      this.rewriteAof();
     }
   }
 
-  async appendAOF(command: string, args: string[]) {
-    let aoflog = `${command} ${args.join(" ")}\r\n`;
+  /**
+   * Tells whether writes may be acknowledged: always when `appendOnly` is
+   * off, otherwise only while the last AOF write succeeded. After a failure
+   * the entries left unwritten are written again first, so writes are
+   * accepted once the AOF can be written to again.
+   */
+  isAofWritable() {
+    if (!config.appendOnly || this.lastWriteStatus === "ok") {
+      return true;
+    }
+    this.#flushAof();
+    return false;
+  }
 
+  /**
+   * Writes the entries not written to the AOF yet, opening it first if
+   * needed. When it cannot be opened they are kept for the next attempt and
+   * `lastWriteStatus` turns `err`: the commands they log already ran, so
+   * only later writes are refused, see `isAofWritable`.
+   */
+  #flushAof() {
+    let aof: AofFile;
     try {
-      await fs.promises.appendFile(this.#aofPath, aoflog);
-      log.info(`AOF log appended: ${aoflog.trim()}`);
-    } catch (e: Error | any) {
-      log.error("Error appending to AOF file:", e?.message);
+      aof = this.#openAof();
+    } catch (error: any) {
+      this.lastWriteStatus = "err";
+      log.error("Error opening AOF file:", error.message);
+      return;
     }
+
+    const { fd, stream } = aof;
+    const data = Buffer.concat(this.#aofUnwritten);
+    this.#aofUnwritten = [];
+    const written = new Promise<void>((resolve) => {
+      stream.write(data, (error) => {
+        if (error) {
+          this.lastWriteStatus = "err";
+          log.error("Error appending to AOF file:", error.message);
+          // The stream is unusable after an error, the next attempt reopens.
+          if (this.#aof?.stream === stream) {
+            this.#closeAof();
+          }
+          resolve();
+          return;
+        }
+        this.#aofDirty = true;
+        if (config.appendFsync !== "always") {
+          this.lastWriteStatus = "ok";
+          resolve();
+          return;
+        }
+        fs.fsync(fd, (error) => {
+          if (error) {
+            this.lastWriteStatus = "err";
+            log.error("Error syncing AOF file:", error.message);
+          } else {
+            this.lastWriteStatus = "ok";
+            this.#aofDirty = false;
+          }
+          resolve();
+        });
+      });
+    });
+
+    // Chained, so the promise only settles once every earlier write did too.
+    this.#aofPending++;
+    this.#aofWritten = Promise.all([this.#aofWritten, written]).then(() => {
+      this.#aofPending--;
+    });
+  }
+
+  /**
+   * Tells whether the AOF grew enough since it was last rewritten to rewrite
+   * it again: by `autoAofRewritePercentage` percent, and past
+   * `autoAofRewriteMinSize` bytes. A percentage of 0 turns this off.
+   */
+  #shouldRewriteAof() {
+    const percentage = config.autoAofRewritePercentage;
+    if (
+      percentage <= 0 ||
+      this.#rewriteBuffer ||
+      this.#aofSize < config.autoAofRewriteMinSize
+    ) {
+      return false;
+    }
+    const base = this.#aofBaseSize || 1;
+    return ((this.#aofSize - base) * 100) / base >= percentage;
+  }
+
+  /**
+   * @returns Whether a rewrite is running, and the AOF sizes INFO reports.
+   */
+  aofInfo() {
+    return {
+      rewriting: !!this.#rewriteBuffer,
+      size: this.#aofSize,
+      baseSize: this.#aofBaseSize,
+    };
+  }
+
+  /**
+   * Replaces the AOF with the shortest command list rebuilding the current
+   * databases, like BGREWRITEAOF in redis. With `aofUseSnapshotPreamble`
+   * the dataset is written as a binary snapshot instead, which is smaller
+   * and loads faster, and later writes are appended to it as commands.
+   *
+   * The dataset is encoded in one go, so the new file holds a consistent
+   * image of it, and written to a temporary file in the background. Writes
+   * made meanwhile still go to the old file and are also kept aside. They
+   * are appended to the new file before it atomically replaces the old one,
+   * so nothing is lost whichever file survives a crash.
+   *
+   * @returns `false` if a rewrite was already running.
+   */
+  rewriteAof() {
+    if (this.#rewriteBuffer) {
+      return false;
+    }
+
+    const tempPath = path.join(
+      path.dirname(this.#aofPath),
+      `temp-rewriteaof-${process.pid}.aof`
+    );
+    const image = config.aofUseSnapshotPreamble
+      ? encodeSnapshot(databaseEntries(this.databases))
+      : Buffer.concat(this.#encodeDatabases());
+    this.#rewriteBuffer = [];
+    // Writes kept aside start with a SELECT, whatever database the image
+    // ended in.
+    this.#aofDatabase = null;
+
+    fs.promises
+      .writeFile(tempPath, image)
+      .then(() => {
+        // Synchronous from here on, so no write can slip in between.
+        const fd = fs.openSync(tempPath, "a");
+        try {
+          fs.writeSync(fd, Buffer.concat(this.#rewriteBuffer ?? []));
+          fs.fsyncSync(fd);
+        } finally {
+          fs.closeSync(fd);
+        }
+        fs.renameSync(tempPath, this.#aofPath);
+        this.#closeAof();
+        // The new file holds them already, through the image or the buffer.
+        this.#aofUnwritten = [];
+
+        this.#aofSize = this.#aofBaseSize = fs.statSync(this.#aofPath).size;
+        this.lastRewriteStatus = "ok";
+        log.info("Background AOF rewrite finished successfully");
+      })
+      .catch((error) => {
+        this.lastRewriteStatus = "err";
+        log.error("Background AOF rewrite failed:", error?.message);
+        fs.promises.rm(tempPath, { force: true }).catch(() => {});
+      })
+      .finally(() => {
+        this.#rewriteBuffer = null;
+      });
+
+    return true;
   }
 
-  replayAofSync(executeCommand: ExecuteCommand) {
-    if (!fs.existsSync(this.#aofPath) || !config.appendOnly) {
+  /**
+   * Encodes the commands recreating every key that has not expired, with a
+   * SELECT ahead of each database that has any. Collections are split in
+   * commands of at most `AOF_REWRITE_ITEMS_PER_CMD` elements.
+   */
+  #encodeDatabases() {
+    const encoded: Buffer[] = [];
+    const now = Date.now();
+
+    this.databases.forEach(({ store, expirationTimes }, db) => {
+      let selected = false;
+
+      for (const [key, entry] of store) {
+        const when = expirationTimes.get(key);
+        if (when !== undefined && when < now) {
+          continue;
+        }
+        if (!selected) {
+          encoded.push(encodeCommand("SELECT", [Buffer.from(`${db}`)]));
+          selected = true;
+        }
+
+        const name = fromBinaryString(key);
+        const batches = (command: string, items: Buffer[], perItem = 1) => {
+          const step = AOF_REWRITE_ITEMS_PER_CMD * perItem;
+          for (let i = 0; i < items.length; i += step) {
+            encoded.push(
+              encodeCommand(command, [name, ...items.slice(i, i + step)])
+            );
+          }
+        };
+
+        switch (entry.type) {
+          case "string":
+            encoded.push(encodeCommand("SET", [name, entry.value]));
+            break;
+          case "list":
+            batches("RPUSH", entry.value);
+            break;
+          case "hash":
+            batches(
+              "HSET",
+              [...entry.value].flatMap(([field, value]) => [
+                fromBinaryString(field),
+                value,
+              ]),
+              2
+            );
+            break;
+          case "set":
+            batches("SADD", [...entry.value].map(fromBinaryString));
+            break;
+          case "zset":
+            batches(
+              "ZADD",
+              [...entry.value.entries()].flatMap(([member, score]) => [
+                Buffer.from(formatDouble(score)),
+                fromBinaryString(member),
+              ]),
+              2
+            );
+            break;
+        }
+
+        if (when !== undefined) {
+          encoded.push(
+            encodeCommand("PEXPIREAT", [name, Buffer.from(`${when}`)])
+          );
+        }
+      }
+    });
+
+    return encoded;
+  }
+
+  /**
+   * Tells when the AOF writes issued so far are durable enough to
+   * acknowledge the commands they log: handed to the OS with `everysec` and
+   * `no`, and also synced to disk with `always`.
+   *
+   * @returns A promise that settles once they are, or `null` when no write
+   *          is outstanding.
+   */
+  pendingWrites(): Promise<void> | null {
+    return this.#aofPending > 0 ? this.#aofWritten : null;
+  }
+
+  /**
+   * Opens the AOF for appending on the first write. With `everysec` the file
+   * is synced once per second whenever something was written since.
+   */
+  #openAof() {
+    if (this.#aof) {
+      return this.#aof;
+    }
+
+    const fd = fs.openSync(this.#aofPath, "a");
+    const stream = fs.createWriteStream(this.#aofPath, { fd });
+    stream.on("error", (error) => {
+      log.error("AOF stream error:", error.message);
+    });
+
+    const fsyncTimer = setInterval(() => {
+      if (config.appendFsync !== "everysec" || !this.#aofDirty) {
+        return;
+      }
+      this.#aofDirty = false;
+      fs.fsync(fd, (error) => {
+        if (error) {
+          this.#aofDirty = true;
+          log.error("Error syncing AOF file:", error.message);
+        }
+      });
+    }, AOF_FSYNC_INTERVAL).unref();
+
+    this.#aof = { fd, stream, fsyncTimer };
+    return this.#aof;
+  }
+
+  /**
+   * Closes the AOF once the writes queued on it completed. The next write
+   * opens the file found at the AOF path again.
+   */
+  #closeAof() {
+    if (!this.#aof) {
+      return;
+    }
+    const { stream, fsyncTimer } = this.#aof;
+    clearInterval(fsyncTimer);
+    stream.end();
+    this.#aof = null;
+    this.#aofDirty = false;
+  }
+
+  /**
+   * Stops appending to the AOF, when `appendOnly` is turned off at runtime.
+   * The file stays, and is rewritten when it is turned on again.
+   */
+  stopAof() {
+    this.#closeAof();
+    this.#aofUnwritten = [];
+  }
+
+  /**
+   * Tells whether there is an AOF to load at startup.
+   */
+  hasAof() {
+    return fs.existsSync(this.#aofPath);
+  }
+
+  /**
+   * Loads the AOF: its snapshot preamble, if it starts with one, straight
+   * into the databases, then every command after it through
+   * `replayCommand`.
+   *
+   * A last entry cut short, e.g. by a crash in the middle of a write, is
+   * trimmed from the file with a warning, like redis' `aof-load-truncated`.
+   * So is a trailing MULTI block missing its EXEC, whose commands never ran.
+   * Any other corruption aborts the startup rather than loading part of
+   * the dataset.
+   *
+   * @throws {Error} If the preamble cannot be read, or with the offset of an
+   *                 entry that is not valid RESP.
+   */
+  replayAofSync(replayCommand: ReplayCommand) {
+    if (!this.hasAof() || !config.appendOnly) {
+      return;
+    }
+
+    const data = fs.readFileSync(this.#aofPath);
+    this.#aofSize = this.#aofBaseSize = data.length;
+    if (!data.length) {
+      log.warn("AOF file is empty.");
       return;
     }
 
+    let start = 0;
+    if (hasSnapshotSignature(data)) {
+      const { entries, length } = this.#readSnapshotInto(
+        data,
+        this.#aofPath,
+        true
+      );
+      log.info(`Loaded ${entries} keys from the AOF snapshot preamble.`);
+      start = length;
+    }
+
+    // Entries are RESP multibulk requests. The parser also accepts inline
+    // commands, so logs written in the older `COMMAND arg1 arg2` form still
+    // replay.
+    const parser = new CommandParser();
+    const logs: (ParsedCommand & { end: number })[] = [];
     try {
-      const data = fs.readFileSync(this.#aofPath, "utf8").toString();
-      if (!data) {
-        log.warn("AOF file is empty.");
-        return;
+      parser.feed(data.subarray(start), (parsed, end) =>
+        logs.push({ ...parsed, end: start + end })
+      );
+    } catch (error) {
+      if (!(error instanceof ProtocolError)) {
+        throw error;
       }
+      // Only the last entry may be cut short. Replaying what comes before a
+      // bad entry in the middle would start the server with part of the
+      // dataset, and later writes would hide that it was lost.
+      throw new Error(
+        `Bad AOF ${this.#aofPath} at offset ${start + parser.parsedLength}: ${
+          error.message
+        }.`
+      );
+    }
 
-      const logs = data.split("\r\n").filter((log) => log.trim() !== "");
+    // Where the file should end, if it has to be trimmed.
+    let validLength: number | null = null;
+    let multiStart: number | null = null;
+    for (let i = 0; i < logs.length; i++) {
+      const { command } = logs[i];
+      if (command === "MULTI") {
+        multiStart = i > 0 ? logs[i - 1].end : start;
+      } else if (command === "EXEC" || command === "DISCARD") {
+        multiStart = null;
+      }
+    }
+    if (multiStart !== null) {
+      log.warn("Revert incomplete MULTI/EXEC transaction in AOF file");
+      validLength = multiStart;
+    } else if (start + parser.parsedLength < data.length) {
+      validLength = start + parser.parsedLength;
+      log.warn(
+        `Truncated command of ${
+          data.length - validLength
+        } bytes at the end of the AOF`
+      );
+    }
+    if (validLength !== null) {
+      fs.truncateSync(this.#aofPath, validLength);
+      this.#aofSize = this.#aofBaseSize = validLength;
+      log.warn(`AOF ${this.#aofPath} trimmed to ${validLength} bytes`);
+    }
 
-      for (const logEntry of logs) {
-        const [command, ...args] = logEntry.split(" ");
-        executeCommand(command, args, true);
+    for (const { command, args, end } of logs) {
+      if (validLength !== null && end > validLength) {
+        break;
       }
-    } catch (error) {
-      log.error("Error loading AOF file:", error);
+      replayCommand(command, args);
     }
   }
 }
 
 const persistence = new Persistence();
 
-export { persistence };
+export { APPEND_FSYNC_POLICIES, persistence, snapshotPath };
@@ -0,0 +1,41 @@
+/**
+ * A command to write to the AOF. `db` is the database it ran in, filled in
+ * by the dispatcher, so handlers leave it out. `replicaOnly` commands are
+ * sent to the replicas but not written to the AOF, like PUBLISH, which
+ * changes nothing to replay.
+ */
+export type PropagatedCommand = {
+  command: string;
+  args: Buffer[];
+  db?: number;
+  replicaOnly?: boolean;
+};
+
+// Set by the handler that is currently running, read back by executeCommand
+// once it returns. Commands run one at a time, so a single slot is enough.
+let rewritten: PropagatedCommand[] | null = null;
+
+/**
+ * Replaces what the running command writes to the AOF. Used when replaying
+ * the command as sent would not give the same result, e.g. HINCRBYFLOAT is
+ * logged as an HSET of the computed value so float rounding cannot drift.
+ * Calling it with no commands logs nothing.
+ *
+ * @param commands - The commands to log instead, in order.
+ */
+const propagateAs = (...commands: PropagatedCommand[]) => {
+  rewritten = commands;
+};
+
+/**
+ * Returns and clears the commands set by `propagateAs`.
+ *
+ * @returns The replacement commands, or `null` if the handler set none.
+ */
+const takePropagated = () => {
+  const commands = rewritten;
+  rewritten = null;
+  return commands;
+};
+
+export { propagateAs, takePropagated };
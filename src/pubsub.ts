@@ -0,0 +1,167 @@
+import { Client, sendReply } from "./client";
+import { reply } from "./resp";
+import { fromBinaryString } from "./utils/binary";
+import { globMatch } from "./utils/glob";
+
+// Subscribers per channel and per pattern. Each client also keeps its own
+// subscriptions so they can be counted and dropped when it disconnects.
+const channels = new Map<string, Set<Client>>();
+const patterns = new Map<string, Set<Client>>();
+
+type Registry = typeof channels;
+type Subscriptions = "channels" | "patterns";
+
+const addSubscriber = (
+  registry: Registry,
+  name: string,
+  client: Client,
+  own: Subscriptions
+) => {
+  if (client[own].has(name)) {
+    return false;
+  }
+
+  const subscribers = registry.get(name) ?? new Set<Client>();
+  subscribers.add(client);
+  registry.set(name, subscribers);
+  client[own].add(name);
+  return true;
+};
+
+const removeSubscriber = (
+  registry: Registry,
+  name: string,
+  client: Client,
+  own: Subscriptions
+) => {
+  if (!client[own].delete(name)) {
+    return false;
+  }
+
+  const subscribers = registry.get(name);
+  subscribers?.delete(client);
+  if (subscribers?.size === 0) {
+    registry.delete(name);
+  }
+  return true;
+};
+
+/**
+ * @returns How many channels and patterns the client is subscribed to.
+ */
+const subscriptionCount = (client: Client) =>
+  client.channels.size + client.patterns.size;
+
+/**
+ * Subscribes a client to a channel.
+ *
+ * @returns `true` if the client was not subscribed to it yet.
+ */
+const subscribe = (client: Client, channel: string) =>
+  addSubscriber(channels, channel, client, "channels");
+
+/**
+ * @returns `true` if the client was subscribed to the channel.
+ */
+const unsubscribe = (client: Client, channel: string) =>
+  removeSubscriber(channels, channel, client, "channels");
+
+/**
+ * Subscribes a client to every channel matching a glob-style pattern.
+ *
+ * @returns `true` if the client was not subscribed to it yet.
+ */
+const psubscribe = (client: Client, pattern: string) =>
+  addSubscriber(patterns, pattern, client, "patterns");
+
+/**
+ * @returns `true` if the client was subscribed to the pattern.
+ */
+const punsubscribe = (client: Client, pattern: string) =>
+  removeSubscriber(patterns, pattern, client, "patterns");
+
+/**
+ * Drops every subscription of a client, e.g. once it disconnected.
+ */
+const unsubscribeAll = (client: Client) => {
+  for (const channel of [...client.channels]) {
+    unsubscribe(client, channel);
+  }
+  for (const pattern of [...client.patterns]) {
+    punsubscribe(client, pattern);
+  }
+};
+
+/**
+ * Sends a message to every client subscribed to the channel or to a pattern
+ * matching it. A client subscribed both ways receives it once per match,
+ * like redis.
+ *
+ * @returns The number of clients that received the message.
+ */
+const publish = (channel: string, message: Buffer) => {
+  const name = fromBinaryString(channel);
+  let receivers = 0;
+
+  for (const client of channels.get(channel) ?? []) {
+    sendReply(
+      client,
+      reply.push([reply.bulk("message"), reply.bulk(name), reply.bulk(message)])
+    );
+    receivers++;
+  }
+
+  for (const [pattern, subscribers] of patterns) {
+    if (!globMatch(pattern, channel)) {
+      continue;
+    }
+    for (const client of subscribers) {
+      sendReply(
+        client,
+        reply.push([
+          reply.bulk("pmessage"),
+          reply.bulk(fromBinaryString(pattern)),
+          reply.bulk(name),
+          reply.bulk(message),
+        ])
+      );
+      receivers++;
+    }
+  }
+
+  return receivers;
+};
+
+/**
+ * @param pattern - Only return channels matching this glob-style pattern.
+ * @returns The channels with at least one subscriber.
+ */
+const activeChannels = (pattern: string | null) =>
+  [...channels.keys()].filter(
+    (channel) => pattern === null || globMatch(pattern, channel)
+  );
+
+/**
+ * @returns The number of clients subscribed to the channel, not counting
+ *          pattern subscriptions.
+ */
+const channelSubscribers = (channel: string) =>
+  channels.get(channel)?.size ?? 0;
+
+/**
+ * @returns The number of patterns with at least one subscriber.
+ */
+const activePatternCount = () => patterns.size;
+
+export {
+  subscriptionCount,
+  subscribe,
+  unsubscribe,
+  psubscribe,
+  punsubscribe,
+  unsubscribeAll,
+  publish,
+  activeChannels,
+  channelSubscribers,
+  activePatternCount,
+};
@@ -0,0 +1,74 @@
+/**
+ * Fixed-size ring buffer holding the latest bytes of the replication
+ * stream, so a replica that briefly lost its connection can catch up with
+ * the part it missed instead of doing a full sync.
+ *
+ * @example
+ * ```typescript
+ * const backlog = new ReplicationBacklog(4);
+ * backlog.append(Buffer.from("abcdef"));
+ * backlog.length; // 4
+ * backlog.tail(3).toString(); // "def"
+ * ```
+ */
+class ReplicationBacklog {
+  #buffer: Buffer;
+  // Where the next byte is written.
+  #index = 0;
+  #length = 0;
+
+  constructor(size: number) {
+    this.#buffer = Buffer.alloc(size);
+  }
+
+  /**
+   * The size of the buffer, which bounds how far back it reaches.
+   */
+  get size() {
+    return this.#buffer.length;
+  }
+
+  /**
+   * The number of bytes held, at most `size`.
+   */
+  get length() {
+    return this.#length;
+  }
+
+  /**
+   * Appends bytes to the stream, overwriting the oldest ones once the
+   * buffer is full.
+   */
+  append(data: Buffer) {
+    const { size } = this;
+    const kept = data.length > size ? data.subarray(data.length - size) : data;
+
+    const first = Math.min(kept.length, size - this.#index);
+    kept.copy(this.#buffer, this.#index, 0, first);
+    kept.copy(this.#buffer, 0, first);
+
+    this.#index = (this.#index + kept.length) % size;
+    this.#length = Math.min(size, this.#length + data.length);
+  }
+
+  /**
+   * Returns the last `count` bytes appended, oldest first.
+   *
+   * @throws {RangeError} If fewer bytes are held.
+   */
+  tail(count: number) {
+    if (count > this.#length) {
+      throw new RangeError(`Only ${this.#length} bytes are held`);
+    }
+    const start = (this.#index - count + this.size) % this.size;
+    if (start + count <= this.size) {
+      return Buffer.from(this.#buffer.subarray(start, start + count));
+    }
+    return Buffer.concat([
+      this.#buffer.subarray(start),
+      this.#buffer.subarray(0, this.#index),
+    ]);
+  }
+}
+
+export { ReplicationBacklog };
@@ -0,0 +1,697 @@
+import crypto from "crypto";
+import net from "net";
+import config from "./config.json";
+import { Client, createClient, sendRaw } from "./client";
+import {
+  databaseKeys,
+  deleteKey,
+  isValidDatabase,
+  setExpire,
+  setKey,
+  signalModifiedKey,
+  withDatabase,
+} from "./keyspace";
+import { CommandParser } from "./parser";
+import { persistence } from "./persistence";
+import { PropagatedCommand } from "./propagation";
+import { ReplicationBacklog } from "./replication-backlog";
+import { encodeCommand } from "./resp";
+import {
+  databaseEntries,
+  encodeSnapshot,
+  readSnapshot,
+} from "./snapshot-format";
+import { logger } from "./utils/logger";
+
+const log = logger("replication");
+
+type ApplyCommand = (command: string, args: Buffer[], client: Client) => void;
+
+// How often links are checked, acknowledged and reconnected.
+const REPLICATION_CRON_INTERVAL = 1000;
+
+const NO_REPLICATION_ID = "0".repeat(40);
+
+const newReplicationId = () => crypto.randomBytes(20).toString("hex");
+
+// The history this dataset follows, and how far along it is: the bytes of
+// replication stream produced, or processed on a replica. `replid2` is the
+// history followed before the last switch, valid up to `secondReplOffset`,
+// so replicas of a former primary can still continue partially.
+let replid = newReplicationId();
+let replid2 = NO_REPLICATION_ID;
+let secondReplOffset = -1;
+let masterReplOffset = 0;
+// Created when the first replica attaches, or when syncing with a primary.
+let backlog: ReplicationBacklog | null = null;
+// The database the last command streamed to replicas ran in, so a SELECT
+// is only streamed when it changes. Unknown at the start of a stream.
+let replicationDatabase: number | null = null;
+let lastReplicaPing = 0;
+
+// Replicas that received the dataset and get the stream, in the order they
+// attached.
+const replicas: Client[] = [];
+
+/**
+ * The connection of a replica to its primary. `state` follows redis' link
+ * states: `connect` until the next attempt, `connecting` until the socket
+ * is open, `handshake` while authenticating and announcing itself, `sync`
+ * while receiving the dataset, and `connected` once it applies the stream.
+ */
+type MasterLink = {
+  host: string;
+  port: number;
+  state: "connect" | "connecting" | "handshake" | "sync" | "connected";
+  socket: net.Socket | null;
+  parser: CommandParser;
+  // Stream bytes received but not part of a complete command yet, and the
+  // parser offset of the end of the last command applied.
+  pending: Buffer;
+  parsed: number;
+  lastInteraction: number;
+  downSince: number;
+};
+
+let master: MasterLink | null = null;
+
+// Commands from the primary run on behalf of this internal client. It keeps
+// its selected database across partial resyncs, like the stream does.
+const masterClient = createClient();
+let applyCommand: ApplyCommand | null = null;
+
+/**
+ * Reads the primary's replies to the handshake, which arrive on the same
+ * connection as the replication stream that follows them.
+ */
+class LinkReader {
+  #buffer = Buffer.alloc(0);
+  #waiting: (() => void) | null = null;
+  #closed = false;
+
+  push(chunk: Buffer) {
+    this.#buffer = Buffer.concat([this.#buffer, chunk]);
+    this.#waiting?.();
+  }
+
+  close() {
+    this.#closed = true;
+    this.#waiting?.();
+  }
+
+  async #wait() {
+    if (this.#closed) {
+      throw new Error("Connection lost");
+    }
+    await new Promise<void>((resolve) => {
+      this.#waiting = resolve;
+    });
+    this.#waiting = null;
+  }
+
+  /**
+   * @returns The next line, without its CRLF.
+   */
+  async line() {
+    for (;;) {
+      const end = this.#buffer.indexOf("\r\n");
+      if (end !== -1) {
+        const line = this.#buffer.subarray(0, end).toString();
+        this.#buffer = this.#buffer.subarray(end + 2);
+        return line;
+      }
+      await this.#wait();
+    }
+  }
+
+  async bytes(length: number) {
+    while (this.#buffer.length < length) {
+      await this.#wait();
+    }
+    const bytes = this.#buffer.subarray(0, length);
+    this.#buffer = this.#buffer.subarray(length);
+    return bytes;
+  }
+
+  /**
+   * @returns Whatever was received after the last reply read.
+   */
+  rest() {
+    return this.#buffer;
+  }
+}
+
+/**
+ * Appends bytes to the replication stream: to the backlog, and to every
+ * replica. Nothing is recorded while no replica ever attached.
+ */
+const feedStream = (data: Buffer) => {
+  if (!backlog) {
+    return;
+  }
+  backlog.append(data);
+  masterReplOffset += data.length;
+  for (const replica of replicas) {
+    sendRaw(replica, data);
+  }
+};
+
+/**
+ * Gives the backlog the size `replBacklogSize` was set to, keeping the
+ * latest bytes that still fit, so replicas can continue from them.
+ */
+const resizeBacklog = () => {
+  if (!backlog || backlog.size === config.replBacklogSize) {
+    return;
+  }
+  const resized = new ReplicationBacklog(config.replBacklogSize);
+  resized.append(backlog.tail(Math.min(backlog.length, resized.size)));
+  backlog = resized;
+};
+
+/**
+ * Streams commands that changed the dataset to the replicas, each preceded
+ * by a SELECT when it ran in another database than the previous one.
+ *
+ * A replica passes on its primary's stream as it is instead, see
+ * `processStream`, so its own replicas share the primary's offsets.
+ */
+const propagateToReplicas = (commands: PropagatedCommand[]) => {
+  if (!backlog || master) {
+    return;
+  }
+
+  const encoded: Buffer[] = [];
+  for (const { command, args, db = 0 } of commands) {
+    if (db !== replicationDatabase) {
+      encoded.push(encodeCommand("SELECT", [Buffer.from(`${db}`)]));
+      replicationDatabase = db;
+    }
+    encoded.push(encodeCommand(command, args));
+  }
+  feedStream(Buffer.concat(encoded));
+};
+
+/**
+ * Tells whether a replica asking to continue at `offset` of history `id`
+ * can be sent the rest from the backlog.
+ */
+const canContinue = (id: string, offset: number) => {
+  if (!backlog) {
+    return false;
+  }
+  if (id !== replid && !(id === replid2 && offset <= secondReplOffset)) {
+    return false;
+  }
+  return (
+    offset >= masterReplOffset - backlog.length + 1 &&
+    offset <= masterReplOffset + 1
+  );
+};
+
+/**
+ * Answers PSYNC or SYNC. The replica continues from `offset` when this
+ * server's history includes it and the backlog still holds what follows.
+ * Otherwise it is sent the whole dataset as a snapshot, encoded right away
+ * so the stream picks up exactly where the snapshot ends.
+ *
+ * @param client - The replica.
+ * @param id - The history the replica follows, `null` for SYNC, which gets
+ *             the snapshot without the `+FULLRESYNC` line.
+ * @param offset - The first stream byte the replica is missing.
+ */
+const syncReplica = (client: Client, id: string | null, offset: number) => {
+  const now = Date.now();
+
+  if (id !== null && canContinue(id, offset)) {
+    const missing = (backlog as ReplicationBacklog).tail(
+      masterReplOffset + 1 - offset
+    );
+    sendRaw(client, Buffer.from(`+CONTINUE ${replid}\r\n`));
+    sendRaw(client, missing);
+    log.info(
+      `Partial resynchronization accepted, sending ${missing.length} bytes of backlog from offset ${offset}`
+    );
+  } else {
+    backlog ??= new ReplicationBacklog(config.replBacklogSize);
+    if (id !== null) {
+      sendRaw(
+        client,
+        Buffer.from(`+FULLRESYNC ${replid} ${masterReplOffset}\r\n`)
+      );
+    }
+    const data = encodeSnapshot(databaseEntries(persistence.databases));
+    sendRaw(client, Buffer.from(`$${data.length}\r\n`));
+    sendRaw(client, data);
+    // The replica starts out in database 0.
+    replicationDatabase = null;
+    log.info(`Full resynchronization, sent ${data.length} bytes of snapshot`);
+  }
+
+  client.replica = {
+    listeningPort: client.replica?.listeningPort ?? 0,
+    state: "online",
+    ackOffset: 0,
+    ackTime: now,
+  };
+  if (!replicas.includes(client)) {
+    replicas.push(client);
+  }
+};
+
+/**
+ * Records the offset a replica acknowledged with `REPLCONF ACK`.
+ */
+const acknowledge = (client: Client, offset: number) => {
+  if (client.replica) {
+    client.replica.ackOffset = offset;
+    client.replica.ackTime = Date.now();
+  }
+};
+
+/**
+ * Stops streaming to a replica whose connection closed.
+ */
+const removeReplica = (client: Client) => {
+  const index = replicas.indexOf(client);
+  if (index !== -1) {
+    replicas.splice(index, 1);
+    log.info(`Connection with replica ${replicaAddress(client)} lost`);
+  }
+};
+
+const disconnectReplicas = () => {
+  for (const replica of [...replicas]) {
+    replica.socket?.destroy();
+    removeReplica(replica);
+  }
+};
+
+const replicaAddress = (client: Client) =>
+  `${client.socket?.remoteAddress?.replace(/^::ffff:/, "") ?? "?"}:${
+    client.replica?.listeningPort ?? 0
+  }`;
+
+/**
+ * Replaces the dataset with the snapshot sent by the primary.
+ *
+ * @throws {SnapshotError} If the snapshot cannot be read.
+ */
+const loadDataset = (data: Buffer) => {
+  persistence.databases.forEach((_, db) =>
+    withDatabase(db, () => databaseKeys().forEach(deleteKey))
+  );
+
+  const now = Date.now();
+  const { entries } = readSnapshot(data, ({ db, key, entry, expiresAt }) => {
+    if (!isValidDatabase(db) || (expiresAt !== undefined && expiresAt < now)) {
+      return;
+    }
+    withDatabase(db, () => {
+      setKey(key, entry);
+      if (expiresAt !== undefined) {
+        setExpire(key, expiresAt);
+      }
+      signalModifiedKey(key);
+    });
+  });
+  log.info(`Loaded ${entries} keys from the primary`);
+};
+
+/**
+ * Tells the primary how much of the stream was processed.
+ */
+const sendAck = (link: MasterLink) => {
+  link.socket?.write(
+    encodeCommand("REPLCONF", [
+      Buffer.from("ACK"),
+      Buffer.from(`${masterReplOffset}`),
+    ])
+  );
+};
+
+/**
+ * Applies the commands of the replication stream received from the
+ * primary, and passes them on to this server's own replicas. The offset
+ * grows by the size of each command once it ran.
+ */
+const processStream = (link: MasterLink, chunk: Buffer) => {
+  link.lastInteraction = Date.now();
+  link.pending = Buffer.concat([link.pending, chunk]);
+  let start = 0;
+
+  link.parser.feed(chunk, ({ command, args }, end) => {
+    const raw = link.pending.subarray(start, start + end - link.parsed);
+    start += raw.length;
+    link.parsed = end;
+
+    // Answered with the offset before the request, like redis does.
+    if (
+      command === "REPLCONF" &&
+      args[0]?.toString().toUpperCase() === "GETACK"
+    ) {
+      sendAck(link);
+    } else {
+      try {
+        applyCommand?.(command, args, masterClient);
+      } catch (error: any) {
+        log.error(
+          `Error applying ${command} from the primary:`,
+          error?.message
+        );
+      }
+    }
+    feedStream(raw);
+  });
+
+  link.pending = link.pending.subarray(start);
+};
+
+/**
+ * Adopts history `id` after syncing with a primary that follows another
+ * one. The previous history stays valid for partial resyncs up to the
+ * current offset.
+ */
+const switchReplicationId = (id: string) => {
+  replid2 = replid;
+  secondReplOffset = masterReplOffset + 1;
+  replid = id;
+};
+
+/**
+ * Runs the handshake with the primary, then syncs with it: PING, AUTH with
+ * `masterUser`/`masterAuth` if set, REPLCONF and PSYNC with the history and
+ * offset this server reached, so it continues partially when it can.
+ *
+ * @throws {Error} If the primary refuses, or the link is lost.
+ */
+const handshake = async (link: MasterLink, reader: LinkReader) => {
+  const socket = link.socket as net.Socket;
+  const send = (...parts: string[]) =>
+    socket.write(
+      encodeCommand(
+        parts[0],
+        parts.slice(1).map((part) => Buffer.from(part))
+      )
+    );
+  const expectReply = async (request: string) => {
+    const line = await reader.line();
+    if (line.startsWith("-")) {
+      throw new Error(`Error reply to ${request}: ${line.slice(1)}`);
+    }
+    return line;
+  };
+
+  link.state = "handshake";
+  send("PING");
+  const pong = await reader.line();
+  // Not being authenticated yet is fine, AUTH comes next.
+  if (pong.startsWith("-") && !/^-(NOAUTH|NOPERM)/.test(pong)) {
+    throw new Error(`Error reply to PING: ${pong.slice(1)}`);
+  }
+
+  if (config.masterAuth) {
+    send(
+      "AUTH",
+      ...(config.masterUser ? [config.masterUser] : []),
+      config.masterAuth
+    );
+    await expectReply("AUTH");
+  }
+  send("REPLCONF", "listening-port", `${config.port}`);
+  await expectReply("REPLCONF");
+  send("REPLCONF", "capa", "psync2");
+  await expectReply("REPLCONF");
+
+  send("PSYNC", replid, `${masterReplOffset + 1}`);
+  const response = await expectReply("PSYNC");
+  const [kind, id, offset] = response.split(" ");
+
+  if (kind === "+FULLRESYNC") {
+    link.state = "sync";
+    const header = await reader.line();
+    if (!/^\$\d+$/.test(header)) {
+      throw new Error(`Bad snapshot header from the primary: ${header}`);
+    }
+    loadDataset(await reader.bytes(Number(header.slice(1))));
+
+    replid = id;
+    replid2 = NO_REPLICATION_ID;
+    secondReplOffset = -1;
+    masterReplOffset = Number(offset);
+    backlog = new ReplicationBacklog(config.replBacklogSize);
+    masterClient.db = 0;
+    masterClient.transaction = null;
+    // Their dataset no longer follows this one.
+    disconnectReplicas();
+    if (config.appendOnly && !persistence.rewriteAof()) {
+      log.warn("AOF rewrite already running, the AOF may miss the new data");
+    }
+    log.info("MASTER <-> REPLICA sync: Finished with success");
+  } else if (kind === "+CONTINUE") {
+    if (id && id !== replid) {
+      switchReplicationId(id);
+      disconnectReplicas();
+    }
+    backlog ??= new ReplicationBacklog(config.replBacklogSize);
+    log.info("MASTER <-> REPLICA sync: Partial resynchronization accepted");
+  } else {
+    throw new Error(`Unexpected reply to PSYNC: ${response}`);
+  }
+
+  link.state = "connected";
+  processStream(link, reader.rest());
+};
+
+/**
+ * Connects to the primary. When the connection fails or is lost later,
+ * the link goes back to `connect` and the cron tries again.
+ */
+const connectToMaster = (link: MasterLink) => {
+  log.info(`Connecting to MASTER ${link.host}:${link.port}`);
+  const socket = net.connect(link.port, link.host);
+  const reader = new LinkReader();
+
+  link.state = "connecting";
+  link.socket = socket;
+  link.lastInteraction = Date.now();
+  link.parser = new CommandParser();
+  link.pending = Buffer.alloc(0);
+  link.parsed = 0;
+
+  socket.on("connect", () => {
+    handshake(link, reader).catch((error) => {
+      log.error(`Sync with MASTER failed: ${error?.message}`);
+      socket.destroy();
+    });
+  });
+  socket.on("data", (chunk) => {
+    link.lastInteraction = Date.now();
+    if (link.state !== "connected") {
+      reader.push(chunk);
+      return;
+    }
+    try {
+      processStream(link, chunk);
+    } catch (error: any) {
+      log.error(`Bad replication stream: ${error?.message}`);
+      socket.destroy();
+    }
+  });
+  socket.on("error", (error) => {
+    log.error(`Error condition on socket for SYNC: ${error.message}`);
+  });
+  socket.on("close", () => {
+    reader.close();
+    if (link.socket !== socket) {
+      return;
+    }
+    if (link.state === "connected") {
+      log.warn("Connection with MASTER lost");
+      link.downSince = Date.now();
+    }
+    link.state = "connect";
+    link.socket = null;
+  });
+};
+
+/**
+ * Drops the connection to the primary on purpose, so it is not reported as
+ * lost.
+ */
+const closeMasterLink = (link: MasterLink) => {
+  const { socket } = link;
+  link.socket = null;
+  socket?.destroy();
+};
+
+/**
+ * Makes this server a replica of `host`:`port`, like REPLICAOF. It keeps
+ * its data until the primary sent its own, and asks to continue from its
+ * current history, which works when the primary used to be its replica.
+ *
+ * @returns `false` if it already replicates that primary.
+ */
+const setMaster = (host: string, port: number) => {
+  if (master && master.host === host && master.port === port) {
+    return false;
+  }
+
+  if (master) {
+    closeMasterLink(master);
+  }
+  const now = Date.now();
+  master = {
+    host,
+    port,
+    state: "connect",
+    socket: null,
+    parser: new CommandParser(),
+    pending: Buffer.alloc(0),
+    parsed: 0,
+    lastInteraction: now,
+    downSince: now,
+  };
+  connectToMaster(master);
+  return true;
+};
+
+/**
+ * Turns this server back into a primary, like `REPLICAOF NO ONE`. It starts
+ * a new history so its data may diverge from the former primary's. The
+ * former one is kept as `replid2` up to the current offset, so its own
+ * replicas and the other replicas of the former primary continue partially
+ * from the backlog rather than needing a full resync.
+ */
+const unsetMaster = () => {
+  if (!master) {
+    return;
+  }
+  closeMasterLink(master);
+  master = null;
+  switchReplicationId(newReplicationId());
+  replicationDatabase = null;
+  log.info("MASTER MODE enabled");
+};
+
+/**
+ * Checks the links: reconnects to the primary, acknowledges its stream,
+ * pings the replicas every `replPingReplicaPeriod` seconds and drops
+ * whichever side was silent for `replTimeout` seconds.
+ */
+const replicationCron = () => {
+  const now = Date.now();
+  const timeout = config.replTimeout * 1000;
+
+  if (master) {
+    if (master.state === "connect") {
+      connectToMaster(master);
+    } else if (now - master.lastInteraction > timeout) {
+      log.warn("MASTER timeout: no data nor PING received");
+      master.socket?.destroy();
+    } else if (master.state === "connected") {
+      sendAck(master);
+    }
+  } else if (
+    replicas.length > 0 &&
+    now - lastReplicaPing >= config.replPingReplicaPeriod * 1000
+  ) {
+    feedStream(encodeCommand("PING", []));
+    lastReplicaPing = now;
+  }
+
+  for (const replica of replicas) {
+    const { ackTime } = replica.replica as NonNullable<Client["replica"]>;
+    if (now - ackTime > timeout) {
+      log.warn(`Disconnecting timedout replica ${replicaAddress(replica)}`);
+      replica.socket?.destroy();
+    }
+  }
+};
+
+/**
+ * Parses the `host port` of a REPLICAOF directive.
+ *
+ * @throws {Error} If it is not a host followed by a port number.
+ */
+const parseReplicaOf = (value: string) => {
+  const [host, port, ...rest] = value.trim().split(/\s+/);
+  const number = Number(port);
+  if (!host || rest.length > 0 || !Number.isInteger(number) || number < 1) {
+    throw new Error(`Invalid replicaOf: '${value}'`);
+  }
+  return { host, port: number };
+};
+
+/**
+ * Starts replication: the cron, and the link to `config.replicaOf` if set.
+ *
+ * @param apply - Runs a command received from the primary.
+ */
+const initReplication = (apply: ApplyCommand) => {
+  applyCommand = apply;
+  if (config.replicaOf) {
+    const { host, port } = parseReplicaOf(config.replicaOf);
+    setMaster(host, port);
+  }
+  setInterval(replicationCron, REPLICATION_CRON_INTERVAL);
+};
+
+/**
+ * @returns Whether writes from clients are refused, on a replica with
+ *          `replicaReadOnly`.
+ */
+const isReadOnlyReplica = () => master !== null && config.replicaReadOnly;
+
+/**
+ * @returns Whether this is a replica that is not in sync with its primary.
+ */
+const isMasterLinkDown = () => master !== null && master.state !== "connected";
+
+/**
+ * @returns The replication state ROLE and INFO report.
+ */
+const replicationInfo = () => ({
+  replid,
+  replid2,
+  offset: masterReplOffset,
+  secondReplOffset,
+  backlog: backlog && {
+    size: backlog.size,
+    firstByteOffset: masterReplOffset - backlog.length + 1,
+    length: backlog.length,
+  },
+  master: master && {
+    host: master.host,
+    port: master.port,
+    state: master.state,
+    lastInteraction: master.lastInteraction,
+    downSince: master.downSince,
+  },
+  replicas: replicas.map((replica) => {
+    const state = replica.replica as NonNullable<Client["replica"]>;
+    return {
+      ip: replica.socket?.remoteAddress?.replace(/^::ffff:/, "") ?? "",
+      port: state.listeningPort,
+      state: state.state,
+      offset: state.ackOffset,
+      ackTime: state.ackTime,
+    };
+  }),
+});
+
+export {
+  masterClient,
+  propagateToReplicas,
+  resizeBacklog,
+  syncReplica,
+  acknowledge,
+  removeReplica,
+  setMaster,
+  unsetMaster,
+  parseReplicaOf,
+  initReplication,
+  isReadOnlyReplica,
+  isMasterLinkDown,
+  replicationInfo,
+};
@@ -0,0 +1,198 @@
+export type Protocol = 2 | 3;
+
+/**
+ * Protocol independent reply returned by every command handler. The encoder
+ * serializes it as RESP2 or RESP3 depending on what the client negotiated
+ * with HELLO. RESP3-only types fall back to their RESP2 equivalents:
+ *
+ * - `map` becomes a flat array of key/value pairs.
+ * - `set` and `push` become arrays.
+ * - `double` becomes a bulk string.
+ * - `boolean` becomes the integer 1 or 0.
+ * - `verbatim` becomes a bulk string.
+ * - `null` becomes the null bulk string, or the null array when `array` is set.
+ *
+ * `none` encodes to nothing. It is returned by commands that already sent
+ * their replies to the client themselves, such as SUBSCRIBE which confirms
+ * every channel with a separate push.
+ */
+export type Reply =
+  | { type: "simple"; value: string }
+  | { type: "error"; value: string }
+  | { type: "integer"; value: number }
+  | { type: "bulk"; value: Buffer }
+  | { type: "null"; array?: boolean }
+  | { type: "array"; value: Reply[] }
+  | { type: "map"; value: [Reply, Reply][] }
+  | { type: "set"; value: Reply[] }
+  | { type: "double"; value: number }
+  | { type: "boolean"; value: boolean }
+  | { type: "verbatim"; format: string; value: string }
+  | { type: "push"; value: Reply[] }
+  | { type: "none" };
+
+const toBuffer = (value: Buffer | string) =>
+  typeof value === "string" ? Buffer.from(value) : value;
+
+/**
+ * Shorthand constructors for the reply model.
+ *
+ * @example
+ * ```typescript
+ * reply.bulk("bar"); // { type: "bulk", value: <Buffer 62 61 72> }
+ * reply.error("ERR syntax error"); // { type: "error", value: "ERR syntax error" }
+ * ```
+ */
+const reply = {
+  ok: (): Reply => ({ type: "simple", value: "OK" }),
+  simple: (value: string): Reply => ({ type: "simple", value }),
+  error: (value: string): Reply => ({ type: "error", value }),
+  integer: (value: number): Reply => ({ type: "integer", value }),
+  bulk: (value: Buffer | string): Reply => ({
+    type: "bulk",
+    value: toBuffer(value),
+  }),
+  nil: (): Reply => ({ type: "null" }),
+  nilArray: (): Reply => ({ type: "null", array: true }),
+  array: (value: Reply[]): Reply => ({ type: "array", value }),
+  bulkArray: (values: (Buffer | string)[]): Reply => ({
+    type: "array",
+    value: values.map(reply.bulk),
+  }),
+  map: (value: [Reply, Reply][]): Reply => ({ type: "map", value }),
+  set: (value: Reply[]): Reply => ({ type: "set", value }),
+  double: (value: number): Reply => ({ type: "double", value }),
+  boolean: (value: boolean): Reply => ({ type: "boolean", value }),
+  verbatim: (value: string, format = "txt"): Reply => ({
+    type: "verbatim",
+    format,
+    value,
+  }),
+  push: (value: Reply[]): Reply => ({ type: "push", value }),
+  none: (): Reply => ({ type: "none" }),
+};
+
+/**
+ * Formats a double the way redis does: `inf`, `-inf` and `nan` for the
+ * special values, the shortest round-tripping representation otherwise.
+ */
+const formatDouble = (value: number) => {
+  if (Number.isNaN(value)) return "nan";
+  if (value === Infinity) return "inf";
+  if (value === -Infinity) return "-inf";
+  return `${value}`;
+};
+
+const writeReply = (chunks: Buffer[], value: Reply, protocol: Protocol) => {
+  const line = (text: string) => chunks.push(Buffer.from(`${text}\r\n`));
+  const aggregate = (prefix: string, items: Reply[]) => {
+    line(`${prefix}${items.length}`);
+    for (const item of items) {
+      writeReply(chunks, item, protocol);
+    }
+  };
+
+  switch (value.type) {
+    case "simple":
+      // Simple strings cannot contain CR or LF.
+      line(`+${value.value.replace(/[\r\n]/g, " ")}`);
+      return;
+    case "error":
+      line(`-${value.value.replace(/[\r\n]/g, " ")}`);
+      return;
+    case "integer":
+      line(`:${value.value}`);
+      return;
+    case "bulk":
+      line(`$${value.value.length}`);
+      chunks.push(value.value);
+      line("");
+      return;
+    case "null":
+      if (protocol === 3) {
+        line("_");
+      } else {
+        line(value.array ? "*-1" : "$-1");
+      }
+      return;
+    case "array":
+      aggregate("*", value.value);
+      return;
+    case "set":
+      aggregate(protocol === 3 ? "~" : "*", value.value);
+      return;
+    case "push":
+      aggregate(protocol === 3 ? ">" : "*", value.value);
+      return;
+    case "map":
+      if (protocol === 3) {
+        line(`%${value.value.length}`);
+      } else {
+        line(`*${value.value.length * 2}`);
+      }
+      for (const [key, item] of value.value) {
+        writeReply(chunks, key, protocol);
+        writeReply(chunks, item, protocol);
+      }
+      return;
+    case "double":
+      if (protocol === 3) {
+        line(`,${formatDouble(value.value)}`);
+      } else {
+        writeReply(chunks, reply.bulk(formatDouble(value.value)), protocol);
+      }
+      return;
+    case "boolean":
+      if (protocol === 3) {
+        line(`#${value.value ? "t" : "f"}`);
+      } else {
+        line(`:${value.value ? 1 : 0}`);
+      }
+      return;
+    case "verbatim":
+      if (protocol === 3) {
+        const payload = Buffer.from(`${value.format}:${value.value}`);
+        line(`=${payload.length}`);
+        chunks.push(payload);
+        line("");
+      } else {
+        writeReply(chunks, reply.bulk(value.value), protocol);
+      }
+      return;
+    case "none":
+      return;
+  }
+};
+
+/**
+ * Serializes a reply for a client speaking the given protocol version.
+ *
+ * @param value - The reply returned by a command handler.
+ * @param protocol - `2` for RESP2, `3` for RESP3.
+ * @returns The encoded bytes to write to the socket.
+ *
+ * @example
+ * ```typescript
+ * encodeReply(reply.nil(), 2); // $-1\r\n
+ * encodeReply(reply.nil(), 3); // _\r\n
+ * ```
+ */
+const encodeReply = (value: Reply, protocol: Protocol): Buffer => {
+  const chunks: Buffer[] = [];
+  writeReply(chunks, value, protocol);
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Encodes a command and its arguments as a RESP multibulk request, the same
+ * form clients send. Used for the AOF so values containing spaces, CRLF or
+ * arbitrary bytes are replayed exactly.
+ *
+ * @param command - The command name.
+ * @param args - The raw arguments.
+ * @returns The encoded request.
+ */
+const encodeCommand = (command: string, args: Buffer[]): Buffer =>
+  encodeReply(reply.bulkArray([command, ...args]), 2);
+
+export { reply, encodeReply, encodeCommand, formatDouble };
@@ -0,0 +1,316 @@
+import crypto from "crypto";
+import vm from "vm";
+import config from "./config.json";
+import { Client } from "./client";
+import { CommandError } from "./errors";
+import { PropagatedCommand, propagateAs } from "./propagation";
+import { Reply, formatDouble, reply } from "./resp";
+import { fromBinaryString, toBinaryString } from "./utils/binary";
+
+/**
+ * Runs a command a script called, like the dispatcher runs a client's.
+ *
+ * @returns The reply, and the commands to propagate for it.
+ */
+export type ScriptDispatcher = (
+  command: string,
+  args: Buffer[],
+  client: Client
+) => { result: Reply; propagated: PropagatedCommand[] };
+
+/**
+ * A value as scripts see it. Replies convert to these and back, the way Lua
+ * scripts see them in redis: status replies become `{ ok }`, errors
+ * `{ err }`, nil `null`, and bulk strings binary strings, one character per
+ * byte.
+ */
+type ScriptValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | { ok?: unknown; err?: unknown }
+  | ScriptValue[];
+
+// Scripts compiled so far by their SHA1, in the order they were loaded.
+const scripts = new Map<string, vm.Script>();
+let dispatcher: ScriptDispatcher | null = null;
+
+// Defines KEYS, ARGV and the redis object in a new context. It runs inside
+// that context, so the script never holds an object of the server's realm
+// that would lead back to its globals: what crosses over is strings.
+const SETUP = `(function (keys, argv, dispatch, sha1hex) {
+  "use strict";
+  const { parse, stringify } = JSON;
+  const { freeze } = Object;
+  const isError = (value) =>
+    value !== null && typeof value === "object" && typeof value.err === "string";
+
+  const command = (raise) => (...args) => {
+    if (args.length === 0) {
+      throw freeze({ err: "ERR Please specify at least one argument for this redis lib call" });
+    }
+    if (args.some((arg) => typeof arg !== "string" && typeof arg !== "number")) {
+      throw freeze({ err: "ERR Script redis lib command arguments must be strings or numbers" });
+    }
+    const result = parse(dispatch(stringify(args)));
+    if (raise && isError(result)) {
+      throw result;
+    }
+    return result;
+  };
+
+  Object.defineProperties(globalThis, {
+    KEYS: { value: freeze(parse(keys)) },
+    ARGV: { value: freeze(parse(argv)) },
+    redis: {
+      value: freeze({
+        call: command(true),
+        pcall: command(false),
+        error_reply: (message) => freeze({ err: String(message) }),
+        status_reply: (message) => freeze({ ok: String(message) }),
+        sha1hex: (text) => sha1hex(String(text)),
+      }),
+    },
+  });
+})`;
+
+/**
+ * @returns The SHA1 of a script, as EVALSHA takes it.
+ */
+const sha1hex = (data: Buffer | string) =>
+  crypto.createHash("sha1").update(data).digest("hex");
+
+/**
+ * Converts a reply to what `redis.call` returns to the script.
+ */
+const toScriptValue = (value: Reply): ScriptValue => {
+  switch (value.type) {
+    case "simple":
+      return { ok: value.value };
+    case "error":
+      return { err: value.value };
+    case "integer":
+      return value.value;
+    case "bulk":
+      return toBinaryString(value.value);
+    case "array":
+    case "set":
+    case "push":
+      return value.value.map(toScriptValue);
+    case "map":
+      return value.value.flatMap(([key, item]) => [
+        toScriptValue(key),
+        toScriptValue(item),
+      ]);
+    case "double":
+      return formatDouble(value.value);
+    case "boolean":
+      return value.value ? 1 : 0;
+    case "verbatim":
+      return value.value;
+    case "null":
+    case "none":
+      return null;
+  }
+};
+
+/**
+ * Converts what a script returned to its reply. Numbers are truncated to
+ * integers, `true` becomes 1 and `false` nil. Other objects than `{ ok }`
+ * and `{ err }` have no reply and become nil too.
+ */
+const fromScriptValue = (value: ScriptValue): Reply => {
+  if (typeof value === "number") {
+    return reply.integer(Math.trunc(value));
+  }
+  if (typeof value === "string") {
+    return reply.bulk(fromBinaryString(value));
+  }
+  if (value === true) {
+    return reply.integer(1);
+  }
+  if (Array.isArray(value)) {
+    return reply.array(value.map(fromScriptValue));
+  }
+  if (value && typeof value === "object") {
+    if (typeof value.err === "string") {
+      return reply.error(value.err);
+    }
+    if (typeof value.ok === "string") {
+      return reply.simple(value.ok);
+    }
+  }
+  return reply.nil();
+};
+
+/**
+ * Sets the function scripts run their commands through. The dispatcher
+ * lives in the core, which needs this module for EVAL in turn.
+ */
+const initScripting = (dispatch: ScriptDispatcher) => {
+  dispatcher = dispatch;
+};
+
+/**
+ * Compiles a script and adds it to the cache, like SCRIPT LOAD. The body
+ * runs as a function body in strict mode, with `KEYS`, `ARGV` and `redis`
+ * as globals.
+ *
+ * @returns The script's SHA1.
+ * @throws {CommandError} If the script does not compile.
+ */
+const loadScript = (body: Buffer) => {
+  const sha = sha1hex(body);
+  if (scripts.has(sha)) {
+    return sha;
+  }
+
+  // The result is encoded before the script returns, so no getter or
+  // toJSON of the script's runs outside of the time limit.
+  const source = `(function () {
+  try {
+    return JSON.stringify({ value: (function () {
+"use strict";
+${toBinaryString(body)}
+})() });
+  } catch (e) {
+    const err = e !== null && typeof e === "object" ? e.err : undefined;
+    return JSON.stringify(typeof err === "string" ? { err } : { thrown: String(e) });
+  }
+})()`;
+
+  try {
+    scripts.set(
+      sha,
+      new vm.Script(source, { filename: "user_script", lineOffset: -4 })
+    );
+  } catch (e: any) {
+    throw new CommandError(
+      `ERR Error compiling script (new function): ${e.message}`
+    );
+  }
+  return sha;
+};
+
+/**
+ * Runs commands for a script through the dispatcher, collecting what they
+ * propagate. Everything is caught, since an error of this realm would give
+ * the script a way out of its context.
+ */
+const dispatchFromScript =
+  (client: Client, propagated: PropagatedCommand[]) => (json: string) => {
+    try {
+      const [name, ...args] = (JSON.parse(json) as (string | number)[]).map(
+        (arg) => fromBinaryString(String(arg))
+      );
+      const executed = (dispatcher as ScriptDispatcher)(
+        name.toString().toUpperCase(),
+        args,
+        client
+      );
+      propagated.push(...executed.propagated);
+      return JSON.stringify(toScriptValue(executed.result));
+    } catch (e: any) {
+      return JSON.stringify({ err: `ERR ${e?.message}` });
+    }
+  };
+
+/**
+ * Runs a cached script on behalf of a client, in a context of its own that
+ * has nothing of node but the JavaScript builtins. Scripts run atomically:
+ * nothing else runs until they return or exceed `scriptTimeLimit`
+ * milliseconds. `node:vm` is not a security boundary though, scripts are
+ * trusted like the clients sending them.
+ *
+ * The writes are propagated rather than the script, wrapped in MULTI/EXEC
+ * when there are several, so replaying them does not depend on the clock
+ * or randomness the script used. They are propagated even if the script
+ * fails halfway, since they were applied. Commands that would block reply
+ * right away instead, and a SELECT in the script does not change the
+ * client's database.
+ *
+ * @param sha - The SHA1 the script was loaded with.
+ * @returns The script's reply, or `undefined` if no such script was loaded.
+ */
+const runScript = (
+  sha: string,
+  keys: Buffer[],
+  argv: Buffer[],
+  client: Client
+): Reply | undefined => {
+  const script = scripts.get(sha);
+  if (!script) {
+    return undefined;
+  }
+
+  const propagated: PropagatedCommand[] = [];
+  const { db, denyBlocking } = client;
+  client.denyBlocking = true;
+
+  try {
+    const context = vm.createContext(Object.create(null), {
+      codeGeneration: { strings: false, wasm: false },
+    });
+    vm.runInContext(SETUP, context)(
+      JSON.stringify(keys.map(toBinaryString)),
+      JSON.stringify(argv.map(toBinaryString)),
+      dispatchFromScript(client, propagated),
+      sha1hex
+    );
+
+    const encoded: unknown = script.runInContext(context, {
+      timeout: config.scriptTimeLimit || undefined,
+    });
+    const outcome = typeof encoded === "string" ? JSON.parse(encoded) : {};
+    if (typeof outcome.err === "string") {
+      return reply.error(outcome.err);
+    }
+    if (typeof outcome.thrown === "string") {
+      return reply.error(
+        `ERR Error running script (call to f_${sha}): ${outcome.thrown}`
+      );
+    }
+    return fromScriptValue(outcome.value);
+  } catch (e: any) {
+    if (e?.code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+      return reply.error(
+        `ERR Script killed after running for more than ${config.scriptTimeLimit} milliseconds`
+      );
+    }
+    throw e;
+  } finally {
+    client.db = db;
+    client.denyBlocking = denyBlocking;
+    if (propagated.length > 1) {
+      propagateAs({ command: "MULTI", args: [] }, ...propagated, {
+        command: "EXEC",
+        args: [],
+      });
+    } else {
+      propagateAs(...propagated);
+    }
+  }
+};
+
+/**
+ * @returns Whether a script with this SHA1 is cached.
+ */
+const scriptExists = (sha: string) => scripts.has(sha);
+
+/**
+ * Empties the script cache, like SCRIPT FLUSH.
+ */
+const flushScripts = () => {
+  scripts.clear();
+};
+
+export {
+  initScripting,
+  loadScript,
+  runScript,
+  scriptExists,
+  flushScripts,
+  sha1hex,
+};
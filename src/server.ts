@@ -1,9 +1,10 @@
 import net from "net";
 import { logger } from "./utils/logger";
-import { executeCommand, init, parseCommand } from "./core";
-
-const port: number = 6379;
-const hostname: string = "127.0.0.1";
+import { connectClient, disconnectClient, init, processInput } from "./core";
+import { CommandParser, ParsedCommand, ProtocolError } from "./parser";
+import { resolveConfig } from "./settings";
+import config from "./config.json";
+import { startMetricsServer } from "./metrics";
 
 const log = logger("server");
 const server: net.Server = net.createServer();
@@ -11,31 +12,55 @@ const server: net.Server = net.createServer();
 server.on("connection", (socket: net.Socket) => {
   log.info("Client connected");
 
+  // Each connection keeps its own parser so partial commands survive
+  // between `data` events.
+  const parser = new CommandParser();
+  const client = connectClient(socket);
+
   socket.on("data", (data: Buffer<ArrayBufferLike>) => {
-    let response;
-    const reqData: string = data.toString();
+    let commands: ParsedCommand[];
 
     try {
-      const { command, args } = parseCommand(reqData);
-
-      response = executeCommand(command, args);
-
-      log.info(response);
+      commands = parser.feed(data);
     } catch (e: any) {
-      log.error(e.message);
-      socket.write("-ERR\r\n");
-      return;
+      if (e instanceof ProtocolError) {
+        log.error(`Protocol error: ${e.message}`);
+        socket.end(`-ERR Protocol error: ${e.message}\r\n`);
+        return;
+      }
+      throw e;
     }
 
-    socket.write(response);
+    client.queryBufferLength = parser.bufferedLength;
+
+    // Queued behind anything still waiting on a blocked command.
+    client.pendingCommands = client.pendingCommands.concat(commands);
+    processInput(client);
   });
 
   socket.on("end", () => {
     log.info("Client disconnected");
+    disconnectClient(client);
+  });
+
+  socket.on("error", (e) => {
+    log.error(`Client ${client.id} socket error: ${e.message}`);
+  });
+
+  // Also fires when the socket is destroyed without an `end`, e.g. on errors.
+  socket.on("close", () => {
+    disconnectClient(client);
   });
 });
 
-server.listen(port, hostname, () => {
+resolveConfig(process.argv.slice(2), process.env);
+
+server.listen(config.port, config.bind, () => {
   init();
-  log.info(`Server running at http://${hostname}:${port}`);
+  log.info(`Server running at http://${config.bind}:${config.port}`);
+
+  // Off unless a port is configured.
+  if (config.metricsPort) {
+    startMetricsServer(config.bind, config.metricsPort);
+  }
 });
@@ -0,0 +1,320 @@
+import buffer from "buffer";
+import fs from "fs";
+import path from "path";
+import config from "./config.json";
+import { globMatch } from "./utils/glob";
+
+export type Setting = keyof typeof config;
+
+type SettingValue = string | number | boolean;
+
+// The values `config.json` ships with, which CONFIG REWRITE leaves out.
+const DEFAULTS: Record<string, unknown> = { ...config };
+
+// The bounds of numeric settings, all of which are integers, so a value
+// breaking the code reading it is refused wherever it comes from.
+const RANGES: Partial<Record<Setting, [number, number]>> = {
+  port: [0, 65535],
+  metricsPort: [0, 65535],
+  autoAofRewritePercentage: [0, Number.MAX_SAFE_INTEGER],
+  autoAofRewriteMinSize: [0, Number.MAX_SAFE_INTEGER],
+  databases: [1, Number.MAX_SAFE_INTEGER],
+  aclLogMaxLen: [0, Number.MAX_SAFE_INTEGER],
+  maxMemory: [0, Number.MAX_SAFE_INTEGER],
+  maxMemorySamples: [1, 64],
+  lfuLogFactor: [0, Number.MAX_SAFE_INTEGER],
+  lfuDecayTime: [0, Number.MAX_SAFE_INTEGER],
+  replBacklogSize: [1, buffer.constants.MAX_LENGTH],
+  replPingReplicaPeriod: [1, Number.MAX_SAFE_INTEGER],
+  replTimeout: [1, Number.MAX_SAFE_INTEGER],
+  scriptTimeLimit: [0, Number.MAX_SAFE_INTEGER],
+  // -1 turns the slowlog off.
+  slowlogLogSlowerThan: [-1, Number.MAX_SAFE_INTEGER],
+  slowlogMaxLen: [0, Number.MAX_SAFE_INTEGER],
+};
+
+// The file the server was started with, which CONFIG REWRITE updates.
+let configFile: string | null = null;
+
+/**
+ * @returns The names of every setting, in the order of `config.json`.
+ */
+const settingNames = () => Object.keys(config) as Setting[];
+
+/**
+ * Finds a setting by name, ignoring case and dashes so redis' spelling,
+ * e.g. `maxmemory-policy` for `maxMemoryPolicy`, works too.
+ *
+ * @returns The setting, or `null` if there is none by that name.
+ */
+const findSetting = (name: string): Setting | null => {
+  const normalized = name.replace(/-/g, "").toLowerCase();
+  return (
+    settingNames().find((setting) => setting.toLowerCase() === normalized) ??
+    null
+  );
+};
+
+/**
+ * Lists the settings matching a glob pattern, ignoring case and dashes like
+ * `findSetting`. Dashes of `[a-z]` ranges are kept.
+ */
+const matchSettings = (pattern: string) => {
+  const normalized = pattern.replace(/-(?![^[]*\])/g, "");
+  return settingNames().filter((setting) =>
+    globMatch(normalized, setting, true)
+  );
+};
+
+/**
+ * Parses a value for a setting, typed like its default: an integer within
+ * the setting's `RANGES`, `yes`/`no` (or `true`/`false`) for a boolean, or
+ * a string.
+ *
+ * @throws {Error} If the value does not fit the setting's type or range.
+ */
+const parseSettingValue = (setting: Setting, value: string): SettingValue => {
+  const current = config[setting];
+
+  if (typeof current === "number") {
+    const number = Number(value);
+    if (!value.trim() || !Number.isSafeInteger(number)) {
+      throw new Error("argument couldn't be parsed into an integer");
+    }
+    const [min, max] = RANGES[setting] ?? [-Infinity, Infinity];
+    if (number < min || number > max) {
+      throw new Error(`argument must be between ${min} and ${max} inclusive`);
+    }
+    return number;
+  }
+  if (typeof current === "boolean") {
+    const flag = value.toLowerCase();
+    if (flag === "yes" || flag === "true") {
+      return true;
+    }
+    if (flag === "no" || flag === "false") {
+      return false;
+    }
+    throw new Error("argument must be 'yes' or 'no'");
+  }
+  if (/[\r\n]/.test(value)) {
+    throw new Error("argument must not contain newlines");
+  }
+  return value;
+};
+
+/**
+ * Formats a setting's value the way CONFIG GET shows it, booleans as
+ * `yes`/`no`.
+ */
+const formatSettingValue = (setting: Setting) => {
+  const value = config[setting];
+  if (typeof value === "boolean") {
+    return value ? "yes" : "no";
+  }
+  return `${value}`;
+};
+
+/**
+ * @throws {Error} For an unknown setting or a value of the wrong type.
+ */
+const applySetting = (name: string, value: string) => {
+  const setting = findSetting(name);
+  if (!setting) {
+    throw new Error(`Unknown setting '${name}'`);
+  }
+  try {
+    Object.assign(config, { [setting]: parseSettingValue(setting, value) });
+  } catch (e: any) {
+    throw new Error(`Setting '${name}': ${e.message}`);
+  }
+};
+
+/**
+ * Splits a config file line into the setting and its value, which is the
+ * rest of the line. A value in double quotes is taken as it is, which is
+ * how an empty value is written.
+ *
+ * @returns `null` for blank lines and comments.
+ */
+const parseConfigLine = (line: string) => {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith("#")) {
+    return null;
+  }
+  const [, name, rest = ""] = trimmed.match(/^(\S+)\s*(.*)$/) as string[];
+  const quoted = rest.match(/^"(.*)"$/);
+  return { name, value: quoted ? quoted[1] : rest };
+};
+
+const formatConfigLine = (setting: Setting) => {
+  const value = formatSettingValue(setting);
+  return `${setting} ${value === "" ? '""' : value}`;
+};
+
+/**
+ * Applies a config file in the format of redis.conf: one
+ * `<setting> <value>` per line, blank lines and lines starting with `#`
+ * being ignored.
+ *
+ * ```
+ * port 6380
+ * appendOnly yes
+ * save 900 1 300 10
+ * requirePass ""
+ * ```
+ *
+ * @throws {Error} For the first invalid line as `<path>:<line>: <message>`,
+ *                 or if the file cannot be read.
+ */
+const applyConfigFile = (file: string) => {
+  const lines = fs.readFileSync(file, "utf8").split(/\r?\n/);
+  lines.forEach((line, index) => {
+    const directive = parseConfigLine(line);
+    if (!directive) {
+      return;
+    }
+    try {
+      applySetting(directive.name, directive.value);
+    } catch (e: any) {
+      throw new Error(`${file}:${index + 1}: ${e.message}`);
+    }
+  });
+};
+
+/**
+ * The environment variable for a setting, e.g. `REDIS_MAX_MEMORY` for
+ * `maxMemory`.
+ */
+const envName = (setting: Setting) =>
+  `REDIS_${setting.replace(/[A-Z]/g, (letter) => `_${letter}`).toUpperCase()}`;
+
+/**
+ * Applies the `REDIS_<SETTING>` environment variables that are set.
+ *
+ * @throws {Error} For a value of the wrong type.
+ */
+const applyConfigEnv = (env: NodeJS.ProcessEnv) => {
+  for (const setting of settingNames()) {
+    const value = env[envName(setting)];
+    if (value !== undefined) {
+      applySetting(setting, value);
+    }
+  }
+};
+
+/**
+ * Applies command line options, so several servers can run from the same
+ * tree, e.g.
+ * `npm run start:dev -- --port 6380 --dir /tmp/replica --replicaOf 127.0.0.1 6379`.
+ *
+ * Each `--<setting>` takes the words up to the next option as its value.
+ *
+ * @param args - The options.
+ * @throws {Error} For an unknown setting or a value of the wrong type.
+ */
+const applyConfigArgs = (args: string[]) => {
+  for (let i = 0; i < args.length; ) {
+    if (!args[i].startsWith("--")) {
+      throw new Error(`Unexpected argument '${args[i]}'`);
+    }
+    const name = args[i++].slice(2);
+    const words: string[] = [];
+    while (i < args.length && !args[i].startsWith("--")) {
+      words.push(args[i++]);
+    }
+    applySetting(name, words.join(" "));
+  }
+};
+
+/**
+ * Resolves the settings the server starts with. Each source overrides the
+ * ones before it:
+ *
+ * 1. The defaults in `config.json`.
+ * 2. The config file, when the first argument is its path, e.g.
+ *    `npm run start:dev -- ./redis.conf --port 6380`.
+ * 3. `REDIS_<SETTING>` environment variables, e.g. `REDIS_PORT=6380`.
+ * 4. `--<setting>` command line options.
+ *
+ * @param args - The arguments after the script name.
+ * @param env - The environment variables.
+ * @throws {Error} For an unknown setting or a value of the wrong type.
+ */
+const resolveConfig = (args: string[], env: NodeJS.ProcessEnv) => {
+  if (args.length > 0 && !args[0].startsWith("--")) {
+    configFile = path.resolve(args[0]);
+    applyConfigFile(configFile);
+    args = args.slice(1);
+  }
+  applyConfigEnv(env);
+  applyConfigArgs(args);
+};
+
+/**
+ * @returns The absolute path of the config file the server was started
+ *          with, or `null` if there is none.
+ */
+const configFilePath = () => configFile;
+
+/**
+ * Saves the current settings to the config file, like CONFIG REWRITE.
+ * Lines of the file keep their place and comments are kept, with the
+ * values updated. Settings that differ from their default and are not in
+ * the file yet are added at the end. The new file replaces the old one
+ * atomically.
+ *
+ * @throws {Error} If the server was started without a config file, or it
+ *                 cannot be written.
+ */
+const rewriteConfigFile = () => {
+  if (!configFile) {
+    throw new Error("The server is running without a config file");
+  }
+
+  // Missing when it was deleted since the server started.
+  const lines = fs.existsSync(configFile)
+    ? fs
+        .readFileSync(configFile, "utf8")
+        .replace(/\r?\n$/, "")
+        .split(/\r?\n/)
+    : [];
+  const written = new Set<Setting>();
+  const rewritten = lines.flatMap((line) => {
+    const directive = parseConfigLine(line);
+    const setting = directive && findSetting(directive.name);
+    if (!setting) {
+      return [line];
+    }
+    // Repeated lines would override each other, only the first is kept.
+    if (written.has(setting)) {
+      return [];
+    }
+    written.add(setting);
+    return [formatConfigLine(setting)];
+  });
+  for (const setting of settingNames()) {
+    if (!written.has(setting) && config[setting] !== DEFAULTS[setting]) {
+      rewritten.push(formatConfigLine(setting));
+    }
+  }
+
+  const tempPath = `${configFile}.tmp-${process.pid}`;
+  try {
+    fs.writeFileSync(tempPath, `${rewritten.join("\n")}\n`);
+    fs.renameSync(tempPath, configFile);
+  } catch (e: any) {
+    throw new Error(`Rewriting config file: ${e.message}`);
+  }
+};
+
+export {
+  settingNames,
+  findSetting,
+  matchSettings,
+  parseSettingValue,
+  formatSettingValue,
+  resolveConfig,
+  configFilePath,
+  rewriteConfigFile,
+};
@@ -0,0 +1,91 @@
+import config from "./config.json";
+import { Client, clientAddress } from "./client";
+
+/**
+ * A command that ran for longer than `slowlogLogSlowerThan`. `duration` is
+ * in microseconds and `timestamp` in unix seconds.
+ */
+export type SlowlogEntry = {
+  id: number;
+  timestamp: number;
+  duration: number;
+  args: Buffer[];
+  address: string;
+  name: string;
+};
+
+// Entries keep this many arguments at most, the last one telling how many
+// were left out, and this many bytes of each.
+const MAX_ARGS = 32;
+const MAX_ARG_LENGTH = 128;
+
+// Most recent first, at most `slowlogMaxLen` of them.
+const entries: SlowlogEntry[] = [];
+let nextEntryId = 0;
+
+/**
+ * Truncates the arguments of a command, so a slow command with huge values
+ * does not keep them in memory.
+ */
+const trimArguments = (command: string, args: Buffer[]) => {
+  const all = [Buffer.from(command.toLowerCase()), ...args];
+  const kept = all.length > MAX_ARGS ? all.slice(0, MAX_ARGS - 1) : all;
+
+  const trimmed = kept.map((arg) =>
+    arg.length > MAX_ARG_LENGTH
+      ? Buffer.concat([
+          arg.subarray(0, MAX_ARG_LENGTH),
+          Buffer.from(`... (${arg.length - MAX_ARG_LENGTH} more bytes)`),
+        ])
+      : Buffer.from(arg)
+  );
+  if (kept.length < all.length) {
+    trimmed.push(
+      Buffer.from(`... (${all.length - kept.length} more arguments)`)
+    );
+  }
+  return trimmed;
+};
+
+/**
+ * Logs a command when it ran for at least `slowlogLogSlowerThan`
+ * microseconds. A negative threshold disables the log, 0 logs everything.
+ *
+ * @param duration - How long the command ran, in milliseconds.
+ */
+const logSlowCommand = (
+  client: Client,
+  command: string,
+  args: Buffer[],
+  duration: number
+) => {
+  const micros = Math.round(duration * 1000);
+  if (config.slowlogLogSlowerThan < 0 || micros < config.slowlogLogSlowerThan) {
+    return;
+  }
+
+  entries.unshift({
+    id: nextEntryId++,
+    timestamp: Math.floor(Date.now() / 1000),
+    duration: micros,
+    args: trimArguments(command, args),
+    address: clientAddress(client),
+    name: client.name ?? "",
+  });
+  entries.length = Math.min(entries.length, Math.max(0, config.slowlogMaxLen));
+};
+
+/**
+ * @param count - How many entries to return, all of them when negative.
+ * @returns The most recent entries, newest first.
+ */
+const slowlogEntries = (count: number) =>
+  count < 0 ? [...entries] : entries.slice(0, count);
+
+const slowlogLength = () => entries.length;
+
+const resetSlowlog = () => {
+  entries.length = 0;
+};
+
+export { logSlowCommand, slowlogEntries, slowlogLength, resetSlowlog };
@@ -0,0 +1,333 @@
+import { Dict, DictSet } from "./dict";
+import { SortedSet } from "./sorted-set";
+import { Database, StoreValue } from "./store.types";
+import { fromBinaryString, toBinaryString } from "./utils/binary";
+import { crc64 } from "./utils/crc64";
+
+/**
+ * Binary snapshot layout, modelled on redis RDB files:
+ *
+ * ```
+ * "RSNAP" <version: 4 ASCII digits>
+ * ( SELECTDB <db>
+ *   ( [EXPIRETIME_MS <unix ms: 8 bytes>] <type> <key> <value> )* )*
+ * EOF <CRC64 of everything before it: 8 bytes>
+ * ```
+ *
+ * Lengths and counts use the RDB length encoding, strings are a length
+ * followed by the raw bytes, and scores are little-endian doubles.
+ */
+const MAGIC = "RSNAP";
+
+// Versions 1 to 3 were JSON documents, see `loadSnapshotSync`.
+const SNAPSHOT_VERSION = 4;
+
+const OPCODE_EXPIRETIME_MS = 0xfc;
+const OPCODE_SELECTDB = 0xfe;
+const OPCODE_EOF = 0xff;
+
+const TYPE_TAGS: Record<StoreValue["type"], number> = {
+  string: 0,
+  list: 1,
+  set: 2,
+  zset: 3,
+  hash: 4,
+};
+
+/**
+ * A key read from or written to a snapshot.
+ */
+export type SnapshotEntry = {
+  db: number;
+  key: string;
+  entry: StoreValue;
+  expiresAt?: number;
+};
+
+/**
+ * Thrown for a snapshot that cannot be read. `offset` is where reading
+ * stopped, and `entries` how many keys were read intact before it.
+ */
+class SnapshotError extends Error {
+  constructor(message: string, public offset: number, public entries: number) {
+    super(message);
+    this.name = "SnapshotError";
+  }
+}
+
+/**
+ * Encodes a length in 1, 2, 5 or 9 bytes depending on its size, like the
+ * RDB length encoding.
+ */
+const encodeLength = (length: number) => {
+  if (length < 1 << 6) {
+    return Buffer.from([length]);
+  }
+  if (length < 1 << 14) {
+    return Buffer.from([0x40 | (length >> 8), length & 0xff]);
+  }
+  if (length <= 0xffffffff) {
+    const encoded = Buffer.alloc(5);
+    encoded[0] = 0x80;
+    encoded.writeUInt32BE(length, 1);
+    return encoded;
+  }
+  const encoded = Buffer.alloc(9);
+  encoded[0] = 0x81;
+  encoded.writeBigUInt64BE(BigInt(length), 1);
+  return encoded;
+};
+
+const encodeString = (value: Buffer) => [encodeLength(value.length), value];
+
+const encodeDouble = (value: number) => {
+  const encoded = Buffer.alloc(8);
+  encoded.writeDoubleLE(value);
+  return encoded;
+};
+
+const encodeValue = (entry: StoreValue): Buffer[] => {
+  switch (entry.type) {
+    case "string":
+      return encodeString(entry.value);
+    case "list":
+      return [
+        encodeLength(entry.value.length),
+        ...entry.value.flatMap(encodeString),
+      ];
+    case "set":
+      return [
+        encodeLength(entry.value.size),
+        ...[...entry.value].flatMap((member) =>
+          encodeString(fromBinaryString(member))
+        ),
+      ];
+    case "zset":
+      return [
+        encodeLength(entry.value.size),
+        ...[...entry.value.entries()].flatMap(([member, score]) => [
+          ...encodeString(fromBinaryString(member)),
+          encodeDouble(score),
+        ]),
+      ];
+    case "hash":
+      return [
+        encodeLength(entry.value.size),
+        ...[...entry.value].flatMap(([field, value]) => [
+          ...encodeString(fromBinaryString(field)),
+          ...encodeString(value),
+        ]),
+      ];
+  }
+};
+
+/**
+ * Lists the keys of every database that have not expired at `now`.
+ */
+function* databaseEntries(
+  databases: Database[],
+  now = Date.now()
+): Generator<SnapshotEntry> {
+  for (let db = 0; db < databases.length; db++) {
+    const { store, expirationTimes } = databases[db];
+    for (const [key, entry] of store) {
+      const expiresAt = expirationTimes.get(key);
+      if (expiresAt !== undefined && expiresAt < now) {
+        continue;
+      }
+      yield { db, key, entry, expiresAt };
+    }
+  }
+}
+
+/**
+ * Encodes keys into a snapshot. Entries must be grouped by database.
+ *
+ * @param entries - The keys to write, e.g. from `databaseEntries`.
+ * @returns The whole file, checksum included.
+ */
+const encodeSnapshot = (entries: Iterable<SnapshotEntry>) => {
+  const encoded: Buffer[] = [
+    Buffer.from(`${MAGIC}${String(SNAPSHOT_VERSION).padStart(4, "0")}`),
+  ];
+  let selected: number | null = null;
+
+  for (const { db, key, entry, expiresAt } of entries) {
+    if (db !== selected) {
+      encoded.push(Buffer.from([OPCODE_SELECTDB]), encodeLength(db));
+      selected = db;
+    }
+    if (expiresAt !== undefined) {
+      const when = Buffer.alloc(9);
+      when[0] = OPCODE_EXPIRETIME_MS;
+      when.writeBigUInt64LE(BigInt(expiresAt), 1);
+      encoded.push(when);
+    }
+    encoded.push(
+      Buffer.from([TYPE_TAGS[entry.type]]),
+      ...encodeString(fromBinaryString(key)),
+      ...encodeValue(entry)
+    );
+  }
+
+  encoded.push(Buffer.from([OPCODE_EOF]));
+  const body = Buffer.concat(encoded);
+  return Buffer.concat([body, crc64(body)]);
+};
+
+/**
+ * Tells whether data starts like a snapshot, e.g. an AOF written with a
+ * snapshot preamble.
+ */
+const hasSnapshotSignature = (data: Buffer) =>
+  data.subarray(0, MAGIC.length).toString("latin1") === MAGIC;
+
+/**
+ * Reads the keys of a snapshot one by one, checking its structure and
+ * checksum.
+ *
+ * @param data - The whole file.
+ * @param onEntry - Called for every key, in file order.
+ * @param preamble - Whether the snapshot is only the start of `data`, as in
+ *                   an AOF with a snapshot preamble. Otherwise anything
+ *                   after the checksum is an error.
+ * @returns The number of keys read, and the length of the snapshot.
+ * @throws {SnapshotError} If the file is truncated, malformed or its
+ *         checksum does not match. Keys read before the problem were
+ *         already passed to `onEntry`.
+ */
+const readSnapshot = (
+  data: Buffer,
+  onEntry: (entry: SnapshotEntry) => void,
+  preamble = false
+) => {
+  let offset = 0;
+  let entries = 0;
+  let db = 0;
+
+  const fail = (message: string): never => {
+    throw new SnapshotError(message, offset, entries);
+  };
+  const take = (length: number) => {
+    if (offset + length > data.length) {
+      fail("Unexpected end of file");
+    }
+    const bytes = data.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+  const readLength = () => {
+    const first = take(1)[0];
+    switch (first >> 6) {
+      case 0:
+        return first;
+      case 1:
+        return ((first & 0x3f) << 8) | take(1)[0];
+      default:
+        if (first === 0x80) {
+          return take(4).readUInt32BE(0);
+        }
+        if (first === 0x81) {
+          return Number(take(8).readBigUInt64BE(0));
+        }
+        return fail(`Invalid length encoding 0x${first.toString(16)}`);
+    }
+  };
+  const readString = () => Buffer.from(take(readLength()));
+  const readBinaryString = () => toBinaryString(take(readLength()));
+  // Grows the array as elements are read, so a corrupt count runs into the
+  // end of the file instead of allocating a huge array.
+  const times = <T>(count: number, read: () => T) => {
+    const values: T[] = [];
+    while (values.length < count) {
+      values.push(read());
+    }
+    return values;
+  };
+
+  const header = take(MAGIC.length + 4).toString("latin1");
+  if (!header.startsWith(MAGIC)) {
+    fail("Wrong signature, not a snapshot file");
+  }
+  const version = Number(header.slice(MAGIC.length));
+  if (!Number.isInteger(version) || version > SNAPSHOT_VERSION) {
+    fail(`Can't handle snapshot format version ${header.slice(MAGIC.length)}`);
+  }
+
+  for (;;) {
+    const opcode = take(1)[0];
+    if (opcode === OPCODE_EOF) {
+      break;
+    }
+    if (opcode === OPCODE_SELECTDB) {
+      db = readLength();
+      continue;
+    }
+
+    let expiresAt: number | undefined;
+    let type = opcode;
+    if (opcode === OPCODE_EXPIRETIME_MS) {
+      expiresAt = Number(take(8).readBigInt64LE(0));
+      type = take(1)[0];
+    }
+
+    const key = readBinaryString();
+    let entry: StoreValue;
+    switch (type) {
+      case TYPE_TAGS.string:
+        entry = { type: "string", value: readString() };
+        break;
+      case TYPE_TAGS.list:
+        entry = { type: "list", value: times(readLength(), readString) };
+        break;
+      case TYPE_TAGS.set:
+        entry = {
+          type: "set",
+          value: new DictSet(times(readLength(), readBinaryString)),
+        };
+        break;
+      case TYPE_TAGS.zset: {
+        const zset = new SortedSet();
+        for (let count = readLength(); count > 0; count--) {
+          const member = readBinaryString();
+          zset.add(member, take(8).readDoubleLE(0));
+        }
+        entry = { type: "zset", value: zset };
+        break;
+      }
+      case TYPE_TAGS.hash: {
+        const hash = new Dict<Buffer>();
+        for (let count = readLength(); count > 0; count--) {
+          const field = readBinaryString();
+          hash.set(field, readString());
+        }
+        entry = { type: "hash", value: hash };
+        break;
+      }
+      default:
+        return fail(`Unknown type tag 0x${type.toString(16)}`);
+    }
+
+    onEntry({ db, key, entry, expiresAt });
+    entries++;
+  }
+
+  const checksum = take(8);
+  if (!checksum.equals(crc64(data.subarray(0, offset - 8)))) {
+    fail("Checksum mismatch");
+  }
+  if (!preamble && offset !== data.length) {
+    fail("Trailing data after the checksum");
+  }
+
+  return { entries, length: offset };
+};
+
+export {
+  SNAPSHOT_VERSION,
+  SnapshotError,
+  databaseEntries,
+  encodeSnapshot,
+  hasSnapshotSignature,
+  readSnapshot,
+};
@@ -0,0 +1,138 @@
+import config from "./config.json";
+import { logger } from "./utils/logger";
+import { persistence } from "./persistence";
+import { markChangesSaved, unsavedChanges } from "./keyspace";
+
+const log = logger("snapshot");
+
+/**
+ * Save the dataset once at least `changes` changes were made in the last
+ * `seconds` seconds.
+ */
+export type SaveRule = { seconds: number; changes: number };
+
+// How often the save rules are checked.
+const SAVE_CRON_INTERVAL = 1000;
+// After a failed background save, wait this long before the rules may
+// trigger another one.
+const SAVE_RETRY_DELAY = 5000;
+
+// Unix time in milliseconds of the last successful save, or of the startup.
+let lastSave = Date.now();
+let lastSaveAttempt = 0;
+let lastBgsaveStatus: "ok" | "err" = "ok";
+let bgsaveInProgress = false;
+
+/**
+ * Parses save rules written like redis' `save` directive, e.g.
+ * `3600 1 300 100` for "after 1 change in an hour or 100 in 5 minutes".
+ * An empty string disables the rules.
+ *
+ * @throws {Error} If the rules are not pairs of positive integers.
+ */
+const parseSaveRules = (value: string): SaveRule[] => {
+  const numbers = value.trim() ? value.trim().split(/\s+/) : [];
+  if (
+    numbers.length % 2 !== 0 ||
+    numbers.some((number) => !/^[1-9]\d*$/.test(number))
+  ) {
+    throw new Error(`Invalid save parameters: '${value}'`);
+  }
+
+  const rules: SaveRule[] = [];
+  for (let i = 0; i < numbers.length; i += 2) {
+    rules.push({
+      seconds: Number(numbers[i]),
+      changes: Number(numbers[i + 1]),
+    });
+  }
+  return rules;
+};
+
+/**
+ * Saves the dataset right away, blocking every client, like SAVE.
+ *
+ * @throws {Error} If the snapshot could not be written.
+ */
+const save = () => {
+  const changes = unsavedChanges();
+  persistence.saveSnapshotSync();
+  markChangesSaved(changes);
+  lastSave = Date.now();
+  log.info("DB saved on disk");
+};
+
+/**
+ * Saves the dataset in the background, like BGSAVE.
+ *
+ * @returns `false` if a background save is already running.
+ */
+const bgsave = () => {
+  if (bgsaveInProgress) {
+    return false;
+  }
+
+  const changes = unsavedChanges();
+  bgsaveInProgress = true;
+  lastSaveAttempt = Date.now();
+
+  persistence
+    .saveSnapshotAsync()
+    .then(() => {
+      markChangesSaved(changes);
+      lastSave = Date.now();
+      lastBgsaveStatus = "ok";
+      log.info("Background saving terminated with success");
+    })
+    .catch((error) => {
+      lastBgsaveStatus = "err";
+      log.error("Background saving error:", error?.message);
+    })
+    .finally(() => {
+      bgsaveInProgress = false;
+    });
+
+  return true;
+};
+
+/**
+ * Starts a background save whenever one of the `config.save` rules is met,
+ * while `config.snapshot` is enabled. Both are read on every check, so they
+ * may change at runtime. Nothing is saved while the dataset does not
+ * change.
+ *
+ * @returns The timer, so the caller can stop checking.
+ */
+const startSaveCron = () =>
+  setInterval(() => {
+    const now = Date.now();
+    if (
+      !config.snapshot ||
+      bgsaveInProgress ||
+      (lastBgsaveStatus === "err" && now - lastSaveAttempt < SAVE_RETRY_DELAY)
+    ) {
+      return;
+    }
+
+    const changes = unsavedChanges();
+    const rule = parseSaveRules(config.save).find(
+      ({ seconds, changes: needed }) =>
+        changes >= needed && now - lastSave >= seconds * 1000
+    );
+    if (rule) {
+      log.info(`${rule.changes} changes in ${rule.seconds} seconds. Saving...`);
+      bgsave();
+    }
+  }, SAVE_CRON_INTERVAL);
+
+/**
+ * @returns The snapshot state INFO and LASTSAVE report.
+ */
+const snapshotInfo = () => ({
+  changes: unsavedChanges(),
+  bgsaveInProgress,
+  lastSave,
+  lastBgsaveStatus,
+});
+
+export { parseSaveRules, save, bgsave, startSaveCron, snapshotInfo };
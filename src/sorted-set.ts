@@ -0,0 +1,513 @@
+import { Dict } from "./dict";
+
+const MAX_LEVEL = 32;
+// Chance of a node reaching the next level, the value redis uses.
+const LEVEL_PROBABILITY = 0.25;
+
+export type ScoreRange = {
+  min: number;
+  max: number;
+  minExclusive: boolean;
+  maxExclusive: boolean;
+};
+
+/**
+ * A lexicographical range bound. `-Infinity` and `Infinity` stand for the
+ * `-` and `+` bounds, which are lower and greater than every member.
+ */
+export type LexBound = { value: string | number; exclusive: boolean };
+export type LexRange = { min: LexBound; max: LexBound };
+
+type SkipListLevel = { forward: SkipListNode | null; span: number };
+
+class SkipListNode {
+  backward: SkipListNode | null = null;
+  levels: SkipListLevel[];
+
+  constructor(public member: string, public score: number, level: number) {
+    this.levels = Array.from({ length: level }, () => ({
+      forward: null,
+      span: 0,
+    }));
+  }
+}
+
+const randomLevel = () => {
+  let level = 1;
+  while (level < MAX_LEVEL && Math.random() < LEVEL_PROBABILITY) {
+    level++;
+  }
+  return level;
+};
+
+/**
+ * Elements are ordered by score, then by member. Members are binary strings
+ * so comparing their char codes is the same as comparing bytes.
+ */
+const precedes = (node: SkipListNode, score: number, member: string) =>
+  node.score < score || (node.score === score && node.member < member);
+
+const aboveMin = (score: number, range: ScoreRange) =>
+  range.minExclusive ? score > range.min : score >= range.min;
+
+const belowMax = (score: number, range: ScoreRange) =>
+  range.maxExclusive ? score < range.max : score <= range.max;
+
+const compareLex = (member: string, bound: LexBound) => {
+  if (typeof bound.value === "number") {
+    return bound.value < 0 ? 1 : -1;
+  }
+  return member < bound.value ? -1 : member > bound.value ? 1 : 0;
+};
+
+const aboveLexMin = (member: string, range: LexRange) => {
+  const comparison = compareLex(member, range.min);
+  return range.min.exclusive ? comparison > 0 : comparison >= 0;
+};
+
+const belowLexMax = (member: string, range: LexRange) => {
+  const comparison = compareLex(member, range.max);
+  return range.max.exclusive ? comparison < 0 : comparison <= 0;
+};
+
+/**
+ * Skiplist as described by William Pugh, with the redis additions: a
+ * backward pointer on every node for reverse iteration, and the span
+ * (number of nodes skipped) on every forward pointer so ranks can be
+ * computed in O(log n).
+ */
+class SkipList {
+  #header = new SkipListNode("", -Infinity, MAX_LEVEL);
+  #tail: SkipListNode | null = null;
+  #level = 1;
+  length = 0;
+
+  get first() {
+    return this.#header.levels[0].forward;
+  }
+
+  get last() {
+    return this.#tail;
+  }
+
+  /**
+   * Walks down the levels to the last node before (score, member) and
+   * returns it for every level, together with its rank.
+   */
+  #findPredecessors(score: number, member: string) {
+    const update: SkipListNode[] = [];
+    const rank: number[] = [];
+    let node = this.#header;
+
+    for (let i = this.#level - 1; i >= 0; i--) {
+      rank[i] = i === this.#level - 1 ? 0 : rank[i + 1];
+      let next = node.levels[i].forward;
+      while (next && precedes(next, score, member)) {
+        rank[i] += node.levels[i].span;
+        node = next;
+        next = node.levels[i].forward;
+      }
+      update[i] = node;
+    }
+
+    return { update, rank };
+  }
+
+  insert(score: number, member: string) {
+    const { update, rank } = this.#findPredecessors(score, member);
+    const level = randomLevel();
+
+    if (level > this.#level) {
+      for (let i = this.#level; i < level; i++) {
+        rank[i] = 0;
+        update[i] = this.#header;
+        update[i].levels[i].span = this.length;
+      }
+      this.#level = level;
+    }
+
+    const node = new SkipListNode(member, score, level);
+    for (let i = 0; i < level; i++) {
+      node.levels[i].forward = update[i].levels[i].forward;
+      update[i].levels[i].forward = node;
+      node.levels[i].span = update[i].levels[i].span - (rank[0] - rank[i]);
+      update[i].levels[i].span = rank[0] - rank[i] + 1;
+    }
+
+    // Levels above the new node now skip one more element.
+    for (let i = level; i < this.#level; i++) {
+      update[i].levels[i].span++;
+    }
+
+    node.backward = update[0] === this.#header ? null : update[0];
+    const next = node.levels[0].forward;
+    if (next) {
+      next.backward = node;
+    } else {
+      this.#tail = node;
+    }
+
+    this.length++;
+    return node;
+  }
+
+  delete(score: number, member: string) {
+    const { update } = this.#findPredecessors(score, member);
+    const node = update[0].levels[0].forward;
+
+    if (!node || node.score !== score || node.member !== member) {
+      return false;
+    }
+
+    for (let i = 0; i < this.#level; i++) {
+      if (update[i].levels[i].forward === node) {
+        update[i].levels[i].span += node.levels[i].span - 1;
+        update[i].levels[i].forward = node.levels[i].forward;
+      } else {
+        update[i].levels[i].span--;
+      }
+    }
+
+    const next = node.levels[0].forward;
+    if (next) {
+      next.backward = node.backward;
+    } else {
+      this.#tail = node.backward;
+    }
+
+    while (this.#level > 1 && !this.#header.levels[this.#level - 1].forward) {
+      this.#level--;
+    }
+
+    this.length--;
+    return true;
+  }
+
+  /**
+   * @returns The 1-based rank of the element, or 0 if it is not in the list.
+   */
+  rank(score: number, member: string) {
+    let rank = 0;
+    let node = this.#header;
+
+    for (let i = this.#level - 1; i >= 0; i--) {
+      let next = node.levels[i].forward;
+      while (
+        next &&
+        (precedes(next, score, member) ||
+          (next.score === score && next.member === member))
+      ) {
+        rank += node.levels[i].span;
+        node = next;
+        next = node.levels[i].forward;
+      }
+      if (node !== this.#header && node.member === member) {
+        return rank;
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * @param rank - A 1-based rank.
+   * @returns The node at that rank, or `null` if it is out of range.
+   */
+  byRank(rank: number) {
+    let traversed = 0;
+    let node = this.#header;
+
+    for (let i = this.#level - 1; i >= 0; i--) {
+      while (
+        node.levels[i].forward &&
+        traversed + node.levels[i].span <= rank
+      ) {
+        traversed += node.levels[i].span;
+        node = node.levels[i].forward as SkipListNode;
+      }
+      if (traversed === rank) {
+        return node === this.#header ? null : node;
+      }
+    }
+
+    return null;
+  }
+
+  firstInRange(range: ScoreRange) {
+    let node = this.#header;
+
+    for (let i = this.#level - 1; i >= 0; i--) {
+      let next = node.levels[i].forward;
+      while (next && !aboveMin(next.score, range)) {
+        node = next;
+        next = node.levels[i].forward;
+      }
+    }
+
+    const first = node.levels[0].forward;
+    return first && belowMax(first.score, range) ? first : null;
+  }
+
+  lastInRange(range: ScoreRange) {
+    let node = this.#header;
+
+    for (let i = this.#level - 1; i >= 0; i--) {
+      let next = node.levels[i].forward;
+      while (next && belowMax(next.score, range)) {
+        node = next;
+        next = node.levels[i].forward;
+      }
+    }
+
+    return node !== this.#header && aboveMin(node.score, range) ? node : null;
+  }
+
+  firstInLexRange(range: LexRange) {
+    let node = this.#header;
+
+    for (let i = this.#level - 1; i >= 0; i--) {
+      let next = node.levels[i].forward;
+      while (next && !aboveLexMin(next.member, range)) {
+        node = next;
+        next = node.levels[i].forward;
+      }
+    }
+
+    const first = node.levels[0].forward;
+    return first && belowLexMax(first.member, range) ? first : null;
+  }
+
+  lastInLexRange(range: LexRange) {
+    let node = this.#header;
+
+    for (let i = this.#level - 1; i >= 0; i--) {
+      let next = node.levels[i].forward;
+      while (next && belowLexMax(next.member, range)) {
+        node = next;
+        next = node.levels[i].forward;
+      }
+    }
+
+    return node !== this.#header && aboveLexMin(node.member, range)
+      ? node
+      : null;
+  }
+}
+
+export type SortedSetEntry = [member: string, score: number];
+export type RangeOptions = {
+  reverse?: boolean;
+  offset?: number;
+  count?: number;
+};
+
+/**
+ * Sorted set as redis implements it: a dictionary from member to score for
+ * O(1) score lookups, plus a skiplist ordered by (score, member) for
+ * O(log n) rank and range queries.
+ */
+class SortedSet {
+  #scores = new Dict<number>();
+  #list = new SkipList();
+
+  get size() {
+    return this.#scores.size;
+  }
+
+  score(member: string) {
+    return this.#scores.get(member);
+  }
+
+  has(member: string) {
+    return this.#scores.has(member);
+  }
+
+  /**
+   * Adds a member or updates its score.
+   *
+   * @returns `true` if the member was added, `false` if it already existed.
+   */
+  add(member: string, score: number) {
+    const current = this.#scores.get(member);
+
+    if (current !== undefined) {
+      if (current !== score) {
+        this.#list.delete(current, member);
+        this.#list.insert(score, member);
+        this.#scores.set(member, score);
+      }
+      return false;
+    }
+
+    this.#list.insert(score, member);
+    this.#scores.set(member, score);
+    return true;
+  }
+
+  remove(member: string) {
+    const score = this.#scores.get(member);
+    if (score === undefined) {
+      return false;
+    }
+
+    this.#list.delete(score, member);
+    this.#scores.delete(member);
+    return true;
+  }
+
+  /**
+   * @returns The 0-based rank of the member, counted from the highest score
+   *          when `reverse` is set, or `null` if it is not in the set.
+   */
+  rank(member: string, reverse = false) {
+    const score = this.#scores.get(member);
+    if (score === undefined) {
+      return null;
+    }
+
+    const rank = this.#list.rank(score, member);
+    return reverse ? this.size - rank : rank - 1;
+  }
+
+  /**
+   * Returns the elements between two 0-based ranks, both inclusive, in
+   * ascending order or descending order when `reverse` is set.
+   */
+  rangeByRank(start: number, stop: number, reverse = false) {
+    const entries: SortedSetEntry[] = [];
+    if (start > stop || start >= this.size) {
+      return entries;
+    }
+    stop = Math.min(stop, this.size - 1);
+
+    let node = this.#list.byRank(reverse ? this.size - start : start + 1);
+    for (let i = start; i <= stop && node; i++) {
+      entries.push([node.member, node.score]);
+      node = reverse ? node.backward : node.levels[0].forward;
+    }
+
+    return entries;
+  }
+
+  rangeByScore(range: ScoreRange, options: RangeOptions = {}) {
+    const { reverse = false } = options;
+    const node = reverse
+      ? this.#list.lastInRange(range)
+      : this.#list.firstInRange(range);
+
+    return this.#collect(
+      node,
+      (next) =>
+        reverse ? aboveMin(next.score, range) : belowMax(next.score, range),
+      options
+    );
+  }
+
+  rangeByLex(range: LexRange, options: RangeOptions = {}) {
+    const { reverse = false } = options;
+    const node = reverse
+      ? this.#list.lastInLexRange(range)
+      : this.#list.firstInLexRange(range);
+
+    return this.#collect(
+      node,
+      (next) =>
+        reverse
+          ? aboveLexMin(next.member, range)
+          : belowLexMax(next.member, range),
+      options
+    );
+  }
+
+  countByScore(range: ScoreRange) {
+    const first = this.#list.firstInRange(range);
+    const last = this.#list.lastInRange(range);
+    if (!first || !last) {
+      return 0;
+    }
+
+    return (
+      this.#list.rank(last.score, last.member) -
+      this.#list.rank(first.score, first.member) +
+      1
+    );
+  }
+
+  countByLex(range: LexRange) {
+    const first = this.#list.firstInLexRange(range);
+    const last = this.#list.lastInLexRange(range);
+    if (!first || !last) {
+      return 0;
+    }
+
+    return (
+      this.#list.rank(last.score, last.member) -
+      this.#list.rank(first.score, first.member) +
+      1
+    );
+  }
+
+  /**
+   * Removes up to `count` elements with the lowest scores, or the highest
+   * when `fromMax` is set, and returns them in the order they were removed.
+   */
+  pop(count: number, fromMax = false) {
+    const popped: SortedSetEntry[] = [];
+
+    while (popped.length < count && this.size > 0) {
+      const node = fromMax ? this.#list.last : this.#list.first;
+      if (!node) break;
+      popped.push([node.member, node.score]);
+      this.remove(node.member);
+    }
+
+    return popped;
+  }
+
+  /**
+   * Iterates over every element in ascending order.
+   */
+  *entries(): IterableIterator<SortedSetEntry> {
+    let node = this.#list.first;
+    while (node) {
+      yield [node.member, node.score];
+      node = node.levels[0].forward;
+    }
+  }
+
+  members() {
+    return this.#scores.keys();
+  }
+
+  /**
+   * Returns one page of a ZSCAN iteration over the members.
+   *
+   * @see Dict.scan
+   */
+  scan(cursor: number, count: number) {
+    return this.#scores.scan(cursor, count);
+  }
+
+  #collect(
+    node: SkipListNode | null,
+    inRange: (node: SkipListNode) => boolean,
+    { reverse = false, offset = 0, count = -1 }: RangeOptions
+  ) {
+    const entries: SortedSetEntry[] = [];
+
+    while (node && offset > 0) {
+      node = reverse ? node.backward : node.levels[0].forward;
+      offset--;
+    }
+
+    while (node && count !== 0 && inRange(node)) {
+      entries.push([node.member, node.score]);
+      node = reverse ? node.backward : node.levels[0].forward;
+      count--;
+    }
+
+    return entries;
+  }
+}
+
+export { SortedSet };
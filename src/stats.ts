@@ -0,0 +1,98 @@
+/**
+ * What INFO commandstats reports for a command. `usec` is the total time
+ * spent running it, `rejectedCalls` counts the calls refused before they
+ * ran, e.g. by ACLs, and `failedCalls` those that replied with an error.
+ */
+export type CommandStats = {
+  calls: number;
+  usec: number;
+  rejectedCalls: number;
+  failedCalls: number;
+};
+
+const startTime = Date.now();
+const commands = new Map<string, CommandStats>();
+
+const counters = {
+  connectionsReceived: 0,
+  commandsProcessed: 0,
+  errorReplies: 0,
+  keyspaceHits: 0,
+  keyspaceMisses: 0,
+  expiredKeys: 0,
+};
+
+const statsOf = (command: string) => {
+  let stats = commands.get(command);
+  if (!stats) {
+    stats = { calls: 0, usec: 0, rejectedCalls: 0, failedCalls: 0 };
+    commands.set(command, stats);
+  }
+  return stats;
+};
+
+/**
+ * Records a command that ran.
+ *
+ * @param command - The command's name.
+ * @param duration - How long it ran, in milliseconds.
+ * @param failed - Whether it replied with an error.
+ */
+const recordCall = (command: string, duration: number, failed: boolean) => {
+  const stats = statsOf(command);
+  stats.calls++;
+  stats.usec += Math.round(duration * 1000);
+  counters.commandsProcessed++;
+  if (failed) {
+    stats.failedCalls++;
+    counters.errorReplies++;
+  }
+};
+
+/**
+ * Records a command refused before it ran.
+ */
+const recordRejectedCall = (command: string) => {
+  statsOf(command).rejectedCalls++;
+  counters.errorReplies++;
+};
+
+const recordConnection = () => {
+  counters.connectionsReceived++;
+};
+
+/**
+ * Records a lookup of a key a command reads, found or not.
+ */
+const recordKeyspaceLookup = (hit: boolean) => {
+  if (hit) {
+    counters.keyspaceHits++;
+  } else {
+    counters.keyspaceMisses++;
+  }
+};
+
+const recordExpiredKey = () => {
+  counters.expiredKeys++;
+};
+
+/**
+ * @returns The counters since the server started, and when it did.
+ */
+const serverStats = () => ({ startTime, ...counters });
+
+/**
+ * @returns The stats of every command called at least once, by name.
+ */
+const commandStats = () =>
+  [...commands.entries()].sort(([a], [b]) => a.localeCompare(b));
+
+export {
+  recordCall,
+  recordRejectedCall,
+  recordConnection,
+  recordKeyspaceLookup,
+  recordExpiredKey,
+  serverStats,
+  commandStats,
+};
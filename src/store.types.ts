@@ -1,2 +1,40 @@
-export type StoreType = Record<string, { type: string; value: unknown }>;
-export type StoreExpirationTimes = Record<string, number>;
+import { Dict, DictSet } from "./dict";
+import { SortedSet } from "./sorted-set";
+
+/**
+ * Values are kept as raw bytes so binary payloads survive untouched and
+ * lengths are byte counts. Keys, hash fields and other member names are
+ * decoded as latin1 ("binary") strings, which maps every byte to exactly one
+ * character and back.
+ */
+export type StoreValue =
+  | { type: "string"; value: Buffer }
+  | { type: "list"; value: Buffer[] }
+  | { type: "hash"; value: Dict<Buffer> }
+  | { type: "set"; value: DictSet }
+  | { type: "zset"; value: SortedSet };
+export type StoreType = Dict<StoreValue>;
+export type StoreExpirationTimes = Dict<number>;
+
+/**
+ * What the keyspace tracks about a key besides its value, for memory
+ * accounting and eviction.
+ */
+export type KeyMetadata = {
+  // Estimated bytes taken by the key, see `estimateKeySize`.
+  size: number;
+  // When the key was last read or written, in unix milliseconds.
+  accessedAt: number;
+  // Logarithmic access counter used by the LFU policies.
+  frequency: number;
+};
+
+/**
+ * One numbered database. Each has its own keys and expiration times, and
+ * clients pick the one they work on with SELECT.
+ */
+export type Database = {
+  store: StoreType;
+  expirationTimes: StoreExpirationTimes;
+  metadata: Record<string, KeyMetadata>;
+};
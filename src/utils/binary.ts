@@ -0,0 +1,19 @@
+/**
+ * Converts raw bytes to a string that can be used as a key, one character per
+ * byte. Unlike UTF-8 decoding this never loses information, so binary keys
+ * round-trip through `fromBinaryString` exactly.
+ *
+ * @param value - The raw bytes received from the client.
+ * @returns The latin1 ("binary") string for the bytes.
+ */
+const toBinaryString = (value: Buffer) => value.toString("latin1");
+
+/**
+ * Converts a string produced by `toBinaryString` back to its raw bytes.
+ *
+ * @param value - The latin1 string.
+ * @returns The original bytes.
+ */
+const fromBinaryString = (value: string) => Buffer.from(value, "latin1");
+
+export { toBinaryString, fromBinaryString };
@@ -3,7 +3,7 @@
  *
  * The function takes an input string, splits it into arguments, and formats
  * it according to the Redis Serialization Protocol (RESP). Each argument is
- * prefixed with its length and properly terminated with CRLF sequences.
+ * prefixed with its length in bytes and properly terminated with CRLF sequences.
  *
  * @param input - The input string representing a Redis command and its arguments,
  *                separated by spaces (e.g., "SET key value").
@@ -22,7 +22,7 @@ const buildRedisCommand = (input: string) => {
   let command = `*${args.length}\r\n`;
 
   for (const arg of args) {
-    command += `$${arg.length}\r\n${arg}\r\n`;
+    command += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
   }
   return command;
 };
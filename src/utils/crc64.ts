@@ -0,0 +1,55 @@
+// Reflected form of the Jones polynomial used by redis for RDB checksums,
+// split in 32-bit halves since bitwise operators work on 32 bits.
+const POLY_HIGH = 0x95ac9329;
+const POLY_LOW = 0xac4bc9b5;
+
+const TABLE_HIGH = new Uint32Array(256);
+const TABLE_LOW = new Uint32Array(256);
+
+for (let i = 0; i < 256; i++) {
+  let high = 0;
+  let low = i;
+  for (let bit = 0; bit < 8; bit++) {
+    const carry = low & 1;
+    low = ((low >>> 1) | ((high & 1) << 31)) >>> 0;
+    high >>>= 1;
+    if (carry) {
+      high = (high ^ POLY_HIGH) >>> 0;
+      low = (low ^ POLY_LOW) >>> 0;
+    }
+  }
+  TABLE_HIGH[i] = high;
+  TABLE_LOW[i] = low;
+}
+
+/**
+ * Computes the CRC-64/Jones checksum redis appends to RDB files, with no
+ * initial value and no final xor.
+ *
+ * @param data - The bytes to checksum.
+ * @param previous - The checksum of the bytes before `data`, to checksum a
+ *                   file in pieces.
+ * @returns The checksum as 8 little-endian bytes, as stored in the file.
+ *
+ * @example
+ * ```typescript
+ * crc64(Buffer.from("123456789")).toString("hex"); // "cad9b8c414d9c6e9"
+ * ```
+ */
+const crc64 = (data: Buffer, previous?: Buffer): Buffer => {
+  let low = previous ? previous.readUInt32LE(0) : 0;
+  let high = previous ? previous.readUInt32LE(4) : 0;
+
+  for (let i = 0; i < data.length; i++) {
+    const index = (low ^ data[i]) & 0xff;
+    low = (((low >>> 8) | (high << 24)) ^ TABLE_LOW[index]) >>> 0;
+    high = ((high >>> 8) ^ TABLE_HIGH[index]) >>> 0;
+  }
+
+  const crc = Buffer.alloc(8);
+  crc.writeUInt32LE(low, 0);
+  crc.writeUInt32LE(high, 4);
+  return crc;
+};
+
+export { crc64 };
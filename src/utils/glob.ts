@@ -0,0 +1,94 @@
+/**
+ * Matches a string against a redis glob-style pattern, the syntax used by
+ * KEYS, SCAN MATCH and PSUBSCRIBE:
+ *
+ * - `*` matches any sequence of characters, including none.
+ * - `?` matches exactly one character.
+ * - `[abc]`, `[a-z]` and `[^abc]` match one character from (or not from) a set.
+ * - `\` escapes the next character.
+ *
+ * @param pattern - The glob pattern.
+ * @param value - The string to test.
+ * @param nocase - Compare case-insensitively.
+ * @returns `true` if the whole string matches the pattern.
+ *
+ * @example
+ * ```typescript
+ * globMatch("user:*", "user:42"); // true
+ * globMatch("h[^e]llo", "hello"); // false
+ * ```
+ */
+const globMatch = (pattern: string, value: string, nocase = false): boolean => {
+  if (nocase) {
+    pattern = pattern.toLowerCase();
+    value = value.toLowerCase();
+  }
+
+  const match = (p: number, s: number): boolean => {
+    while (p < pattern.length) {
+      const char = pattern[p];
+
+      if (char === "*") {
+        while (pattern[p + 1] === "*") p++;
+        if (p + 1 === pattern.length) return true;
+        for (let i = s; i <= value.length; i++) {
+          if (match(p + 1, i)) return true;
+        }
+        return false;
+      }
+
+      if (s >= value.length) return false;
+
+      if (char === "?") {
+        p++;
+        s++;
+        continue;
+      }
+
+      if (char === "[") {
+        p++;
+        const negate = pattern[p] === "^";
+        if (negate) p++;
+
+        let matched = false;
+        while (p < pattern.length && pattern[p] !== "]") {
+          if (pattern[p] === "\\" && p + 1 < pattern.length) {
+            p++;
+            if (pattern[p] === value[s]) matched = true;
+          } else if (
+            pattern[p + 1] === "-" &&
+            p + 2 < pattern.length &&
+            pattern[p + 2] !== "]"
+          ) {
+            let start = pattern[p];
+            let end = pattern[p + 2];
+            if (start > end) [start, end] = [end, start];
+            if (value[s] >= start && value[s] <= end) matched = true;
+            p += 2;
+          } else if (pattern[p] === value[s]) {
+            matched = true;
+          }
+          p++;
+        }
+
+        if (matched === negate) return false;
+        p++;
+        s++;
+        continue;
+      }
+
+      if (char === "\\" && p + 1 < pattern.length) {
+        p++;
+      }
+      if (pattern[p] !== value[s]) return false;
+      p++;
+      s++;
+    }
+
+    return s === value.length;
+  };
+
+  return match(0, 0);
+};
+
+export { globMatch };
@@ -0,0 +1,42 @@
+/**
+ * 32-bit FNV-1a hash of a string, which places keys in the buckets of a
+ * `Dict`.
+ */
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const reverseBits = (value: number) => {
+  value = ((value >>> 1) & 0x55555555) | ((value & 0x55555555) << 1);
+  value = ((value >>> 2) & 0x33333333) | ((value & 0x33333333) << 2);
+  value = ((value >>> 4) & 0x0f0f0f0f) | ((value & 0x0f0f0f0f) << 4);
+  value = ((value >>> 8) & 0x00ff00ff) | ((value & 0x00ff00ff) << 8);
+  return ((value >>> 16) | (value << 16)) >>> 0;
+};
+
+/**
+ * Advances a SCAN cursor over a table of `mask + 1` buckets.
+ *
+ * Like redis, the cursor is incremented from its highest bit down rather
+ * than from its lowest bit up. A bucket of a table splits into buckets that
+ * follow each other in this order once the table doubles, and merges with
+ * them once it halves, so an iteration resumed after a resize neither skips
+ * a bucket nor ends early: every item present for the whole iteration is
+ * returned at least once.
+ *
+ * @param cursor - The bucket just visited.
+ * @param mask - The number of buckets minus one, a power of two minus one.
+ * @returns The next bucket to visit, `0` once every bucket was.
+ */
+const nextCursor = (cursor: number, mask: number) => {
+  // Setting the bits above the mask carries the increment past them.
+  const high = (cursor | ~mask) >>> 0;
+  return reverseBits((reverseBits(high) + 1) >>> 0);
+};
+
+export { hashString, nextCursor };
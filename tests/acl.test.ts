@@ -0,0 +1,124 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, test } from "node:test";
+import {
+  AclRuleError,
+  checkCommandPermission,
+  checkPassword,
+  describeUser,
+  getUser,
+  hashPassword,
+  loadAclFile,
+  setUser,
+} from "../src/acl";
+
+const args = (...values: string[]) => values.map((value) => Buffer.from(value));
+
+describe("ACL users", () => {
+  test("should start with a default user allowed to do everything", () => {
+    const user = getUser("default");
+    assert.ok(user);
+    assert.strictEqual(
+      describeUser(user),
+      "user default on nopass ~* &* +@all"
+    );
+    assert.strictEqual(checkPassword("default", Buffer.from("any")), true);
+  });
+
+  test("should only keep password hashes", () => {
+    const user = setUser("alice", ["on", ">secret"]);
+    assert.deepStrictEqual([...user.passwords], [hashPassword("secret")]);
+    assert.strictEqual(checkPassword("alice", Buffer.from("secret")), true);
+    assert.strictEqual(checkPassword("alice", Buffer.from("wrong")), false);
+
+    setUser("alice", ["off"]);
+    assert.strictEqual(checkPassword("alice", Buffer.from("secret")), false);
+  });
+
+  test("should resolve categories and single commands", () => {
+    const user = setUser("bob", ["+@read", "-keys", "+set", "allkeys"]);
+    assert.strictEqual(checkCommandPermission(user, "GET", args("k")), null);
+    assert.strictEqual(
+      checkCommandPermission(user, "SET", args("k", "v")),
+      null
+    );
+    assert.deepStrictEqual(checkCommandPermission(user, "KEYS", args("*")), {
+      reason: "command",
+      object: "keys",
+    });
+    assert.strictEqual(user.commandRules.join(" "), "-@all +@read -keys +set");
+  });
+
+  test("should check every key against the key patterns", () => {
+    const user = setUser("carol", ["+@all", "~cache:*"]);
+    assert.strictEqual(
+      checkCommandPermission(user, "DEL", args("cache:a", "cache:b")),
+      null
+    );
+    assert.deepStrictEqual(
+      checkCommandPermission(user, "DEL", args("cache:a", "users:1")),
+      { reason: "key", object: "users:1" }
+    );
+    assert.deepStrictEqual(
+      checkCommandPermission(user, "BLPOP", args("cache:a", "users:1", "0")),
+      { reason: "key", object: "users:1" }
+    );
+    assert.strictEqual(
+      checkCommandPermission(user, "BLPOP", args("cache:a", "0")),
+      null
+    );
+  });
+
+  test("should check channels, and pattern subscriptions literally", () => {
+    const user = setUser("dave", ["+@all", "&news.*"]);
+    assert.strictEqual(
+      checkCommandPermission(user, "PUBLISH", args("news.eu", "hi")),
+      null
+    );
+    assert.strictEqual(
+      checkCommandPermission(user, "PSUBSCRIBE", args("news.*")),
+      null
+    );
+    assert.deepStrictEqual(
+      checkCommandPermission(user, "PSUBSCRIBE", args("news.e*")),
+      { reason: "channel", object: "news.e*" }
+    );
+  });
+
+  test("should leave the user untouched when a rule is invalid", () => {
+    setUser("erin", ["on", "+get"]);
+    assert.throws(
+      () => setUser("erin", ["+set", "+nosuchcommand"]),
+      (e: unknown) => e instanceof AclRuleError && e.rule === "+nosuchcommand"
+    );
+    assert.deepStrictEqual([...(getUser("erin")?.commands ?? [])], ["GET"]);
+  });
+
+  test("should load users from an ACL file", () => {
+    const file = path.join(os.tmpdir(), `acl-${process.pid}.acl`);
+    fs.writeFileSync(
+      file,
+      `# comment\nuser reader on >pw ~* +@read\n\nuser writer off +@write\n`
+    );
+
+    try {
+      assert.strictEqual(loadAclFile(file), null);
+      assert.strictEqual(checkPassword("reader", Buffer.from("pw")), true);
+      assert.strictEqual(getUser("writer")?.enabled, false);
+      // Users created before are replaced, the default user is kept.
+      assert.strictEqual(getUser("alice"), undefined);
+      assert.ok(getUser("default"));
+
+      fs.writeFileSync(file, "user broken on +nosuchcommand\n");
+      assert.strictEqual(
+        loadAclFile(file),
+        `${file}:1: Error in applying operation '+nosuchcommand': Unknown command or category name in ACL`
+      );
+      assert.ok(getUser("reader"));
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+});
@@ -0,0 +1,227 @@
+import assert from "assert";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import { after, afterEach, before, describe, mock, test } from "node:test";
+import config from "../src/config.json";
+import { createClient, sendReply } from "../src/client";
+import { executeCommand } from "../src/core";
+import { deleteKey } from "../src/keyspace";
+import { persistence } from "../src/persistence";
+import { encodeCommand, reply } from "../src/resp";
+
+const SET_A = encodeCommand("SET", [Buffer.from("a"), Buffer.from("1")]);
+const SET_C = encodeCommand("SET", [Buffer.from("c"), Buffer.from("3")]);
+
+const args = (...values: string[]) => values.map((value) => Buffer.from(value));
+const select = (db: number) => encodeCommand("SELECT", args(`${db}`));
+
+describe("AOF loading", () => {
+  const { dir, appendOnly } = config;
+  const file = path.join(os.tmpdir(), "appendonly.aof");
+
+  const replay = () => {
+    const replayed: string[] = [];
+    persistence.replayAofSync((command, args) =>
+      replayed.push([command, ...args].join(" "))
+    );
+    return replayed;
+  };
+
+  before(() => {
+    config.dir = os.tmpdir();
+    config.appendOnly = true;
+  });
+
+  after(() => {
+    config.dir = dir;
+    config.appendOnly = appendOnly;
+    fs.rmSync(file, { force: true });
+  });
+
+  test("should trim a command cut short at the end", () => {
+    fs.writeFileSync(file, Buffer.concat([SET_A, SET_C.subarray(0, 10)]));
+
+    assert.deepStrictEqual(replay(), ["SET a 1"]);
+    assert.strictEqual(fs.statSync(file).size, SET_A.length);
+  });
+
+  test("should refuse to load an AOF corrupt before its end", () => {
+    const data = Buffer.concat([SET_A, Buffer.from("*3\r\n$x\r\n"), SET_C]);
+    fs.writeFileSync(file, data);
+
+    assert.throws(replay, {
+      message: `Bad AOF ${file} at offset ${SET_A.length}: invalid bulk length.`,
+    });
+    assert.strictEqual(fs.statSync(file).size, data.length);
+  });
+
+  test("should abort startup on an AOF corrupt before its end", () => {
+    fs.writeFileSync(
+      file,
+      Buffer.concat([SET_A, Buffer.from("*3\r\n$x\r\n"), SET_C])
+    );
+
+    const server = spawnSync(
+      process.execPath,
+      [
+        ...["-r", "ts-node/register/transpile-only", "src/server.ts"],
+        ...["--port", "6381", "--dir", os.tmpdir(), "--appendOnly", "yes"],
+      ],
+      { cwd: path.join(__dirname, ".."), encoding: "utf8", timeout: 30_000 }
+    );
+
+    assert.strictEqual(server.status, 1);
+    assert.ok(server.stderr.includes(`Bad AOF ${file} at offset`));
+  });
+});
+
+describe("AOF writing", () => {
+  const { dir, appendOnly, appendFsync } = config;
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "aof-"));
+  const file = path.join(tmp, "appendonly.aof");
+
+  const append = (key: string, value: string, db = 0) =>
+    persistence.appendAOF([{ command: "SET", args: args(key, value), db }]);
+
+  before(() => {
+    config.dir = tmp;
+    config.appendOnly = true;
+  });
+
+  afterEach(() => {
+    persistence.stopAof();
+    mock.restoreAll();
+    fs.rmSync(file, { force: true });
+  });
+
+  after(() => {
+    config.dir = dir;
+    config.appendOnly = appendOnly;
+    config.appendFsync = appendFsync;
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("should log commands in RESP, selecting their database", async () => {
+    append("a", "1", 3);
+    append("b", "2", 3);
+    persistence.appendAOF([
+      { command: "DEL", args: args("a"), db: 0 },
+      { command: "DEL", args: args("b"), db: 0 },
+    ]);
+    await persistence.pendingWrites();
+
+    assert.deepStrictEqual(
+      fs.readFileSync(file),
+      Buffer.concat([
+        select(3),
+        encodeCommand("SET", args("a", "1")),
+        encodeCommand("SET", args("b", "2")),
+        select(0),
+        encodeCommand("DEL", args("a")),
+        encodeCommand("DEL", args("b")),
+      ])
+    );
+  });
+
+  test("should sync every write before it settles with always", async () => {
+    config.appendFsync = "always";
+    const fsync = mock.method(fs, "fsync");
+
+    append("a", "1");
+    append("b", "2");
+    assert.strictEqual(fsync.mock.callCount(), 0);
+    await persistence.pendingWrites();
+
+    assert.strictEqual(fsync.mock.callCount(), 2);
+    assert.strictEqual(persistence.pendingWrites(), null);
+  });
+
+  test("should sync once a second with everysec", async () => {
+    config.appendFsync = "everysec";
+    const fsync = mock.method(fs, "fsync");
+
+    append("a", "1");
+    append("b", "2");
+    await persistence.pendingWrites();
+    assert.strictEqual(fsync.mock.callCount(), 0);
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    assert.strictEqual(fsync.mock.callCount(), 1);
+  });
+
+  test("should leave syncing to the OS with no", async () => {
+    config.appendFsync = "no";
+    const fsync = mock.method(fs, "fsync");
+
+    append("a", "1");
+    await persistence.pendingWrites();
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+
+    assert.strictEqual(fsync.mock.callCount(), 0);
+    assert.deepStrictEqual(
+      fs.readFileSync(file).subarray(-SET_A.length),
+      SET_A
+    );
+  });
+
+  test("should hold a reply back until its write is synced", async () => {
+    config.appendFsync = "always";
+    const events: string[] = [];
+    mock.method(fs, "fsync", (fd: number, callback: () => void) => {
+      events.push("fsync");
+      setTimeout(callback, 20);
+    });
+    const socket = {
+      destroyed: false,
+      write: () => events.push("reply"),
+    } as unknown as net.Socket;
+
+    append("a", "1");
+    sendReply(createClient(socket), reply.simple("OK"));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.deepStrictEqual(events, ["fsync"]);
+
+    await persistence.pendingWrites();
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.deepStrictEqual(events, ["fsync", "reply"]);
+  });
+
+  test("should refuse writes while the AOF cannot be opened", async () => {
+    config.appendFsync = "no";
+    config.dir = path.join(tmp, "missing");
+    const client = createClient();
+    client.authenticated = true;
+
+    try {
+      const set = (key: string) =>
+        executeCommand("SET", args(key, "1"), client);
+      assert.deepStrictEqual(set("a"), reply.simple("OK"));
+      assert.strictEqual(persistence.lastWriteStatus, "err");
+      assert.strictEqual(set("b").type, "error");
+      assert.deepStrictEqual(
+        executeCommand("GET", args("a"), client),
+        reply.bulk(Buffer.from("1"))
+      );
+
+      // Writes resume once the entries kept aside could be written.
+      fs.mkdirSync(config.dir);
+      assert.strictEqual(set("b").type, "error");
+      await persistence.pendingWrites();
+      assert.deepStrictEqual(set("c"), reply.simple("OK"));
+      await persistence.pendingWrites();
+
+      const logged = Buffer.concat([
+        encodeCommand("SET", args("a", "1")),
+        encodeCommand("SET", args("c", "1")),
+      ]);
+      const data = fs.readFileSync(path.join(config.dir, "appendonly.aof"));
+      assert.deepStrictEqual(data.subarray(-logged.length), logged);
+    } finally {
+      ["a", "b", "c"].forEach(deleteKey);
+      config.dir = tmp;
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import assert from "assert";
+import { describe, test } from "node:test";
+import { Dict, DictSet } from "../src/dict";
+
+describe("Dict", () => {
+  test("should behave like a Map", () => {
+    const dict = new Dict([
+      ["a", 1],
+      ["b", 2],
+    ]);
+    dict.set("a", 3);
+    dict.set("c", 4);
+
+    assert.ok(dict.delete("b"));
+    assert.ok(!dict.delete("b"));
+    assert.deepStrictEqual(
+      [...dict],
+      [
+        ["a", 3],
+        ["c", 4],
+      ]
+    );
+  });
+
+  test("should draw only keys it holds", () => {
+    const dict = new Dict<number>();
+    assert.strictEqual(dict.randomKey(), undefined);
+
+    for (let i = 0; i < 1000; i++) {
+      dict.set(`key:${i}`, i);
+    }
+    for (let i = 0; i < 990; i++) {
+      dict.delete(`key:${i}`);
+    }
+
+    const drawn = new Set<string>();
+    for (let i = 0; i < 1000; i++) {
+      drawn.add(dict.randomKey() as string);
+    }
+    assert.deepStrictEqual([...drawn].sort(), [...dict.keys()].sort());
+  });
+
+  test("should be empty after clear", () => {
+    const dict = new Dict([["a", 1]]);
+    dict.clear();
+
+    assert.strictEqual(dict.size, 0);
+    assert.strictEqual(dict.randomKey(), undefined);
+    dict.set("b", 2);
+    assert.strictEqual(dict.randomKey(), "b");
+  });
+
+  test("should visit every key exactly once when nothing changes", () => {
+    const dict = new Dict(
+      Array.from({ length: 50 }, (_, i): [string, number] => [`item:${i}`, i])
+    );
+    const seen: string[] = [];
+    let cursor = 0;
+
+    do {
+      const page = dict.scan(cursor, 7);
+      seen.push(...page.items);
+      cursor = page.cursor;
+    } while (cursor !== 0);
+
+    assert.deepStrictEqual(seen.sort(), [...dict.keys()].sort());
+  });
+
+  test("should return keys that exist for the whole scan across resizes", () => {
+    const set = new DictSet(Array.from({ length: 10 }, (_, i) => `key:${i}`));
+    for (let i = 0; i < 200; i++) {
+      set.add(`extra:${i}`);
+    }
+    const seen = new Set<string>();
+    let cursor = 0;
+    let round = 0;
+
+    do {
+      const page = set.scan(cursor, 5);
+      page.items.forEach((item) => seen.add(item));
+      cursor = page.cursor;
+      // Shrinks the table after the first page, then grows it again.
+      if (round++ === 0) {
+        for (let i = 0; i < 200; i++) {
+          set.delete(`extra:${i}`);
+        }
+      } else {
+        set.add(`added:${round}`);
+      }
+    } while (cursor !== 0);
+
+    for (let i = 0; i < 10; i++) {
+      assert.ok(seen.has(`key:${i}`));
+    }
+  });
+});
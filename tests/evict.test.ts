@@ -0,0 +1,133 @@
+import assert from "assert";
+import { afterEach, describe, test } from "node:test";
+import config from "../src/config.json";
+import { persistence } from "../src/persistence";
+import { createClient } from "../src/client";
+import { executeCommand } from "../src/core";
+import { evictionStats, performEvictions } from "../src/evict";
+import {
+  databaseKeys,
+  deleteKey,
+  setExpire,
+  setKey,
+  signalModifiedKey,
+  usedMemory,
+  withDatabase,
+} from "../src/keyspace";
+
+const { databases } = persistence;
+
+// Commands run through the dispatcher must not end up in the real AOF.
+config.appendOnly = false;
+
+const set = (key: string, value = "value", db = 0) =>
+  withDatabase(db, () => {
+    setKey(key, { type: "string", value: Buffer.from(value) });
+    signalModifiedKey(key);
+  });
+
+const flushAll = () =>
+  databases.forEach((_, db) =>
+    withDatabase(db, () => databaseKeys().forEach(deleteKey))
+  );
+
+describe("maxmemory", () => {
+  afterEach(() => {
+    flushAll();
+    config.maxMemory = 0;
+    config.maxMemoryPolicy = "noeviction";
+    config.maxMemorySamples = 5;
+  });
+
+  test("should account for keys as they are written and deleted", () => {
+    set("a", "x".repeat(100));
+    const withOneKey = usedMemory();
+    assert.ok(withOneKey > 100);
+
+    set("a", "x".repeat(1000));
+    assert.strictEqual(usedMemory(), withOneKey + 900);
+
+    deleteKey("a");
+    assert.strictEqual(usedMemory(), 0);
+  });
+
+  test("should not evict anything under noeviction", () => {
+    set("a");
+    set("b");
+    config.maxMemory = 1;
+
+    assert.deepStrictEqual(performEvictions(), { fits: false, evicted: [] });
+    assert.deepStrictEqual(databaseKeys(), ["a", "b"]);
+  });
+
+  test("should evict the least recently used key and log it as DEL", () => {
+    for (let i = 0; i < 10; i++) {
+      set(`key:${i}`, "x", i % 2);
+    }
+    databases[1].metadata["key:3"].accessedAt -= 60_000;
+    config.maxMemory = usedMemory() - 1;
+    config.maxMemoryPolicy = "allkeys-lru";
+    config.maxMemorySamples = 10;
+    const before = evictionStats().evictedKeys;
+
+    const { fits, evicted } = performEvictions();
+
+    assert.strictEqual(fits, true);
+    assert.deepStrictEqual(evicted, [
+      { command: "DEL", args: [Buffer.from("key:3")], db: 1 },
+    ]);
+    assert.ok(!databases[1].store.has("key:3"));
+    assert.strictEqual(evictionStats().evictedKeys, before + 1);
+  });
+
+  test("should evict the least frequently used key", () => {
+    set("hot");
+    set("cold");
+    databases[0].metadata.hot.frequency = 100;
+    config.maxMemory = usedMemory() - 1;
+    config.maxMemoryPolicy = "allkeys-lfu";
+
+    performEvictions();
+    assert.deepStrictEqual(databaseKeys(), ["hot"]);
+  });
+
+  test("should only evict keys with a TTL under volatile policies", () => {
+    set("persistent");
+    set("soon");
+    set("later");
+    setExpire("soon", Date.now() + 1000);
+    setExpire("later", Date.now() + 60_000);
+    config.maxMemory = usedMemory() - 1;
+    config.maxMemoryPolicy = "volatile-ttl";
+
+    assert.strictEqual(performEvictions().fits, true);
+    assert.deepStrictEqual(databaseKeys(), ["persistent", "later"]);
+
+    config.maxMemory = 1;
+    assert.strictEqual(performEvictions().fits, false);
+    assert.deepStrictEqual(databaseKeys(), ["persistent"]);
+  });
+
+  test("should refuse commands that may use more memory when full", () => {
+    const client = createClient();
+    client.authenticated = true;
+    set("a");
+    config.maxMemory = 1;
+
+    assert.deepStrictEqual(
+      executeCommand("SET", [Buffer.from("b"), Buffer.from("v")], client),
+      {
+        type: "error",
+        value: "OOM command not allowed when used memory > 'maxmemory'.",
+      }
+    );
+    assert.strictEqual(
+      executeCommand("GET", [Buffer.from("a")], client).type,
+      "bulk"
+    );
+    assert.deepStrictEqual(executeCommand("DEL", [Buffer.from("a")], client), {
+      type: "integer",
+      value: 1,
+    });
+  });
+});
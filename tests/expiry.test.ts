@@ -0,0 +1,37 @@
+import assert from "assert";
+import { describe, test } from "node:test";
+import { persistence } from "../src/persistence";
+import { activeExpireCycle } from "../src/expiry";
+
+const { store, expirationTimes } = persistence.databases[0];
+
+describe("activeExpireCycle", () => {
+  test("should delete expired keys that are never accessed", () => {
+    for (let i = 0; i < 100; i++) {
+      store.set(`stale:${i}`, { type: "string", value: Buffer.from("x") });
+      expirationTimes.set(`stale:${i}`, Date.now() - 1000);
+    }
+    store.set("fresh", { type: "string", value: Buffer.from("x") });
+    expirationTimes.set("fresh", Date.now() + 60_000);
+
+    assert.strictEqual(activeExpireCycle(), 100);
+    assert.deepStrictEqual([...store.keys()], ["fresh"]);
+    assert.deepStrictEqual([...expirationTimes.keys()], ["fresh"]);
+  });
+
+  test("should leave keys without a TTL alone", () => {
+    store.set("persistent", { type: "string", value: Buffer.from("x") });
+
+    assert.strictEqual(activeExpireCycle(), 0);
+    assert.ok(store.has("persistent"));
+  });
+
+  test("should expire keys in every database", () => {
+    const other = persistence.databases[3];
+    other.store.set("stale", { type: "string", value: Buffer.from("x") });
+    other.expirationTimes.set("stale", Date.now() - 1000);
+
+    assert.strictEqual(activeExpireCycle(), 1);
+    assert.ok(!other.store.has("stale"));
+  });
+});
@@ -0,0 +1,46 @@
+import assert from "assert";
+import { describe, test } from "node:test";
+import { collectMetrics, formatMetrics } from "../src/metrics";
+
+describe("Metrics", () => {
+  test("should render samples in the Prometheus text format", () => {
+    const text = formatMetrics([
+      {
+        name: "redis_commands_total",
+        help: "Calls per command.",
+        type: "counter",
+        samples: [
+          [{ cmd: "get" }, 2],
+          [{ cmd: 'a"b\\c' }, 1],
+        ],
+      },
+      {
+        name: "redis_connected_clients",
+        help: "Clients connected.",
+        type: "gauge",
+        samples: [[{}, 0]],
+      },
+    ]);
+
+    assert.strictEqual(
+      text,
+      [
+        "# HELP redis_commands_total Calls per command.",
+        "# TYPE redis_commands_total counter",
+        'redis_commands_total{cmd="get"} 2',
+        'redis_commands_total{cmd="a\\"b\\\\c"} 1',
+        "# HELP redis_connected_clients Clients connected.",
+        "# TYPE redis_connected_clients gauge",
+        "redis_connected_clients 0",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("should name every metric once with the redis prefix", () => {
+    const names = collectMetrics().map(({ name }) => name);
+    assert.ok(names.every((name) => /^redis_[a-z_]+$/.test(name)));
+    assert.strictEqual(new Set(names).size, names.length);
+    assert.ok(names.includes("redis_keyspace_hits_total"));
+  });
+});
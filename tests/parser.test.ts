@@ -0,0 +1,124 @@
+import assert from "assert";
+import { describe, test } from "node:test";
+import { CommandParser, ParsedCommand, ProtocolError } from "../src/parser";
+
+const decode = (commands: ParsedCommand[]) =>
+  commands.map(({ command, args }) => ({
+    command,
+    args: args.map((arg) => arg.toString()),
+  }));
+
+describe("CommandParser", () => {
+  test("should parse a single multibulk command", () => {
+    const parser = new CommandParser();
+    const commands = parser.feed(
+      Buffer.from("*3\r\n$3\r\nset\r\n$3\r\nkey\r\n$5\r\nvalue\r\n")
+    );
+    assert.deepStrictEqual(decode(commands), [
+      { command: "SET", args: ["key", "value"] },
+    ]);
+  });
+
+  test("should parse pipelined commands from one chunk in order", () => {
+    const parser = new CommandParser();
+    const commands = parser.feed(
+      Buffer.from("*2\r\n$3\r\nGET\r\n$1\r\na\r\n*1\r\n$4\r\nPING\r\n")
+    );
+    assert.deepStrictEqual(decode(commands), [
+      { command: "GET", args: ["a"] },
+      { command: "PING", args: [] },
+    ]);
+  });
+
+  test("should wait for commands split across chunks", () => {
+    const parser = new CommandParser();
+    const input = "*3\r\n$3\r\nSET\r\n$3\r\nkey\r\n$5\r\nvalue\r\n";
+    const commands: ParsedCommand[] = [];
+
+    for (const char of input) {
+      commands.push(...parser.feed(Buffer.from(char)));
+    }
+
+    assert.deepStrictEqual(decode(commands), [
+      { command: "SET", args: ["key", "value"] },
+    ]);
+  });
+
+  test("should report where each command ends and what is left over", () => {
+    const parser = new CommandParser();
+    const ends: number[] = [];
+    const record = (_: ParsedCommand, end: number) => ends.push(end);
+
+    parser.feed(Buffer.from("*1\r\n$4\r\nPING\r\nSET a"), record);
+    assert.strictEqual(parser.parsedLength, 14);
+    assert.strictEqual(parser.bufferedLength, 5);
+    parser.feed(Buffer.from(" 1\r\n*2\r\n$3\r\nGET"), record);
+
+    assert.deepStrictEqual(ends, [14, 23]);
+    assert.strictEqual(parser.parsedLength, 23);
+    assert.strictEqual(parser.bufferedLength, 11);
+  });
+
+  test("should read bulk strings by length, keeping CRLF and empty values", () => {
+    const parser = new CommandParser();
+    const commands = parser.feed(
+      Buffer.from("*3\r\n$3\r\nSET\r\n$0\r\n\r\n$4\r\na\r\nb\r\n")
+    );
+    assert.deepStrictEqual(decode(commands), [
+      { command: "SET", args: ["", "a\r\nb"] },
+    ]);
+  });
+
+  test("should parse inline commands", () => {
+    const parser = new CommandParser();
+    const commands = parser.feed(Buffer.from("set foo bar\r\nPING\n"));
+    assert.deepStrictEqual(decode(commands), [
+      { command: "SET", args: ["foo", "bar"] },
+      { command: "PING", args: [] },
+    ]);
+  });
+
+  test("should handle quoted inline arguments", () => {
+    const parser = new CommandParser();
+    const commands = parser.feed(
+      Buffer.from(`SET "hello world" 'it\\'s' "a\\nb"\r\n`)
+    );
+    assert.deepStrictEqual(decode(commands), [
+      { command: "SET", args: ["hello world", "it's", "a\nb"] },
+    ]);
+  });
+
+  test("should skip empty inline lines", () => {
+    const parser = new CommandParser();
+    assert.deepStrictEqual(parser.feed(Buffer.from("\r\n  \r\n")), []);
+  });
+
+  test("should throw a ProtocolError for an invalid bulk header", () => {
+    const parser = new CommandParser();
+    assert.throws(
+      () => parser.feed(Buffer.from("*1\r\n:3\r\nfoo\r\n")),
+      ProtocolError
+    );
+  });
+
+  test("should throw a ProtocolError for unbalanced quotes", () => {
+    const parser = new CommandParser();
+    assert.throws(
+      () => parser.feed(Buffer.from('SET "foo\r\n')),
+      ProtocolError
+    );
+  });
+
+  test("should keep arbitrary bytes in bulk strings", () => {
+    const parser = new CommandParser();
+    const payload = Buffer.from([0x00, 0xff, 0x0d, 0x0a, 0xc3]);
+    const [{ args }] = parser.feed(
+      Buffer.concat([
+        Buffer.from("*3\r\n$3\r\nSET\r\n$1\r\nk\r\n$5\r\n"),
+        payload,
+        Buffer.from("\r\n"),
+      ])
+    );
+    assert.deepStrictEqual(args[1], payload);
+  });
+});
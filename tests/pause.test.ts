@@ -0,0 +1,45 @@
+import assert from "assert";
+import { afterEach, describe, test } from "node:test";
+import {
+  initClientPause,
+  pauseClients,
+  pauseMode,
+  unpauseClients,
+} from "../src/pause";
+
+describe("CLIENT PAUSE", () => {
+  afterEach(() => {
+    initClientPause(() => {});
+    unpauseClients();
+  });
+
+  test("should resume clients once the pause is over", async () => {
+    let resumed = 0;
+    initClientPause(() => resumed++);
+
+    pauseClients("write", 20);
+    assert.strictEqual(pauseMode(), "write");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    assert.strictEqual(pauseMode(), null);
+    assert.strictEqual(resumed, 1);
+  });
+
+  test("should keep the stricter mode when paused again", () => {
+    pauseClients("all", 1000);
+    pauseClients("write", 10);
+    assert.strictEqual(pauseMode(), "all");
+  });
+
+  test("should resume right away on unpause", () => {
+    let resumed = 0;
+    initClientPause(() => resumed++);
+
+    pauseClients("write", 1000);
+    unpauseClients();
+    unpauseClients();
+
+    assert.strictEqual(pauseMode(), null);
+    assert.strictEqual(resumed, 1);
+  });
+});
@@ -0,0 +1,103 @@
+import assert from "assert";
+import net from "net";
+import { after, describe, test } from "node:test";
+import config from "../src/config.json";
+import { createClient } from "../src/client";
+import { configHandlers } from "../src/commands/config";
+import { CommandError } from "../src/errors";
+import {
+  propagateToReplicas,
+  removeReplica,
+  replicationInfo,
+  setMaster,
+  syncReplica,
+  unsetMaster,
+} from "../src/replication";
+import { ReplicationBacklog } from "../src/replication-backlog";
+
+const args = (...values: string[]) => values.map((value) => Buffer.from(value));
+
+describe("ReplicationBacklog", () => {
+  test("should keep the latest bytes once it wraps around", () => {
+    const backlog = new ReplicationBacklog(8);
+    backlog.append(Buffer.from("abcde"));
+    assert.strictEqual(backlog.length, 5);
+    assert.strictEqual(backlog.tail(5).toString(), "abcde");
+
+    backlog.append(Buffer.from("fghij"));
+    assert.strictEqual(backlog.length, 8);
+    assert.strictEqual(backlog.tail(8).toString(), "cdefghij");
+    assert.strictEqual(backlog.tail(4).toString(), "ghij");
+    assert.strictEqual(backlog.tail(0).length, 0);
+  });
+
+  test("should keep only the end of a write larger than itself", () => {
+    const backlog = new ReplicationBacklog(4);
+    backlog.append(Buffer.from("ab"));
+    backlog.append(Buffer.from("0123456789"));
+
+    assert.strictEqual(backlog.length, 4);
+    assert.strictEqual(backlog.tail(4).toString(), "6789");
+    assert.throws(() => backlog.tail(5), RangeError);
+  });
+});
+
+describe("replBacklogSize", () => {
+  const { replBacklogSize } = config;
+  const setSize = (size: string) =>
+    configHandlers.CONFIG(args("SET", "replBacklogSize", size), replica);
+  const replica = createClient();
+
+  after(() => {
+    removeReplica(replica);
+    config.replBacklogSize = replBacklogSize;
+  });
+
+  test("should resize the backlog, keeping its latest bytes", () => {
+    syncReplica(replica, null, 0);
+    propagateToReplicas([{ command: "SET", args: args("key", "value") }]);
+    const { offset, backlog } = replicationInfo();
+    assert.ok((backlog?.length as number) > 16);
+
+    setSize("16");
+    assert.deepStrictEqual(replicationInfo().backlog, {
+      size: 16,
+      firstByteOffset: offset - 15,
+      length: 16,
+    });
+  });
+
+  test("should refuse sizes the backlog cannot have", () => {
+    for (const size of ["0", "-1", "1.5"]) {
+      assert.throws(() => setSize(size), CommandError);
+    }
+    assert.strictEqual(replicationInfo().backlog?.size, 16);
+  });
+});
+
+describe("REPLICAOF NO ONE", () => {
+  test("should let replicas of the former primary continue", async () => {
+    const output: string[] = [];
+    const sibling = createClient({
+      destroyed: false,
+      write: (data: Buffer) => output.push(data.toString("latin1")),
+    } as unknown as net.Socket);
+    const replica = createClient();
+    syncReplica(replica, null, 0);
+    removeReplica(replica);
+    const { replid: former, offset } = replicationInfo();
+
+    // Nothing listens on port 1, it only has to become a replica.
+    setMaster("127.0.0.1", 1);
+    unsetMaster();
+    const { replid, replid2, secondReplOffset } = replicationInfo();
+    assert.notStrictEqual(replid, former);
+    assert.strictEqual(replid2, former);
+    assert.strictEqual(secondReplOffset, offset + 1);
+
+    syncReplica(sibling, former, offset + 1);
+    await new Promise((resolve) => setImmediate(resolve));
+    removeReplica(sibling);
+    assert.deepStrictEqual(output, [`+CONTINUE ${replid}\r\n`]);
+  });
+});
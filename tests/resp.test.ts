@@ -0,0 +1,59 @@
+import assert from "assert";
+import { describe, test } from "node:test";
+import { encodeReply, reply } from "../src/resp";
+
+const encode = (value: Parameters<typeof encodeReply>[0], protocol: 2 | 3) =>
+  encodeReply(value, protocol).toString();
+
+describe("encodeReply", () => {
+  test("should encode the basic types the same in both protocols", () => {
+    for (const protocol of [2, 3] as const) {
+      assert.strictEqual(encode(reply.ok(), protocol), "+OK\r\n");
+      assert.strictEqual(encode(reply.error("ERR x"), protocol), "-ERR x\r\n");
+      assert.strictEqual(encode(reply.integer(-3), protocol), ":-3\r\n");
+      assert.strictEqual(
+        encode(reply.bulk("héllo"), protocol),
+        "$6\r\nhéllo\r\n"
+      );
+      assert.strictEqual(
+        encode(reply.bulkArray(["a", "bc"]), protocol),
+        "*2\r\n$1\r\na\r\n$2\r\nbc\r\n"
+      );
+    }
+  });
+
+  test("should encode nulls per protocol", () => {
+    assert.strictEqual(encode(reply.nil(), 2), "$-1\r\n");
+    assert.strictEqual(encode(reply.nilArray(), 2), "*-1\r\n");
+    assert.strictEqual(encode(reply.nil(), 3), "_\r\n");
+    assert.strictEqual(encode(reply.nilArray(), 3), "_\r\n");
+  });
+
+  test("should flatten maps into arrays in RESP2", () => {
+    const value = reply.map([[reply.bulk("a"), reply.integer(1)]]);
+    assert.strictEqual(encode(value, 2), "*2\r\n$1\r\na\r\n:1\r\n");
+    assert.strictEqual(encode(value, 3), "%1\r\n$1\r\na\r\n:1\r\n");
+  });
+
+  test("should encode RESP3 scalar types with RESP2 fallbacks", () => {
+    assert.strictEqual(encode(reply.double(1.5), 3), ",1.5\r\n");
+    assert.strictEqual(encode(reply.double(1.5), 2), "$3\r\n1.5\r\n");
+    assert.strictEqual(encode(reply.double(-Infinity), 3), ",-inf\r\n");
+    assert.strictEqual(encode(reply.boolean(true), 3), "#t\r\n");
+    assert.strictEqual(encode(reply.boolean(false), 2), ":0\r\n");
+    assert.strictEqual(encode(reply.verbatim("hi"), 3), "=6\r\ntxt:hi\r\n");
+    assert.strictEqual(encode(reply.verbatim("hi"), 2), "$2\r\nhi\r\n");
+  });
+
+  test("should encode sets and pushes per protocol", () => {
+    const members = [reply.bulk("a")];
+    assert.strictEqual(encode(reply.set(members), 3), "~1\r\n$1\r\na\r\n");
+    assert.strictEqual(encode(reply.set(members), 2), "*1\r\n$1\r\na\r\n");
+    assert.strictEqual(encode(reply.push(members), 3), ">1\r\n$1\r\na\r\n");
+  });
+
+  test("should encode nothing for commands that replied themselves", () => {
+    assert.strictEqual(encode(reply.none(), 2), "");
+    assert.strictEqual(encode(reply.none(), 3), "");
+  });
+});
@@ -0,0 +1,148 @@
+import assert from "assert";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import config from "../src/config.json";
+import { createClient } from "../src/client";
+import { takePropagated } from "../src/propagation";
+import { Reply, reply } from "../src/resp";
+import {
+  flushScripts,
+  initScripting,
+  loadScript,
+  runScript,
+  scriptExists,
+  sha1hex,
+} from "../src/scripting";
+
+const calls: string[][] = [];
+
+// Echoes writes back as OK and everything else as an error.
+beforeEach(() => {
+  calls.length = 0;
+  initScripting((command, args) => {
+    calls.push([command, ...args.map((arg) => arg.toString())]);
+    if (command !== "SET") {
+      return { result: reply.error("ERR unknown"), propagated: [] };
+    }
+    return { result: reply.ok(), propagated: [{ command, args, db: 0 }] };
+  });
+});
+
+afterEach(() => {
+  flushScripts();
+  takePropagated();
+});
+
+const run = (body: string, keys: string[] = [], argv: string[] = []): Reply =>
+  runScript(
+    loadScript(Buffer.from(body)),
+    keys.map((key) => Buffer.from(key)),
+    argv.map((arg) => Buffer.from(arg)),
+    createClient()
+  ) as Reply;
+
+describe("Scripting", () => {
+  test("should cache scripts by their SHA1", () => {
+    const body = Buffer.from("return 1");
+    const sha = loadScript(body);
+
+    assert.strictEqual(sha, sha1hex(body));
+    assert.strictEqual(sha, "e0e1f9fabfc9d4800c877a703b823ac0578ff8db");
+    assert.ok(scriptExists(sha));
+    flushScripts();
+    assert.ok(!scriptExists(sha));
+    assert.strictEqual(runScript(sha, [], [], createClient()), undefined);
+  });
+
+  test("should pass keys and arguments and convert the result", () => {
+    const result = run(
+      "return [KEYS[0], ARGV[1], 2.9, true, false, null, redis.status_reply('FINE')]",
+      ["key"],
+      ["a", "b"]
+    );
+    assert.deepStrictEqual(
+      result,
+      reply.array([
+        reply.bulk("key"),
+        reply.bulk("b"),
+        reply.integer(2),
+        reply.integer(1),
+        reply.nil(),
+        reply.nil(),
+        reply.simple("FINE"),
+      ])
+    );
+  });
+
+  test("should raise command errors from redis.call but not redis.pcall", () => {
+    assert.deepStrictEqual(
+      run("return redis.pcall('get', 'key')"),
+      reply.error("ERR unknown")
+    );
+    assert.deepStrictEqual(
+      run("redis.call('get', 'key'); return 1"),
+      reply.error("ERR unknown")
+    );
+    assert.deepStrictEqual(calls, [
+      ["GET", "key"],
+      ["GET", "key"],
+    ]);
+  });
+
+  test("should report compile and runtime errors", () => {
+    assert.throws(() => loadScript(Buffer.from("return (")), {
+      message: /^ERR Error compiling script/,
+    });
+
+    const result = run("throw new TypeError('boom')");
+    assert.strictEqual(result.type, "error");
+    assert.match(
+      result.type === "error" ? result.value : "",
+      /^ERR Error running script \(call to f_[0-9a-f]{40}\): TypeError: boom$/
+    );
+  });
+
+  test("should not reach node from the script context", () => {
+    assert.deepStrictEqual(
+      run("return [typeof require, typeof process, typeof Buffer]"),
+      reply.bulkArray(["undefined", "undefined", "undefined"])
+    );
+    for (const escape of [
+      "return redis.call.constructor('return process')()",
+      "return eval('1')",
+    ]) {
+      const result = run(escape);
+      assert.strictEqual(result.type, "error", escape);
+    }
+  });
+
+  test("should propagate the writes wrapped in MULTI/EXEC, even on failure", () => {
+    run("redis.call('set', 'a', '1'); redis.call('set', 'b', 2); throw 'x'");
+    assert.deepStrictEqual(
+      takePropagated()?.map(({ command, args }) =>
+        [command, ...args.map((arg) => arg.toString())].join(" ")
+      ),
+      ["MULTI", "SET a 1", "SET b 2", "EXEC"]
+    );
+
+    run("redis.call('set', 'a', '1')");
+    assert.strictEqual(takePropagated()?.length, 1);
+
+    run("return 1");
+    assert.deepStrictEqual(takePropagated(), []);
+  });
+
+  test("should stop scripts exceeding the time limit", () => {
+    const limit = config.scriptTimeLimit;
+    config.scriptTimeLimit = 50;
+    try {
+      assert.deepStrictEqual(
+        run("while (true) {}"),
+        reply.error(
+          "ERR Script killed after running for more than 50 milliseconds"
+        )
+      );
+    } finally {
+      config.scriptTimeLimit = limit;
+    }
+  });
+});
@@ -1,10 +1,18 @@
 import net from "net";
 import assert from "assert";
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
 import { before, after, test, describe } from "node:test";
 import { buildRedisCommand } from "../src/utils/build-command";
+import { encodeCommand } from "../src/resp";
 
 let redisClient: net.Socket;
 
+const WRONGTYPE =
+  "-WRONGTYPE Operation against a key holding the wrong kind of value\r\n";
+
 const generateCommand = (cmd: string, key: string = "", ...args: string[]) =>
   `${cmd} ${key} ${args.join(" ")}`;
 
@@ -94,7 +102,7 @@ describe("Get tests", () => {
     const getResponse = await sendCommand("get");
     assert.strictEqual(
       getResponse,
-      "-ERR missing argument for 'get' command\r\n"
+      "-ERR wrong number of arguments for 'get' command\r\n"
     );
   });
 });
@@ -138,6 +146,235 @@ describe("Delete tests", () => {
   });
 });
 
+describe("Keyspace tests", () => {
+  before(async () => {
+    await connectToRedis();
+    await sendCommand("flushdb");
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should delete and count several keys at once", async () => {
+    await sendCommand("set ks:a 1");
+    await sendCommand("set ks:b 2");
+    assert.strictEqual(
+      await sendCommand("exists ks:a ks:b ks:a ks:missing"),
+      ":3\r\n"
+    );
+    assert.strictEqual(await sendCommand("del ks:a ks:b ks:missing"), ":2\r\n");
+    assert.strictEqual(await sendCommand("exists ks:a ks:b"), ":0\r\n");
+
+    await sendCommand("set ks:a 1");
+    assert.strictEqual(await sendCommand("unlink ks:a"), ":1\r\n");
+    assert.strictEqual(await sendCommand("touch ks:a"), ":0\r\n");
+  });
+
+  test("should report the type of a key", async () => {
+    await sendCommand("set ks:str v");
+    await sendCommand("rpush ks:list v");
+    await sendCommand("zadd ks:zset 1 v");
+    assert.strictEqual(await sendCommand("type ks:str"), "+string\r\n");
+    assert.strictEqual(await sendCommand("type ks:list"), "+list\r\n");
+    assert.strictEqual(await sendCommand("type ks:zset"), "+zset\r\n");
+    assert.strictEqual(await sendCommand("type ks:missing"), "+none\r\n");
+  });
+
+  test("should list keys matching a pattern", async () => {
+    const response = (await sendCommand("keys ks:[sz]*")) as string;
+    assert.ok(response.startsWith("*2\r\n"));
+    assert.ok(response.includes("ks:str"));
+    assert.ok(!response.includes("ks:list"));
+    assert.strictEqual(await sendCommand("dbsize"), ":3\r\n");
+  });
+
+  test("should not list expired keys", async () => {
+    await sendCommand("set ks:gone v PX 1");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.strictEqual(await sendCommand("keys ks:gone"), "*0\r\n");
+    assert.strictEqual(await sendCommand("exists ks:gone"), ":0\r\n");
+  });
+
+  test("should SCAN every key in pages", async () => {
+    for (let i = 0; i < 20; i++) {
+      await sendCommand(`set ks:scan:${i} v`);
+    }
+
+    const seen = new Set<string>();
+    let cursor = "0";
+    do {
+      const response = (await sendCommand(
+        `scan ${cursor} match ks:scan:* count 5`
+      )) as string;
+      const lines = response.split("\r\n");
+      cursor = lines[2];
+      for (let i = 5; i < lines.length; i += 2) {
+        if (lines[i]) seen.add(lines[i]);
+      }
+    } while (cursor !== "0");
+
+    assert.strictEqual(seen.size, 20);
+  });
+
+  test("should filter SCAN by type", async () => {
+    assert.strictEqual(
+      await sendCommand("scan 0 type zset count 1000"),
+      "*2\r\n$1\r\n0\r\n*1\r\n$7\r\nks:zset\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("scan 0 type nope"),
+      "-ERR unknown type name 'nope'\r\n"
+    );
+  });
+
+  test("should rename keys with their TTL", async () => {
+    await sendCommand("set ks:old v EX 100");
+    assert.strictEqual(await sendCommand("rename ks:old ks:new"), "+OK\r\n");
+    assert.strictEqual(await sendCommand("get ks:new"), "$1\r\nv\r\n");
+    assert.ok(
+      /^:(99|100)\r\n$/.test((await sendCommand("ttl ks:new")) as string)
+    );
+    assert.strictEqual(await sendCommand("exists ks:old"), ":0\r\n");
+    assert.strictEqual(
+      await sendCommand("rename ks:old ks:new"),
+      "-ERR no such key\r\n"
+    );
+
+    assert.strictEqual(await sendCommand("renamenx ks:new ks:str"), ":0\r\n");
+    assert.strictEqual(await sendCommand("renamenx ks:new ks:other"), ":1\r\n");
+  });
+
+  test("should copy values independently", async () => {
+    assert.strictEqual(await sendCommand("copy ks:list ks:copy"), ":1\r\n");
+    await sendCommand("rpush ks:copy w");
+    assert.strictEqual(
+      await sendCommand("lrange ks:list 0 -1"),
+      "*1\r\n$1\r\nv\r\n"
+    );
+    assert.strictEqual(await sendCommand("copy ks:str ks:copy"), ":0\r\n");
+    assert.strictEqual(
+      await sendCommand("copy ks:str ks:copy replace"),
+      ":1\r\n"
+    );
+    assert.strictEqual(await sendCommand("type ks:copy"), "+string\r\n");
+  });
+
+  test("should return a random key", async () => {
+    assert.ok(((await sendCommand("randomkey")) as string).includes("ks:"));
+  });
+
+  test("should flush the database", async () => {
+    assert.strictEqual(await sendCommand("flushdb"), "+OK\r\n");
+    assert.strictEqual(await sendCommand("dbsize"), ":0\r\n");
+    assert.strictEqual(await sendCommand("randomkey"), "$-1\r\n");
+    assert.strictEqual(
+      await sendCommand("flushall later"),
+      "-ERR syntax error\r\n"
+    );
+  });
+});
+
+describe("Database tests", () => {
+  before(async () => {
+    await connectToRedis();
+    await sendCommand("flushall");
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should keep the keys of each database apart", async () => {
+    assert.strictEqual(await sendCommand("select 1"), "+OK\r\n");
+    await sendCommand("set db:key one");
+    assert.strictEqual(await sendCommand("dbsize"), ":1\r\n");
+
+    assert.strictEqual(await sendCommand("select 0"), "+OK\r\n");
+    assert.strictEqual(await sendCommand("get db:key"), "$-1\r\n");
+    assert.strictEqual(await sendCommand("dbsize"), ":0\r\n");
+  });
+
+  test("should reject invalid database indexes", async () => {
+    assert.strictEqual(
+      await sendCommand("select 16"),
+      "-ERR DB index is out of range\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("select one"),
+      "-ERR value is not an integer or out of range\r\n"
+    );
+  });
+
+  test("should MOVE a key to another database", async () => {
+    await sendCommand("set db:moved v EX 100");
+    assert.strictEqual(await sendCommand("move db:moved 2"), ":1\r\n");
+    assert.strictEqual(await sendCommand("exists db:moved"), ":0\r\n");
+    assert.strictEqual(
+      await sendCommand("move db:moved 0"),
+      "-ERR source and destination objects are the same\r\n"
+    );
+
+    await sendCommand("select 2");
+    assert.strictEqual(await sendCommand("get db:moved"), "$1\r\nv\r\n");
+    assert.ok(
+      /^:(99|100)\r\n$/.test((await sendCommand("ttl db:moved")) as string)
+    );
+
+    await sendCommand("select 0");
+    await sendCommand("set db:moved other");
+    assert.strictEqual(await sendCommand("move db:moved 2"), ":0\r\n");
+  });
+
+  test("should COPY a key to another database", async () => {
+    assert.strictEqual(
+      await sendCommand("copy db:moved db:copy db 3"),
+      ":1\r\n"
+    );
+    await sendCommand("select 3");
+    assert.strictEqual(await sendCommand("get db:copy"), "$5\r\nother\r\n");
+    await sendCommand("select 0");
+  });
+
+  test("should SWAPDB two databases", async () => {
+    assert.strictEqual(await sendCommand("swapdb 0 1"), "+OK\r\n");
+    assert.strictEqual(await sendCommand("get db:key"), "$3\r\none\r\n");
+    assert.strictEqual(await sendCommand("exists db:moved"), ":0\r\n");
+    await sendCommand("swapdb 0 1");
+  });
+
+  test("should only watch keys of the selected database", async () => {
+    await sendCommand("select 1");
+    await sendCommand("watch db:key");
+    await sendCommand("select 0");
+    await sendCommand("set db:key changed");
+    await sendCommand("multi");
+    await sendCommand("get db:key");
+    assert.strictEqual(await sendCommand("exec"), "*1\r\n$7\r\nchanged\r\n");
+
+    await sendCommand("select 1");
+    await sendCommand("watch db:key");
+    await sendCommand("swapdb 0 1");
+    await sendCommand("multi");
+    await sendCommand("get db:key");
+    assert.strictEqual(await sendCommand("exec"), "*-1\r\n");
+    await sendCommand("select 0");
+  });
+
+  test("should flush one database or all of them", async () => {
+    assert.strictEqual(await sendCommand("flushdb"), "+OK\r\n");
+    await sendCommand("select 3");
+    assert.strictEqual(await sendCommand("dbsize"), ":1\r\n");
+    assert.strictEqual(await sendCommand("flushall"), "+OK\r\n");
+    assert.strictEqual(await sendCommand("dbsize"), ":0\r\n");
+    await sendCommand("select 0");
+  });
+});
+
 describe("EXPIRE command tests", () => {
   before(async () => {
     await connectToRedis();
@@ -151,7 +388,7 @@ describe("EXPIRE command tests", () => {
   test("should set an expiration time for a key", async () => {
     await sendCommand("set foo bar");
     const expireResponse = await sendCommand("expire foo 10");
-    assert.strictEqual(expireResponse, "+OK\r\n");
+    assert.strictEqual(expireResponse, ":1\r\n");
   });
   test("should return -ERR for wrong number of arguments for EXPIRE", async () => {
     const expireResponse = await sendCommand("expire");
@@ -177,7 +414,7 @@ describe("EXPIRE with TTL tests", () => {
     await sendCommand("set hoo bar");
 
     const expireResponse = await sendCommand(`expire hoo ${ttls}`);
-    assert.strictEqual(expireResponse, "+OK\r\n");
+    assert.strictEqual(expireResponse, ":1\r\n");
 
     const ttlResponse = (await sendCommand("ttl hoo")) as string;
 
@@ -190,10 +427,17 @@ describe("EXPIRE with TTL tests", () => {
     );
   });
 
-  test("should return -1 for non-existing key", async () => {
+  test("should return -2 for non-existing key", async () => {
     const ttlResponse = await sendCommand("ttl non_existing_key");
 
-    assert.strictEqual(ttlResponse, "-2\r\n");
+    assert.strictEqual(ttlResponse, ":-2\r\n");
+  });
+
+  test("should return -1 for a key without expiration", async () => {
+    await sendCommand("set persistent bar");
+    const ttlResponse = await sendCommand("ttl persistent");
+
+    assert.strictEqual(ttlResponse, ":-1\r\n");
   });
 
   test("should return -ERR for wrong number of arguments for TTL", async () => {
@@ -205,6 +449,93 @@ describe("EXPIRE with TTL tests", () => {
   });
 });
 
+describe("Expiration tests", () => {
+  before(async () => {
+    await connectToRedis();
+    for (const key of ["exp:a", "exp:b", "exp:missing"]) {
+      await sendCommand(`delete ${key}`);
+    }
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should not set a TTL on a missing key", async () => {
+    assert.strictEqual(await sendCommand("expire exp:missing 10"), ":0\r\n");
+    await sendCommand("set exp:missing bar");
+    assert.strictEqual(await sendCommand("ttl exp:missing"), ":-1\r\n");
+  });
+
+  test("should SET with EX and PX", async () => {
+    assert.strictEqual(await sendCommand("set exp:a bar EX 100"), "+OK\r\n");
+    const ttl = (await sendCommand("ttl exp:a")) as string;
+    assert.ok(/^:(99|100)\r\n$/.test(ttl), `unexpected TTL ${ttl}`);
+
+    await sendCommand("set exp:b bar PX 30");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.strictEqual(await sendCommand("get exp:b"), "$-1\r\n");
+  });
+
+  test("should clear the TTL on SET unless KEEPTTL is given", async () => {
+    await sendCommand("set exp:a bar EX 100");
+    await sendCommand("set exp:a baz KEEPTTL");
+    assert.notStrictEqual(await sendCommand("ttl exp:a"), ":-1\r\n");
+
+    await sendCommand("set exp:a baz");
+    assert.strictEqual(await sendCommand("ttl exp:a"), ":-1\r\n");
+  });
+
+  test("should honour SET NX, XX and GET", async () => {
+    assert.strictEqual(await sendCommand("set exp:a qux NX"), "$-1\r\n");
+    assert.strictEqual(await sendCommand("set exp:b qux XX"), "$-1\r\n");
+    assert.strictEqual(await sendCommand("set exp:a qux GET"), "$3\r\nbaz\r\n");
+    assert.strictEqual(
+      await sendCommand("set exp:a bar EX 10 PX 100"),
+      "-ERR syntax error\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("set exp:a bar EX 0"),
+      "-ERR invalid expire time in 'set' command\r\n"
+    );
+  });
+
+  test("should PEXPIRE, PTTL and PERSIST", async () => {
+    assert.strictEqual(await sendCommand("pexpire exp:a 100000"), ":1\r\n");
+    const pttl = (await sendCommand("pttl exp:a")) as string;
+    assert.ok(/^:\d{5,6}\r\n$/.test(pttl), `unexpected PTTL ${pttl}`);
+
+    assert.strictEqual(await sendCommand("persist exp:a"), ":1\r\n");
+    assert.strictEqual(await sendCommand("persist exp:a"), ":0\r\n");
+    assert.strictEqual(await sendCommand("pttl exp:a"), ":-1\r\n");
+  });
+
+  test("should honour EXPIRE NX, XX, GT and LT", async () => {
+    assert.strictEqual(await sendCommand("expire exp:a 100 XX"), ":0\r\n");
+    assert.strictEqual(await sendCommand("expire exp:a 100 NX"), ":1\r\n");
+    assert.strictEqual(await sendCommand("expire exp:a 50 GT"), ":0\r\n");
+    assert.strictEqual(await sendCommand("expire exp:a 50 LT"), ":1\r\n");
+  });
+
+  test("should EXPIREAT and report EXPIRETIME", async () => {
+    const at = Math.floor(Date.now() / 1000) + 1000;
+    assert.strictEqual(await sendCommand(`expireat exp:a ${at}`), ":1\r\n");
+    assert.strictEqual(await sendCommand("expiretime exp:a"), `:${at}\r\n`);
+    assert.strictEqual(
+      await sendCommand("pexpiretime exp:a"),
+      `:${at * 1000}\r\n`
+    );
+    assert.strictEqual(await sendCommand("expiretime exp:b"), ":-2\r\n");
+  });
+
+  test("should delete the key when the expire time is in the past", async () => {
+    assert.strictEqual(await sendCommand("expireat exp:a 1"), ":1\r\n");
+    assert.strictEqual(await sendCommand("ttl exp:a"), ":-2\r\n");
+  });
+});
+
 describe.only("INCR tests", () => {
   before(async () => {
     await connectToRedis();
@@ -274,7 +605,7 @@ describe("LIST tests", () => {
   });
   test("should return an empty list for non-existing key", async () => {
     const listResponse = await sendCommand("lrange non_existing_key 0 -1");
-    assert.strictEqual(listResponse, "$-1\r\n");
+    assert.strictEqual(listResponse, "*0\r\n");
   });
 
   test("should return an item from list", async () => {
@@ -288,7 +619,7 @@ describe("LIST tests", () => {
     await sendCommand("set foo bar");
 
     const listResponse = await sendCommand("lpush foo one");
-    assert.strictEqual(listResponse, "-ERR wrong type of key\r\n");
+    assert.strictEqual(listResponse, WRONGTYPE);
   });
 
   test("should return -ERR for wrong number of arguments for LPUSH", async () => {
@@ -329,7 +660,7 @@ describe("LIST tests", () => {
   test("should return -ERR for wrong data structure on LPOP", async () => {
     await sendCommand("set lpoo bar");
     const listResponse = await sendCommand("lpop lpoo");
-    assert.strictEqual(listResponse, "$-1\r\n");
+    assert.strictEqual(listResponse, WRONGTYPE);
   });
 
   test("should return an item from list for RPOP", async () => {
@@ -341,7 +672,7 @@ describe("LIST tests", () => {
   test("should return -ERR for wrong data structure on RPUSH", async () => {
     await sendCommand("set rpush bar");
     const listResponse = await sendCommand("rpush rpush one");
-    assert.strictEqual(listResponse, "-ERR wrong type of key\r\n");
+    assert.strictEqual(listResponse, WRONGTYPE);
   });
 
   test("should return -ERR for wrong number of arguments for RPUSH", async () => {
@@ -360,16 +691,166 @@ describe("LIST tests", () => {
   });
 });
 
-describe.skip("PING tests", () => {
-  test.todo("should return +PONG for PING", async () => {
-    const pingResponse = await sendCommand("ping");
-    assert.strictEqual(pingResponse, "+PONG\r\n");
+describe("Blocking list tests", () => {
+  // A separate connection that collects everything it receives, so replies
+  // to blocked commands can be awaited while other clients push.
+  const openConnection = () => {
+    return new Promise<{ socket: net.Socket; received: () => string }>(
+      (resolve) => {
+        let buffer = "";
+        const socket = net.createConnection({ port: 6379 }, () =>
+          resolve({ socket, received: () => buffer })
+        );
+        socket.on("data", (data: Buffer) => {
+          buffer += data.toString();
+        });
+      }
+    );
+  };
+
+  const waitFor = async (read: () => string, expected: string) => {
+    for (let i = 0; i < 100 && read().length < expected.length; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return read();
+  };
+
+  const sleep = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  before(async () => {
+    await connectToRedis();
+    for (const key of ["jobs", "jobs:done", "jobs:other"]) {
+      await sendCommand(`delete ${key}`);
+    }
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should pop right away when the list has data", async () => {
+    await sendCommand("rpush jobs a");
+    assert.strictEqual(
+      await sendCommand("blpop jobs:other jobs 0"),
+      "*2\r\n$4\r\njobs\r\n$1\r\na\r\n"
+    );
+  });
+
+  test("should return null once the timeout expires", async () => {
+    const started = Date.now();
+    assert.strictEqual(await sendCommand("brpop jobs 0.1"), "*-1\r\n");
+    assert.ok(Date.now() - started >= 100);
+  });
+
+  test("should wake a blocked client on push", async () => {
+    const worker = await openConnection();
+    worker.socket.write(buildRedisCommand("blpop jobs 0"));
+    await sleep(50);
+    assert.strictEqual(worker.received(), "");
+
+    assert.strictEqual(await sendCommand("lpush jobs task"), ":1\r\n");
+    const expected = "*2\r\n$4\r\njobs\r\n$4\r\ntask\r\n";
+    assert.strictEqual(await waitFor(worker.received, expected), expected);
+    assert.strictEqual(await sendCommand("lrange jobs 0 -1"), "*0\r\n");
+    worker.socket.end();
+  });
+
+  test("should serve blocked clients in FIFO order", async () => {
+    const first = await openConnection();
+    const second = await openConnection();
+    first.socket.write(buildRedisCommand("brpop jobs 0"));
+    await sleep(20);
+    second.socket.write(buildRedisCommand("brpop jobs 0"));
+    await sleep(20);
+
+    await sendCommand("rpush jobs one");
+    const expected = "*2\r\n$4\r\njobs\r\n$3\r\none\r\n";
+    assert.strictEqual(await waitFor(first.received, expected), expected);
+    assert.strictEqual(second.received(), "");
+
+    await sendCommand("rpush jobs two");
+    const next = "*2\r\n$4\r\njobs\r\n$3\r\ntwo\r\n";
+    assert.strictEqual(await waitFor(second.received, next), next);
+
+    first.socket.end();
+    second.socket.end();
+  });
+
+  test("should hold pipelined commands until the client unblocks", async () => {
+    const worker = await openConnection();
+    worker.socket.write(
+      buildRedisCommand("blpop jobs 0") + buildRedisCommand("get jobs:other")
+    );
+    await sleep(50);
+    assert.strictEqual(worker.received(), "");
+
+    await sendCommand("rpush jobs x");
+    const expected = "*2\r\n$4\r\njobs\r\n$1\r\nx\r\n$-1\r\n";
+    assert.strictEqual(await waitFor(worker.received, expected), expected);
+    worker.socket.end();
+  });
+
+  test("should forget clients that disconnect while blocked", async () => {
+    const worker = await openConnection();
+    worker.socket.write(buildRedisCommand("blpop jobs 0"));
+    await sleep(20);
+    await new Promise((resolve) => {
+      worker.socket.once("close", resolve);
+      worker.socket.end();
+    });
+    await sleep(20);
+
+    await sendCommand("rpush jobs kept");
+    assert.strictEqual(
+      await sendCommand("lrange jobs 0 -1"),
+      "*1\r\n$4\r\nkept\r\n"
+    );
+  });
+
+  test("should move elements with BLMOVE and BRPOPLPUSH", async () => {
+    assert.strictEqual(
+      await sendCommand("blmove jobs jobs:done LEFT RIGHT 0"),
+      "$4\r\nkept\r\n"
+    );
+
+    const worker = await openConnection();
+    worker.socket.write(buildRedisCommand("brpoplpush jobs jobs:done 0"));
+    await sleep(20);
+    await sendCommand("lpush jobs late");
+    const expected = "$4\r\nlate\r\n";
+    assert.strictEqual(await waitFor(worker.received, expected), expected);
+    assert.strictEqual(
+      await sendCommand("lrange jobs:done 0 -1"),
+      "*2\r\n$4\r\nlate\r\n$4\r\nkept\r\n"
+    );
+    worker.socket.end();
+  });
+
+  test("should not block inside a transaction", async () => {
+    await sendCommand("multi");
+    await sendCommand("blpop jobs 0");
+    assert.strictEqual(await sendCommand("exec"), "*1\r\n*-1\r\n");
+  });
+
+  test("should reject invalid timeouts", async () => {
+    assert.strictEqual(
+      await sendCommand("blpop jobs -1"),
+      "-ERR timeout is negative\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("blpop jobs soon"),
+      "-ERR timeout is not a float or out of range\r\n"
+    );
   });
 });
 
-describe("COMMAND tests", () => {
+describe("HASH tests", () => {
   before(async () => {
     await connectToRedis();
+    await sendCommand("delete user:1");
   });
 
   after(() => {
@@ -378,16 +859,1556 @@ describe("COMMAND tests", () => {
     }
   });
 
-  test("should return +OK for COMMAND", async () => {
-    const commandResponse = await sendCommand("command");
-    assert.strictEqual(commandResponse, "+OK\r\n");
+  test("should HSET fields and return how many were added", async () => {
+    const hsetResponse = await sendCommand("hset user:1 name ada lang en");
+    assert.strictEqual(hsetResponse, ":2\r\n");
+
+    const updateResponse = await sendCommand("hset user:1 lang fr");
+    assert.strictEqual(updateResponse, ":0\r\n");
   });
 
-  test("should return -ERR for unknown command", async () => {
-    const unknownCommandResponse = await sendCommand("unknown_command");
+  test("should HGET and HMGET fields", async () => {
+    assert.strictEqual(await sendCommand("hget user:1 name"), "$3\r\nada\r\n");
     assert.strictEqual(
-      unknownCommandResponse,
-      "-ERR unknown command UNKNOWN_COMMAND\r\n"
+      await sendCommand("hmget user:1 lang missing"),
+      "*2\r\n$2\r\nfr\r\n$-1\r\n"
+    );
+  });
+
+  test("should HGETALL as a flat array", async () => {
+    const hgetallResponse = await sendCommand("hgetall user:1");
+    assert.strictEqual(
+      hgetallResponse,
+      "*4\r\n$4\r\nname\r\n$3\r\nada\r\n$4\r\nlang\r\n$2\r\nfr\r\n"
+    );
+  });
+
+  test("should HINCRBY and HINCRBYFLOAT", async () => {
+    assert.strictEqual(await sendCommand("hincrby user:1 visits 5"), ":5\r\n");
+    assert.strictEqual(
+      await sendCommand("hincrbyfloat user:1 score 1.5"),
+      "$3\r\n1.5\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("hincrby user:1 name 1"),
+      "-ERR hash value is not an integer\r\n"
+    );
+  });
+
+  test("should HDEL fields and report HEXISTS and HLEN", async () => {
+    assert.strictEqual(await sendCommand("hdel user:1 visits score"), ":2\r\n");
+    assert.strictEqual(await sendCommand("hexists user:1 visits"), ":0\r\n");
+    assert.strictEqual(await sendCommand("hlen user:1"), ":2\r\n");
+    assert.strictEqual(await sendCommand("hstrlen user:1 name"), ":3\r\n");
+  });
+
+  test("should HSCAN every field", async () => {
+    const hscanResponse = (await sendCommand(
+      "hscan user:1 0 COUNT 10"
+    )) as string;
+    assert.ok(hscanResponse.startsWith("*2\r\n$1\r\n0\r\n*4\r\n"));
+  });
+
+  test("should return WRONGTYPE for hash commands on other types", async () => {
+    await sendCommand("set plain bar");
+    assert.strictEqual(await sendCommand("hget plain name"), WRONGTYPE);
+    assert.strictEqual(await sendCommand("get user:1"), WRONGTYPE);
+  });
+
+  test("should return -ERR for wrong number of arguments for HSET", async () => {
+    const hsetResponse = await sendCommand("hset user:1 name");
+    assert.strictEqual(
+      hsetResponse,
+      "-ERR wrong number of arguments for 'hset' command\r\n"
+    );
+  });
+});
+
+describe("SET type tests", () => {
+  before(async () => {
+    await connectToRedis();
+    for (const key of ["tags:a", "tags:b", "tags:out", "tags:dst"]) {
+      await sendCommand(`delete ${key}`);
+    }
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should SADD members and ignore duplicates", async () => {
+    assert.strictEqual(await sendCommand("sadd tags:a x y z x"), ":3\r\n");
+    assert.strictEqual(await sendCommand("sadd tags:b y z w"), ":3\r\n");
+    assert.strictEqual(await sendCommand("scard tags:a"), ":3\r\n");
+  });
+
+  test("should check membership", async () => {
+    assert.strictEqual(await sendCommand("sismember tags:a x"), ":1\r\n");
+    assert.strictEqual(
+      await sendCommand("smismember tags:a x w"),
+      "*2\r\n:1\r\n:0\r\n"
+    );
+  });
+
+  test("should compute SINTER, SUNION and SDIFF", async () => {
+    const inter = (await sendCommand("sinter tags:a tags:b")) as string;
+    assert.ok(inter.startsWith("*2\r\n"));
+    assert.ok(inter.includes("$1\r\ny\r\n") && inter.includes("$1\r\nz\r\n"));
+
+    const union = (await sendCommand("sunion tags:a tags:b")) as string;
+    assert.ok(union.startsWith("*4\r\n"));
+
+    assert.strictEqual(
+      await sendCommand("sdiff tags:a tags:b"),
+      "*1\r\n$1\r\nx\r\n"
+    );
+  });
+
+  test("should store set operation results", async () => {
+    assert.strictEqual(
+      await sendCommand("sinterstore tags:out tags:a tags:b"),
+      ":2\r\n"
+    );
+    assert.strictEqual(await sendCommand("scard tags:out"), ":2\r\n");
+  });
+
+  test("should SMOVE and SREM members", async () => {
+    assert.strictEqual(await sendCommand("smove tags:a tags:dst x"), ":1\r\n");
+    assert.strictEqual(await sendCommand("sismember tags:dst x"), ":1\r\n");
+    assert.strictEqual(await sendCommand("srem tags:a x y"), ":1\r\n");
+  });
+
+  test("should SPOP the only remaining member", async () => {
+    assert.strictEqual(await sendCommand("spop tags:dst"), "$1\r\nx\r\n");
+    assert.strictEqual(await sendCommand("spop tags:dst"), "$-1\r\n");
+  });
+
+  test("should reply with a RESP3 set for SMEMBERS after HELLO 3", async () => {
+    await sendCommand("hello 3");
+    assert.strictEqual(
+      await sendCommand("smembers tags:a"),
+      "~1\r\n$1\r\nz\r\n"
+    );
+    await sendCommand("hello 2");
+  });
+
+  test("should return WRONGTYPE for set commands on other types", async () => {
+    await sendCommand("set plain bar");
+    assert.strictEqual(await sendCommand("sadd plain x"), WRONGTYPE);
+    assert.strictEqual(await sendCommand("sunion tags:a plain"), WRONGTYPE);
+  });
+});
+
+describe("SORTED SET tests", () => {
+  before(async () => {
+    await connectToRedis();
+    for (const key of ["board", "letters", "board:out"]) {
+      await sendCommand(`delete ${key}`);
+    }
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should ZADD members and update scores", async () => {
+    assert.strictEqual(await sendCommand("zadd board 1 a 2 b 3 c"), ":3\r\n");
+    assert.strictEqual(await sendCommand("zadd board CH 5 a 4 d"), ":2\r\n");
+    assert.strictEqual(await sendCommand("zadd board NX 9 a"), ":0\r\n");
+    assert.strictEqual(await sendCommand("zcard board"), ":4\r\n");
+    assert.strictEqual(await sendCommand("zscore board a"), "$1\r\n5\r\n");
+  });
+
+  test("should reject incompatible ZADD options", async () => {
+    assert.strictEqual(
+      await sendCommand("zadd board NX XX 1 a"),
+      "-ERR XX and NX options at the same time are not compatible\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("zadd board 1 a 2"),
+      "-ERR syntax error\r\n"
+    );
+  });
+
+  test("should return ranges ordered by score", async () => {
+    assert.strictEqual(
+      await sendCommand("zrange board 0 -1"),
+      "*4\r\n$1\r\nb\r\n$1\r\nc\r\n$1\r\nd\r\n$1\r\na\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("zrange board 0 0 WITHSCORES"),
+      "*2\r\n$1\r\nb\r\n$1\r\n2\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("zrangebyscore board (3 +inf"),
+      "*2\r\n$1\r\nd\r\n$1\r\na\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("zrange board +inf -inf BYSCORE REV LIMIT 1 2"),
+      "*2\r\n$1\r\nd\r\n$1\r\nc\r\n"
+    );
+  });
+
+  test("should return ranks and counts", async () => {
+    assert.strictEqual(await sendCommand("zrank board a"), ":3\r\n");
+    assert.strictEqual(await sendCommand("zrevrank board a"), ":0\r\n");
+    assert.strictEqual(await sendCommand("zrank board missing"), "$-1\r\n");
+    assert.strictEqual(await sendCommand("zcount board 2 (4"), ":2\r\n");
+  });
+
+  test("should ZINCRBY and move the member", async () => {
+    assert.strictEqual(
+      await sendCommand("zincrby board 2.5 b"),
+      "$3\r\n4.5\r\n"
+    );
+    assert.strictEqual(await sendCommand("zrank board b"), ":2\r\n");
+  });
+
+  test("should return lexicographical ranges", async () => {
+    await sendCommand("zadd letters 0 a 0 b 0 c 0 d");
+    assert.strictEqual(
+      await sendCommand("zrangebylex letters [b (d"),
+      "*2\r\n$1\r\nb\r\n$1\r\nc\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("zrangebylex letters b +"),
+      "-ERR min or max not valid string range item\r\n"
+    );
+  });
+
+  test("should pop and remove members", async () => {
+    assert.strictEqual(
+      await sendCommand("zpopmin board"),
+      "*2\r\n$1\r\nc\r\n$1\r\n3\r\n"
+    );
+    assert.strictEqual(await sendCommand("zrem board d x"), ":1\r\n");
+    assert.strictEqual(
+      await sendCommand("zremrangebyscore board -inf 4.5"),
+      ":1\r\n"
+    );
+    assert.strictEqual(await sendCommand("zcard board"), ":1\r\n");
+  });
+
+  test("should store the weighted union of sorted sets", async () => {
+    assert.strictEqual(
+      await sendCommand("zunionstore board:out 2 board letters WEIGHTS 2 1"),
+      ":4\r\n"
+    );
+    assert.strictEqual(await sendCommand("zscore board:out a"), "$2\r\n10\r\n");
+  });
+
+  test("should reply with nested pairs WITHSCORES after HELLO 3", async () => {
+    await sendCommand("hello 3");
+    assert.strictEqual(
+      await sendCommand("zrange board 0 -1 WITHSCORES"),
+      "*1\r\n*2\r\n$1\r\na\r\n,5\r\n"
+    );
+    await sendCommand("hello 2");
+  });
+
+  test("should return WRONGTYPE for sorted set commands on other types", async () => {
+    await sendCommand("set plain bar");
+    assert.strictEqual(await sendCommand("zadd plain 1 x"), WRONGTYPE);
+    assert.strictEqual(await sendCommand("zrange plain 0 -1"), WRONGTYPE);
+  });
+});
+
+describe("Transaction tests", () => {
+  before(async () => {
+    await connectToRedis();
+    for (const key of ["stock", "audit"]) {
+      await sendCommand(`delete ${key}`);
+    }
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  // Runs a command on a second connection, as another client would.
+  const sendFromAnotherClient = async (command: string) => {
+    const current = redisClient;
+    await connectToRedis();
+    const response = await sendCommand(command);
+    redisClient.end();
+    redisClient = current;
+    return response;
+  };
+
+  test("should queue commands and run them on EXEC", async () => {
+    assert.strictEqual(await sendCommand("multi"), "+OK\r\n");
+    assert.strictEqual(await sendCommand("set stock 10"), "+QUEUED\r\n");
+    assert.strictEqual(await sendCommand("incr stock"), "+QUEUED\r\n");
+    assert.strictEqual(await sendCommand("get stock"), "+QUEUED\r\n");
+    assert.strictEqual(
+      await sendCommand("exec"),
+      "*3\r\n+OK\r\n:11\r\n$2\r\n11\r\n"
+    );
+  });
+
+  test("should report runtime errors without aborting", async () => {
+    await sendCommand("multi");
+    await sendCommand("sadd stock x");
+    await sendCommand("incr stock");
+    assert.strictEqual(await sendCommand("exec"), `*2\r\n${WRONGTYPE}:12\r\n`);
+  });
+
+  test("should abort with EXECABORT after a queuing error", async () => {
+    await sendCommand("multi");
+    await sendCommand("incr stock");
+    assert.strictEqual(
+      await sendCommand("nosuchcommand"),
+      "-ERR unknown command NOSUCHCOMMAND\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("exec"),
+      "-EXECABORT Transaction discarded because of previous errors.\r\n"
+    );
+    assert.strictEqual(await sendCommand("get stock"), "$2\r\n12\r\n");
+  });
+
+  test("should DISCARD the queued commands", async () => {
+    await sendCommand("multi");
+    await sendCommand("incr stock");
+    assert.strictEqual(await sendCommand("discard"), "+OK\r\n");
+    assert.strictEqual(await sendCommand("get stock"), "$2\r\n12\r\n");
+  });
+
+  test("should reject EXEC and DISCARD without MULTI", async () => {
+    assert.strictEqual(
+      await sendCommand("exec"),
+      "-ERR EXEC without MULTI\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("discard"),
+      "-ERR DISCARD without MULTI\r\n"
+    );
+  });
+
+  test("should return null when a watched key changed", async () => {
+    assert.strictEqual(await sendCommand("watch stock"), "+OK\r\n");
+    await sendFromAnotherClient("decr stock");
+
+    await sendCommand("multi");
+    await sendCommand("decr stock");
+    assert.strictEqual(await sendCommand("exec"), "*-1\r\n");
+    assert.strictEqual(await sendCommand("get stock"), "$2\r\n11\r\n");
+  });
+
+  test("should EXEC when watched keys are unchanged", async () => {
+    await sendCommand("watch stock audit");
+    await sendFromAnotherClient("set unrelated 1");
+
+    await sendCommand("multi");
+    await sendCommand("decr stock");
+    assert.strictEqual(await sendCommand("exec"), "*1\r\n:10\r\n");
+  });
+
+  test("should forget watched keys after UNWATCH", async () => {
+    await sendCommand("watch stock");
+    assert.strictEqual(await sendCommand("unwatch"), "+OK\r\n");
+    await sendFromAnotherClient("decr stock");
+
+    await sendCommand("multi");
+    await sendCommand("decr stock");
+    assert.strictEqual(await sendCommand("exec"), "*1\r\n:8\r\n");
+  });
+});
+
+describe("Pub/Sub tests", () => {
+  let subscriber: net.Socket;
+
+  // Resolves with what the subscriber received once `expected` bytes
+  // arrived, so messages split across data events are collected too.
+  const receive = (expected: string) => {
+    return new Promise<string>((resolve) => {
+      let received = "";
+      const onData = (data: Buffer) => {
+        received += data.toString();
+        if (received.length >= expected.length) {
+          subscriber.removeListener("data", onData);
+          resolve(received);
+        }
+      };
+      subscriber.on("data", onData);
+    });
+  };
+
+  const sendToSubscriber = (command: string, expected: string) => {
+    const response = receive(expected);
+    subscriber.write(buildRedisCommand(command));
+    return response;
+  };
+
+  before(async () => {
+    await connectToRedis();
+    subscriber = await new Promise<net.Socket>((resolve) => {
+      const socket = net.createConnection({ port: 6379 }, () =>
+        resolve(socket)
+      );
+    });
+  });
+
+  after(() => {
+    subscriber.end();
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should confirm every subscribed channel", async () => {
+    const expected =
+      "*3\r\n$9\r\nsubscribe\r\n$4\r\nnews\r\n:1\r\n" +
+      "*3\r\n$9\r\nsubscribe\r\n$6\r\nsports\r\n:2\r\n";
+    assert.strictEqual(
+      await sendToSubscriber("subscribe news sports", expected),
+      expected
+    );
+
+    const pattern = "*3\r\n$10\r\npsubscribe\r\n$6\r\nnews.*\r\n:3\r\n";
+    assert.strictEqual(
+      await sendToSubscriber("psubscribe news.*", pattern),
+      pattern
+    );
+  });
+
+  test("should deliver published messages and count receivers", async () => {
+    const message = "*3\r\n$7\r\nmessage\r\n$4\r\nnews\r\n$5\r\nhello\r\n";
+    const received = receive(message);
+    assert.strictEqual(await sendCommand("publish news hello"), ":1\r\n");
+    assert.strictEqual(await received, message);
+
+    const pmessage =
+      "*4\r\n$8\r\npmessage\r\n$6\r\nnews.*\r\n$7\r\nnews.eu\r\n$2\r\nhi\r\n";
+    const matched = receive(pmessage);
+    assert.strictEqual(await sendCommand("publish news.eu hi"), ":1\r\n");
+    assert.strictEqual(await matched, pmessage);
+
+    assert.strictEqual(await sendCommand("publish nobody hi"), ":0\r\n");
+  });
+
+  test("should restrict commands while subscribed", async () => {
+    const error =
+      "-ERR Can't execute 'get': only SUBSCRIBE / UNSUBSCRIBE / PSUBSCRIBE / PUNSUBSCRIBE / PING are allowed in this context\r\n";
+    assert.strictEqual(await sendToSubscriber("get news", error), error);
+
+    const pong = "*2\r\n$4\r\npong\r\n$0\r\n\r\n";
+    assert.strictEqual(await sendToSubscriber("ping", pong), pong);
+  });
+
+  test("should introspect channels and subscribers", async () => {
+    const channels = (await sendCommand("pubsub channels")) as string;
+    assert.ok(channels.includes("$4\r\nnews\r\n"));
+    assert.ok(channels.includes("$6\r\nsports\r\n"));
+
+    assert.strictEqual(
+      await sendCommand("pubsub numsub news nobody"),
+      "*4\r\n$4\r\nnews\r\n:1\r\n$6\r\nnobody\r\n:0\r\n"
+    );
+    assert.strictEqual(await sendCommand("pubsub numpat"), ":1\r\n");
+  });
+
+  test("should leave channels on UNSUBSCRIBE", async () => {
+    const expected = "*3\r\n$11\r\nunsubscribe\r\n$4\r\nnews\r\n:2\r\n";
+    assert.strictEqual(
+      await sendToSubscriber("unsubscribe news", expected),
+      expected
+    );
+    assert.strictEqual(
+      await sendCommand("pubsub numsub news"),
+      "*2\r\n$4\r\nnews\r\n:0\r\n"
+    );
+  });
+
+  test("should drop subscriptions when the connection closes", async () => {
+    await new Promise((resolve) => {
+      subscriber.once("close", resolve);
+      subscriber.end();
+    });
+    // Give the server a moment to see the connection close.
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    assert.strictEqual(await sendCommand("publish sports hi"), ":0\r\n");
+    assert.strictEqual(await sendCommand("pubsub numpat"), ":0\r\n");
+  });
+});
+
+describe("ACL tests", () => {
+  before(async () => {
+    await connectToRedis();
+    await sendCommand("acl deluser alice");
+    await sendCommand("acl log reset");
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should run as the default user", async () => {
+    assert.strictEqual(await sendCommand("acl whoami"), "$7\r\ndefault\r\n");
+    assert.strictEqual(
+      await sendCommand("auth secret"),
+      "-ERR AUTH <password> called without any password configured for the default user. Are you sure your configuration is correct?\r\n"
+    );
+  });
+
+  test("should create users with ACL SETUSER", async () => {
+    assert.strictEqual(
+      await sendCommand(
+        "acl setuser alice on >secret ~cache:* &news.* +get +set +@pubsub +@transaction"
+      ),
+      "+OK\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("acl setuser alice +nosuchcommand"),
+      "-ERR Error in ACL SETUSER modifier '+nosuchcommand': Unknown command or category name in ACL\r\n"
+    );
+
+    const user = (await sendCommand("acl getuser alice")) as string;
+    assert.ok(user.startsWith("*12\r\n$5\r\nflags\r\n*1\r\n$2\r\non\r\n"));
+    assert.ok(user.includes("-@all +get +set +@pubsub +@transaction"));
+    assert.ok(!user.includes("secret"));
+    assert.strictEqual(await sendCommand("acl getuser nobody"), "$-1\r\n");
+
+    const list = (await sendCommand("acl list")) as string;
+    assert.ok(
+      /user alice on #[0-9a-f]{64} ~cache:\* &news\.\* -@all \+get \+set \+@pubsub/.test(
+        list
+      )
+    );
+  });
+
+  test("should reject a wrong password", async () => {
+    assert.strictEqual(
+      await sendCommand("auth alice wrong"),
+      "-WRONGPASS invalid username-password pair or user is disabled.\r\n"
+    );
+    assert.strictEqual(await sendCommand("acl whoami"), "$7\r\ndefault\r\n");
+  });
+
+  test("should enforce commands, keys and channels", async () => {
+    assert.strictEqual(await sendCommand("auth alice secret"), "+OK\r\n");
+    assert.strictEqual(await sendCommand("get cache:1"), "$-1\r\n");
+    assert.strictEqual(
+      await sendCommand("get users:1"),
+      "-NOPERM No permissions to access a key\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("incr cache:1"),
+      "-NOPERM User alice has no permissions to run the 'incr' command\r\n"
+    );
+    assert.strictEqual(await sendCommand("publish news.eu hi"), ":0\r\n");
+    assert.strictEqual(
+      await sendCommand("publish sports hi"),
+      "-NOPERM No permissions to access a channel\r\n"
+    );
+  });
+
+  test("should abort transactions with denied commands", async () => {
+    await sendCommand("multi");
+    assert.strictEqual(
+      await sendCommand("get users:1"),
+      "-NOPERM No permissions to access a key\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("exec"),
+      "-EXECABORT Transaction discarded because of previous errors.\r\n"
+    );
+  });
+
+  test("should record failures in the ACL LOG", async () => {
+    // The default user needs no password, so any password switches back.
+    assert.strictEqual(await sendCommand("auth default any"), "+OK\r\n");
+
+    const log = (await sendCommand("acl log")) as string;
+    assert.ok(log.startsWith("*5\r\n"));
+    assert.ok(log.includes("$6\r\nreason\r\n$7\r\nchannel\r\n"));
+    assert.ok(log.includes("$6\r\nobject\r\n$7\r\nusers:1\r\n"));
+    assert.ok(log.includes("$7\r\ncontext\r\n$5\r\nmulti\r\n"));
+    assert.ok(log.includes("$6\r\nreason\r\n$4\r\nauth\r\n"));
+
+    assert.strictEqual(await sendCommand("acl log reset"), "+OK\r\n");
+    assert.strictEqual(await sendCommand("acl log"), "*0\r\n");
+  });
+
+  test("should require authentication once the default user has a password", async () => {
+    await sendCommand("acl setuser default resetpass >letmein");
+    const other = net.createConnection({ port: 6379 });
+    const ask = (command: string) =>
+      new Promise<string>((resolve) => {
+        other.once("data", (data) => resolve(data.toString()));
+        other.write(buildRedisCommand(command));
+      });
+
+    try {
+      assert.strictEqual(
+        await ask("get foo"),
+        "-NOAUTH Authentication required.\r\n"
+      );
+      assert.strictEqual(await ask("auth letmein"), "+OK\r\n");
+      assert.strictEqual(await ask("acl whoami"), "$7\r\ndefault\r\n");
+    } finally {
+      other.end();
+      await sendCommand("acl setuser default nopass");
+    }
+  });
+
+  test("should drop deleted users", async () => {
+    assert.strictEqual(
+      await sendCommand("acl deluser alice default"),
+      "-ERR The 'default' user cannot be removed\r\n"
+    );
+    assert.strictEqual(await sendCommand("acl deluser alice nobody"), ":1\r\n");
+    assert.strictEqual(
+      await sendCommand("acl users"),
+      "*1\r\n$7\r\ndefault\r\n"
+    );
+  });
+});
+
+describe("Memory tests", () => {
+  before(async () => {
+    await connectToRedis();
+    await sendCommand("flushdb");
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should report the memory used by a key", async () => {
+    await sendCommand("set mem:small v");
+    await sendCommand(`set mem:large ${"x".repeat(1000)}`);
+    const small = await sendCommand("memory usage mem:small");
+    const large = await sendCommand("memory usage mem:large");
+    assert.match(small as string, /^:\d+\r\n$/);
+    assert.ok(
+      parseInt((large as string).slice(1)) >=
+        parseInt((small as string).slice(1)) + 999
+    );
+    assert.strictEqual(
+      await sendCommand("memory usage mem:missing"),
+      "$-1\r\n"
+    );
+  });
+
+  test("should show memory and eviction stats in INFO", async () => {
+    const memory = (await sendCommand("info memory")) as string;
+    assert.match(memory, /# Memory\r\nused_memory:\d+\r\n/);
+    assert.ok(memory.includes("maxmemory_policy:noeviction\r\n"));
+    assert.ok(!memory.includes("evicted_keys"));
+
+    const stats = (await sendCommand("info stats")) as string;
+    assert.match(stats, /evicted_keys:\d+\r\n/);
+  });
+
+  test("should expose the access time tracked for eviction", async () => {
+    await sendCommand("set mem:idle v");
+    assert.strictEqual(await sendCommand("object idletime mem:idle"), ":0\r\n");
+    assert.strictEqual(
+      await sendCommand("object idletime mem:missing"),
+      "$-1\r\n"
+    );
+    assert.ok(
+      ((await sendCommand("object freq mem:idle")) as string).startsWith(
+        "-ERR An LFU maxmemory policy is not selected"
+      )
+    );
+  });
+});
+
+describe("AOF rewrite tests", () => {
+  before(async () => {
+    await connectToRedis();
+    await sendCommand("flushdb");
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should rewrite the AOF in the background", async () => {
+    await sendCommand("set aof:counter 1");
+    await sendCommand("incr aof:counter");
+    assert.strictEqual(
+      await sendCommand("bgrewriteaof"),
+      "+Background append only file rewriting started\r\n"
+    );
+    await sendCommand("incr aof:counter");
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const info = (await sendCommand("info persistence")) as string;
+    assert.ok(info.includes("aof_rewrite_in_progress:0\r\n"));
+    assert.ok(info.includes("aof_last_bgrewrite_status:ok\r\n"));
+    assert.strictEqual(await sendCommand("get aof:counter"), "$1\r\n3\r\n");
+  });
+});
+
+describe("Snapshot tests", () => {
+  before(async () => {
+    await connectToRedis();
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should save the dataset and report when", async () => {
+    await sendCommand("set snap:key v");
+    const before = Math.floor(Date.now() / 1000) - 1;
+    assert.strictEqual(await sendCommand("save"), "+OK\r\n");
+
+    const lastsave = (await sendCommand("lastsave")) as string;
+    assert.ok(parseInt(lastsave.slice(1)) >= before);
+    const info = (await sendCommand("info persistence")) as string;
+    assert.ok(info.includes("rdb_changes_since_last_save:0\r\n"));
+  });
+
+  test("should refuse arguments to BGSAVE", async () => {
+    assert.strictEqual(
+      await sendCommand("bgsave extra"),
+      "-ERR wrong number of arguments for 'bgsave' command\r\n"
+    );
+  });
+
+  test("should save in the background", async () => {
+    await sendCommand("set snap:key w");
+    assert.strictEqual(
+      await sendCommand("bgsave"),
+      "+Background saving started\r\n"
+    );
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const info = (await sendCommand("info persistence")) as string;
+    assert.ok(info.includes("rdb_bgsave_in_progress:0\r\n"));
+    assert.ok(info.includes("rdb_last_bgsave_status:ok\r\n"));
+  });
+});
+
+describe("Replication tests", () => {
+  const connectReplica = () =>
+    new Promise<net.Socket>((resolve) => {
+      const socket = net.createConnection({ port: 6379 }, () =>
+        resolve(socket)
+      );
+    });
+
+  // Resolves once what the socket received from now on matches `pattern`.
+  const readUntil = (socket: net.Socket, pattern: RegExp) =>
+    new Promise<RegExpMatchArray>((resolve) => {
+      let text = "";
+      const onData = (data: Buffer) => {
+        text += data.toString("latin1");
+        const match = text.match(pattern);
+        if (match) {
+          socket.off("data", onData);
+          resolve(match);
+        }
+      };
+      socket.on("data", onData);
+    });
+
+  // Rejects when `promise` did not settle within `ms` milliseconds.
+  const within = <T>(promise: Promise<T>, ms: number) =>
+    Promise.race([
+      promise,
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error(`No reply in ${ms} ms`)), ms).unref()
+      ),
+    ]);
+
+  const fullSync = async (replica: net.Socket) => {
+    const synced = readUntil(
+      replica,
+      /^\+FULLRESYNC ([0-9a-f]{40}) (\d+)\r\n\$\d+\r\nRSNAP/
+    );
+    replica.write(buildRedisCommand("psync ? -1"));
+    const [, id, offset] = await synced;
+    return { id, offset: Number(offset) };
+  };
+
+  before(async () => {
+    await connectToRedis();
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should report the master role", async () => {
+    const role = (await sendCommand("role")) as string;
+    assert.match(role, /^\*3\r\n\$6\r\nmaster\r\n:\d+\r\n\*\d+\r\n/);
+  });
+
+  test("should fully sync a replica, then stream writes to it", async () => {
+    const replica = await connectReplica();
+    try {
+      const { id } = await fullSync(replica);
+
+      const streamed = readUntil(replica, /\$3\r\nSET\r\n\$8\r\nrepl:key/);
+      await sendCommand("set repl:key v");
+      await streamed;
+
+      const info = (await sendCommand("info replication")) as string;
+      assert.ok(info.includes("role:master\r\n"));
+      assert.ok(info.includes("connected_slaves:1\r\n"));
+      assert.ok(info.includes(`master_replid:${id}\r\n`));
+      assert.ok(info.includes("repl_backlog_active:1\r\n"));
+    } finally {
+      replica.destroy();
+    }
+  });
+
+  test("should continue a replica from the backlog", async () => {
+    const first = await connectReplica();
+    const { id, offset } = await fullSync(first);
+    const streamed = readUntil(first, /repl:key/);
+    await sendCommand("set repl:key w");
+    await streamed;
+    first.destroy();
+    await sendCommand("set repl:missed x");
+
+    const second = await connectReplica();
+    try {
+      const continued = readUntil(
+        second,
+        new RegExp(`^\\+CONTINUE ${id}\r\n[^]*repl:key[^]*repl:missed`)
+      );
+      second.write(buildRedisCommand(`psync ${id} ${offset + 1}`));
+      await continued;
+    } finally {
+      second.destroy();
+    }
+  });
+
+  test("should pass messages to subscribers of replicas, not to the AOF", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "replica-"));
+    const replica = spawn(
+      process.execPath,
+      [
+        ...["-r", "ts-node/register/transpile-only", "src/server.ts"],
+        ...["--port", "6380", "--dir", dir, "--appendOnly", "no"],
+        ...["--replicaOf", "127.0.0.1", "6379"],
+      ],
+      { cwd: path.join(__dirname, ".."), stdio: "ignore" }
+    );
+    let subscriber: net.Socket | null = null;
+
+    try {
+      // Polls until the replica loaded the dataset and follows the stream.
+      const deadline = Date.now() + 30_000;
+      for (let synced = false; !synced; ) {
+        assert.ok(Date.now() < deadline, "The replica did not sync");
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        const socket = net.createConnection({ port: 6380 });
+        socket.on("error", () => {});
+        socket.write(buildRedisCommand("info replication"));
+        synced = await within(readUntil(socket, /master_link_status:up/), 500)
+          .then(() => true)
+          .catch(() => false);
+        socket.destroy();
+      }
+
+      subscriber = await new Promise<net.Socket>((resolve) => {
+        const socket = net.createConnection({ port: 6380 }, () =>
+          resolve(socket)
+        );
+      });
+      const subscribed = readUntil(subscriber, /subscribe\r\n[^]*\r\n:1\r\n/);
+      subscriber.write(buildRedisCommand("subscribe repl:news"));
+      await subscribed;
+
+      const received = readUntil(
+        subscriber,
+        /\$7\r\nmessage\r\n\$9\r\nrepl:news\r\n\$5\r\nhello\r\n/
+      );
+      assert.strictEqual(
+        await sendCommand("publish repl:news hello"),
+        ":0\r\n"
+      );
+      await within(received, 5000);
+
+      const aof = fs.readFileSync(
+        path.join(__dirname, "../src/appendonly.aof")
+      );
+      assert.ok(!aof.includes("repl:news"));
+    } finally {
+      subscriber?.destroy();
+      replica.kill();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should refuse writes as a read-only replica", async () => {
+    // Nothing listens on port 1, so the link stays down.
+    assert.strictEqual(await sendCommand("replicaof 127.0.0.1 1"), "+OK\r\n");
+    try {
+      assert.strictEqual(
+        await sendCommand("set repl:key x"),
+        "-READONLY You can't write against a read only replica.\r\n"
+      );
+      assert.strictEqual(await sendCommand("get repl:key"), "$1\r\nw\r\n");
+      const role = (await sendCommand("role")) as string;
+      assert.ok(
+        role.startsWith("*5\r\n$5\r\nslave\r\n$9\r\n127.0.0.1\r\n:1\r\n")
+      );
+    } finally {
+      assert.strictEqual(await sendCommand("replicaof no one"), "+OK\r\n");
+    }
+    assert.strictEqual(await sendCommand("set repl:key x"), "+OK\r\n");
+  });
+});
+
+describe("Scripting tests", () => {
+  // Scripts contain spaces, so they are sent as bulk strings of their own.
+  const sendScript = (command: string, ...args: string[]) =>
+    new Promise((resolve) => {
+      redisClient.write(
+        encodeCommand(
+          command,
+          args.map((arg) => Buffer.from(arg))
+        )
+      );
+      redisClient.once("data", (data: Buffer) => resolve(data.toString()));
+    });
+
+  before(async () => {
+    await connectToRedis();
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should run a script with keys and arguments", async () => {
+    await sendCommand("del script:counter");
+    const script =
+      "redis.call('set', KEYS[0], ARGV[0]); return [redis.call('incr', KEYS[0]), redis.call('get', KEYS[0])]";
+    assert.strictEqual(
+      await sendScript("EVAL", script, "1", "script:counter", "5"),
+      "*2\r\n:6\r\n$1\r\n6\r\n"
+    );
+    assert.strictEqual(await sendCommand("get script:counter"), "$1\r\n6\r\n");
+  });
+
+  test("should run a loaded script by its SHA1", async () => {
+    const sha = "e0e1f9fabfc9d4800c877a703b823ac0578ff8db";
+    assert.strictEqual(
+      await sendScript("SCRIPT", "LOAD", "return 1"),
+      `$40\r\n${sha}\r\n`
+    );
+    assert.strictEqual(await sendCommand(`evalsha ${sha} 0`), ":1\r\n");
+    assert.strictEqual(
+      await sendCommand(`script exists ${sha} ffff`),
+      "*2\r\n:1\r\n:0\r\n"
+    );
+
+    assert.strictEqual(await sendCommand("script flush"), "+OK\r\n");
+    assert.strictEqual(
+      await sendCommand(`evalsha ${sha} 0`),
+      "-NOSCRIPT No matching script. Please use EVAL.\r\n"
+    );
+  });
+
+  test("should reply with the errors of redis.call and redis.pcall", async () => {
+    await sendCommand("set script:string value");
+    assert.strictEqual(
+      await sendScript(
+        "EVAL",
+        "return redis.call('lpush', KEYS[0], 'a')",
+        "1",
+        "script:string"
+      ),
+      WRONGTYPE
+    );
+    assert.strictEqual(
+      await sendScript(
+        "EVAL",
+        "const result = redis.pcall('lpush', KEYS[0], 'a'); return result.err.split(' ')[0]",
+        "1",
+        "script:string"
+      ),
+      "$9\r\nWRONGTYPE\r\n"
+    );
+  });
+
+  test("should refuse commands that cannot run in scripts", async () => {
+    assert.strictEqual(
+      await sendScript("EVAL", "return redis.call('multi')", "0"),
+      "-ERR This Redis command is not allowed from script\r\n"
+    );
+    assert.strictEqual(
+      await sendScript("EVAL", "return redis.call('nosuchcommand')", "0"),
+      "-ERR Unknown Redis command called from script\r\n"
+    );
+  });
+
+  test("should check the number of keys", async () => {
+    assert.strictEqual(
+      await sendCommand("eval return 2 a"),
+      "-ERR Number of keys can't be greater than number of args\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("eval return -1"),
+      "-ERR Number of keys can't be negative\r\n"
+    );
+  });
+
+  test("should not change the client's database", async () => {
+    assert.strictEqual(
+      await sendScript(
+        "EVAL",
+        "redis.call('select', 1); return redis.call('set', 'script:db', '1')",
+        "0"
+      ),
+      "+OK\r\n"
+    );
+    assert.strictEqual(await sendCommand("exists script:db"), ":0\r\n");
+    await sendCommand("select 1");
+    assert.strictEqual(await sendCommand("exists script:db"), ":1\r\n");
+    await sendCommand("del script:db");
+    await sendCommand("select 0");
+  });
+});
+
+describe("INFO tests", () => {
+  const field = (info: unknown, name: string) =>
+    Number((info as string).match(new RegExp(`\r\n${name}:(\\d+)\r\n`))?.[1]);
+
+  before(async () => {
+    await connectToRedis();
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should print the default sections unless asked for more", async () => {
+    const info = (await sendCommand("info")) as string;
+    for (const section of [
+      "Server",
+      "Clients",
+      "Memory",
+      "Persistence",
+      "Stats",
+      "Replication",
+      "Keyspace",
+    ]) {
+      assert.ok(info.includes(`# ${section}\r\n`), section);
+    }
+    assert.ok(!info.includes("# Commandstats"));
+    assert.match(info, /\r\nredis_version:[\d.]+\r\n/);
+    assert.ok(field(info, "connected_clients") >= 1);
+
+    const all = (await sendCommand("info all")) as string;
+    assert.ok(all.includes("# Commandstats\r\n"));
+  });
+
+  test("should count commands, hits and misses", async () => {
+    await sendCommand("set info:key value");
+    const before = await sendCommand("info stats");
+    await sendCommand("get info:key");
+    await sendCommand("get info:missing");
+    const after = await sendCommand("info stats");
+
+    assert.strictEqual(
+      field(after, "keyspace_hits") - field(before, "keyspace_hits"),
+      1
+    );
+    assert.strictEqual(
+      field(after, "keyspace_misses") - field(before, "keyspace_misses"),
+      1
+    );
+    assert.strictEqual(
+      field(after, "total_commands_processed") -
+        field(before, "total_commands_processed"),
+      3
+    );
+  });
+
+  test("should report calls per command and the keys per database", async () => {
+    await sendCommand("set info:key value");
+    await sendCommand("lpush info:key value");
+
+    const commands = (await sendCommand("info commandstats")) as string;
+    assert.match(
+      commands,
+      /\r\ncmdstat_lpush:calls=\d+,usec=\d+,usec_per_call=[\d.]+,rejected_calls=\d+,failed_calls=[1-9]\d*\r\n/
+    );
+
+    const keyspace = (await sendCommand("info keyspace")) as string;
+    assert.match(
+      keyspace,
+      /# Keyspace\r\ndb0:keys=\d+,expires=\d+,avg_ttl=\d+\r\n/
+    );
+  });
+});
+
+describe("SLOWLOG and MONITOR tests", () => {
+  before(async () => {
+    await connectToRedis();
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should reset and read the slow log", async () => {
+    assert.strictEqual(await sendCommand("slowlog reset"), "+OK\r\n");
+    assert.strictEqual(await sendCommand("slowlog len"), ":0\r\n");
+    assert.strictEqual(await sendCommand("slowlog get"), "*0\r\n");
+    assert.strictEqual(
+      await sendCommand("slowlog get -2"),
+      "-ERR count should be greater than or equal to -1\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("slowlog nope"),
+      "-ERR unknown subcommand 'nope'. Try SLOWLOG HELP.\r\n"
+    );
+  });
+
+  test("should stream commands to a monitor", async () => {
+    const monitor: net.Socket = await new Promise((resolve) => {
+      const socket = net.createConnection({ port: 6379 }, () =>
+        resolve(socket)
+      );
+    });
+    try {
+      const ask = (command: string) =>
+        new Promise<string>((resolve) => {
+          monitor.once("data", (data) => resolve(data.toString()));
+          monitor.write(buildRedisCommand(command));
+        });
+      assert.strictEqual(await ask("monitor"), "+OK\r\n");
+
+      const streamed = new Promise<string>((resolve) =>
+        monitor.once("data", (data) => resolve(data.toString()))
+      );
+      await sendCommand('set monitor:key a"b');
+      assert.match(
+        await streamed,
+        /^\+\d+\.\d{6} \[0 [\d.:a-f]+\] "set" "monitor:key" "a\\"b"\r\n$/
+      );
+    } finally {
+      monitor.destroy();
+    }
+  });
+
+  test("should refuse MONITOR inside a transaction", async () => {
+    await sendCommand("multi");
+    await sendCommand("monitor");
+    assert.strictEqual(
+      await sendCommand("exec"),
+      "*1\r\n-ERR MONITOR isn't allowed for DENY BLOCKING client\r\n"
+    );
+  });
+});
+
+describe("CLIENT tests", () => {
+  before(async () => {
+    await connectToRedis();
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  const connect = (): Promise<net.Socket> =>
+    new Promise((resolve) => {
+      const socket = net.createConnection({ port: 6379 }, () =>
+        resolve(socket)
+      );
+    });
+
+  const ask = (socket: net.Socket, command: string) =>
+    new Promise<string>((resolve) => {
+      socket.once("data", (data) => resolve(data.toString()));
+      socket.write(buildRedisCommand(command));
+    });
+
+  test("should set and get the connection name", async () => {
+    assert.strictEqual(await sendCommand("client getname"), "$-1\r\n");
+    assert.strictEqual(await sendCommand("client setname tester"), "+OK\r\n");
+    assert.strictEqual(await sendCommand("client getname"), "$6\r\ntester\r\n");
+    assert.strictEqual(
+      await sendCommand("client setname a\nb"),
+      "-ERR Client names cannot contain spaces, newlines or special characters.\r\n"
+    );
+  });
+
+  test("should describe the current connection", async () => {
+    const id = ((await sendCommand("client id")) as string).slice(1, -2);
+    assert.strictEqual(await sendCommand("client no-evict on"), "+OK\r\n");
+    assert.match(
+      (await sendCommand("client info")) as string,
+      new RegExp(
+        `^\\$\\d+\r\nid=${id} addr=[\\d.:a-f]+ laddr=[\\d.:a-f]+ name=tester age=\\d+ idle=0 flags=e db=0 .* cmd=client user=default resp=2\n\r\n$`
+      )
+    );
+    assert.strictEqual(
+      await sendCommand("client no-evict maybe"),
+      "-ERR syntax error\r\n"
+    );
+    await sendCommand("client no-evict off");
+  });
+
+  test("should list and kill other connections", async () => {
+    const other = await connect();
+    const closed = new Promise((resolve) => other.once("close", resolve));
+    const id = (await ask(other, "client id")).slice(1, -2);
+
+    const listed = (await sendCommand(`client list id ${id}`)) as string;
+    assert.match(listed, new RegExp(`^\\$\\d+\r\nid=${id} .* cmd=client `));
+    assert.strictEqual(
+      await sendCommand("client list type pubsub"),
+      "$0\r\n\r\n"
+    );
+    assert.strictEqual(await sendCommand(`client kill id ${id}`), ":1\r\n");
+    await closed;
+    assert.strictEqual(await sendCommand(`client kill id ${id}`), ":0\r\n");
+    assert.strictEqual(
+      await sendCommand("client kill 10.0.0.1:1"),
+      "-ERR No such client\r\n"
+    );
+  });
+
+  test("should hold back writes while paused", async () => {
+    const other = await connect();
+    try {
+      assert.strictEqual(
+        await sendCommand("client pause 300 write"),
+        "+OK\r\n"
+      );
+      const start = Date.now();
+      const written = ask(other, "set pause:key v");
+      assert.strictEqual(await sendCommand("get pause:key"), "$-1\r\n");
+      assert.strictEqual(await written, "+OK\r\n");
+      assert.ok(Date.now() - start >= 250);
+    } finally {
+      other.destroy();
+    }
+  });
+
+  test("should resume paused clients on UNPAUSE", async () => {
+    const other = await connect();
+    try {
+      await sendCommand("client pause 10000 write");
+      const written = ask(other, "set pause:key w");
+      assert.strictEqual(await sendCommand("client unpause"), "+OK\r\n");
+      assert.strictEqual(await written, "+OK\r\n");
+      assert.strictEqual(await sendCommand("get pause:key"), "$1\r\nw\r\n");
+    } finally {
+      other.destroy();
+    }
+  });
+});
+
+describe("CONFIG tests", () => {
+  before(async () => {
+    await connectToRedis();
+  });
+
+  after(async () => {
+    await sendCommand(
+      "config set slowlogMaxLen 128 maxMemoryPolicy noeviction"
+    );
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should get settings matching glob patterns", async () => {
+    assert.strictEqual(
+      await sendCommand("config get port"),
+      "*2\r\n$4\r\nport\r\n$4\r\n6379\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("config get slowlog*"),
+      "*4\r\n$20\r\nslowlogLogSlowerThan\r\n$5\r\n10000\r\n$13\r\nslowlogMaxLen\r\n$3\r\n128\r\n"
+    );
+    assert.strictEqual(await sendCommand("config get nope*"), "*0\r\n");
+  });
+
+  test("should set several settings at once", async () => {
+    assert.strictEqual(
+      await sendCommand(
+        "config set slowlogMaxLen 2 maxmemory-policy allkeys-lru"
+      ),
+      "+OK\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("config get maxmemory-policy"),
+      "*2\r\n$15\r\nmaxMemoryPolicy\r\n$11\r\nallkeys-lru\r\n"
+    );
+  });
+
+  test("should refuse invalid settings and change none", async () => {
+    assert.strictEqual(
+      await sendCommand("config set slowlogMaxLen 5 appendFsync sometimes"),
+      "-ERR CONFIG SET failed (possibly related to argument 'appendFsync') - argument(s) must be one of the following: always, everysec, no\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("config get slowlogMaxLen"),
+      "*2\r\n$13\r\nslowlogMaxLen\r\n$1\r\n2\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("config set port 6380"),
+      "-ERR CONFIG SET failed (possibly related to argument 'port') - can't set immutable config\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("config set nope 1"),
+      "-ERR Unknown option or number of arguments for CONFIG SET - 'nope'\r\n"
+    );
+  });
+
+  test("should not rewrite without a config file", async () => {
+    assert.strictEqual(
+      await sendCommand("config rewrite"),
+      "-ERR The server is running without a config file\r\n"
+    );
+  });
+});
+
+describe("HELLO tests", () => {
+  before(async () => {
+    await connectToRedis();
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should reply with a flat array in RESP2", async () => {
+    const helloResponse = (await sendCommand("hello 2")) as string;
+    assert.ok(helloResponse.startsWith("*14\r\n$6\r\nserver\r\n"));
+    assert.ok(helloResponse.includes("$5\r\nproto\r\n:2\r\n"));
+  });
+
+  test("should switch to RESP3 and reply with a map", async () => {
+    const helloResponse = (await sendCommand("hello 3")) as string;
+    assert.ok(helloResponse.startsWith("%7\r\n$6\r\nserver\r\n"));
+    assert.ok(helloResponse.includes("$5\r\nproto\r\n:3\r\n"));
+  });
+
+  test("should encode null as RESP3 null after HELLO 3", async () => {
+    const getResponse = await sendCommand("get non_existing_key");
+    assert.strictEqual(getResponse, "_\r\n");
+  });
+
+  test("should return -NOPROTO for unsupported versions", async () => {
+    const helloResponse = await sendCommand("hello 4");
+    assert.strictEqual(
+      helloResponse,
+      "-NOPROTO unsupported protocol version\r\n"
+    );
+  });
+});
+
+describe.skip("PING tests", () => {
+  test.todo("should return +PONG for PING", async () => {
+    const pingResponse = await sendCommand("ping");
+    assert.strictEqual(pingResponse, "+PONG\r\n");
+  });
+});
+
+describe("COMMAND tests", () => {
+  before(async () => {
+    await connectToRedis();
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should return the number of commands for COMMAND COUNT", async () => {
+    const countResponse = (await sendCommand("command count")) as string;
+    assert.match(countResponse, /^:\d+\r\n$/);
+    assert.ok(parseInt(countResponse.slice(1)) > 100);
+  });
+
+  test("should describe commands for COMMAND INFO", async () => {
+    const infoResponse = await sendCommand("command info get unknown_command");
+    assert.strictEqual(
+      infoResponse,
+      "*2\r\n*10\r\n$3\r\nget\r\n:2\r\n*2\r\n+readonly\r\n+fast\r\n" +
+        ":1\r\n:1\r\n:1\r\n*3\r\n+@read\r\n+@string\r\n+@fast\r\n" +
+        "*0\r\n*0\r\n*0\r\n$-1\r\n"
+    );
+  });
+
+  test("should report movable keys as 0 for COMMAND INFO", async () => {
+    const infoResponse = (await sendCommand("command info eval")) as string;
+    assert.ok(infoResponse.includes("+movablekeys\r\n"));
+    assert.ok(infoResponse.includes(":0\r\n:0\r\n:0\r\n"));
+  });
+
+  test("should return the summary and group for COMMAND DOCS", async () => {
+    const docsResponse = await sendCommand("command docs get unknown_command");
+    assert.strictEqual(
+      docsResponse,
+      "*2\r\n$3\r\nget\r\n*4\r\n$7\r\nsummary\r\n" +
+        "$34\r\nReturns the string value of a key.\r\n" +
+        "$5\r\ngroup\r\n$6\r\nstring\r\n"
+    );
+  });
+
+  test("should return the keys of a command for COMMAND GETKEYS", async () => {
+    const getkeysResponse = await sendCommand(
+      "command getkeys eval script 2 first second arg"
+    );
+    assert.strictEqual(
+      getkeysResponse,
+      "*2\r\n$5\r\nfirst\r\n$6\r\nsecond\r\n"
+    );
+  });
+
+  test("should return -ERR for COMMAND GETKEYS without keys", async () => {
+    assert.strictEqual(
+      await sendCommand("command getkeys ping"),
+      "-ERR The command has no key arguments\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("command getkeys get"),
+      "-ERR Invalid number of arguments specified for command\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("command getkeys unknown_command"),
+      "-ERR Invalid command specified\r\n"
+    );
+  });
+
+  test("should check the arity of every command", async () => {
+    assert.strictEqual(
+      await sendCommand("hget foo"),
+      "-ERR wrong number of arguments for 'hget' command\r\n"
+    );
+    assert.strictEqual(
+      await sendCommand("dbsize foo"),
+      "-ERR wrong number of arguments for 'dbsize' command\r\n"
+    );
+  });
+
+  test("should return -ERR for unknown command", async () => {
+    const unknownCommandResponse = await sendCommand("unknown_command");
+    assert.strictEqual(
+      unknownCommandResponse,
+      "-ERR unknown command UNKNOWN_COMMAND\r\n"
+    );
+  });
+});
+
+describe("Pipelining tests", () => {
+  before(async () => {
+    await connectToRedis();
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  const sendRaw = (payload: string, expectedLength: number) => {
+    return new Promise<string>((resolve) => {
+      let received = "";
+      const onData = (data: Buffer) => {
+        received += data.toString();
+        if (received.length >= expectedLength) {
+          redisClient.removeListener("data", onData);
+          resolve(received);
+        }
+      };
+      redisClient.on("data", onData);
+      redisClient.write(payload);
+    });
+  };
+
+  test("should reply to pipelined commands in order", async () => {
+    const payload =
+      buildRedisCommand("set pipe one") + buildRedisCommand("get pipe");
+    const expected = "+OK\r\n$3\r\none\r\n";
+    const response = await sendRaw(payload, expected.length);
+    assert.strictEqual(response, expected);
+  });
+
+  test("should handle a command split across writes", async () => {
+    const payload = buildRedisCommand("get pipe");
+    const expected = "$3\r\none\r\n";
+    const response = sendRaw(payload.slice(0, 7), expected.length);
+    redisClient.write(payload.slice(7));
+    assert.strictEqual(await response, expected);
+  });
+
+  test("should accept inline commands", async () => {
+    const expected = "$3\r\none\r\n";
+    const response = await sendRaw("GET pipe\r\n", expected.length);
+    assert.strictEqual(response, expected);
+  });
+});
+
+describe("Binary safety tests", () => {
+  before(async () => {
+    await connectToRedis();
+  });
+
+  after(() => {
+    if (redisClient && !redisClient.destroyed) {
+      redisClient.end();
+    }
+  });
+
+  test("should use byte lengths for multi-byte values", async () => {
+    await sendCommand("set greeting héllo");
+    const getResponse = await sendCommand("get greeting");
+    assert.strictEqual(getResponse, "$6\r\nhéllo\r\n");
+  });
+
+  test("should return binary values unchanged", async () => {
+    const payload = Buffer.from([0x00, 0xff, 0x0d, 0x0a, 0x80]);
+    redisClient.write(
+      Buffer.concat([
+        Buffer.from("*3\r\n$3\r\nSET\r\n$3\r\nbin\r\n$5\r\n"),
+        payload,
+        Buffer.from("\r\n"),
+      ])
+    );
+    await new Promise((resolve) => redisClient.once("data", resolve));
+
+    redisClient.write(buildRedisCommand("get bin"));
+    const response: Buffer = await new Promise((resolve) =>
+      redisClient.once("data", resolve)
+    );
+    assert.deepStrictEqual(
+      response,
+      Buffer.concat([Buffer.from("$5\r\n"), payload, Buffer.from("\r\n")])
     );
   });
 });
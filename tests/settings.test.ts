@@ -0,0 +1,90 @@
+import assert from "assert";
+import buffer from "buffer";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, afterEach, describe, test } from "node:test";
+import config from "../src/config.json";
+import {
+  findSetting,
+  formatSettingValue,
+  resolveConfig,
+  rewriteConfigFile,
+} from "../src/settings";
+
+describe("Settings", () => {
+  const defaults = { ...config };
+  const file = path.join(os.tmpdir(), `settings-${process.pid}.conf`);
+
+  afterEach(() => {
+    Object.assign(config, defaults);
+  });
+
+  after(() => {
+    fs.rmSync(file, { force: true });
+  });
+
+  test("should find settings by redis' spelling", () => {
+    assert.strictEqual(findSetting("maxmemory-policy"), "maxMemoryPolicy");
+    assert.strictEqual(findSetting("APPENDONLY"), "appendOnly");
+    assert.strictEqual(findSetting("nope"), null);
+  });
+
+  test("should let options override env vars override the file", () => {
+    fs.writeFileSync(
+      file,
+      '# comment\nport 6390\nmaxMemory 100\nappendOnly no\nrequirePass ""\n'
+    );
+    resolveConfig([file, "--maxMemory", "300"], {
+      REDIS_PORT: "6391",
+      REDIS_MAX_MEMORY: "200",
+    });
+
+    assert.strictEqual(config.port, 6391);
+    assert.strictEqual(config.maxMemory, 300);
+    assert.strictEqual(config.appendOnly, false);
+    assert.strictEqual(formatSettingValue("appendOnly"), "no");
+    assert.strictEqual(config.requirePass, "");
+  });
+
+  test("should report the line of an invalid setting", () => {
+    fs.writeFileSync(file, "port 6390\nappendOnly maybe\n");
+    assert.throws(
+      () => resolveConfig([file], {}),
+      new Error(
+        `${file}:2: Setting 'appendOnly': argument must be 'yes' or 'no'`
+      )
+    );
+    assert.throws(() => resolveConfig(["--nope", "1"], {}), {
+      message: "Unknown setting 'nope'",
+    });
+  });
+
+  test("should refuse numbers out of a setting's range from any source", () => {
+    fs.writeFileSync(file, "replBacklogSize 0\n");
+    assert.throws(() => resolveConfig([file], {}), {
+      message: `${file}:1: Setting 'replBacklogSize': argument must be between 1 and ${buffer.constants.MAX_LENGTH} inclusive`,
+    });
+    assert.throws(() => resolveConfig([], { REDIS_SCRIPT_TIME_LIMIT: "-1" }), {
+      message: `Setting 'scriptTimeLimit': argument must be between 0 and ${Number.MAX_SAFE_INTEGER} inclusive`,
+    });
+    assert.throws(() => resolveConfig(["--maxMemory", "1.5"], {}), {
+      message:
+        "Setting 'maxMemory': argument couldn't be parsed into an integer",
+    });
+  });
+
+  test("should rewrite the file in place, keeping comments", () => {
+    fs.writeFileSync(file, "# comment\nport 6390\nport 6391\nsave 60 1\n");
+    resolveConfig([file], {});
+    config.port = 6392;
+    config.slowlogMaxLen = 12;
+    config.save = "";
+    rewriteConfigFile();
+
+    assert.strictEqual(
+      fs.readFileSync(file, "utf8"),
+      '# comment\nport 6392\nsave ""\nslowlogMaxLen 12\n'
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import assert from "assert";
+import { afterEach, describe, test } from "node:test";
+import config from "../src/config.json";
+import { createClient } from "../src/client";
+import {
+  logSlowCommand,
+  resetSlowlog,
+  slowlogEntries,
+  slowlogLength,
+} from "../src/slowlog";
+
+const args = (...values: string[]) => values.map((value) => Buffer.from(value));
+
+describe("SLOWLOG", () => {
+  const { slowlogLogSlowerThan, slowlogMaxLen } = config;
+
+  afterEach(() => {
+    config.slowlogLogSlowerThan = slowlogLogSlowerThan;
+    config.slowlogMaxLen = slowlogMaxLen;
+    resetSlowlog();
+  });
+
+  test("should only log commands slower than the threshold", () => {
+    config.slowlogLogSlowerThan = 1000;
+    const client = createClient();
+    logSlowCommand(client, "GET", args("fast"), 0.5);
+    logSlowCommand(client, "GET", args("slow"), 2);
+
+    assert.strictEqual(slowlogLength(), 1);
+    const [entry] = slowlogEntries(10);
+    assert.strictEqual(entry.duration, 2000);
+    assert.deepStrictEqual(entry.args, args("get", "slow"));
+
+    config.slowlogLogSlowerThan = -1;
+    logSlowCommand(client, "GET", args("slow"), 2);
+    assert.strictEqual(slowlogLength(), 1);
+  });
+
+  test("should keep the newest entries up to slowlogMaxLen", () => {
+    config.slowlogLogSlowerThan = 0;
+    config.slowlogMaxLen = 2;
+    for (const key of ["a", "b", "c"]) {
+      logSlowCommand(createClient(), "GET", args(key), 0);
+    }
+
+    assert.deepStrictEqual(
+      slowlogEntries(-1).map(({ args }) => args[1].toString()),
+      ["c", "b"]
+    );
+    assert.strictEqual(slowlogEntries(1).length, 1);
+  });
+
+  test("should truncate long arguments and argument lists", () => {
+    config.slowlogLogSlowerThan = 0;
+    const many = Array.from({ length: 40 }, (_, i) => `${i}`);
+    logSlowCommand(createClient(), "DEL", args("x".repeat(130), ...many), 0);
+
+    const [entry] = slowlogEntries(1);
+    assert.strictEqual(entry.args.length, 32);
+    assert.strictEqual(
+      entry.args[1].toString(),
+      `${"x".repeat(128)}... (2 more bytes)`
+    );
+    assert.strictEqual(entry.args[31].toString(), "... (11 more arguments)");
+  });
+});
@@ -0,0 +1,195 @@
+import assert from "assert";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, describe, test } from "node:test";
+import {
+  SnapshotEntry,
+  SnapshotError,
+  databaseEntries,
+  encodeSnapshot,
+  hasSnapshotSignature,
+  readSnapshot,
+} from "../src/snapshot-format";
+import { Dict, DictSet } from "../src/dict";
+import { SortedSet } from "../src/sorted-set";
+import { Database } from "../src/store.types";
+
+const createDatabase = (): Database => ({
+  store: new Dict(),
+  expirationTimes: new Dict(),
+  metadata: Object.create(null),
+});
+
+const read = (data: Buffer) => {
+  const entries: SnapshotEntry[] = [];
+  readSnapshot(data, (entry) => entries.push(entry));
+  return entries;
+};
+
+describe("Snapshot format", () => {
+  test("should round-trip every data type with expiry and databases", () => {
+    const zset = new SortedSet();
+    zset.add("a", 1.5);
+    zset.add("b", -Infinity);
+    const first = createDatabase();
+    const second = createDatabase();
+    first.store.set("str", {
+      type: "string",
+      value: Buffer.from([0, 255, 13, 10]),
+    });
+    first.store.set("list", { type: "list", value: [Buffer.from("x")] });
+    first.store.set("hash", {
+      type: "hash",
+      value: new Dict([["f", Buffer.from("v")]]),
+    });
+    second.store.set("\xff", { type: "set", value: new DictSet(["m", "n"]) });
+    second.store.set("zset", { type: "zset", value: zset });
+    second.expirationTimes.set("zset", Date.now() + 60_000);
+
+    const entries = read(encodeSnapshot(databaseEntries([first, second])));
+
+    assert.deepStrictEqual(
+      entries.map(({ db, key }) => [db, key]),
+      [
+        [0, "str"],
+        [0, "list"],
+        [0, "hash"],
+        [1, "\xff"],
+        [1, "zset"],
+      ]
+    );
+    assert.deepStrictEqual(entries[0].entry, first.store.get("str"));
+    assert.deepStrictEqual(entries[2].entry, first.store.get("hash"));
+    assert.deepStrictEqual(entries[3].entry, second.store.get("\xff"));
+    const loaded = entries[4];
+    assert.strictEqual(loaded.expiresAt, second.expirationTimes.get("zset"));
+    assert.ok(loaded.entry.type === "zset");
+    assert.deepStrictEqual(
+      [...loaded.entry.value.entries()],
+      [...zset.entries()]
+    );
+  });
+
+  test("should not write keys that already expired", () => {
+    const database = createDatabase();
+    database.store.set("gone", { type: "string", value: Buffer.from("x") });
+    database.expirationTimes.set("gone", Date.now() - 1);
+
+    assert.deepStrictEqual(
+      read(encodeSnapshot(databaseEntries([database]))),
+      []
+    );
+  });
+
+  test("should encode long values with wider lengths", () => {
+    const database = createDatabase();
+    for (const length of [63, 64, 16383, 16384, 70000]) {
+      database.store.set(`len:${length}`, {
+        type: "string",
+        value: Buffer.alloc(length, "a"),
+      });
+    }
+
+    const entries = read(encodeSnapshot(databaseEntries([database])));
+    assert.deepStrictEqual(
+      entries.map(({ entry }) => entry.type === "string" && entry.value.length),
+      [63, 64, 16383, 16384, 70000]
+    );
+  });
+
+  test("should reject corrupt and truncated files", () => {
+    const database = createDatabase();
+    database.store.set("a", { type: "string", value: Buffer.from("1") });
+    database.store.set("b", { type: "string", value: Buffer.from("2") });
+    const data = encodeSnapshot(databaseEntries([database]));
+
+    const corrupt = Buffer.from(data);
+    corrupt[corrupt.length - 12] ^= 1;
+    assert.throws(
+      () => read(corrupt),
+      (e: unknown) =>
+        e instanceof SnapshotError && e.message === "Checksum mismatch"
+    );
+
+    const keys: string[] = [];
+    assert.throws(
+      () => readSnapshot(data.subarray(0, -14), ({ key }) => keys.push(key)),
+      (e: unknown) =>
+        e instanceof SnapshotError &&
+        e.message === "Unexpected end of file" &&
+        e.entries === 1
+    );
+    assert.deepStrictEqual(keys, ["a"]);
+
+    assert.throws(
+      () => read(Buffer.from('{"version":3}')),
+      (e: unknown) =>
+        e instanceof SnapshotError && e.message.startsWith("Wrong signature")
+    );
+  });
+
+  test("should read a snapshot preamble followed by other data", () => {
+    const database = createDatabase();
+    database.store.set("a", { type: "string", value: Buffer.from("1") });
+    const snapshot = encodeSnapshot(databaseEntries([database]));
+    const data = Buffer.concat([snapshot, Buffer.from("*1\r\n$4\r\nPING\r\n")]);
+
+    assert.ok(hasSnapshotSignature(data));
+    assert.throws(
+      () => read(data),
+      (e: unknown) =>
+        e instanceof SnapshotError &&
+        e.message === "Trailing data after the checksum"
+    );
+    assert.deepStrictEqual(
+      readSnapshot(data, () => {}, true),
+      { entries: 1, length: snapshot.length }
+    );
+    assert.ok(!hasSnapshotSignature(data.subarray(snapshot.length)));
+  });
+});
+
+describe("check-snapshot", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "check-snapshot-"));
+  const configFile = path.join(dir, "redis.conf");
+  const snapshot = encodeSnapshot([
+    { db: 0, key: "a", entry: { type: "string", value: Buffer.from("1") } },
+  ]);
+
+  const checkSnapshot = (args: string[], env: NodeJS.ProcessEnv = {}) =>
+    spawnSync(
+      process.execPath,
+      [
+        "-r",
+        "ts-node/register/transpile-only",
+        "src/check-snapshot.ts",
+        ...args,
+      ],
+      {
+        cwd: path.join(__dirname, ".."),
+        encoding: "utf8",
+        env: { ...process.env, ...env },
+        timeout: 30_000,
+      }
+    );
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should check the snapshot in the configured dir by default", () => {
+    const file = path.join(dir, "snapshot.ss");
+    fs.writeFileSync(file, snapshot);
+
+    const fromEnv = checkSnapshot([], { REDIS_DIR: dir });
+    assert.strictEqual(fromEnv.status, 0);
+    assert.strictEqual(fromEnv.stdout, `${file}: OK, 1 keys\n`);
+
+    fs.writeFileSync(configFile, `dir ${dir}\n`);
+    const fromFile = checkSnapshot(["--config", configFile]);
+    assert.strictEqual(fromFile.status, 0);
+    assert.strictEqual(fromFile.stdout, `${file}: OK, 1 keys\n`);
+  });
+});
@@ -0,0 +1,121 @@
+import assert from "assert";
+import { describe, test } from "node:test";
+import { SortedSet, SortedSetEntry } from "../src/sorted-set";
+
+const inclusive = (min: number, max: number) => ({
+  min,
+  max,
+  minExclusive: false,
+  maxExclusive: false,
+});
+
+const sorted = (entries: SortedSetEntry[]) =>
+  [...entries].sort(([a, x], [b, y]) => x - y || (a < b ? -1 : a > b ? 1 : 0));
+
+describe("SortedSet", () => {
+  test("should order members by score, then by member", () => {
+    const zset = new SortedSet();
+    zset.add("b", 1);
+    zset.add("a", 1);
+    zset.add("c", 0);
+
+    assert.deepStrictEqual(
+      [...zset.entries()],
+      [
+        ["c", 0],
+        ["a", 1],
+        ["b", 1],
+      ]
+    );
+  });
+
+  test("should report whether a member was added", () => {
+    const zset = new SortedSet();
+    assert.strictEqual(zset.add("a", 1), true);
+    assert.strictEqual(zset.add("a", 2), false);
+    assert.strictEqual(zset.score("a"), 2);
+    assert.strictEqual(zset.size, 1);
+  });
+
+  test("should return ranks from either end", () => {
+    const zset = new SortedSet();
+    ["a", "b", "c", "d"].forEach((member, i) => zset.add(member, i));
+
+    assert.strictEqual(zset.rank("a"), 0);
+    assert.strictEqual(zset.rank("d"), 3);
+    assert.strictEqual(zset.rank("a", true), 3);
+    assert.strictEqual(zset.rank("missing"), null);
+  });
+
+  test("should honour exclusive bounds, offset and count", () => {
+    const zset = new SortedSet();
+    ["a", "b", "c", "d", "e"].forEach((member, i) => zset.add(member, i));
+
+    const range = { min: 1, max: 4, minExclusive: true, maxExclusive: false };
+    assert.deepStrictEqual(
+      zset.rangeByScore(range).map(([member]) => member),
+      ["c", "d", "e"]
+    );
+    assert.deepStrictEqual(
+      zset
+        .rangeByScore(range, { reverse: true, offset: 1, count: 1 })
+        .map(([member]) => member),
+      ["d"]
+    );
+    assert.strictEqual(zset.countByScore(range), 3);
+  });
+
+  test("should return lexicographical ranges", () => {
+    const zset = new SortedSet();
+    ["a", "b", "c", "d"].forEach((member) => zset.add(member, 0));
+
+    const range = {
+      min: { value: "b", exclusive: false },
+      max: { value: Infinity, exclusive: false },
+    };
+    assert.deepStrictEqual(
+      zset.rangeByLex(range).map(([member]) => member),
+      ["b", "c", "d"]
+    );
+    assert.strictEqual(zset.countByLex(range), 3);
+  });
+
+  test("should pop from both ends", () => {
+    const zset = new SortedSet();
+    ["a", "b", "c"].forEach((member, i) => zset.add(member, i));
+
+    assert.deepStrictEqual(zset.pop(1), [["a", 0]]);
+    assert.deepStrictEqual(zset.pop(5, true), [
+      ["c", 2],
+      ["b", 1],
+    ]);
+    assert.strictEqual(zset.size, 0);
+  });
+
+  test("should agree with a sorted array after random updates", () => {
+    const zset = new SortedSet();
+    const model = new Map<string, number>();
+
+    for (let i = 0; i < 2000; i++) {
+      const member = `m${Math.floor(Math.random() * 200)}`;
+      if (Math.random() < 0.3) {
+        assert.strictEqual(zset.remove(member), model.delete(member));
+      } else {
+        const score = Math.floor(Math.random() * 50);
+        zset.add(member, score);
+        model.set(member, score);
+      }
+    }
+
+    const expected = sorted([...model]);
+    assert.deepStrictEqual([...zset.entries()], expected);
+    assert.deepStrictEqual(zset.rangeByRank(10, 20), expected.slice(10, 21));
+    expected.forEach(([member], index) => {
+      assert.strictEqual(zset.rank(member), index);
+    });
+    assert.deepStrictEqual(
+      zset.rangeByScore(inclusive(10, 20)),
+      expected.filter(([, score]) => score >= 10 && score <= 20)
+    );
+  });
+});
@@ -1,6 +1,8 @@
 import assert from "assert";
 import { describe, test } from "node:test";
 import { buildRedisCommand } from "../src/utils/build-command";
+import { crc64 } from "../src/utils/crc64";
+import { globMatch } from "../src/utils/glob";
 
 describe("buildRedisCommand", () => {
   test("should construct a valid Redis command for a single argument", () => {
@@ -45,3 +47,29 @@ describe("buildRedisCommand", () => {
     );
   });
 });
+
+describe("globMatch", () => {
+  test("should match wildcards", () => {
+    assert.ok(globMatch("user:*", "user:42"));
+    assert.ok(globMatch("*", ""));
+    assert.ok(globMatch("h?llo", "hallo"));
+    assert.ok(!globMatch("h?llo", "hllo"));
+  });
+
+  test("should match character classes and ranges", () => {
+    assert.ok(globMatch("h[ae]llo", "hello"));
+    assert.ok(!globMatch("h[^e]llo", "hello"));
+    assert.ok(globMatch("key[0-9]", "key7"));
+    assert.ok(!globMatch("key[0-9]", "keyx"));
+  });
+
+  test("should treat escaped characters literally", () => {
+    assert.ok(globMatch("a\\*b", "a*b"));
+    assert.ok(!globMatch("a\\*b", "axb"));
+  });
+
+  test("should optionally ignore case", () => {
+    assert.ok(globMatch("FOO*", "foobar", true));
+    assert.ok(!globMatch("FOO*", "foobar"));
+  });
+});